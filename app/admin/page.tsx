@@ -11,12 +11,14 @@ import { OrdersOverview } from "@/components/admin/orders-overview";
 import { AnalyticsDashboard } from "@/components/admin/analytics-dashboard";
 import { SettingsManagement } from "@/components/admin/settings-management";
 import { AuditLogsViewer } from "@/components/admin/audit-logs-viewer";
+import { RefundsManagement } from "@/components/admin/refunds-management";
 import { DashboardErrorBoundary } from "@/components/error/error-boundary";
 
 type AdminView =
   | "dashboard"
   | "users"
   | "orders"
+  | "refunds"
   | "analytics"
   | "audit-logs"
   | "settings";
@@ -73,6 +75,8 @@ export default function AdminPage() {
         return <UserManagement />;
       case "orders":
         return <OrdersOverview />;
+      case "refunds":
+        return <RefundsManagement />;
       case "analytics":
         return <AnalyticsDashboard />;
       case "audit-logs":
@@ -146,6 +150,16 @@ export default function AdminPage() {
             >
               Orders
             </button>
+            <button
+              onClick={() => setActiveView("refunds")}
+              className={`py-4 px-2 sm:px-1 border-b-2 font-medium text-sm whitespace-nowrap ${
+                activeView === "refunds"
+                  ? "border-blue-500 text-blue-600"
+                  : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+              }`}
+            >
+              Refunds
+            </button>
             <button
               onClick={() => setActiveView("audit-logs")}
               className={`py-4 px-2 sm:px-1 border-b-2 font-medium text-sm whitespace-nowrap ${
@@ -113,7 +113,12 @@ export async function GET(request: NextRequest) {
 
     // Calculate conversion metrics
     const totalOrders = orderStats.total;
-    const completedOrders = orderStats.byStatus.completed || 0;
+    const refundedOrders =
+      (orderStats.byStatus.refunded || 0) +
+      (orderStats.byStatus["partially-refunded"] || 0);
+    // Refunded orders were paid before being refunded, so they still convert
+    const completedOrders =
+      (orderStats.byStatus.completed || 0) + refundedOrders;
     const failedOrders = orderStats.byStatus.failed || 0;
     const pendingVerification =
       orderStats.byStatus["pending-verification"] || 0;
@@ -125,6 +130,8 @@ export async function GET(request: NextRequest) {
       totalOrders > 0 ? (failedOrders / totalOrders) * 100 : 0;
     const verificationPendingRate =
       totalOrders > 0 ? (pendingVerification / totalOrders) * 100 : 0;
+    const refundRate =
+      completedOrders > 0 ? (refundedOrders / completedOrders) * 100 : 0;
 
     // Calculate activity trends by day
     const activityByDay = actionStats.reduce(
@@ -194,6 +201,8 @@ export async function GET(request: NextRequest) {
         conversionRate,
         failureRate,
         verificationPendingRate,
+        refundRate: Math.round(refundRate * 100) / 100,
+        refunds: orderStats.refunds,
       },
       activityTimeline: {
         orderActivity: enhancedOrderActivity.slice(0, 50),
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import { exportAuditCheckpoints } from "@/lib/db/queries/audit-chain";
+
+// GET /api/admin/audit-logs/checkpoints/export - Download signed
+// checkpoints and the public key that verifies them
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const bundle = await exportAuditCheckpoints();
+    const fileName = `audit-checkpoints-${new Date().toISOString().slice(0, 10)}.json`;
+
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting audit checkpoints:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    if (
+      error instanceof Error &&
+      error.message === "AUDIT_SIGNING_KEY is not set"
+    ) {
+      return NextResponse.json(
+        { error: "Audit checkpoint signing is not configured" },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to export audit checkpoints" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import {
+  createAuditCheckpoint,
+  getAuditCheckpoints,
+  serializeAuditCheckpoint,
+} from "@/lib/db/queries/audit-chain";
+import { ConflictError } from "@/lib/utils/api-errors";
+
+// GET /api/admin/audit-logs/checkpoints - List signed checkpoints
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const checkpoints = await getAuditCheckpoints();
+
+    return NextResponse.json({
+      success: true,
+      data: checkpoints.map(serializeAuditCheckpoint),
+    });
+  } catch (error) {
+    console.error("Error fetching audit checkpoints:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch audit checkpoints" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/audit-logs/checkpoints - Sign the chain's current head
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const checkpoint = await createAuditCheckpoint(auth.userId!);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: checkpoint ? serializeAuditCheckpoint(checkpoint) : null,
+        message: checkpoint
+          ? `Checkpoint signed at entry ${checkpoint.sequence}`
+          : "Nothing logged since the last checkpoint",
+      },
+      { status: checkpoint ? 201 : 200 }
+    );
+  } catch (error) {
+    console.error("Error creating audit checkpoint:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message, details: error.details },
+        { status: error.statusCode }
+      );
+    }
+
+    if (
+      error instanceof Error &&
+      error.message === "AUDIT_SIGNING_KEY is not set"
+    ) {
+      return NextResponse.json(
+        { error: "Audit checkpoint signing is not configured" },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create audit checkpoint" },
+      { status: 500 }
+    );
+  }
+}
@@ -25,6 +25,17 @@ const AuditLogQuerySchema = z.object({
       "settings_updated",
       "login_attempt",
       "logout",
+      "refund_requested",
+      "refund_processed",
+      "refund_rejected",
+      "api_key_created",
+      "api_key_revoked",
+      "data_reencrypted",
+      "data_purged",
+      "data_request_created",
+      "data_exported",
+      "data_erased",
+      "audit_redacted",
     ])
     .optional(),
   entityType: z.enum(["order", "user", "settings", "auth"]).optional(),
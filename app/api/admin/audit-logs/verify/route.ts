@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import { verifyAuditChain } from "@/lib/db/queries/audit-chain";
+
+// GET /api/admin/audit-logs/verify - Walk the audit log hash chain and
+// report the first broken link
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    return NextResponse.json({
+      success: true,
+      data: await verifyAuditChain(),
+    });
+  } catch (error) {
+    console.error("Error verifying audit chain:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to verify audit chain" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import {
+  eraseDataSubjectData,
+  serializeDataSubjectRequest,
+} from "@/lib/db/queries/data-subject-requests";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+import { ConflictError } from "@/lib/utils/api-errors";
+
+interface RouteParams {
+  params: Promise<{
+    requestId: string;
+  }>;
+}
+
+// POST /api/admin/data-requests/[requestId]/erase - Erase the request's
+// identifier from every record holding it
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const { requestId } = await params;
+    const dataRequest = /^[a-f0-9]{24}$/i.test(requestId)
+      ? await eraseDataSubjectData(
+          requestId,
+          auth.userId!,
+          extractClientMetadata(request)
+        )
+      : null;
+    if (!dataRequest) {
+      return NextResponse.json(
+        { error: "Data request not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: serializeDataSubjectRequest(dataRequest),
+      message: "Personal data erased",
+    });
+  } catch (error) {
+    console.error("Error erasing data request:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to erase data" },
+      { status: 500 }
+    );
+  }
+}
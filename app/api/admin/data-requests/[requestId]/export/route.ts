@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import { exportDataSubjectData } from "@/lib/db/queries/data-subject-requests";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+import { ConflictError } from "@/lib/utils/api-errors";
+
+interface RouteParams {
+  params: Promise<{
+    requestId: string;
+  }>;
+}
+
+// GET /api/admin/data-requests/[requestId]/export - Download everything
+// held about the request's identifier as JSON
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const { requestId } = await params;
+    const bundle = /^[a-f0-9]{24}$/i.test(requestId)
+      ? await exportDataSubjectData(
+          requestId,
+          auth.userId!,
+          extractClientMetadata(request)
+        )
+      : null;
+    if (!bundle) {
+      return NextResponse.json(
+        { error: "Data request not found" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="data-export-${requestId}.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting data request:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to export data" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import {
+  countSubjectRecords,
+  getDataSubjectRequest,
+  serializeDataSubjectRequest,
+} from "@/lib/db/queries/data-subject-requests";
+
+interface RouteParams {
+  params: Promise<{
+    requestId: string;
+  }>;
+}
+
+// GET /api/admin/data-requests/[requestId] - A request and how many
+// records currently hold its identifier
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const { requestId } = await params;
+    const dataRequest = /^[a-f0-9]{24}$/i.test(requestId)
+      ? await getDataSubjectRequest(requestId)
+      : null;
+    if (!dataRequest) {
+      return NextResponse.json(
+        { error: "Data request not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...serializeDataSubjectRequest(dataRequest),
+        matches: await countSubjectRecords(dataRequest),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching data request:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch data request" },
+      { status: 500 }
+    );
+  }
+}
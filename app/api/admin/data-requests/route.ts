@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import {
+  createDataSubjectRequest,
+  getDataSubjectRequests,
+  serializeDataSubjectRequest,
+} from "@/lib/db/queries/data-subject-requests";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+
+// GET /api/admin/data-requests - List data subject requests
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const requests = await getDataSubjectRequests();
+
+    return NextResponse.json({
+      success: true,
+      data: requests.map(serializeDataSubjectRequest),
+    });
+  } catch (error) {
+    console.error("Error fetching data requests:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch data requests" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/data-requests - Record an export or erasure request
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const body = await request.json();
+    const dataRequest = await createDataSubjectRequest(
+      body,
+      auth.userId!,
+      extractClientMetadata(request)
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: serializeDataSubjectRequest(dataRequest),
+        message: "Data request recorded",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating data request:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create data request" },
+      { status: 500 }
+    );
+  }
+}
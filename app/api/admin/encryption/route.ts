@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import {
+  getEncryptionStatus,
+  serializeEncryptionMigration,
+  startReEncryptionMigration,
+} from "@/lib/db/queries/encryption-migrations";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+
+// GET /api/admin/encryption - Key ring and re-encryption migration progress
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    return NextResponse.json({
+      success: true,
+      data: await getEncryptionStatus(),
+    });
+  } catch (error) {
+    console.error("Error fetching encryption status:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch encryption status" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/encryption - Re-encrypt stored data under the current key
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const migration = await startReEncryptionMigration(
+      auth.userId!,
+      extractClientMetadata(request)
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: serializeEncryptionMigration(migration),
+        message: `Re-encrypting stored data under key ${migration.targetKeyId}`,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error starting re-encryption migration:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    if (
+      error instanceof Error &&
+      error.message === "A re-encryption migration is already running"
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to start re-encryption migration" },
+      { status: 500 }
+    );
+  }
+}
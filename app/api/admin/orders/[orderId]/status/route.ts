@@ -4,17 +4,20 @@ import {
   getUserFromRequest,
 } from "@/lib/middleware/auth-middleware";
 import { updateOrderStatus } from "@/lib/db/queries/orders";
+import { OrderStatus } from "@/lib/db/models/order";
+import {
+  OrderTransitionError,
+  OrderVersionConflictError,
+} from "@/lib/utils/order-state-machine";
 import { z } from "zod";
 
-// Schema for updating order status
+// Schema for updating order status; which changes are allowed is up to the
+// order state machine
 const UpdateOrderStatusSchema = z.object({
-  status: z.enum(
-    ["pending", "pending-verification", "completed", "expired", "failed"],
-    {
-      errorMap: () => ({ message: "Invalid status" }),
-    }
-  ),
+  status: OrderStatus,
   reason: z.string().optional(),
+  // Order version the admin was looking at; a newer order is a 409
+  version: z.number().int().min(0).optional(),
 });
 
 // PUT /api/admin/orders/[orderId]/status - Update order status
@@ -41,7 +44,9 @@ export const PUT = withAdminMiddleware(
         orderId,
         validatedData.status,
         user.id,
-        validatedData.reason
+        validatedData.reason,
+        {},
+        validatedData.version
       );
 
       return NextResponse.json({
@@ -53,6 +58,7 @@ export const PUT = withAdminMiddleware(
           utr: updatedOrder.utr,
           createdAt: updatedOrder.createdAt,
           expiresAt: updatedOrder.expiresAt,
+          version: updatedOrder.__v,
         },
         message: "Order status updated successfully",
       });
@@ -66,6 +72,16 @@ export const PUT = withAdminMiddleware(
         );
       }
 
+      if (
+        error instanceof OrderTransitionError ||
+        error instanceof OrderVersionConflictError
+      ) {
+        return NextResponse.json(
+          { error: error.message, code: error.code, details: error.details },
+          { status: error.statusCode }
+        );
+      }
+
       if (
         error instanceof Error &&
         error.message.includes("Admin role required")
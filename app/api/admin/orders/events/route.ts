@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAdminMiddleware } from "@/lib/middleware/auth-middleware";
+import { createOrderEventStream } from "@/lib/utils/order-events";
+
+// GET /api/admin/orders/events - Server-Sent Events stream of every order change
+export const GET = withAdminMiddleware(
+  async (request: NextRequest): Promise<NextResponse> => {
+    return createOrderEventStream(request, { includeMerchant: true });
+  }
+);
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAdminMiddleware } from "@/lib/middleware/auth-middleware";
+import { streamOrders } from "@/lib/db/queries/orders";
+import Order, { OrderSearchSchema } from "@/lib/db/models/order";
+import { redactProtectedFields } from "@/lib/db/plugins/protected-fields";
+import { toCsv } from "@/lib/utils/csv";
+import { z } from "zod";
+
+// Schema for exporting orders
+const ExportOrdersSchema = z.intersection(
+  OrderSearchSchema,
+  z.object({
+    format: z.enum(["csv", "jsonl"]).default("csv"),
+  })
+);
+
+const CSV_COLUMNS = [
+  "order_id",
+  "status",
+  "amount",
+  "refunded_amount",
+  "merchant_name",
+  "vpa",
+  "created_by",
+  "payer_name",
+  "payer_phone",
+  "payer_email",
+  "note",
+  "utr",
+  "payment_link",
+  "created_at",
+  "expires_at",
+];
+
+// Exports are admin-only, so payer data is decrypted in full
+const toExportRecord = (stored: Record<string, any>) => {
+  const order = redactProtectedFields(Order.schema, stored, { reveal: true });
+
+  return {
+    orderId: order.orderId,
+    status: order.status,
+    amount: order.amount,
+    refundedAmount: order.refundedAmount || 0,
+    merchantName: order.merchantName,
+    vpa: order.vpa,
+    createdBy: order.createdBy,
+    payerName: order.payerDetails?.name || order.payerName,
+    payerPhone: order.payerDetails?.phone,
+    payerEmail: order.payerDetails?.email,
+    note: order.note,
+    utr: order.utr,
+    paymentLinkSlug: order.paymentLinkSlug,
+    createdAt: new Date(order.createdAt).toISOString(),
+    expiresAt: new Date(order.expiresAt).toISOString(),
+  };
+};
+
+// GET /api/admin/orders/export - Stream matching orders as CSV or JSON Lines
+export const GET = withAdminMiddleware(
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const { format, ...filters } = ExportOrdersSchema.parse(
+        Object.fromEntries(searchParams.entries())
+      );
+
+      const cursor = await streamOrders(filters);
+      const encoder = new TextEncoder();
+
+      // Pull one order at a time so memory stays flat however large the export
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          if (format === "csv") {
+            controller.enqueue(encoder.encode(toCsv([CSV_COLUMNS])));
+          }
+        },
+        async pull(controller) {
+          try {
+            const order = await cursor.next();
+            if (!order) {
+              controller.close();
+              return;
+            }
+
+            const record = toExportRecord(order);
+            controller.enqueue(
+              encoder.encode(
+                format === "csv"
+                  ? toCsv([Object.values(record)])
+                  : JSON.stringify(record) + "\n"
+              )
+            );
+          } catch (error) {
+            console.error("Error streaming order export:", error);
+            await cursor.close();
+            controller.error(error);
+          }
+        },
+        async cancel() {
+          await cursor.close();
+        },
+      });
+
+      const fileName = `orders-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      return new NextResponse(stream, {
+        headers: {
+          "Content-Type":
+            format === "csv"
+              ? "text/csv; charset=utf-8"
+              : "application/x-ndjson; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    } catch (error) {
+      console.error("Error exporting orders:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid query parameters", details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Failed to export orders" },
+        { status: 500 }
+      );
+    }
+  }
+);
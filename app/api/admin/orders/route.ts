@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAdminMiddleware } from "@/lib/middleware/auth-middleware";
+import { getAllOrders } from "@/lib/db/queries/orders";
+import Order, { OrderSearchSchema } from "@/lib/db/models/order";
+import { redactProtectedFields } from "@/lib/db/plugins/protected-fields";
+import { z } from "zod";
+
+// Schema for searching orders
+const SearchOrdersSchema = z.intersection(
+  OrderSearchSchema,
+  z.object({
+    page: z.coerce.number().min(1).default(1),
+    limit: z.coerce.number().min(1).max(100).default(20),
+  })
+);
+
+// GET /api/admin/orders - Search orders across all merchants
+export const GET = withAdminMiddleware(
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const query = SearchOrdersSchema.parse(
+        Object.fromEntries(searchParams.entries())
+      );
+
+      const result = await getAllOrders(query);
+
+      // Admins see payer data decrypted
+      return NextResponse.json({
+        ...result,
+        orders: result.orders.map((order) =>
+          redactProtectedFields(Order.schema, order.toObject(), {
+            reveal: true,
+          })
+        ),
+      });
+    } catch (error) {
+      console.error("Error searching orders:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid query parameters", details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Failed to search orders" },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  withAdminMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import { reconcileBankCredits } from "@/lib/db/queries/reconciliation";
+import {
+  detectStatementFormat,
+  parseBankStatement,
+  type StatementFormat,
+} from "@/lib/utils/bank-statement-parser";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+
+const MAX_STATEMENT_SIZE = 5 * 1024 * 1024; // 5 MB
+const STATEMENT_FORMATS: StatementFormat[] = ["csv", "xlsx", "mt940"];
+
+// POST /api/admin/reconciliation - Import a bank statement and reconcile UTRs
+export const POST = withAdminMiddleware(
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const formData = await request.formData();
+      const file = formData.get("statement");
+
+      if (!file || typeof file === "string") {
+        return NextResponse.json(
+          { error: "A bank statement file is required" },
+          { status: 400 }
+        );
+      }
+
+      if (file.size === 0 || file.size > MAX_STATEMENT_SIZE) {
+        return NextResponse.json(
+          { error: "Statement must be between 1 byte and 5 MB" },
+          { status: 400 }
+        );
+      }
+
+      const content = Buffer.from(await file.arrayBuffer());
+      const requestedFormat = formData.get("format");
+      const format = STATEMENT_FORMATS.includes(
+        requestedFormat as StatementFormat
+      )
+        ? (requestedFormat as StatementFormat)
+        : detectStatementFormat(file.name, content);
+
+      let credits;
+      try {
+        credits = parseBankStatement(content, format);
+      } catch (error) {
+        return NextResponse.json(
+          {
+            error: "Failed to parse bank statement",
+            details: error instanceof Error ? error.message : undefined,
+          },
+          { status: 400 }
+        );
+      }
+
+      const summary = await reconcileBankCredits(credits, user.id, {
+        fileName: file.name,
+        ...extractClientMetadata(request),
+      });
+
+      return NextResponse.json({
+        format,
+        summary,
+        message: `Reconciled ${summary.totalCredits} credits: ${summary.autoCompleted} completed, ${summary.flagged} flagged for review`,
+      });
+    } catch (error) {
+      console.error("Error reconciling bank statement:", error);
+
+      return NextResponse.json(
+        { error: "Failed to reconcile bank statement" },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  withAdminMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import { processRefund, rejectRefund } from "@/lib/db/queries/refunds";
+import {
+  ProcessRefundSchema,
+  RejectRefundSchema,
+} from "@/lib/db/models/refund";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+import {
+  OrderTransitionError,
+  OrderVersionConflictError,
+} from "@/lib/utils/order-state-machine";
+import { z } from "zod";
+
+// Schema for settling a refund
+const SettleRefundSchema = z.discriminatedUnion("action", [
+  ProcessRefundSchema.extend({ action: z.literal("process") }),
+  RejectRefundSchema.extend({ action: z.literal("reject") }),
+]);
+
+// PATCH /api/admin/refunds/[refundId] - Process or reject a refund
+export const PATCH = withAdminMiddleware(
+  async (
+    request: NextRequest,
+    context: { params: Promise<{ refundId: string }> }
+  ): Promise<NextResponse> => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const { refundId } = await context.params;
+
+      const body = await request.json();
+      const validatedData = SettleRefundSchema.parse(body);
+      const clientMetadata = extractClientMetadata(request);
+
+      const refund =
+        validatedData.action === "process"
+          ? await processRefund(
+              refundId,
+              validatedData.refundUtr,
+              user.id,
+              clientMetadata
+            )
+          : await rejectRefund(
+              refundId,
+              validatedData.rejectionReason,
+              user.id,
+              clientMetadata
+            );
+
+      return NextResponse.json({
+        refund,
+        message: `Refund ${refund.status} successfully`,
+      });
+    } catch (error) {
+      console.error("Error settling refund:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Validation failed", details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (
+        error instanceof OrderTransitionError ||
+        error instanceof OrderVersionConflictError
+      ) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: error.statusCode }
+        );
+      }
+
+      if (error instanceof Error && error.message.includes("not found")) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 404 }
+        );
+      }
+
+      if (
+        error instanceof Error &&
+        (error.message.includes("already") ||
+          error.message.includes("unrefunded balance"))
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+
+      return NextResponse.json(
+        { error: "Failed to settle refund" },
+        { status: 500 }
+      );
+    }
+  }
+);
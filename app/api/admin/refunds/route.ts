@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  withAdminMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import { createRefund, getAllRefunds } from "@/lib/db/queries/refunds";
+import { RefundStatus } from "@/lib/db/models/refund";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+import { z } from "zod";
+
+// Schema for requesting a refund
+const CreateRefundRequestSchema = z.object({
+  orderId: z.string().min(1),
+  amount: z.number().positive(),
+  reason: z.string().min(1).max(500),
+});
+
+// Schema for listing refunds
+const ListRefundsSchema = z.object({
+  status: RefundStatus.optional(),
+  orderId: z.string().optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+// GET /api/admin/refunds - List refunds
+export const GET = withAdminMiddleware(
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const query = ListRefundsSchema.parse(
+        Object.fromEntries(searchParams.entries())
+      );
+
+      const result = await getAllRefunds(query);
+
+      return NextResponse.json(result);
+    } catch (error) {
+      console.error("Error fetching refunds:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Invalid query parameters", details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "Failed to fetch refunds" },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+// POST /api/admin/refunds - Request a full or partial refund
+export const POST = withAdminMiddleware(
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const body = await request.json();
+      const validatedData = CreateRefundRequestSchema.parse(body);
+
+      const refund = await createRefund(
+        { ...validatedData, requestedBy: user.id },
+        extractClientMetadata(request)
+      );
+
+      return NextResponse.json(
+        { refund, message: "Refund requested successfully" },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error("Error creating refund:", error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: "Validation failed", details: error.errors },
+          { status: 400 }
+        );
+      }
+
+      if (error instanceof Error && error.message.includes("not found")) {
+        return NextResponse.json({ error: "Order not found" }, { status: 404 });
+      }
+
+      if (
+        error instanceof Error &&
+        (error.message.includes("cannot be refunded") ||
+          error.message.includes("exceeds refundable balance"))
+      ) {
+        return NextResponse.json({ error: error.message }, { status: 422 });
+      }
+
+      return NextResponse.json(
+        { error: "Failed to create refund" },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import {
+  deleteRetentionRule,
+  serializeRetentionRule,
+  updateRetentionRule,
+} from "@/lib/db/queries/retention";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+
+interface RouteParams {
+  params: Promise<{
+    ruleId: string;
+  }>;
+}
+
+const isValidRuleId = (ruleId: string) => /^[a-f0-9]{24}$/i.test(ruleId);
+
+// PUT /api/admin/retention/[ruleId] - Replace a retention rule
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const { ruleId } = await params;
+    if (!isValidRuleId(ruleId)) {
+      return NextResponse.json(
+        { error: "Retention rule not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const rule = await updateRetentionRule(
+      ruleId,
+      body,
+      auth.userId!,
+      extractClientMetadata(request)
+    );
+    if (!rule) {
+      return NextResponse.json(
+        { error: "Retention rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: serializeRetentionRule(rule),
+      message: "Retention rule updated",
+    });
+  } catch (error) {
+    console.error("Error updating retention rule:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update retention rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/retention/[ruleId] - Remove a retention rule
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const { ruleId } = await params;
+    const deleted =
+      isValidRuleId(ruleId) &&
+      (await deleteRetentionRule(
+        ruleId,
+        auth.userId!,
+        extractClientMetadata(request)
+      ));
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Retention rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Retention rule deleted",
+    });
+  } catch (error) {
+    console.error("Error deleting retention rule:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to delete retention rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import {
+  runRetentionRule,
+  serializeRetentionRule,
+} from "@/lib/db/queries/retention";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+
+interface RouteParams {
+  params: Promise<{
+    ruleId: string;
+  }>;
+}
+
+// POST /api/admin/retention/[ruleId]/run - Apply a rule now
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const { ruleId } = await params;
+    const result = /^[a-f0-9]{24}$/i.test(ruleId)
+      ? await runRetentionRule(
+          ruleId,
+          auth.userId!,
+          extractClientMetadata(request)
+        )
+      : null;
+    if (!result) {
+      return NextResponse.json(
+        { error: "Retention rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rule: serializeRetentionRule(result.rule),
+        affected: result.affected,
+      },
+      message: `${result.rule.mode === "delete" ? "Deleted" : "Anonymized"} ${result.affected} records`,
+    });
+  } catch (error) {
+    console.error("Error running retention rule:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to run retention rule" },
+      { status: 500 }
+    );
+  }
+}
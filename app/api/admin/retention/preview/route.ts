@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import { previewRetentionRule } from "@/lib/db/queries/retention";
+
+// POST /api/admin/retention/preview - Dry run: what a rule would affect now
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const body = await request.json();
+
+    return NextResponse.json({
+      success: true,
+      data: await previewRetentionRule(body),
+    });
+  } catch (error) {
+    console.error("Error previewing retention rule:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to preview retention rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import {
+  createRetentionRule,
+  getRetentionRules,
+  serializeRetentionRule,
+} from "@/lib/db/queries/retention";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+
+// GET /api/admin/retention - List retention rules and their last runs
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const rules = await getRetentionRules();
+
+    return NextResponse.json({
+      success: true,
+      data: rules.map(serializeRetentionRule),
+    });
+  } catch (error) {
+    console.error("Error fetching retention rules:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch retention rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/retention - Add a retention rule
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const body = await request.json();
+    const rule = await createRetentionRule(
+      body,
+      auth.userId!,
+      extractClientMetadata(request)
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: serializeRetentionRule(rule),
+        message: "Retention rule created",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating retention rule:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create retention rule" },
+      { status: 500 }
+    );
+  }
+}
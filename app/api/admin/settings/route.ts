@@ -6,6 +6,7 @@ import {
   updateSystemSettings,
   resetSettingsToDefaults,
 } from "@/lib/db/queries/settings";
+import { RateLimitPoliciesSchema } from "@/lib/db/models/settings";
 
 // Validation schema for settings updates
 const UpdateSettingsSchema = z.object({
@@ -23,6 +24,8 @@ const UpdateSettingsSchema = z.object({
       bhim: z.boolean().optional(),
     })
     .optional(),
+  allowLegacyPaymentUrls: z.boolean().optional(),
+  rateLimitPolicies: RateLimitPoliciesSchema.optional(),
 });
 
 // GET /api/admin/settings - Get current system settings
@@ -39,6 +42,8 @@ export async function GET(request: NextRequest) {
         timerDuration: settings.timerDuration,
         staticUpiId: settings.staticUpiId || "",
         enabledUpiApps: settings.enabledUpiApps,
+        allowLegacyPaymentUrls: settings.allowLegacyPaymentUrls,
+        rateLimitPolicies: settings.rateLimitPolicies,
         updatedBy: settings.updatedBy,
         updatedAt: settings.updatedAt,
       },
@@ -103,6 +108,8 @@ export async function PUT(request: NextRequest) {
         timerDuration: updatedSettings.timerDuration,
         staticUpiId: updatedSettings.staticUpiId || "",
         enabledUpiApps: updatedSettings.enabledUpiApps,
+        allowLegacyPaymentUrls: updatedSettings.allowLegacyPaymentUrls,
+        rateLimitPolicies: updatedSettings.rateLimitPolicies,
         updatedBy: updatedSettings.updatedBy,
         updatedAt: updatedSettings.updatedAt,
       },
@@ -146,6 +153,8 @@ export async function POST(request: NextRequest) {
         timerDuration: resetSettings.timerDuration,
         staticUpiId: resetSettings.staticUpiId || "",
         enabledUpiApps: resetSettings.enabledUpiApps,
+        allowLegacyPaymentUrls: resetSettings.allowLegacyPaymentUrls,
+        rateLimitPolicies: resetSettings.rateLimitPolicies,
         updatedBy: resetSettings.updatedBy,
         updatedAt: resetSettings.updatedAt,
       },
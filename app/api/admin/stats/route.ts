@@ -42,7 +42,12 @@ export async function GET(request: NextRequest) {
       ] = await Promise.all([
         getOrderStats().catch((err) => {
           console.error("Error fetching order stats:", err);
-          return { total: 0, byStatus: {}, recentCount: 0 };
+          return {
+            total: 0,
+            byStatus: {},
+            recentCount: 0,
+            refunds: { byStatus: {}, totalRefunded: 0 },
+          };
         }),
         clerk.users.getCount().catch((err) => {
           console.error("Error fetching user count:", err);
@@ -137,8 +142,11 @@ export async function GET(request: NextRequest) {
       };
     });
 
-    // Calculate success rate
-    const totalCompleted = orderStats.byStatus.completed || 0;
+    // Calculate success rate (refunded orders were still paid successfully)
+    const totalCompleted =
+      (orderStats.byStatus.completed || 0) +
+      (orderStats.byStatus["partially-refunded"] || 0) +
+      (orderStats.byStatus.refunded || 0);
     const totalFailed = orderStats.byStatus.failed || 0;
     const totalProcessed = totalCompleted + totalFailed;
     const successRate =
@@ -152,6 +160,8 @@ export async function GET(request: NextRequest) {
         pendingVerification: orderStats.byStatus["pending-verification"] || 0,
         successRate: Math.round(successRate * 100) / 100,
         recentOrders: orderStats.recentCount,
+        totalRefunded: orderStats.refunds.totalRefunded,
+        pendingRefunds: orderStats.refunds.byStatus.requested?.count || 0,
       },
       ordersByStatus: orderStats.byStatus,
       userStats: userStatsWithDetails,
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import { SessionManager } from "@/lib/utils/session-manager";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+
+// DELETE /api/admin/users/[userId]/sessions/[sessionId] - Revoke one session
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string; sessionId: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const { userId: targetUserId, sessionId } = await params;
+
+    await SessionManager.invalidateSession(sessionId, {
+      userId: targetUserId,
+      revokedBy: auth.userId!,
+      ...extractClientMetadata(request),
+    });
+
+    return NextResponse.json({ message: "Session revoked" });
+  } catch (error) {
+    console.error("Error revoking session:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    if (error instanceof Error && error.message === "Session not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.includes("already ended")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to revoke session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateRequest, requireAdmin } from "@/lib/auth/utils";
+import { SessionManager } from "@/lib/utils/session-manager";
+import { serializeUserSession } from "@/lib/db/queries/user-sessions";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+
+// GET /api/admin/users/[userId]/sessions - List a user's active sessions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const { userId: targetUserId } = await params;
+    const sessions = await SessionManager.getUserSessions(targetUserId);
+
+    return NextResponse.json({
+      sessions: sessions.map((session) => serializeUserSession(session)),
+    });
+  } catch (error) {
+    console.error("Error fetching user sessions:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/users/[userId]/sessions - Sign a user out everywhere
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const auth = await authenticateRequest(request);
+    requireAdmin(auth);
+
+    const { userId: targetUserId } = await params;
+    const revoked = await SessionManager.invalidateUserSessions(targetUserId, {
+      revokedBy: auth.userId!,
+      ...extractClientMetadata(request),
+    });
+
+    return NextResponse.json({
+      revoked,
+      message: "User signed out of all sessions",
+    });
+  } catch (error) {
+    console.error("Error revoking user sessions:", error);
+
+    if (error instanceof Error && error.message === "Admin access required") {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to revoke sessions" },
+      { status: 500 }
+    );
+  }
+}
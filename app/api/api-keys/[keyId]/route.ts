@@ -0,0 +1,68 @@
+import { NextRequest } from "next/server";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import { revokeApiKey, serializeApiKey } from "@/lib/db/queries/api-keys";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+import {
+  handleAPIError,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  successResponse,
+} from "@/lib/utils/api-errors";
+
+interface RouteParams {
+  params: Promise<{
+    keyId: string;
+  }>;
+}
+
+/**
+ * DELETE /api/api-keys/[keyId]
+ * Revoke an API key; requests using it fail from now on
+ */
+export const DELETE = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest, { params }: RouteParams) => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const { keyId } = await params;
+      if (!/^[a-f0-9]{24}$/i.test(keyId)) {
+        throw new ValidationError("Invalid API key ID");
+      }
+
+      try {
+        const apiKey = await revokeApiKey(
+          keyId,
+          user.id,
+          extractClientMetadata(request)
+        );
+
+        return successResponse(
+          { apiKey: serializeApiKey(apiKey) },
+          "API key revoked"
+        );
+      } catch (error) {
+        if (error instanceof Error) {
+          if (error.message === "API key not found") {
+            throw new NotFoundError(error.message);
+          }
+          if (error.message.includes("already revoked")) {
+            throw new ConflictError(error.message);
+          }
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
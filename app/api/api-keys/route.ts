@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import {
+  createApiKey,
+  getApiKeysByUser,
+  serializeApiKey,
+} from "@/lib/db/queries/api-keys";
+import { CreateApiKeySchema } from "@/lib/db/models/api-key";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+import {
+  handleAPIError,
+  AuthenticationError,
+  BusinessLogicError,
+  successResponse,
+  validateRequestBody,
+} from "@/lib/utils/api-errors";
+
+const MintApiKeySchema = CreateApiKeySchema.omit({ createdBy: true });
+
+/**
+ * GET /api/api-keys
+ * List the current merchant's API keys (never the keys themselves)
+ */
+export const GET = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const apiKeys = await getApiKeysByUser(user.id);
+
+      return successResponse({ apiKeys: apiKeys.map(serializeApiKey) });
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  }
+);
+
+/**
+ * POST /api/api-keys
+ * Mint a scoped API key; the key is only returned once
+ */
+export const POST = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const body = await request.json();
+      const data = validateRequestBody(body, MintApiKeySchema);
+
+      try {
+        const { apiKey, key } = await createApiKey(
+          { ...data, createdBy: user.id },
+          extractClientMetadata(request)
+        );
+
+        return successResponse(
+          { apiKey: serializeApiKey(apiKey), key },
+          "API key created. Store it now; it will not be shown again.",
+          201
+        );
+      } catch (error) {
+        if (error instanceof Error && error.message.includes("at most")) {
+          throw new BusinessLogicError(error.message);
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
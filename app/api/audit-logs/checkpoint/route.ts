@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { createAuditCheckpoint } from "@/lib/db/queries/audit-chain";
+import {
+  AuthenticationError,
+  successResponse,
+  withErrorHandler,
+} from "@/lib/utils/api-errors";
+
+/**
+ * POST /api/audit-logs/checkpoint
+ * Sign the audit chain's current head (for a periodic cron job)
+ */
+export const POST = withErrorHandler(async (request: NextRequest) => {
+  const authHeader = request.headers.get("authorization");
+  const expectedToken = process.env.CRON_SECRET_TOKEN;
+
+  if (!expectedToken || authHeader !== `Bearer ${expectedToken}`) {
+    throw new AuthenticationError("Invalid cron token");
+  }
+
+  const checkpoint = await createAuditCheckpoint("system");
+
+  return successResponse(
+    checkpoint
+      ? { sequence: checkpoint.sequence, hash: checkpoint.hash }
+      : null,
+    checkpoint
+      ? `Checkpoint signed at entry ${checkpoint.sequence}`
+      : "Nothing logged since the last checkpoint"
+  );
+});
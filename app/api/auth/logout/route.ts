@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { SessionManager } from "@/lib/utils/session-manager";
 import { withRateLimit, rateLimiters } from "@/lib/utils/rate-limiter";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
 
 export async function POST(req: NextRequest) {
   return withRateLimit(req, rateLimiters.auth, async () => {
@@ -15,8 +16,12 @@ export async function POST(req: NextRequest) {
         );
       }
 
-      // Invalidate session in our session manager
-      await SessionManager.invalidateSession(sessionId);
+      // End the session in the registry and in Clerk
+      await SessionManager.signOut(
+        userId,
+        sessionId,
+        extractClientMetadata(req)
+      );
 
       // Create response with cleared cookies
       const response = NextResponse.json(
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { SessionManager } from "@/lib/utils/session-manager";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+
+// DELETE /api/auth/sessions/[sessionId] - Sign out one of your sessions
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { sessionId } = await params;
+
+    await SessionManager.invalidateSession(sessionId, {
+      userId,
+      revokedBy: userId,
+      ...extractClientMetadata(req),
+    });
+
+    return NextResponse.json({ message: "Session signed out" });
+  } catch (error) {
+    console.error("Error revoking session:", error);
+
+    if (error instanceof Error && error.message === "Session not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    if (error instanceof Error && error.message.includes("already ended")) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to sign out session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { SessionManager } from "@/lib/utils/session-manager";
+import { serializeUserSession } from "@/lib/db/queries/user-sessions";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+
+// GET /api/auth/sessions - List the signed-in user's active sessions
+export async function GET() {
+  try {
+    const { userId, sessionId } = await auth();
+
+    if (!userId || !sessionId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const sessions = await SessionManager.getUserSessions(userId);
+
+    return NextResponse.json({
+      sessions: sessions.map((session) =>
+        serializeUserSession(session, sessionId)
+      ),
+    });
+  } catch (error) {
+    console.error("Error listing sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to load sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/auth/sessions - Sign out every other session
+export async function DELETE(req: NextRequest) {
+  try {
+    const { userId, sessionId } = await auth();
+
+    if (!userId || !sessionId) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const revoked = await SessionManager.invalidateUserSessions(userId, {
+      revokedBy: userId,
+      exceptSessionId: sessionId,
+      ...extractClientMetadata(req),
+    });
+
+    return NextResponse.json({
+      revoked,
+      message: "Signed out of all other sessions",
+    });
+  } catch (error) {
+    console.error("Error revoking sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to sign out other sessions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import {
+  updateMerchantVpa,
+  removeMerchantVpa,
+  serializeMerchantProfile,
+} from "@/lib/db/queries/merchant-profiles";
+import {
+  handleAPIError,
+  AuthenticationError,
+  BusinessLogicError,
+  NotFoundError,
+  ValidationError,
+  successResponse,
+  validateRequestBody,
+} from "@/lib/utils/api-errors";
+
+interface RouteParams {
+  params: Promise<{
+    vpaId: string;
+  }>;
+}
+
+const UpdateVpaSchema = z.object({
+  label: z.string().trim().max(50).optional(),
+  isDefault: z.literal(true).optional(),
+});
+
+const isValidVpaId = (vpaId: string) => /^[a-f0-9]{24}$/i.test(vpaId);
+
+/**
+ * PATCH /api/merchant-vpas/[vpaId]
+ * Rename a UPI ID or make it the default
+ */
+export const PATCH = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest, { params }: RouteParams) => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const { vpaId } = await params;
+      if (!isValidVpaId(vpaId)) {
+        throw new ValidationError("Invalid UPI ID reference");
+      }
+
+      const body = await request.json();
+      const updates = validateRequestBody(body, UpdateVpaSchema);
+
+      try {
+        const profile = await updateMerchantVpa(user.id, vpaId, updates);
+
+        return successResponse(serializeMerchantProfile(profile));
+      } catch (error) {
+        if (error instanceof Error) {
+          if (error.message === "UPI ID not found") {
+            throw new NotFoundError(error.message);
+          }
+          if (error.message.includes("Only verified")) {
+            throw new BusinessLogicError(error.message);
+          }
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
+
+/**
+ * DELETE /api/merchant-vpas/[vpaId]
+ * Remove a UPI ID and any routing rules that use it
+ */
+export const DELETE = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest, { params }: RouteParams) => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const { vpaId } = await params;
+      if (!isValidVpaId(vpaId)) {
+        throw new ValidationError("Invalid UPI ID reference");
+      }
+
+      try {
+        const profile = await removeMerchantVpa(user.id, vpaId);
+
+        return successResponse(
+          serializeMerchantProfile(profile),
+          "UPI ID removed"
+        );
+      } catch (error) {
+        if (error instanceof Error && error.message === "UPI ID not found") {
+          throw new NotFoundError(error.message);
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
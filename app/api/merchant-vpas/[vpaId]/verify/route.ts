@@ -0,0 +1,71 @@
+import { NextRequest } from "next/server";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import {
+  verifyMerchantVpa,
+  serializeMerchantProfile,
+} from "@/lib/db/queries/merchant-profiles";
+import { VerifyMerchantVpaSchema } from "@/lib/db/models/merchant-profile";
+import {
+  handleAPIError,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  successResponse,
+  validateRequestBody,
+} from "@/lib/utils/api-errors";
+
+interface RouteParams {
+  params: Promise<{
+    vpaId: string;
+  }>;
+}
+
+/**
+ * POST /api/merchant-vpas/[vpaId]/verify
+ * Verify a UPI ID with the UTR of its test payment
+ */
+export const POST = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest, { params }: RouteParams) => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const { vpaId } = await params;
+      if (!/^[a-f0-9]{24}$/i.test(vpaId)) {
+        throw new ValidationError("Invalid UPI ID reference");
+      }
+
+      const body = await request.json();
+      const { utr } = validateRequestBody(body, VerifyMerchantVpaSchema);
+
+      try {
+        const profile = await verifyMerchantVpa(user.id, vpaId, utr);
+
+        return successResponse(
+          serializeMerchantProfile(profile),
+          "UPI ID verified"
+        );
+      } catch (error) {
+        if (error instanceof Error) {
+          if (error.message === "UPI ID not found") {
+            throw new NotFoundError(error.message);
+          }
+          if (error.message.includes("already verified")) {
+            throw new ConflictError(error.message);
+          }
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
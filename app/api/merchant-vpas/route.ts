@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import {
+  getMerchantProfile,
+  addMerchantVpa,
+  serializeMerchantProfile,
+} from "@/lib/db/queries/merchant-profiles";
+import { AddMerchantVpaSchema } from "@/lib/db/models/merchant-profile";
+import {
+  handleAPIError,
+  AuthenticationError,
+  BusinessLogicError,
+  ConflictError,
+  successResponse,
+  validateRequestBody,
+} from "@/lib/utils/api-errors";
+
+/**
+ * GET /api/merchant-vpas
+ * List the current merchant's UPI IDs and routing rules
+ */
+export const GET = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const profile = await getMerchantProfile(user.id);
+
+      return successResponse(serializeMerchantProfile(profile));
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  }
+);
+
+/**
+ * POST /api/merchant-vpas
+ * Register a UPI ID; the response carries the test payment that verifies it
+ */
+export const POST = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const body = await request.json();
+      const data = validateRequestBody(body, AddMerchantVpaSchema);
+
+      try {
+        const profile = await addMerchantVpa(user.id, data);
+
+        return successResponse(
+          serializeMerchantProfile(profile),
+          "UPI ID added. Make the test payment to verify it.",
+          201
+        );
+      } catch (error) {
+        if (error instanceof Error) {
+          if (error.message.includes("already registered")) {
+            throw new ConflictError(error.message);
+          }
+          if (error.message.includes("at most")) {
+            throw new BusinessLogicError(error.message);
+          }
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
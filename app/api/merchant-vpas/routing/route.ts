@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import {
+  updateVpaRouting,
+  serializeMerchantProfile,
+} from "@/lib/db/queries/merchant-profiles";
+import { UpdateVpaRoutingSchema } from "@/lib/db/models/merchant-profile";
+import {
+  handleAPIError,
+  AuthenticationError,
+  BusinessLogicError,
+  successResponse,
+  validateRequestBody,
+} from "@/lib/utils/api-errors";
+
+/**
+ * PUT /api/merchant-vpas/routing
+ * Replace the rules that pick a UPI ID for new orders
+ */
+export const PUT = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest) => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const body = await request.json();
+      const rules = validateRequestBody(body, UpdateVpaRoutingSchema);
+
+      try {
+        const profile = await updateVpaRouting(user.id, rules);
+
+        return successResponse(
+          serializeMerchantProfile(profile),
+          "Routing rules saved"
+        );
+      } catch (error) {
+        if (
+          error instanceof Error &&
+          error.message.includes("only use verified")
+        ) {
+          throw new BusinessLogicError(error.message);
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { withPublicMiddleware } from "@/lib/middleware/auth-middleware";
+import { findOrderForPaymentUrl } from "@/lib/db/queries/orders";
+import { handleAPIError, NotFoundError } from "@/lib/utils/api-errors";
+import { createOrderEventStream } from "@/lib/utils/order-events";
+import { PAYMENT_URL_SIGNATURE_PARAM } from "@/lib/utils/payment-tokens";
+import { InputSanitizer } from "@/lib/utils/sanitization";
+
+interface RouteParams {
+  params: Promise<{
+    orderId: string;
+  }>;
+}
+
+/**
+ * GET /api/orders/[orderId]/events
+ * Server-Sent Events stream of status changes for one order. Needs the
+ * signature from the payment URL, like the payment page itself.
+ */
+export const GET = withPublicMiddleware(
+  async (request: NextRequest, { params }: RouteParams) => {
+    try {
+      const { orderId } = await params;
+      const sanitizedOrderId = InputSanitizer.sanitizeOrderId(orderId);
+
+      const order = await findOrderForPaymentUrl(
+        sanitizedOrderId,
+        request.nextUrl.searchParams.get(PAYMENT_URL_SIGNATURE_PARAM)
+      );
+      if (!order) {
+        throw new NotFoundError("Order not found");
+      }
+
+      return createOrderEventStream(request, {
+        filter: (event) => event.orderId === order.orderId,
+      });
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  }
+);
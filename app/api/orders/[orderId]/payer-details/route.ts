@@ -0,0 +1,85 @@
+import { NextRequest } from "next/server";
+import { withPublicMiddleware } from "@/lib/middleware/auth-middleware";
+import { submitPayerDetails } from "@/lib/db/queries/orders";
+import {
+  handleAPIError,
+  AuthenticationError,
+  NotFoundError,
+  ConflictError,
+  BusinessLogicError,
+  successResponse,
+} from "@/lib/utils/api-errors";
+import { withRateLimit, rateLimiters } from "@/lib/utils/rate-limiter";
+import { InputSanitizer } from "@/lib/utils/sanitization";
+import {
+  PAYMENT_TOKEN_HEADER,
+  verifyPaymentToken,
+} from "@/lib/utils/payment-tokens";
+
+interface RouteParams {
+  params: Promise<{
+    orderId: string;
+  }>;
+}
+
+/**
+ * POST /api/orders/[orderId]/payer-details
+ * Capture the payer details a merchant requires before payment
+ */
+export const POST = withPublicMiddleware(
+  async (request: NextRequest, { params }: RouteParams) => {
+    return withRateLimit(request, rateLimiters.utrSubmission, async () => {
+      try {
+        const { orderId } = await params;
+        const sanitizedOrderId = InputSanitizer.sanitizeOrderId(orderId);
+
+        if (
+          !verifyPaymentToken(
+            request.headers.get(PAYMENT_TOKEN_HEADER),
+            sanitizedOrderId
+          )
+        ) {
+          throw new AuthenticationError(
+            "Payment session has expired. Please reload the payment page."
+          );
+        }
+
+        const body = await request.json().catch(() => ({}));
+
+        try {
+          const order = await submitPayerDetails(
+            sanitizedOrderId,
+            InputSanitizer.sanitizeObject(body)
+          );
+
+          return successResponse(
+            {
+              orderId: order.orderId,
+              submittedAt: order.payerDetails?.submittedAt,
+            },
+            "Payer details saved"
+          );
+        } catch (error) {
+          if (error instanceof Error) {
+            if (error.message === "Order not found") {
+              throw new NotFoundError(error.message);
+            }
+            if (error.message.includes("already submitted")) {
+              throw new ConflictError(error.message);
+            }
+            if (
+              error.message.includes("does not collect") ||
+              error.message.includes("only be submitted")
+            ) {
+              throw new BusinessLogicError(error.message);
+            }
+          }
+          throw error;
+        }
+      } catch (error) {
+        return handleAPIError(error);
+      }
+    });
+  },
+  { rateLimit: false, csrf: true }
+);
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findOrderForPaymentUrl } from "@/lib/db/queries/orders";
+import {
+  NotFoundError,
+  BusinessLogicError,
+  withErrorHandler,
+} from "@/lib/utils/api-errors";
+import { SensitiveDataHandler } from "@/lib/utils/encryption";
+import { InputSanitizer } from "@/lib/utils/sanitization";
+import {
+  PAYMENT_URL_SIGNATURE_PARAM,
+  buildPaymentPagePath,
+} from "@/lib/utils/payment-tokens";
+import {
+  ReceiptRow,
+  createReceiptQrCode,
+  renderReceiptPdf,
+} from "@/lib/utils/receipt-pdf";
+
+interface RouteParams {
+  params: Promise<{
+    orderId: string;
+  }>;
+}
+
+const formatAmount = (amount: number) =>
+  `INR ${amount.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatDateTime = (date: Date) =>
+  `${date.toLocaleString("en-IN", { timeZone: "Asia/Kolkata" })} IST`;
+
+/**
+ * GET /api/orders/[orderId]/receipt
+ * Download a PDF receipt for a completed order
+ */
+export const GET = withErrorHandler(
+  async (request: NextRequest, { params }: RouteParams) => {
+    const { orderId } = await params;
+    const sanitizedOrderId = InputSanitizer.sanitizeOrderId(orderId);
+
+    // Receipts are public, so they need the payment URL signature
+    const order = await findOrderForPaymentUrl(
+      sanitizedOrderId,
+      request.nextUrl.searchParams.get(PAYMENT_URL_SIGNATURE_PARAM)
+    );
+    if (!order) {
+      throw new NotFoundError("Order not found");
+    }
+
+    if (order.status !== "completed") {
+      throw new BusinessLogicError(
+        "Receipts are only available for completed orders"
+      );
+    }
+
+    const paymentPageUrl = new URL(
+      buildPaymentPagePath(order.orderId),
+      process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin
+    ).toString();
+
+    const rows: ReceiptRow[] = [
+      { label: "Order ID", value: order.orderId },
+      { label: "Status", value: "Paid" },
+      { label: "Paid to (UPI ID)", value: order.vpa },
+      { label: "UTR", value: SensitiveDataHandler.maskUTR(order.utr || "") },
+      { label: "Order created", value: formatDateTime(order.createdAt) },
+    ];
+
+    if (order.metadata?.utrSubmittedAt) {
+      rows.push({
+        label: "UTR submitted",
+        value: formatDateTime(order.metadata.utrSubmittedAt),
+      });
+    }
+
+    if (order.metadata?.lastUpdatedAt) {
+      rows.push({
+        label: "Payment verified",
+        value: formatDateTime(order.metadata.lastUpdatedAt),
+      });
+    }
+
+    // Itemized orders also carry their GST split
+    if (order.taxBreakdown?.total !== undefined) {
+      const { supplyType, subtotal, cgst, sgst, igst } = order.taxBreakdown;
+      rows.push({ label: "Subtotal", value: formatAmount(subtotal) });
+      if (supplyType === "inter-state") {
+        rows.push({ label: "IGST", value: formatAmount(igst) });
+      } else {
+        rows.push({ label: "CGST", value: formatAmount(cgst) });
+        rows.push({ label: "SGST", value: formatAmount(sgst) });
+      }
+    }
+
+    const pdf = renderReceiptPdf({
+      title: "Payment Receipt",
+      merchantName: order.merchantName,
+      amount: formatAmount(order.amount),
+      rows,
+      qrCode: createReceiptQrCode(paymentPageUrl),
+      qrCaption: "Scan to view this payment",
+      footer: `Generated on ${formatDateTime(new Date())}. This is a computer generated receipt.`,
+    });
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="receipt-${order.orderId}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  }
+);
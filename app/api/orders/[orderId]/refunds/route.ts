@@ -0,0 +1,125 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import connectDB from "@/lib/db/connection";
+import Order from "@/lib/db/models/order";
+import type { IRefund } from "@/lib/db/models/refund";
+import { createRefund, getRefundsByOrder } from "@/lib/db/queries/refunds";
+import { extractClientMetadata } from "@/lib/utils/audit-logger";
+import {
+  handleAPIError,
+  AuthenticationError,
+  BusinessLogicError,
+  NotFoundError,
+  successResponse,
+  validateRequestBody,
+} from "@/lib/utils/api-errors";
+
+interface RouteParams {
+  params: Promise<{
+    orderId: string;
+  }>;
+}
+
+const RequestRefundSchema = z.object({
+  amount: z.number().positive(),
+  reason: z.string().min(1).max(500),
+});
+
+const serializeRefund = (refund: IRefund) => ({
+  refundId: refund.refundId,
+  orderId: refund.orderId,
+  amount: refund.amount,
+  reason: refund.reason,
+  status: refund.status,
+  rejectionReason: refund.rejectionReason,
+  processedAt: refund.processedAt,
+  createdAt: refund.createdAt,
+});
+
+// Merchants may only touch refunds for orders they created
+const findOwnOrder = async (orderId: string, userId: string) => {
+  await connectDB();
+
+  const order = await Order.findByOrderId(orderId);
+  if (!order || order.createdBy !== userId) {
+    throw new NotFoundError("Order not found");
+  }
+
+  return order;
+};
+
+/**
+ * GET /api/orders/[orderId]/refunds
+ * List refunds requested for one of the merchant's orders
+ */
+export const GET = withPermissionMiddleware(
+  "view_own_orders",
+  async (request: NextRequest, { params }: RouteParams) => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const { orderId } = await params;
+      await findOwnOrder(orderId, user.id);
+
+      const refunds = await getRefundsByOrder(orderId);
+
+      return successResponse({ refunds: refunds.map(serializeRefund) });
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  }
+);
+
+/**
+ * POST /api/orders/[orderId]/refunds
+ * Request a full or partial refund; an admin settles it
+ */
+export const POST = withPermissionMiddleware(
+  "request_refund",
+  async (request: NextRequest, { params }: RouteParams) => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const { orderId } = await params;
+      await findOwnOrder(orderId, user.id);
+
+      const body = await request.json();
+      const data = validateRequestBody(body, RequestRefundSchema);
+
+      try {
+        const refund = await createRefund(
+          { ...data, orderId, requestedBy: user.id },
+          extractClientMetadata(request)
+        );
+
+        return successResponse(
+          { refund: serializeRefund(refund) },
+          "Refund requested successfully",
+          201
+        );
+      } catch (error) {
+        if (
+          error instanceof Error &&
+          (error.message.includes("cannot be refunded") ||
+            error.message.includes("exceeds refundable balance"))
+        ) {
+          throw new BusinessLogicError(error.message);
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
@@ -3,9 +3,16 @@ import { auth } from "@clerk/nextjs/server";
 import { z } from "zod";
 import type { ClerkUserMetadata } from "@/lib/types/global";
 import connectDB from "@/lib/db/connection";
-import Order from "@/lib/db/models/order";
+import Order, { OrderStatus } from "@/lib/db/models/order";
 import SystemSettings from "@/lib/db/models/settings";
+import {
+  expireOrderIfDue,
+  findOrderForPaymentUrl,
+  transitionOrder,
+} from "@/lib/db/queries/orders";
 import { generateAllUpiLinks } from "@/lib/utils/upi-links";
+import { SensitiveDataHandler } from "@/lib/utils/encryption";
+import { PAYMENT_URL_SIGNATURE_PARAM } from "@/lib/utils/payment-tokens";
 import {
   handleAPIError,
   AuthenticationError,
@@ -24,26 +31,41 @@ interface RouteParams {
 
 /**
  * GET /api/orders/[orderId]
- * Get specific order details
+ * Get specific order details (the merchant who created it, an admin, or a
+ * caller holding the payment URL signature)
  */
 export const GET = withErrorHandler(
   async (request: NextRequest, { params }: RouteParams) => {
+    // Authenticate user
+    const { userId, sessionClaims } = await auth();
+    if (!userId) {
+      throw new AuthenticationError();
+    }
+
     const { orderId } = await params;
+    const signature = request.nextUrl.searchParams.get(
+      PAYMENT_URL_SIGNATURE_PARAM
+    );
 
     // Connect to database
     await connectDB();
 
-    // Find order by orderId
-    const order = await Order.findByOrderId(orderId);
-    if (!order) {
+    // Unknown orders, other merchants' orders and bad signatures all look
+    // the same so order IDs cannot be probed
+    const isAdmin =
+      (sessionClaims?.metadata as ClerkUserMetadata)?.role === "admin";
+    const order = signature
+      ? await findOrderForPaymentUrl(orderId, signature)
+      : await Order.findByOrderId(orderId);
+    if (!order || (!signature && !isAdmin && order.createdBy !== userId)) {
       throw new NotFoundError("Order not found");
     }
 
+    // Only the merchant who created the order gets its signed payment URL
+    const isOwner = order.createdBy === userId;
+
     // Check if order has expired and update status if needed
-    if (order.isExpired() && order.status === "pending") {
-      order.status = "expired";
-      await order.save();
-    }
+    await expireOrderIfDue(order);
 
     // Calculate time remaining (in seconds)
     const now = new Date();
@@ -76,10 +98,11 @@ export const GET = withErrorHandler(
         merchantName: order.merchantName,
         vpa: order.vpa,
         status: order.status,
-        utr: order.utr,
+        utr: order.utr && SensitiveDataHandler.maskUTR(order.utr),
         createdAt: order.createdAt,
         expiresAt: order.expiresAt,
-        paymentPageUrl: order.paymentPageUrl,
+        ...(isOwner && { paymentPageUrl: order.paymentPageUrl }),
+        version: order.__v,
       },
       timeRemaining,
       upiLinks,
@@ -114,17 +137,15 @@ export const PATCH = withErrorHandler(
     // Parse and validate request body
     const body = await request.json();
     const updateSchema = z.object({
-      status: z.enum([
-        "pending",
-        "pending-verification",
-        "completed",
-        "failed",
-        "expired",
-      ]),
+      status: OrderStatus,
       adminNotes: z.string().optional(),
+      version: z.number().int().min(0).optional(),
     });
 
-    const { status, adminNotes } = validateRequestBody(body, updateSchema);
+    const { status, adminNotes, version } = validateRequestBody(
+      body,
+      updateSchema
+    );
 
     // Find and update order
     const order = await Order.findByOrderId(orderId);
@@ -132,22 +153,19 @@ export const PATCH = withErrorHandler(
       throw new NotFoundError("Order not found");
     }
 
-    // Update order status
-    order.status = status;
-    if (adminNotes) {
-      order.metadata = {
-        ...order.metadata,
-        adminNotes,
-        lastUpdatedBy: userId,
-        lastUpdatedAt: new Date(),
-      };
-    }
-
-    await order.save();
+    // Update order status; the state machine rejects disallowed changes
+    await transitionOrder(order, status, {
+      actor: "admin",
+      performedBy: userId,
+      reason: adminNotes,
+      metadata: adminNotes ? { adminNotes } : undefined,
+      expectedVersion: version,
+    });
 
     return successResponse({
       orderId: order.orderId,
       status: order.status,
+      version: order.__v,
       updatedAt: new Date(),
     });
   }
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import connectDB from "@/lib/db/connection";
 import Order, { SubmitUTRSchema } from "@/lib/db/models/order";
 import {
+  handleAPIError,
+  AuthenticationError,
   NotFoundError,
   ConflictError,
   BusinessLogicError,
@@ -11,14 +13,31 @@ import {
 import {
   withStandardMiddleware,
   withAdminMiddleware,
+  withPublicMiddleware,
   getUserFromRequest,
 } from "@/lib/middleware/auth-middleware";
+import { logUTRSubmission } from "@/lib/db/queries/audit-logs";
 import {
-  logUTRSubmission,
-  logOrderStatusUpdate,
-} from "@/lib/db/queries/audit-logs";
-import { withRateLimit, rateLimiters } from "@/lib/utils/rate-limiter";
+  withRateLimit,
+  rateLimiters,
+  getClientIP,
+} from "@/lib/utils/rate-limiter";
 import { withCSRFProtection } from "@/lib/utils/csrf-protection";
+import { withIdempotency } from "@/lib/utils/idempotency";
+import {
+  PAYMENT_TOKEN_HEADER,
+  PAYMENT_URL_SIGNATURE_PARAM,
+  readPaymentToken,
+} from "@/lib/utils/payment-tokens";
+import {
+  findOrderForPaymentUrl,
+  transitionOrder,
+} from "@/lib/db/queries/orders";
+import {
+  assessUtrSubmissionRisk,
+  findOrderHoldingUtr,
+} from "@/lib/db/queries/fraud";
+import { DEVICE_ID_HEADER } from "@/lib/utils/fraud-detection";
 import { SecureValidator, InputSanitizer } from "@/lib/utils/sanitization";
 import { SensitiveDataHandler } from "@/lib/utils/encryption";
 import { withSessionManagement } from "@/lib/utils/session-manager";
@@ -36,154 +55,170 @@ interface RouteParams {
 
 /**
  * POST /api/orders/[orderId]/utr
- * Submit UTR for order verification
+ * Submit UTR for order verification. Customers are not signed in; the
+ * payment page hands them a signed payment token for the order instead.
  */
-export const POST = withStandardMiddleware(
+export const POST = withPublicMiddleware(
   async (request: NextRequest, { params }: RouteParams): Promise<NextResponse> => {
     const response = await withRateLimit(request, rateLimiters.utrSubmission, async () => {
       return withCSRFProtection(request, async () => {
-        return withSessionManagement(request, async () => {
-          const user = getUserFromRequest(request);
-          if (!user) {
-            throw new Error("Authentication required");
-          }
-
-          const { orderId } = await params;
-          const sanitizedOrderId = InputSanitizer.sanitizeOrderId(orderId);
-
-          // Connect to database
-          await connectDB();
-
-          // Parse and validate request body with sanitization
-          const body = await request.json();
-          const sanitizedBody = InputSanitizer.sanitizeObject(body);
+        return withIdempotency(request, async () => {
+          try {
+            const { orderId } = await params;
+            const sanitizedOrderId = InputSanitizer.sanitizeOrderId(orderId);
 
-          // Validate UTR with enhanced security
-          const utrValidation = SecureValidator.validateUTR(sanitizedBody.utr);
-          if (!utrValidation.isValid) {
-            throw new BusinessLogicError(
-              utrValidation.error || "Invalid UTR format"
+            const paymentToken = readPaymentToken(
+              request.headers.get(PAYMENT_TOKEN_HEADER),
+              sanitizedOrderId
             );
-          }
-
-          const { utr } = validateRequestBody(
-            { utr: utrValidation.sanitized },
-            SubmitUTRSchema
-          );
-
-          // Find order by orderId
-          const order = await Order.findByOrderId(sanitizedOrderId);
-          if (!order) {
-            throw new NotFoundError("Order not found");
-          }
-
-          // Check if order can accept UTR submission
-          if (!order.canSubmitUTR()) {
-            if (order.isExpired()) {
-              throw new BusinessLogicError(
-                "Order has expired. UTR submission not allowed."
+            if (!paymentToken) {
+              throw new AuthenticationError(
+                "Payment session has expired. Please reload the payment page."
               );
             }
 
-            if (order.status !== "pending") {
+            // Connect to database
+            await connectDB();
+
+            // Parse and validate request body with sanitization
+            const body = await request.json();
+            const sanitizedBody = InputSanitizer.sanitizeObject(body);
+
+            // Validate UTR with enhanced security
+            const utrValidation = SecureValidator.validateUTR(sanitizedBody.utr);
+            if (!utrValidation.isValid) {
               throw new BusinessLogicError(
-                `Order status is ${order.status}. UTR can only be submitted for pending orders.`
+                utrValidation.error || "Invalid UTR format"
               );
             }
-          }
 
-          // Check if UTR already exists for this order
-          if (order.utr) {
-            throw new ConflictError("UTR already submitted for this order", {
-              existingUTR: SensitiveDataHandler.maskUTR(order.utr),
-            });
-          }
-
-          // Check if UTR is already used by another order
-          const existingOrder = await Order.findOne({
-            utr: utr,
-            _id: { $ne: order._id },
-          });
-
-          if (existingOrder) {
-            throw new ConflictError(
-              "This UTR has already been used for another order"
+            const { utr } = validateRequestBody(
+              { utr: utrValidation.sanitized },
+              SubmitUTRSchema
             );
-          }
 
-          // Extract client metadata
-          const clientIP =
-            request.headers.get("x-forwarded-for") ||
-            request.headers.get("x-real-ip") ||
-            "unknown";
-          const userAgent = request.headers.get("user-agent") || "unknown";
+            // Find order by orderId
+            const order = await Order.findByOrderId(sanitizedOrderId);
+            if (!order) {
+              throw new NotFoundError("Order not found");
+            }
 
-          // Store old status for audit logging
-          const oldStatus = order.status;
+            // Check if order can accept UTR submission
+            if (!order.canSubmitUTR()) {
+              if (order.isExpired()) {
+                throw new BusinessLogicError(
+                  "Order has expired. UTR submission not allowed."
+                );
+              }
+
+              if (order.status !== "pending") {
+                throw new BusinessLogicError(
+                  `Order status is ${order.status}. UTR can only be submitted for pending orders.`
+                );
+              }
+            }
 
-          // Encrypt UTR before storing
-          const encryptedUTR = await SensitiveDataHandler.encryptUTR(utr);
+            // Merchants can require payer details before payment
+            if (order.needsPayerDetails()) {
+              throw new BusinessLogicError(
+                "Please submit your details before confirming the payment"
+              );
+            }
 
-          // Update order with encrypted UTR and change status to pending-verification
-          order.utr = encryptedUTR;
-          order.status = "pending-verification";
-          order.metadata = {
-            ...order.metadata,
-            utrSubmittedAt: new Date(),
-            utrSubmissionIP: clientIP,
-            utrSubmissionUserAgent: userAgent,
-          };
+            // Check if UTR already exists for this order
+            if (order.utr) {
+              throw new ConflictError("UTR already submitted for this order", {
+                existingUTR: SensitiveDataHandler.maskUTR(order.utr),
+              });
+            }
 
-          await order.save();
+            // Check if UTR is already used by another order
+            const utrHash = SensitiveDataHandler.hashUTR(utr);
+            if (await findOrderHoldingUtr(utrHash, order.orderId)) {
+              throw new ConflictError(
+                "This UTR has already been used for another order"
+              );
+            }
 
-          // Log UTR submission for audit trail (with masked UTR)
-          await logUTRSubmission(
-            sanitizedOrderId,
-            user.id,
-            SensitiveDataHandler.maskUTR(utr),
-            {
+            // Extract client metadata. The IP is keyed like the rate
+            // limiter's, so one client lands in one velocity bucket
+            // whatever proxies it came through.
+            const clientIP = getClientIP(request);
+            const userAgent = request.headers.get("user-agent") || "unknown";
+            const deviceId = request.headers
+              .get(DEVICE_ID_HEADER)
+              ?.replace(/[^A-Za-z0-9-]/g, "")
+              .slice(0, 64);
+
+            // Score fraud signals; risky submissions are still accepted and
+            // flagged for the admin who verifies them
+            order.utrHash = utrHash;
+            order.risk = await assessUtrSubmissionRisk(order, {
+              utrHash,
               ipAddress: clientIP,
-              userAgent,
-            }
-          );
+              deviceId,
+              // Tokens are re-issued on every render, so prefer when the
+              // page was first served
+              pageLoadedAt:
+                order.metadata?.paymentPageOpenedAt || paymentToken.issuedAt,
+            });
 
-          // Log order status update
-          await logOrderStatusUpdate(
-            sanitizedOrderId,
-            user.id,
-            oldStatus,
-            "pending-verification",
-            "UTR submitted by customer",
-            {
+            // Store the UTR (encrypted by the order model) and move the order
+            // to pending-verification; this also logs the status change and
+            // notifies webhooks
+            await transitionOrder(order, "pending-verification", {
+              actor: "customer",
+              performedBy: "anonymous",
+              reason: "UTR submitted by customer",
+              utr,
+              metadata: {
+                utrSubmittedAt: new Date(),
+                utrSubmissionIP: clientIP,
+                utrSubmissionUserAgent: userAgent,
+                utrSubmissionDeviceId: deviceId,
+              },
               ipAddress: clientIP,
               userAgent,
-            }
-          );
+            });
 
-          // Return success response with masked UTR
-          return NextResponse.json(
-            {
-              success: true,
-              message: "UTR submitted successfully. Your payment is now under verification.",
-              data: {
-                orderId: order.orderId,
-                utr: SensitiveDataHandler.maskUTR(utr),
-                status: order.status,
-                submittedAt: new Date(),
-              },
-            }
-          );
+            // Log UTR submission for audit trail (with masked UTR)
+            await logUTRSubmission(
+              sanitizedOrderId,
+              "anonymous",
+              SensitiveDataHandler.maskUTR(utr),
+              {
+                ipAddress: clientIP,
+                userAgent,
+              }
+            );
+
+            // Return success response with masked UTR
+            return NextResponse.json(
+              {
+                success: true,
+                message: "UTR submitted successfully. Your payment is now under verification.",
+                data: {
+                  orderId: order.orderId,
+                  utr: SensitiveDataHandler.maskUTR(utr),
+                  status: order.status,
+                  submittedAt: new Date(),
+                },
+              }
+            );
+          } catch (error) {
+            return handleAPIError(error);
+          }
         });
       });
     });
     return ensureNextResponse(response);
   },
-  { requireAuth: false } // UTR submission doesn't require authentication
+  { rateLimit: false } // utrSubmission limit applies instead
 );
 
 /**
  * GET /api/orders/[orderId]/utr
- * Get UTR submission status for an order
+ * Get UTR submission status for an order (needs the payment URL signature)
  */
 export const GET = withStandardMiddleware(
   async (request: NextRequest, { params }: RouteParams): Promise<NextResponse> => {
@@ -192,28 +227,19 @@ export const GET = withStandardMiddleware(
         const { orderId } = await params;
         const sanitizedOrderId = InputSanitizer.sanitizeOrderId(orderId);
 
-        // Connect to database
-        await connectDB();
-
         // Find order by orderId
-        const order = await Order.findByOrderId(sanitizedOrderId);
+        const order = await findOrderForPaymentUrl(
+          sanitizedOrderId,
+          request.nextUrl.searchParams.get(PAYMENT_URL_SIGNATURE_PARAM)
+        );
         if (!order) {
           throw new NotFoundError("Order not found");
         }
 
-        // Decrypt UTR if it exists for display
-        let displayUTR = null;
-        if (order.utr) {
-          try {
-            const decryptedUTR = await SensitiveDataHandler.decryptUTR(
-              order.utr
-            );
-            displayUTR = SensitiveDataHandler.maskUTR(decryptedUTR);
-          } catch (error) {
-            console.error("Error decrypting UTR for display:", error);
-            displayUTR = "****";
-          }
-        }
+        // The order model decrypts the UTR; only a masked form is shown
+        const displayUTR = order.utr
+          ? SensitiveDataHandler.maskUTR(order.utr)
+          : null;
 
         // Return UTR status
         return NextResponse.json({
@@ -267,14 +293,18 @@ export const DELETE = withAdminMiddleware(
 
           // Remove UTR and reset status to pending (if not expired)
           order.utr = undefined;
-          order.status = order.isExpired() ? "expired" : "pending";
-          order.metadata = {
-            ...order.metadata,
-            utrRemovedAt: new Date(),
-            utrRemovedReason: "Admin correction",
-          };
-
-          await order.save();
+          order.utrHash = undefined;
+          order.risk = undefined;
+          const resetStatus = order.isExpired() ? "expired" : "pending";
+          await transitionOrder(order, resetStatus, {
+            actor: "admin",
+            performedBy: user.id,
+            reason: "Admin correction",
+            metadata: {
+              utrRemovedAt: new Date(),
+              utrRemovedReason: "Admin correction",
+            },
+          });
 
           return NextResponse.json(
             {
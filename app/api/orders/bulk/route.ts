@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import { CreateOrderSchema } from "@/lib/db/models/order";
+import SystemSettings from "@/lib/db/models/settings";
+import { createOrdersInBulk } from "@/lib/db/queries/orders";
+import { resolveOrderVpa } from "@/lib/db/queries/merchant-profiles";
+import connectDB from "@/lib/db/connection";
+import {
+  handleAPIError,
+  AuthenticationError,
+  ValidationError,
+} from "@/lib/utils/api-errors";
+import { BatchAuditLogger } from "@/lib/utils/audit-logger";
+import {
+  BulkOrderResult,
+  formatBulkOrderResults,
+  parseBulkAmount,
+  parseBulkOrderCsv,
+} from "@/lib/utils/bulk-orders";
+import { InputSanitizer } from "@/lib/utils/sanitization";
+import { withRateLimit, rateLimiters } from "@/lib/utils/rate-limiter";
+import { ensureNextResponse } from "@/lib/utils/response-converter";
+
+const MAX_UPLOAD_SIZE = 1024 * 1024; // 1 MB
+
+const BulkOptionsSchema = z.object({
+  merchantName: z.string().min(1).max(100),
+  vpa: z
+    .string()
+    .regex(/^[\w.-]+@[\w.-]+$/, "Invalid UPI ID format")
+    .optional(),
+  expiresInMinutes: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(30 * 24 * 60)
+    .optional(),
+});
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues
+    .map((issue) =>
+      issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    )
+    .join("; ");
+
+/**
+ * POST /api/orders/bulk
+ * Create orders from a CSV upload and return a CSV of per-row results
+ */
+export const POST = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const response = await withRateLimit(
+        request,
+        rateLimiters.orderCreation,
+        async () => {
+          const user = getUserFromRequest(request);
+          if (!user) {
+            throw new AuthenticationError();
+          }
+
+          const formData = await request.formData();
+          const file = formData.get("file");
+
+          if (!file || typeof file === "string") {
+            throw new ValidationError("A CSV file is required");
+          }
+
+          if (file.size === 0 || file.size > MAX_UPLOAD_SIZE) {
+            throw new ValidationError("CSV must be between 1 byte and 1 MB");
+          }
+
+          const parsedOptions = BulkOptionsSchema.safeParse({
+            merchantName: formData.get("merchantName") || undefined,
+            vpa: formData.get("vpa") || undefined,
+            expiresInMinutes: formData.get("expiresInMinutes") || undefined,
+          });
+          if (!parsedOptions.success) {
+            throw new ValidationError(formatIssues(parsedOptions.error));
+          }
+          const options = parsedOptions.data;
+
+          let rows;
+          try {
+            rows = parseBulkOrderCsv(await file.text());
+          } catch (error) {
+            throw new ValidationError(
+              error instanceof Error ? error.message : "Invalid CSV file"
+            );
+          }
+
+          await connectDB();
+          const settings = await SystemSettings.getSettings();
+
+          // Validate every row up front; only valid rows are inserted
+          const results: BulkOrderResult[] = [];
+          const validRows: {
+            result: BulkOrderResult;
+            data: z.infer<typeof CreateOrderSchema>;
+          }[] = [];
+
+          for (const row of rows) {
+            const result: BulkOrderResult = {
+              line: row.line,
+              amount: row.amount,
+              payerName: row.payerName,
+            };
+            results.push(result);
+
+            const amount = parseBulkAmount(row.amount);
+            const parsed = CreateOrderSchema.safeParse({
+              amount,
+              merchantName: InputSanitizer.sanitizeMerchantName(
+                options.merchantName
+              ),
+              vpa: await resolveOrderVpa({
+                createdBy: user.id,
+                amount,
+                requestedVpa: row.vpa || options.vpa,
+                staticUpiId: settings.staticUpiId,
+              }),
+              createdBy: user.id,
+              payerName: row.payerName
+                ? InputSanitizer.sanitizeText(row.payerName)
+                : undefined,
+              note: row.note ? InputSanitizer.sanitizeText(row.note) : undefined,
+            });
+
+            if (parsed.success) {
+              validRows.push({ result, data: parsed.data });
+            } else {
+              result.error = formatIssues(parsed.error);
+            }
+          }
+
+          const orders = await createOrdersInBulk(
+            validRows.map((row) => row.data),
+            new BatchAuditLogger(request),
+            { expiresInMinutes: options.expiresInMinutes }
+          );
+
+          const baseUrl =
+            process.env.NEXT_PUBLIC_BASE_URL || request.nextUrl.origin;
+          let created = 0;
+          orders.forEach((order, index) => {
+            const { result } = validRows[index];
+            if (!order) {
+              result.error = "Order could not be created, please retry";
+              return;
+            }
+
+            result.orderId = order.orderId;
+            result.paymentPageUrl = new URL(
+              order.paymentPageUrl,
+              baseUrl
+            ).toString();
+            created += 1;
+          });
+
+          return new NextResponse(formatBulkOrderResults(results), {
+            status: 200,
+            headers: {
+              "Content-Type": "text/csv; charset=utf-8",
+              "Content-Disposition": `attachment; filename="bulk-orders-${Date.now()}.csv"`,
+              "X-Bulk-Created": String(created),
+              "X-Bulk-Failed": String(results.length - created),
+            },
+          });
+        }
+      );
+
+      return ensureNextResponse(response);
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
 import {
   markExpiredOrders,
   getExpirationStats,
@@ -36,6 +37,12 @@ export const POST = withErrorHandler(async (request: NextRequest) => {
  * Get expiration statistics
  */
 export const GET = withErrorHandler(async () => {
+  // Authenticate user
+  const { userId } = await auth();
+  if (!userId) {
+    throw new AuthenticationError();
+  }
+
   const stats = await getExpirationStats();
 
   return successResponse(stats);
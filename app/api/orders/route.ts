@@ -1,16 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
 import { z } from "zod";
-import type { ClerkUserMetadata } from "@/lib/types/global";
 import connectDB from "@/lib/db/connection";
 import Order, { CreateOrderSchema } from "@/lib/db/models/order";
 import SystemSettings from "@/lib/db/models/settings";
 import { generateOrderId } from "@/lib/utils/validation";
 import { generateAllUpiLinks } from "@/lib/utils/upi-links";
+import { calculateGstBreakdown, LineItemInput } from "@/lib/utils/gst";
+import { hasPayerFields } from "@/lib/utils/payer-details";
+import { redactProtectedFields } from "@/lib/db/plugins/protected-fields";
 import {
   handleAPIError,
   AuthenticationError,
   AuthorizationError,
+  ValidationError,
   successResponse,
   validateRequestBody,
   validateQueryParams,
@@ -21,8 +23,12 @@ import {
   getUserFromRequest,
 } from "@/lib/middleware/auth-middleware";
 import { logOrderCreation } from "@/lib/db/queries/audit-logs";
+import { resolveOrderVpa } from "@/lib/db/queries/merchant-profiles";
+import { emitOrderEvent } from "@/lib/db/queries/webhooks";
 import { withRateLimit, rateLimiters } from "@/lib/utils/rate-limiter";
 import { withCSRFProtection } from "@/lib/utils/csrf-protection";
+import { withIdempotency } from "@/lib/utils/idempotency";
+import { buildPaymentPagePath } from "@/lib/utils/payment-tokens";
 import { InputSanitizer, SecureValidator } from "@/lib/utils/sanitization";
 import { withSessionManagement } from "@/lib/utils/session-manager";
 import { ensureNextResponse } from "@/lib/utils/response-converter";
@@ -34,132 +40,165 @@ import { ensureNextResponse } from "@/lib/utils/response-converter";
 export const POST = withStandardMiddleware(async (request: NextRequest): Promise<NextResponse> => {
   const response = await withRateLimit(request, rateLimiters.orderCreation, async () => {
     return withCSRFProtection(request, async () => {
-      return withSessionManagement(request, async () => {
-        // Get authenticated user from middleware
-        const user = getUserFromRequest(request);
-        if (!user) {
-          throw new AuthenticationError("Authentication required");
-        }
-        const userId = user.id;
-
-        // Connect to database
-        await connectDB();
-
-        // Parse and validate request body with sanitization
-        const body = await request.json();
-        const sanitizedBody = InputSanitizer.sanitizeObject(body);
-
-        // Additional validation for critical fields
-        if (!sanitizedBody.amount || sanitizedBody.amount <= 0) {
-          throw new Error("Invalid amount");
-        }
+      return withIdempotency(request, async () => {
+        return withSessionManagement(request, async () => {
+          // Get authenticated user from middleware
+          const user = getUserFromRequest(request);
+          if (!user) {
+            throw new AuthenticationError("Authentication required");
+          }
+          const userId = user.id;
+
+          // Connect to database
+          await connectDB();
+
+          // Parse and validate request body with sanitization
+          const body = await request.json();
+          const sanitizedBody = InputSanitizer.sanitizeObject(body);
+
+          // Additional validation for critical fields
+          if (!sanitizedBody.amount || sanitizedBody.amount <= 0) {
+            throw new Error("Invalid amount");
+          }
         
-        if (!sanitizedBody.vpa || !/^[\w.-]+@[\w.-]+$/.test(sanitizedBody.vpa)) {
-          throw new Error("Invalid VPA format");
-        }
-
-        const validatedData = validateRequestBody(
-          {
-            ...sanitizedBody,
-            amount: sanitizedBody.amount,
-            vpa: sanitizedBody.vpa,
-            merchantName: sanitizedBody.merchantName,
+          // The VPA is optional; without one the merchant's routing rules decide
+          if (sanitizedBody.vpa && !/^[\w.-]+@[\w.-]+$/.test(sanitizedBody.vpa)) {
+            throw new Error("Invalid VPA format");
+          }
+
+          // Get system settings for timer duration and UPI configuration
+          const settings = await SystemSettings.getSettings();
+
+          // Admin static UPI ID overrides, then the requested VPA, then routing
+          const vpa = await resolveOrderVpa({
             createdBy: userId,
-          },
-          CreateOrderSchema
-        );
+            amount: Number(sanitizedBody.amount),
+            requestedVpa: sanitizedBody.vpa,
+            staticUpiId: settings.staticUpiId,
+          });
+          if (!vpa) {
+            throw new ValidationError(
+              "Add a verified UPI ID to your profile or enter one for this order"
+            );
+          }
 
-        // Get system settings for timer duration and UPI configuration
-        const settings = await SystemSettings.getSettings();
+          const validatedData = validateRequestBody(
+            {
+              ...sanitizedBody,
+              amount: sanitizedBody.amount,
+              vpa,
+              merchantName: sanitizedBody.merchantName,
+              createdBy: userId,
+            },
+            CreateOrderSchema
+          );
 
-        // Use static UPI ID if configured, otherwise use provided VPA
-        const vpa = settings.staticUpiId || validatedData.vpa;
+          // Compute the GST breakdown for itemized orders (totals validated above)
+          const invoice = validatedData.lineItems
+            ? calculateGstBreakdown(
+                validatedData.lineItems as LineItemInput[],
+                validatedData.supplyType
+              )
+            : undefined;
 
-        // Generate unique order ID
-        const orderId = generateOrderId();
+          // Generate unique order ID
+          const orderId = generateOrderId();
 
-        // Calculate expiration time based on system settings
-        const expiresAt = new Date(Date.now() + settings.getTimerDurationMs());
+          // Calculate expiration time based on system settings
+          const expiresAt = new Date(Date.now() + settings.getTimerDurationMs());
 
-        // Generate payment page URL
-        const paymentPageUrl = `${process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000"}/pay/${orderId}`;
+          // Generate payment page URL
+          const paymentPageUrl = `${process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000"}${buildPaymentPagePath(orderId)}`;
 
-        // Generate UPI links for enabled apps
-        const enabledApps = settings.getEnabledApps();
-        const upiLinks = generateAllUpiLinks(
-          {
-            vpa,
-            amount: validatedData.amount,
-            merchantName: validatedData.merchantName,
-            orderId,
-            note: `Payment to ${validatedData.merchantName}`,
-          },
-          enabledApps
-        );
-
-        // Extract client metadata
-        const clientIP =
-          request.headers.get("x-forwarded-for") ||
-          request.headers.get("x-real-ip") ||
-          "unknown";
-        const userAgent = request.headers.get("user-agent") || "unknown";
-        const referrer = request.headers.get("referer") || "";
-
-        // Create order in database
-        const order = await Order.create({
-          orderId,
-          amount: validatedData.amount,
-          merchantName: validatedData.merchantName,
-          vpa,
-          status: "pending",
-          createdBy: userId,
-          expiresAt,
-          paymentPageUrl,
-          upiDeepLink: upiLinks.standard,
-          metadata: {
-            customerIP: clientIP,
-            userAgent,
-            referrer,
-          },
-        });
+          // Generate UPI links for enabled apps
+          const enabledApps = settings.getEnabledApps();
+          const upiLinks = generateAllUpiLinks(
+            {
+              vpa,
+              amount: validatedData.amount,
+              merchantName: validatedData.merchantName,
+              orderId,
+              note: `Payment to ${validatedData.merchantName}`,
+            },
+            enabledApps
+          );
+
+          // Extract client metadata
+          const clientIP =
+            request.headers.get("x-forwarded-for") ||
+            request.headers.get("x-real-ip") ||
+            "unknown";
+          const userAgent = request.headers.get("user-agent") || "unknown";
+          const referrer = request.headers.get("referer") || "";
 
-        // Log order creation for audit trail
-        await logOrderCreation(
-          orderId,
-          userId,
-          {
+          // Create order in database
+          const order = await Order.create({
+            orderId,
             amount: validatedData.amount,
             merchantName: validatedData.merchantName,
             vpa,
-          },
-          {
-            ipAddress: clientIP,
-            userAgent,
-          }
-        );
-
-        // Return success response with order details
-        return NextResponse.json(
-          {
-            success: true,
-            message: "Order created successfully",
-            data: {
-              orderId: order.orderId,
-              paymentPageUrl: order.paymentPageUrl,
-              upiLinks,
-              expiresAt: order.expiresAt,
-              amount: order.amount,
-              merchantName: order.merchantName,
-              vpa: order.vpa,
+            status: "pending",
+            createdBy: userId,
+            expiresAt,
+            paymentPageUrl,
+            upiDeepLink: upiLinks.standard,
+            payerName: validatedData.payerName,
+            note: validatedData.note,
+            lineItems: invoice?.lineItems,
+            taxBreakdown: invoice?.taxBreakdown,
+            payerFields: hasPayerFields(validatedData.payerFields)
+              ? validatedData.payerFields
+              : undefined,
+            metadata: {
+              customerIP: clientIP,
+              userAgent,
+              referrer,
             },
-          },
-          { status: 201 }
-        );
+          });
+
+          // Log order creation for audit trail
+          await logOrderCreation(
+            orderId,
+            userId,
+            {
+              amount: validatedData.amount,
+              merchantName: validatedData.merchantName,
+              vpa,
+            },
+            {
+              ipAddress: clientIP,
+              userAgent,
+            }
+          );
+
+          // Notify merchant webhook endpoints
+          await emitOrderEvent("order.created", order);
+
+          // Return success response with order details
+          return NextResponse.json(
+            {
+              success: true,
+              message: "Order created successfully",
+              data: {
+                orderId: order.orderId,
+                paymentPageUrl: order.paymentPageUrl,
+                upiLinks,
+                expiresAt: order.expiresAt,
+                amount: order.amount,
+                merchantName: order.merchantName,
+                vpa: order.vpa,
+                lineItems: invoice?.lineItems,
+                taxBreakdown: invoice?.taxBreakdown,
+              },
+            },
+            { status: 201 }
+          );
+        });
       });
     });
   });
   return ensureNextResponse(response);
-});
+}, { apiKeyPermission: "create_order" });
 
 /**
  * GET /api/orders
@@ -168,11 +207,12 @@ export const POST = withStandardMiddleware(async (request: NextRequest): Promise
 export const GET = withStandardMiddleware(async (request: NextRequest): Promise<NextResponse> => {
   const response = await withRateLimit(request, rateLimiters.general, async () => {
     return withSessionManagement(request, async () => {
-      // Authenticate user
-      const { userId, sessionClaims } = await auth();
-      if (!userId) {
+      // Get authenticated user (session or API key) from middleware
+      const user = getUserFromRequest(request);
+      if (!user) {
         throw new AuthenticationError();
       }
+      const userId = user.id;
 
       // Connect to database
       await connectDB();
@@ -187,6 +227,8 @@ export const GET = withStandardMiddleware(async (request: NextRequest): Promise<
             "completed",
             "expired",
             "failed",
+            "refunded",
+            "partially-refunded",
           ])
           .optional(),
         page: z.coerce.number().min(1).default(1),
@@ -197,9 +239,8 @@ export const GET = withStandardMiddleware(async (request: NextRequest): Promise<
       const { status, page, limit } = querySchema.parse(queryParams);
       const skip = (page - 1) * limit;
 
-      // Check user role
-      const userRole = (sessionClaims?.metadata as ClerkUserMetadata)?.role;
-      const isAdmin = userRole === "admin";
+      // Admin sessions see every order; API keys are always limited to their owner
+      const isAdmin = user.permissions.includes("view_all_orders");
 
       // Build query based on user role
       let query: any = {};
@@ -230,7 +271,12 @@ export const GET = withStandardMiddleware(async (request: NextRequest): Promise<
       return NextResponse.json({
         success: true,
         data: {
-          orders,
+          // Signed links also cover orders created before URLs were signed
+          // Payer data is only decrypted for admins; merchants see it masked
+          orders: orders.map((order) => ({
+            ...redactProtectedFields(Order.schema, order, { reveal: isAdmin }),
+            paymentPageUrl: buildPaymentPagePath(order.orderId),
+          })),
           pagination: {
             currentPage: page,
             totalPages,
@@ -244,4 +290,4 @@ export const GET = withStandardMiddleware(async (request: NextRequest): Promise<
     });
   });
   return ensureNextResponse(response);
-});
+}, { apiKeyPermission: "view_own_orders" });
@@ -0,0 +1,79 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { withPublicMiddleware } from "@/lib/middleware/auth-middleware";
+import { createOrderFromPaymentLink } from "@/lib/db/queries/payment-links";
+import {
+  handleAPIError,
+  NotFoundError,
+  BusinessLogicError,
+  successResponse,
+  validateRequestBody,
+} from "@/lib/utils/api-errors";
+import { withRateLimit, rateLimiters } from "@/lib/utils/rate-limiter";
+
+interface RouteParams {
+  params: Promise<{
+    slug: string;
+  }>;
+}
+
+const SpawnOrderSchema = z.object({
+  amount: z.number().min(1).max(100000).optional(),
+});
+
+/**
+ * POST /api/payment-links/[slug]/orders
+ * Spawn a fresh order for a customer opening a payment link
+ */
+export const POST = withPublicMiddleware(
+  async (request: NextRequest, { params }: RouteParams) => {
+    return withRateLimit(request, rateLimiters.orderCreation, async () => {
+      try {
+        const { slug } = await params;
+
+        const body = await request.json().catch(() => ({}));
+        const { amount } = validateRequestBody(body, SpawnOrderSchema);
+
+        const clientIP =
+          request.headers.get("x-forwarded-for") ||
+          request.headers.get("x-real-ip") ||
+          "unknown";
+
+        try {
+          const order = await createOrderFromPaymentLink(slug, amount, {
+            ipAddress: clientIP,
+            userAgent: request.headers.get("user-agent") || "unknown",
+            referrer: request.headers.get("referer") || "",
+          });
+
+          return successResponse(
+            {
+              orderId: order.orderId,
+              amount: order.amount,
+              paymentPageUrl: order.paymentPageUrl,
+              expiresAt: order.expiresAt,
+            },
+            "Order created",
+            201
+          );
+        } catch (error) {
+          if (error instanceof Error) {
+            if (error.message === "Payment link not found") {
+              throw new NotFoundError(error.message);
+            }
+            if (
+              error.message.includes("no longer available") ||
+              error.message.startsWith("Amount must be")
+            ) {
+              throw new BusinessLogicError(error.message);
+            }
+          }
+          throw error;
+        }
+      } catch (error) {
+        return handleAPIError(error);
+      }
+    });
+  },
+  { rateLimit: false, csrf: true }
+);
@@ -0,0 +1,93 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import {
+  updatePaymentLink,
+  deletePaymentLink,
+  serializePaymentLink,
+} from "@/lib/db/queries/payment-links";
+import {
+  handleAPIError,
+  AuthenticationError,
+  NotFoundError,
+  successResponse,
+  validateRequestBody,
+} from "@/lib/utils/api-errors";
+import { PayerFieldsSchema } from "@/lib/utils/payer-details";
+
+interface RouteParams {
+  params: Promise<{
+    slug: string;
+  }>;
+}
+
+const UpdatePaymentLinkSchema = z.object({
+  title: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+  usageLimit: z.number().int().min(1).nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+  payerFields: PayerFieldsSchema.nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+/**
+ * PATCH /api/payment-links/[slug]
+ * Update title, usage cap, expiry or enable/disable a payment link
+ */
+export const PATCH = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest, { params }: RouteParams) => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const { slug } = await params;
+
+      const body = await request.json();
+      const updates = validateRequestBody(body, UpdatePaymentLinkSchema);
+
+      const link = await updatePaymentLink(slug, user.id, updates);
+      if (!link) {
+        throw new NotFoundError("Payment link not found");
+      }
+
+      return successResponse({ link: serializePaymentLink(link) });
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
+
+/**
+ * DELETE /api/payment-links/[slug]
+ * Remove a payment link; orders already spawned from it are kept
+ */
+export const DELETE = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest, { params }: RouteParams) => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const { slug } = await params;
+
+      const deleted = await deletePaymentLink(slug, user.id);
+      if (!deleted) {
+        throw new NotFoundError("Payment link not found");
+      }
+
+      return successResponse({ slug }, "Payment link deleted");
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import {
+  createPaymentLink,
+  getPaymentLinksByUser,
+  serializePaymentLink,
+} from "@/lib/db/queries/payment-links";
+import { CreatePaymentLinkSchema } from "@/lib/db/models/payment-link";
+import {
+  handleAPIError,
+  AuthenticationError,
+  ConflictError,
+  successResponse,
+  validateRequestBody,
+} from "@/lib/utils/api-errors";
+
+/**
+ * GET /api/payment-links
+ * List reusable payment links created by the current merchant
+ */
+export const GET = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const links = await getPaymentLinksByUser(user.id);
+
+      return successResponse({ links: links.map(serializePaymentLink) });
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  }
+);
+
+/**
+ * POST /api/payment-links
+ * Create a reusable payment link with a fixed or customer-entered amount
+ */
+export const POST = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const body = await request.json();
+      const data = validateRequestBody(
+        { ...body, createdBy: user.id },
+        CreatePaymentLinkSchema
+      );
+
+      try {
+        const link = await createPaymentLink(data);
+
+        return successResponse(
+          { link: serializePaymentLink(link) },
+          "Payment link created",
+          201
+        );
+      } catch (error) {
+        if (error instanceof Error && error.message.includes("already in use")) {
+          throw new ConflictError(error.message);
+        }
+        throw error;
+      }
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { runEnabledRetentionRules } from "@/lib/db/queries/retention";
+import {
+  AuthenticationError,
+  successResponse,
+  withErrorHandler,
+} from "@/lib/utils/api-errors";
+
+/**
+ * POST /api/retention/run
+ * Apply every enabled retention rule (for a daily cron job)
+ */
+export const POST = withErrorHandler(async (request: NextRequest) => {
+  // Purges are destructive, so unlike order expiry the token is required
+  const authHeader = request.headers.get("authorization");
+  const expectedToken = process.env.CRON_SECRET_TOKEN;
+
+  if (!expectedToken || authHeader !== `Bearer ${expectedToken}`) {
+    throw new AuthenticationError("Invalid cron token");
+  }
+
+  const results = await runEnabledRetentionRules();
+  const failed = results.filter((result) => result.error).length;
+
+  return successResponse(
+    { results },
+    failed > 0
+      ? `Ran ${results.length} retention rules, ${failed} failed`
+      : `Ran ${results.length} retention rules`
+  );
+});
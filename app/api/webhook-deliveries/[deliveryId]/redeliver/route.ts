@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import {
+  redeliverWebhook,
+  serializeWebhookDelivery,
+} from "@/lib/db/queries/webhooks";
+import {
+  handleAPIError,
+  AuthenticationError,
+  NotFoundError,
+  successResponse,
+} from "@/lib/utils/api-errors";
+
+interface RouteParams {
+  params: Promise<{
+    deliveryId: string;
+  }>;
+}
+
+/**
+ * POST /api/webhook-deliveries/[deliveryId]/redeliver
+ * Resend a logged delivery with its original payload
+ */
+export const POST = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest, { params }: RouteParams) => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const { deliveryId } = await params;
+
+      const delivery = await redeliverWebhook(deliveryId, user.id);
+      if (!delivery) {
+        throw new NotFoundError("Webhook delivery not found");
+      }
+
+      return successResponse(
+        { delivery: serializeWebhookDelivery(delivery) },
+        delivery.status === "delivered"
+          ? "Webhook redelivered successfully"
+          : "Redelivery attempt failed"
+      );
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
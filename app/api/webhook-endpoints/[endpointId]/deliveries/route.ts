@@ -0,0 +1,59 @@
+import { NextRequest } from "next/server";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import {
+  getWebhookDeliveries,
+  serializeWebhookDelivery,
+} from "@/lib/db/queries/webhooks";
+import {
+  handleAPIError,
+  AuthenticationError,
+  NotFoundError,
+  ValidationError,
+  successResponse,
+} from "@/lib/utils/api-errors";
+
+interface RouteParams {
+  params: Promise<{
+    endpointId: string;
+  }>;
+}
+
+/**
+ * GET /api/webhook-endpoints/[endpointId]/deliveries
+ * Delivery log for an endpoint, newest first
+ */
+export const GET = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest, { params }: RouteParams) => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const { endpointId } = await params;
+      if (!/^[a-f0-9]{24}$/i.test(endpointId)) {
+        throw new ValidationError("Invalid endpoint ID");
+      }
+
+      const limit = Math.min(
+        parseInt(request.nextUrl.searchParams.get("limit") || "50") || 50,
+        100
+      );
+
+      const deliveries = await getWebhookDeliveries(endpointId, user.id, limit);
+      if (!deliveries) {
+        throw new NotFoundError("Webhook endpoint not found");
+      }
+
+      return successResponse({
+        deliveries: deliveries.map(serializeWebhookDelivery),
+      });
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  }
+);
@@ -0,0 +1,108 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import {
+  updateWebhookEndpoint,
+  deleteWebhookEndpoint,
+  serializeWebhookEndpoint,
+} from "@/lib/db/queries/webhooks";
+import {
+  CreateWebhookEndpointSchema,
+  WebhookEventSchema,
+} from "@/lib/db/models/webhook-endpoint";
+import {
+  handleAPIError,
+  AuthenticationError,
+  NotFoundError,
+  ValidationError,
+  successResponse,
+  validateRequestBody,
+} from "@/lib/utils/api-errors";
+
+interface RouteParams {
+  params: Promise<{
+    endpointId: string;
+  }>;
+}
+
+const UpdateEndpointSchema = z.object({
+  url: CreateWebhookEndpointSchema.shape.url.optional(),
+  events: z.array(WebhookEventSchema).min(1).optional(),
+  description: z.string().max(200).optional(),
+  active: z.boolean().optional(),
+});
+
+const isValidEndpointId = (endpointId: string) =>
+  /^[a-f0-9]{24}$/i.test(endpointId);
+
+/**
+ * PATCH /api/webhook-endpoints/[endpointId]
+ * Update URL, subscribed events or enable/disable an endpoint
+ */
+export const PATCH = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest, { params }: RouteParams) => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const { endpointId } = await params;
+      if (!isValidEndpointId(endpointId)) {
+        throw new ValidationError("Invalid endpoint ID");
+      }
+
+      const body = await request.json();
+      const updates = validateRequestBody(body, UpdateEndpointSchema);
+
+      const endpoint = await updateWebhookEndpoint(
+        endpointId,
+        user.id,
+        updates
+      );
+      if (!endpoint) {
+        throw new NotFoundError("Webhook endpoint not found");
+      }
+
+      return successResponse({ endpoint: serializeWebhookEndpoint(endpoint) });
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
+
+/**
+ * DELETE /api/webhook-endpoints/[endpointId]
+ * Remove an endpoint together with its delivery log
+ */
+export const DELETE = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest, { params }: RouteParams) => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const { endpointId } = await params;
+      if (!isValidEndpointId(endpointId)) {
+        throw new ValidationError("Invalid endpoint ID");
+      }
+
+      const deleted = await deleteWebhookEndpoint(endpointId, user.id);
+      if (!deleted) {
+        throw new NotFoundError("Webhook endpoint not found");
+      }
+
+      return successResponse({ endpointId }, "Webhook endpoint deleted");
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
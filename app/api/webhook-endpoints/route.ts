@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  withPermissionMiddleware,
+  getUserFromRequest,
+} from "@/lib/middleware/auth-middleware";
+import {
+  createWebhookEndpoint,
+  getWebhookEndpointsByUser,
+  serializeWebhookEndpoint,
+} from "@/lib/db/queries/webhooks";
+import { CreateWebhookEndpointSchema } from "@/lib/db/models/webhook-endpoint";
+import {
+  handleAPIError,
+  AuthenticationError,
+  successResponse,
+  validateRequestBody,
+} from "@/lib/utils/api-errors";
+
+const RegisterEndpointSchema = CreateWebhookEndpointSchema.omit({
+  createdBy: true,
+});
+
+/**
+ * GET /api/webhook-endpoints
+ * List webhook endpoints registered by the current merchant
+ */
+export const GET = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const endpoints = await getWebhookEndpointsByUser(user.id);
+
+      return successResponse({
+        endpoints: endpoints.map(serializeWebhookEndpoint),
+      });
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  }
+);
+
+/**
+ * POST /api/webhook-endpoints
+ * Register a webhook endpoint; the signing secret is only returned once
+ */
+export const POST = withPermissionMiddleware(
+  "manage_own_links",
+  async (request: NextRequest): Promise<NextResponse> => {
+    try {
+      const user = getUserFromRequest(request);
+      if (!user) {
+        throw new AuthenticationError();
+      }
+
+      const body = await request.json();
+      const data = validateRequestBody(body, RegisterEndpointSchema);
+
+      const { endpoint, secret } = await createWebhookEndpoint({
+        ...data,
+        createdBy: user.id,
+      });
+
+      return successResponse(
+        { endpoint: serializeWebhookEndpoint(endpoint), secret },
+        "Webhook endpoint registered. Store the signing secret now; it will not be shown again.",
+        201
+      );
+    } catch (error) {
+      return handleAPIError(error);
+    }
+  },
+  { csrf: true }
+);
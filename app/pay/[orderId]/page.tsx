@@ -1,26 +1,57 @@
 import { notFound } from "next/navigation";
 import { Metadata } from "next";
 import connectDB from "@/lib/db/connection";
-import Order from "@/lib/db/models/order";
 import SystemSettings from "@/lib/db/models/settings";
+import {
+  expireOrderIfDue,
+  findOrderForPaymentUrl,
+} from "@/lib/db/queries/orders";
+import { recordPaymentPageOpened } from "@/lib/db/queries/fraud";
+import { getUsablePaymentLink } from "@/lib/db/queries/payment-links";
 import { generateAllUpiLinks } from "@/lib/utils/upi-links";
+import { PayerFieldsSchema, hasPayerFields } from "@/lib/utils/payer-details";
+import { createPaymentToken } from "@/lib/utils/payment-tokens";
+import { SensitiveDataHandler } from "@/lib/utils/encryption";
 import PaymentPageClient from "@/components/payment/payment-page-client";
+import PaymentLinkLanding from "@/components/payment/payment-link-landing";
 import { PaymentErrorBoundary } from "@/components/error/error-boundary";
 
 interface PaymentPageProps {
   params: Promise<{
     orderId: string;
   }>;
+  searchParams: Promise<{
+    sig?: string | string[];
+  }>;
 }
 
+// Signature from the shared payment URL, if any
+const getSignature = async (searchParams: PaymentPageProps["searchParams"]) => {
+  const { sig } = await searchParams;
+  return typeof sig === "string" ? sig : undefined;
+};
+
 export async function generateMetadata({
   params,
+  searchParams,
 }: PaymentPageProps): Promise<Metadata> {
   await connectDB();
   const { orderId } = await params;
-  const order = await Order.findByOrderId(orderId);
+  const order = await findOrderForPaymentUrl(
+    orderId,
+    await getSignature(searchParams)
+  );
 
   if (!order) {
+    // Reusable payment links share the /pay/ namespace with orders
+    const link = await getUsablePaymentLink(orderId);
+    if (link) {
+      return {
+        title: `Pay ${link.merchantName} - ${link.title}`,
+        description: link.description || `Pay ${link.merchantName} using UPI`,
+      };
+    }
+
     return {
       title: "Payment Not Found",
     };
@@ -32,24 +63,46 @@ export async function generateMetadata({
   };
 }
 
-export default async function PaymentPage({ params }: PaymentPageProps) {
+export default async function PaymentPage({
+  params,
+  searchParams,
+}: PaymentPageProps) {
   const { orderId } = await params;
+  const signature = await getSignature(searchParams);
 
   try {
     // Connect to database
     await connectDB();
 
-    // Find order by orderId
-    const order = await Order.findByOrderId(orderId);
+    // Unsigned or tampered links look exactly like unknown orders
+    const order = await findOrderForPaymentUrl(orderId, signature);
     if (!order) {
-      notFound();
+      // Fall back to a reusable payment link, which spawns a fresh order
+      const link = await getUsablePaymentLink(orderId);
+      if (!link) {
+        notFound();
+      }
+
+      return (
+        <PaymentErrorBoundary>
+          <PaymentLinkLanding
+            link={{
+              slug: link.slug,
+              title: link.title,
+              description: link.description,
+              merchantName: link.merchantName,
+              amountType: link.amountType,
+              amount: link.amount,
+              minAmount: link.minAmount,
+              maxAmount: link.maxAmount,
+            }}
+          />
+        </PaymentErrorBoundary>
+      );
     }
 
     // Check if order has expired and update status if needed
-    if (order.isExpired() && order.status === "pending") {
-      order.status = "expired";
-      await order.save();
-    }
+    await expireOrderIfDue(order);
 
     // Get system settings for UPI app configuration
     const settings = await SystemSettings.getSettings();
@@ -74,6 +127,14 @@ export default async function PaymentPage({ params }: PaymentPageProps) {
       Math.floor((order.expiresAt.getTime() - now.getTime()) / 1000)
     );
 
+    // Customers who can still pay start the fast submission clock
+    if (order.canSubmitUTR()) {
+      await recordPaymentPageOpened(order);
+    }
+
+    // Itemized orders carry a GST breakdown; use plain objects for the client
+    const { lineItems, taxBreakdown, payerFields } = order.toObject();
+
     // Prepare order data for client component
     const orderData = {
       orderId: order.orderId,
@@ -81,11 +142,24 @@ export default async function PaymentPage({ params }: PaymentPageProps) {
       merchantName: order.merchantName,
       vpa: order.vpa,
       status: order.status,
-      utr: order.utr,
+      utr: order.utr && SensitiveDataHandler.maskUTR(order.utr),
       createdAt: order.createdAt.toISOString(),
       expiresAt: order.expiresAt.toISOString(),
       canSubmitUTR: order.canSubmitUTR(),
       utrSubmittedAt: order.metadata?.utrSubmittedAt?.toISOString(),
+      lineItems,
+      taxBreakdown,
+      payerName: order.payerName,
+      payerFields: hasPayerFields(payerFields)
+        ? PayerFieldsSchema.parse(payerFields)
+        : undefined,
+      payerDetailsSubmitted: !!order.payerDetails?.submittedAt,
+      // Carried to the order's other public endpoints (events, receipt)
+      paymentSignature: signature,
+      // Lets the customer submit a UTR without signing in
+      paymentToken: order.canSubmitUTR()
+        ? createPaymentToken(order.orderId, order.expiresAt)
+        : undefined,
     };
 
     const settingsData = {
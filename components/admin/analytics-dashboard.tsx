@@ -49,6 +49,11 @@ interface AnalyticsData {
     conversionRate: number;
     failureRate: number;
     verificationPendingRate: number;
+    refundRate: number;
+    refunds: {
+      byStatus: Record<string, { count: number; amount: number }>;
+      totalRefunded: number;
+    };
   };
   activityTimeline: {
     orderActivity: Array<{
@@ -149,6 +154,13 @@ export function AnalyticsDashboard() {
     return action.replace(/_/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
   };
 
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+    }).format(amount);
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "completed":
@@ -161,6 +173,10 @@ export function AnalyticsDashboard() {
         return "bg-red-500";
       case "expired":
         return "bg-gray-500";
+      case "refunded":
+        return "bg-purple-500";
+      case "partially-refunded":
+        return "bg-purple-300";
       default:
         return "bg-gray-400";
     }
@@ -303,6 +319,49 @@ export function AnalyticsDashboard() {
         </CardContent>
       </Card>
 
+      {/* Refunds */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Refunds</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <div className="text-2xl font-bold text-purple-600">
+                {formatCurrency(analytics.orderMetrics.refunds.totalRefunded)}
+              </div>
+              <p className="text-xs text-muted-foreground">Total refunded</p>
+            </div>
+            <div>
+              <div className="text-2xl font-bold">
+                {analytics.orderMetrics.refundRate}%
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Of paid orders refunded
+              </p>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-yellow-600">
+                {analytics.orderMetrics.refunds.byStatus.requested?.count || 0}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Awaiting settlement (
+                {formatCurrency(
+                  analytics.orderMetrics.refunds.byStatus.requested?.amount || 0
+                )}
+                )
+              </p>
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-red-600">
+                {analytics.orderMetrics.refunds.byStatus.rejected?.count || 0}
+              </div>
+              <p className="text-xs text-muted-foreground">Rejected</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* System Activity */}
       <Card>
         <CardHeader>
@@ -0,0 +1,212 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+
+interface ChainBreak {
+  sequence: number;
+  entryId?: string;
+  reason: string;
+  message: string;
+}
+
+interface ChainVerification {
+  verified: boolean;
+  checkedEntries: number;
+  redactedEntries: number;
+  unchainedEntries: number;
+  checkpoints: number;
+  unverifiedCheckpoints: number;
+  head: { sequence: number; hash: string } | null;
+  firstBreak: ChainBreak | null;
+  verifiedAt: string;
+}
+
+interface Checkpoint {
+  id: string;
+  sequence: number;
+  hash: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export function AuditChainStatus() {
+  const csrfHeaders = useCSRFHeaders();
+  const [verification, setVerification] = useState<ChainVerification | null>(
+    null
+  );
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCheckpoints = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/audit-logs/checkpoints");
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch checkpoints");
+      }
+
+      setCheckpoints(result.data);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch checkpoints"
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCheckpoints();
+  }, [fetchCheckpoints]);
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      setMessage(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const verifyChain = () =>
+    run(async () => {
+      const response = await fetch("/api/admin/audit-logs/verify");
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to verify audit chain");
+      }
+
+      setVerification(result.data);
+    });
+
+  const createCheckpoint = () =>
+    run(async () => {
+      const response = await fetch("/api/admin/audit-logs/checkpoints", {
+        method: "POST",
+        headers: csrfHeaders,
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to create checkpoint");
+      }
+
+      setMessage(result.message);
+      await fetchCheckpoints();
+    });
+
+  const exportCheckpoints = () =>
+    run(async () => {
+      const response = await fetch("/api/admin/audit-logs/checkpoints/export");
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to export checkpoints");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit-checkpoints-${new Date().toISOString().slice(0, 10)}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    });
+
+  const latest = checkpoints[checkpoints.length - 1];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Audit Chain</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Each entry is hashed together with the one before it, so edits and
+          deletions show up as a broken link. Signed checkpoints pin the chain
+          at a point in time; export them and keep the file somewhere the
+          database can&apos;t reach.
+        </p>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        {verification && (
+          <div className="border rounded-md p-3 text-sm space-y-1">
+            <p className="font-medium text-gray-900">
+              <Badge
+                className={
+                  verification.verified
+                    ? "bg-green-100 text-green-800"
+                    : "bg-red-100 text-red-800"
+                }
+              >
+                {verification.verified ? "Intact" : "Broken"}
+              </Badge>{" "}
+              {verification.checkedEntries} entries checked
+              {verification.head
+                ? ` up to entry ${verification.head.sequence}`
+                : ""}
+            </p>
+            {verification.firstBreak && (
+              <p className="text-red-700">
+                First broken link at entry {verification.firstBreak.sequence}:{" "}
+                {verification.firstBreak.message}
+              </p>
+            )}
+            <p className="text-xs text-gray-500">
+              {verification.redactedEntries} anonymized,{" "}
+              {verification.unchainedEntries} written before the chain,{" "}
+              {verification.checkpoints} checkpoints
+              {verification.unverifiedCheckpoints > 0
+                ? ` (${verification.unverifiedCheckpoints} signed with another key)`
+                : ""}
+            </p>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">
+          {latest
+            ? `Latest checkpoint: entry ${latest.sequence}, ${new Date(latest.createdAt).toLocaleString()}${latest.createdBy === "system" ? " (scheduled)" : ""}`
+            : "No checkpoints yet."}
+        </p>
+
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={verifyChain} disabled={busy}>
+            Verify chain
+          </Button>
+          <Button variant="outline" onClick={createCheckpoint} disabled={busy}>
+            Sign checkpoint
+          </Button>
+          <Button
+            variant="outline"
+            onClick={exportCheckpoints}
+            disabled={busy || checkpoints.length === 0}
+          >
+            Export checkpoints
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
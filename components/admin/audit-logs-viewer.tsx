@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { Input } from "@/components/ui/input";
+import { AuditChainStatus } from "@/components/admin/audit-chain-status";
 
 interface AuditLog {
   id: string;
@@ -52,6 +53,17 @@ const ACTION_COLORS = {
   settings_updated: "bg-indigo-100 text-indigo-800",
   login_attempt: "bg-gray-100 text-gray-800",
   logout: "bg-gray-100 text-gray-800",
+  refund_requested: "bg-pink-100 text-pink-800",
+  refund_processed: "bg-teal-100 text-teal-800",
+  refund_rejected: "bg-red-100 text-red-800",
+  api_key_created: "bg-cyan-100 text-cyan-800",
+  api_key_revoked: "bg-rose-100 text-rose-800",
+  data_reencrypted: "bg-violet-100 text-violet-800",
+  data_purged: "bg-stone-100 text-stone-800",
+  data_request_created: "bg-sky-100 text-sky-800",
+  data_exported: "bg-lime-100 text-lime-800",
+  data_erased: "bg-amber-100 text-amber-800",
+  audit_redacted: "bg-stone-100 text-stone-800",
 };
 
 const ENTITY_TYPE_COLORS = {
@@ -172,6 +184,8 @@ export function AuditLogsViewer() {
 
   return (
     <div className="space-y-6">
+      <AuditChainStatus />
+
       {/* Filters */}
       <Card>
         <CardHeader>
@@ -207,6 +221,19 @@ export function AuditLogsViewer() {
                 <option value="settings_updated">Settings Updated</option>
                 <option value="login_attempt">Login Attempt</option>
                 <option value="logout">Logout</option>
+                <option value="refund_requested">Refund Requested</option>
+                <option value="refund_processed">Refund Processed</option>
+                <option value="refund_rejected">Refund Rejected</option>
+                <option value="api_key_created">API Key Created</option>
+                <option value="api_key_revoked">API Key Revoked</option>
+                <option value="data_reencrypted">Data Re-encrypted</option>
+                <option value="data_purged">Data Purged</option>
+                <option value="data_request_created">
+                  Data Request Created
+                </option>
+                <option value="data_exported">Data Exported</option>
+                <option value="data_erased">Data Erased</option>
+                <option value="audit_redacted">Audit Redacted</option>
               </select>
             </div>
 
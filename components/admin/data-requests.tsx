@@ -0,0 +1,396 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Swal from "sweetalert2";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+import {
+  DataRequestType,
+  SUBJECT_IDENTIFIER_LABELS,
+  SUBJECT_IDENTIFIER_TYPES,
+  SubjectIdentifierType,
+} from "@/lib/utils/data-subject";
+
+interface RecordCounts {
+  orders: number;
+  auditLogs: number;
+  sessions: number;
+  settings: number;
+}
+
+interface DataRequestForm {
+  type: DataRequestType;
+  identifierType: SubjectIdentifierType;
+  identifier: string;
+  reference: string;
+  notes: string;
+}
+
+interface DataRequest {
+  id: string;
+  type: DataRequestType;
+  identifierType: SubjectIdentifierType;
+  identifier?: string;
+  reference?: string;
+  notes?: string;
+  status: "open" | "completed";
+  requestedBy: string;
+  completedAt?: string;
+  result?: RecordCounts;
+  createdAt: string;
+}
+
+const EMPTY_REQUEST: DataRequestForm = {
+  type: "export",
+  identifierType: "phone",
+  identifier: "",
+  reference: "",
+  notes: "",
+};
+
+const describeCounts = (counts: RecordCounts) =>
+  `${counts.orders} orders, ${counts.auditLogs} audit logs, ` +
+  `${counts.sessions} sessions, ${counts.settings} settings`;
+
+export function DataRequests() {
+  const csrfHeaders = useCSRFHeaders();
+  const [requests, setRequests] = useState<DataRequest[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<DataRequestForm>(EMPTY_REQUEST);
+  // Match counts by request ID, filled in when an admin checks a request
+  const [matches, setMatches] = useState<Record<string, RecordCounts>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/data-requests");
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch data requests");
+      }
+
+      setRequests(result.data);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch data requests"
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  // Send a request and surface the API's error message on failure
+  const request = async (url: string, init?: RequestInit) => {
+    const response = await fetch(url, init);
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.error || "Request failed");
+    }
+    return result;
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createRequest = () =>
+    run(async () => {
+      await request("/api/admin/data-requests", {
+        method: "POST",
+        headers: { ...csrfHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...form,
+          reference: form.reference.trim() || undefined,
+          notes: form.notes.trim() || undefined,
+        }),
+      });
+      setShowForm(false);
+      setForm(EMPTY_REQUEST);
+      await fetchRequests();
+    });
+
+  const checkMatches = (dataRequest: DataRequest) =>
+    run(async () => {
+      const result = await request(
+        `/api/admin/data-requests/${dataRequest.id}`
+      );
+      if (result.data.matches) {
+        setMatches((current) => ({
+          ...current,
+          [dataRequest.id]: result.data.matches,
+        }));
+      }
+    });
+
+  const downloadExport = (dataRequest: DataRequest) =>
+    run(async () => {
+      const response = await fetch(
+        `/api/admin/data-requests/${dataRequest.id}/export`
+      );
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Failed to export data");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `data-export-${dataRequest.id}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+
+      await fetchRequests();
+    });
+
+  const eraseData = async (dataRequest: DataRequest) => {
+    const confirmation = await Swal.fire({
+      title: "Erase personal data?",
+      text: `Every record holding ${dataRequest.identifier} will be scrubbed. Order amounts and statuses are kept. This cannot be undone.`,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+      confirmButtonText: "Erase data",
+    });
+    if (!confirmation.isConfirmed) return;
+
+    await run(async () => {
+      const result = await request(
+        `/api/admin/data-requests/${dataRequest.id}/erase`,
+        { method: "POST", headers: csrfHeaders }
+      );
+      Swal.fire({
+        title: "Done",
+        text: `Erased from ${describeCounts(result.data.result)}`,
+        icon: "success",
+      });
+      await fetchRequests();
+    });
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Data Requests</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Export or erase what is held about a person under the DPDP Act.
+            Erasure keeps order amounts, statuses and UTRs so totals still add
+            up, and replaces an erased user ID with a pseudonym. Every request
+            and action is recorded in the audit log.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => setShowForm(true)}
+          disabled={showForm}
+        >
+          New request
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {showForm && (
+        <div className="border rounded-md p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="dataRequestType">Request</Label>
+              <select
+                id="dataRequestType"
+                value={form.type}
+                onChange={(e) =>
+                  setForm({ ...form, type: e.target.value as DataRequestType })
+                }
+                className="w-full border border-gray-300 rounded-md px-2 py-2 text-sm"
+              >
+                <option value="export">Export</option>
+                <option value="erasure">Erasure</option>
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="dataRequestIdentifierType">Identified by</Label>
+              <select
+                id="dataRequestIdentifierType"
+                value={form.identifierType}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    identifierType: e.target.value as SubjectIdentifierType,
+                  })
+                }
+                className="w-full border border-gray-300 rounded-md px-2 py-2 text-sm"
+              >
+                {SUBJECT_IDENTIFIER_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {SUBJECT_IDENTIFIER_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="dataRequestIdentifier">
+                {SUBJECT_IDENTIFIER_LABELS[form.identifierType]}
+              </Label>
+              <Input
+                id="dataRequestIdentifier"
+                value={form.identifier}
+                maxLength={200}
+                onChange={(e) =>
+                  setForm({ ...form, identifier: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="dataRequestReference">Reference</Label>
+              <Input
+                id="dataRequestReference"
+                value={form.reference}
+                maxLength={100}
+                placeholder="Ticket or letter number"
+                onChange={(e) =>
+                  setForm({ ...form, reference: e.target.value })
+                }
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Label htmlFor="dataRequestNotes">Notes</Label>
+              <Input
+                id="dataRequestNotes"
+                value={form.notes}
+                maxLength={500}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => {
+                setShowForm(false);
+                setForm(EMPTY_REQUEST);
+              }}
+              disabled={busy}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={createRequest}
+              disabled={busy || !form.identifier.trim()}
+            >
+              Record request
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {requests.length === 0 && !showForm && (
+        <p className="text-sm text-gray-500">No data requests yet.</p>
+      )}
+
+      <div className="space-y-2">
+        {requests.map((dataRequest) => (
+          <div
+            key={dataRequest.id}
+            className="flex justify-between items-center border rounded-md p-3"
+          >
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {dataRequest.type === "export" ? "Export" : "Erasure"} for{" "}
+                {SUBJECT_IDENTIFIER_LABELS[dataRequest.identifierType]}{" "}
+                <span className="font-mono">
+                  {dataRequest.identifier || "[erased]"}
+                </span>{" "}
+                <Badge
+                  variant={
+                    dataRequest.status === "open" ? "default" : "secondary"
+                  }
+                  className="text-xs ml-1"
+                >
+                  {dataRequest.status === "open" ? "Open" : "Completed"}
+                </Badge>
+              </p>
+              <p className="text-xs text-gray-500">
+                Received {new Date(dataRequest.createdAt).toLocaleString()}
+                {dataRequest.reference ? `, ref ${dataRequest.reference}` : ""}
+                {dataRequest.completedAt
+                  ? `, completed ${new Date(dataRequest.completedAt).toLocaleString()}`
+                  : ""}
+              </p>
+              {dataRequest.result && (
+                <p className="text-xs text-gray-500">
+                  {dataRequest.type === "export" ? "Exported" : "Erased from"}{" "}
+                  {describeCounts(dataRequest.result)}
+                </p>
+              )}
+              {matches[dataRequest.id] && (
+                <p className="text-xs text-gray-500">
+                  Currently held in {describeCounts(matches[dataRequest.id])}
+                </p>
+              )}
+            </div>
+            <div className="flex space-x-2">
+              {dataRequest.identifier && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => checkMatches(dataRequest)}
+                  disabled={busy}
+                >
+                  Find records
+                </Button>
+              )}
+              {dataRequest.type === "export" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => downloadExport(dataRequest)}
+                  disabled={busy}
+                >
+                  Download export
+                </Button>
+              )}
+              {dataRequest.type === "erasure" &&
+                dataRequest.status === "open" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => eraseData(dataRequest)}
+                    disabled={busy}
+                  >
+                    Erase data
+                  </Button>
+                )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
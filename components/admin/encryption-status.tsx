@@ -0,0 +1,217 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+
+interface MigrationField {
+  name: string;
+  total: number;
+  processed: number;
+  reEncrypted: number;
+  failed: number;
+}
+
+interface EncryptionMigration {
+  id: string;
+  status: "running" | "completed" | "failed" | "interrupted";
+  targetKeyId: string;
+  fields: MigrationField[];
+  progress: number;
+  error?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+interface EncryptionStatusData {
+  currentKeyId: string;
+  keyIds: string[];
+  pending: { name: string; count: number }[];
+  migration: EncryptionMigration | null;
+}
+
+const MIGRATION_STATUS_COLORS: Record<EncryptionMigration["status"], string> = {
+  running: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  interrupted: "bg-yellow-100 text-yellow-800",
+};
+
+export function EncryptionStatus() {
+  const csrfHeaders = useCSRFHeaders();
+  const [status, setStatus] = useState<EncryptionStatusData | null>(null);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/encryption");
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch encryption status");
+      }
+
+      setStatus(result.data);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch encryption status"
+      );
+    }
+  }, []);
+
+  const startMigration = async () => {
+    try {
+      setStarting(true);
+      setError(null);
+
+      const response = await fetch("/api/admin/encryption", {
+        method: "POST",
+        headers: csrfHeaders,
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to start re-encryption");
+      }
+
+      await fetchStatus();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to start re-encryption"
+      );
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const running = status?.migration?.status === "running";
+
+  // Poll for progress while a migration is running
+  useEffect(() => {
+    if (!running) return;
+
+    const interval = setInterval(fetchStatus, 3000);
+    return () => clearInterval(interval);
+  }, [running, fetchStatus]);
+
+  if (!status) {
+    return error ? (
+      <Alert variant="destructive">
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    ) : null;
+  }
+
+  const pendingTotal = status.pending.reduce(
+    (sum, field) => sum + field.count,
+    0
+  );
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Encryption</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Payer data, webhook secrets and data request identifiers are
+            encrypted with key{" "}
+            <span className="font-mono">{status.currentKeyId}</span>. After
+            adding a key, re-encrypt stored data before removing the old one.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={startMigration}
+          disabled={starting || running || pendingTotal === 0}
+        >
+          {running ? "Re-encrypting..." : "Re-encrypt stored data"}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        <div>
+          <span className="text-gray-500">Configured keys:</span>
+          <div className="ml-2 inline-flex space-x-1">
+            {status.keyIds.map((keyId) => (
+              <Badge
+                key={keyId}
+                variant={
+                  keyId === status.currentKeyId ? "default" : "secondary"
+                }
+                className="text-xs font-mono"
+              >
+                {keyId}
+              </Badge>
+            ))}
+          </div>
+        </div>
+        <div>
+          <span className="text-gray-500">Waiting for current key:</span>
+          <span className="ml-2 font-medium">
+            {status.pending
+              .map((field) => `${field.count} ${field.name}`)
+              .join(", ")}
+          </span>
+        </div>
+      </div>
+
+      {status.migration && (
+        <div className="border rounded-md p-4 space-y-3">
+          <div className="flex justify-between items-center text-sm">
+            <div>
+              <span className="font-medium text-gray-900">
+                Migration to key{" "}
+                <span className="font-mono">
+                  {status.migration.targetKeyId}
+                </span>
+              </span>
+              <span className="ml-2 text-gray-500">
+                started {new Date(status.migration.startedAt).toLocaleString()}
+              </span>
+            </div>
+            <Badge className={MIGRATION_STATUS_COLORS[status.migration.status]}>
+              {status.migration.status}
+            </Badge>
+          </div>
+
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full"
+              style={{ width: `${status.migration.progress}%` }}
+            />
+          </div>
+
+          <div className="space-y-1 text-xs text-gray-600">
+            {status.migration.fields.map((field) => (
+              <p key={field.name}>
+                <span className="font-mono">{field.name}</span>:{" "}
+                {field.processed} of {field.total} processed,{" "}
+                {field.reEncrypted} re-encrypted
+                {field.failed > 0 && (
+                  <span className="text-red-600">, {field.failed} failed</span>
+                )}
+              </p>
+            ))}
+          </div>
+
+          {status.migration.error && (
+            <p className="text-xs text-red-600">{status.migration.error}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,17 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { StatementReconciliation } from "@/components/admin/statement-reconciliation";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+import PayerDetailsSummary from "@/components/payment/payer-details-summary";
+import type { PayerDetails, PayerFields } from "@/lib/utils/payer-details";
+import { useOrderEvents } from "@/lib/utils/order-events-client";
+import type { FraudSignal, RiskReason } from "@/lib/utils/fraud-detection";
 
 interface Order {
   _id: string;
@@ -17,62 +24,168 @@ interface Order {
     | "pending-verification"
     | "completed"
     | "expired"
-    | "failed";
+    | "failed"
+    | "refunded"
+    | "partially-refunded";
   utr?: string;
+  refundedAmount?: number;
+  payerName?: string;
+  payerFields?: PayerFields;
+  payerDetails?: Omit<PayerDetails, "submittedAt"> & { submittedAt?: string };
   createdBy: string;
   createdAt: string;
   expiresAt: string;
+  // Version counter, sent back with updates so stale changes are refused
+  __v: number;
+  risk?: {
+    score: number;
+    level: "low" | "medium" | "high";
+    reasons?: RiskReason[];
+  };
 }
 
+const FRAUD_SIGNAL_LABELS: Record<FraudSignal, string> = {
+  reused_utr: "Reused UTR",
+  ip_velocity: "IP velocity",
+  device_velocity: "Device velocity",
+  fast_submission: "Fast submission",
+  amount_anomaly: "Unusual amount",
+  merchant_anomaly: "Merchant rejections",
+};
+
+interface OrderSearchFilters {
+  status: string;
+  minAmount: string;
+  maxAmount: string;
+  startDate: string;
+  endDate: string;
+  merchantName: string;
+  createdBy: string;
+  vpa: string;
+  orderId: string;
+  utr: string;
+  sortBy: string;
+  sortOrder: string;
+}
+
+const EMPTY_FILTERS: OrderSearchFilters = {
+  status: "",
+  minAmount: "",
+  maxAmount: "",
+  startDate: "",
+  endDate: "",
+  merchantName: "",
+  createdBy: "",
+  vpa: "",
+  orderId: "",
+  utr: "",
+  sortBy: "createdAt",
+  sortOrder: "desc",
+};
+
+// Convert the filter form into search query parameters
+const buildSearchParams = (filters: OrderSearchFilters) => {
+  const params = new URLSearchParams();
+
+  Object.entries(filters).forEach(([key, value]) => {
+    if (!value) return;
+
+    // Date inputs are local calendar days; send the whole day in UTC
+    if (key === "startDate") {
+      params.append(key, new Date(`${value}T00:00:00`).toISOString());
+    } else if (key === "endDate") {
+      params.append(key, new Date(`${value}T23:59:59.999`).toISOString());
+    } else {
+      params.append(key, value.trim());
+    }
+  });
+
+  return params;
+};
+
 interface OrdersOverviewProps {
   onOrderUpdated?: () => void;
 }
 
 export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
+  const csrfHeaders = useCSRFHeaders();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [statusFilter, setStatusFilter] = useState<string>("");
+  const [filters, setFilters] = useState<OrderSearchFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] =
+    useState<OrderSearchFilters>(EMPTY_FILTERS);
+  const [total, setTotal] = useState(0);
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [updatingOrder, setUpdatingOrder] = useState<string | null>(null);
+  // Set when an update was refused because the order changed meanwhile
+  const [staleOrderMessage, setStaleOrderMessage] = useState<string | null>(
+    null
+  );
 
-  // Fetch orders
-  const fetchOrders = useCallback(async () => {
-    try {
-      setLoading(true);
-      const params = new URLSearchParams({
-        page: page.toString(),
-        limit: "20",
-      });
+  // Fetch orders; background refreshes keep the current table on screen
+  const fetchOrders = useCallback(
+    async (options: { background?: boolean } = {}) => {
+      try {
+        if (!options.background) {
+          setLoading(true);
+        }
+        const params = buildSearchParams(appliedFilters);
+        params.append("page", page.toString());
+        params.append("limit", "20");
 
-      if (statusFilter) {
-        params.append("status", statusFilter);
-      }
+        const response = await fetch(`/api/admin/orders?${params}`);
 
-      const response = await fetch(`/api/orders?${params}`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || "Failed to fetch orders");
+        }
 
-      if (!response.ok) {
-        throw new Error("Failed to fetch orders");
+        const data = await response.json();
+        setOrders(data.orders);
+        setTotal(data.total);
+        setTotalPages(Math.max(data.totalPages, 1));
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch orders");
+      } finally {
+        setLoading(false);
       }
+    },
+    [page, appliedFilters]
+  );
 
-      const data = await response.json();
-      setOrders(data.orders);
-      setTotalPages(data.totalPages);
-      setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to fetch orders");
-    } finally {
-      setLoading(false);
-    }
-  }, [page, statusFilter]);
+  const handleFilterChange = (key: keyof OrderSearchFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  const handleResetFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    setPage(1);
+    setAppliedFilters(EMPTY_FILTERS);
+  };
+
+  // Exports stream from the server, so the browser downloads them directly
+  const getExportUrl = (format: "csv" | "jsonl") => {
+    const params = buildSearchParams(appliedFilters);
+    params.append("format", format);
+    return `/api/admin/orders/export?${params}`;
+  };
 
   // Update order status
   const handleUpdateOrderStatus = async (
-    orderId: string,
+    order: Order,
     newStatus: string,
     reason?: string
   ) => {
+    const { orderId } = order;
     try {
       setUpdatingOrder(orderId);
 
@@ -81,9 +194,24 @@ export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ status: newStatus, reason }),
+        body: JSON.stringify({
+          status: newStatus,
+          reason,
+          version: order.__v,
+        }),
       });
 
+      if (response.status === 409) {
+        const errorData = await response.json();
+        const current = errorData.details?.order;
+        setStaleOrderMessage(
+          current
+            ? `Order ${orderId} changed while you were viewing it and is now ${current.status}. Reload to see the latest before trying again.`
+            : errorData.error || `Order ${orderId} changed, reload to continue`
+        );
+        return;
+      }
+
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || "Failed to update order status");
@@ -101,6 +229,47 @@ export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
     }
   };
 
+  // Request a full or partial refund
+  const handleRequestRefund = async (order: Order) => {
+    const refundable = order.amount - (order.refundedAmount || 0);
+    const amountInput = prompt(
+      `Refund amount (up to ${refundable})`,
+      refundable.toString()
+    );
+    if (!amountInput) return;
+
+    const reason = prompt("Reason for refund");
+    if (!reason) return;
+
+    try {
+      setUpdatingOrder(order.orderId);
+
+      const response = await fetch("/api/admin/refunds", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...csrfHeaders,
+        },
+        body: JSON.stringify({
+          orderId: order.orderId,
+          amount: parseFloat(amountInput),
+          reason,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to request refund");
+      }
+
+      onOrderUpdated?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to request refund");
+    } finally {
+      setUpdatingOrder(null);
+    }
+  };
+
   // Get status badge variant
   const getStatusBadgeVariant = (status: string) => {
     switch (status) {
@@ -114,6 +283,9 @@ export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
         return "secondary";
       case "failed":
         return "destructive";
+      case "refunded":
+      case "partially-refunded":
+        return "secondary";
       default:
         return "outline";
     }
@@ -150,16 +322,39 @@ export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
     fetchOrders();
   }, [fetchOrders]);
 
-  // Auto-refresh for pending orders
+  // Live updates: refetch shortly after any order changes, batching bursts
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scheduleRefresh = useCallback(() => {
+    if (refreshTimer.current) return;
+    refreshTimer.current = setTimeout(() => {
+      refreshTimer.current = null;
+      fetchOrders({ background: true });
+    }, 1000);
+  }, [fetchOrders]);
+
   useEffect(() => {
+    return () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+    };
+  }, []);
+
+  const { connected: live } = useOrderEvents("/api/admin/orders/events", {
+    onEvent: scheduleRefresh,
+    onResync: scheduleRefresh,
+  });
+
+  // Auto-refresh for pending orders while the live stream is unavailable
+  useEffect(() => {
+    if (live) return;
+
     const interval = setInterval(() => {
       if (orders.some((order) => order.status === "pending")) {
-        fetchOrders();
+        fetchOrders({ background: true });
       }
     }, 30000); // Refresh every 30 seconds
 
     return () => clearInterval(interval);
-  }, [orders, fetchOrders]);
+  }, [orders, fetchOrders, live]);
 
   return (
     <div className="space-y-6">
@@ -171,6 +366,7 @@ export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
           </h2>
           <p className="text-sm text-gray-600">
             Monitor and manage all payment orders
+            {live && <span className="ml-2 text-green-600">● Live</span>}
           </p>
         </div>
         <Button onClick={() => fetchOrders()} className="w-full sm:w-auto">
@@ -178,6 +374,25 @@ export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
         </Button>
       </div>
 
+      {/* Stale order notice */}
+      {staleOrderMessage && (
+        <Alert>
+          <AlertDescription className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <span>{staleOrderMessage}</span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                setStaleOrderMessage(null);
+                fetchOrders();
+              }}
+            >
+              Reload
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Error Alert */}
       {error && (
         <Alert variant="destructive">
@@ -185,27 +400,188 @@ export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
         </Alert>
       )}
 
+      {/* Bank Statement Reconciliation */}
+      <StatementReconciliation
+        onReconciled={() => {
+          fetchOrders();
+          onOrderUpdated?.();
+        }}
+      />
+
       {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center">
-        <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 w-full sm:w-auto">
-          <Label htmlFor="status-filter" className="text-sm font-medium">
-            Filter by status:
-          </Label>
-          <select
-            id="status-filter"
-            value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value)}
-            className="w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-md text-sm"
-          >
-            <option value="">All statuses</option>
-            <option value="pending">Pending</option>
-            <option value="pending-verification">Pending Verification</option>
-            <option value="completed">Completed</option>
-            <option value="expired">Expired</option>
-            <option value="failed">Failed</option>
-          </select>
+      <form
+        onSubmit={handleSearch}
+        className="bg-white border border-gray-200 rounded-lg p-4 space-y-4"
+      >
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <Label htmlFor="status-filter">Status</Label>
+            <select
+              id="status-filter"
+              value={filters.status}
+              onChange={(e) => handleFilterChange("status", e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">All statuses</option>
+              <option value="pending">Pending</option>
+              <option value="pending-verification">Pending Verification</option>
+              <option value="completed">Completed</option>
+              <option value="expired">Expired</option>
+              <option value="failed">Failed</option>
+              <option value="partially-refunded">Partially Refunded</option>
+              <option value="refunded">Refunded</option>
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="order-id-filter">Order ID</Label>
+            <Input
+              id="order-id-filter"
+              placeholder="Full or partial order ID"
+              value={filters.orderId}
+              onChange={(e) => handleFilterChange("orderId", e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="utr-filter">UTR</Label>
+            <Input
+              id="utr-filter"
+              placeholder="12 character UTR"
+              value={filters.utr}
+              onChange={(e) => handleFilterChange("utr", e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="merchant-filter">Merchant</Label>
+            <Input
+              id="merchant-filter"
+              placeholder="Merchant name"
+              value={filters.merchantName}
+              onChange={(e) =>
+                handleFilterChange("merchantName", e.target.value)
+              }
+            />
+          </div>
+          <div>
+            <Label htmlFor="vpa-filter">UPI ID</Label>
+            <Input
+              id="vpa-filter"
+              placeholder="merchant@upi"
+              value={filters.vpa}
+              onChange={(e) => handleFilterChange("vpa", e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="created-by-filter">Created by (user ID)</Label>
+            <Input
+              id="created-by-filter"
+              placeholder="user_..."
+              value={filters.createdBy}
+              onChange={(e) => handleFilterChange("createdBy", e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Amount range</Label>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Min"
+                value={filters.minAmount}
+                onChange={(e) =>
+                  handleFilterChange("minAmount", e.target.value)
+                }
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Max"
+                value={filters.maxAmount}
+                onChange={(e) =>
+                  handleFilterChange("maxAmount", e.target.value)
+                }
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Created between</Label>
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                value={filters.startDate}
+                onChange={(e) =>
+                  handleFilterChange("startDate", e.target.value)
+                }
+              />
+              <Input
+                type="date"
+                value={filters.endDate}
+                onChange={(e) => handleFilterChange("endDate", e.target.value)}
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="sort-filter">Sort by</Label>
+            <div className="flex gap-2">
+              <select
+                id="sort-filter"
+                value={filters.sortBy}
+                onChange={(e) => handleFilterChange("sortBy", e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="createdAt">Created</option>
+                <option value="expiresAt">Expiry</option>
+                <option value="amount">Amount</option>
+                <option value="status">Status</option>
+                <option value="orderId">Order ID</option>
+                <option value="createdBy">Creator</option>
+              </select>
+              <select
+                value={filters.sortOrder}
+                onChange={(e) =>
+                  handleFilterChange("sortOrder", e.target.value)
+                }
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="desc">Desc</option>
+                <option value="asc">Asc</option>
+              </select>
+            </div>
+          </div>
         </div>
-      </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={loading}>
+              {loading ? "Searching..." : "Search"}
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={handleResetFilters}
+            >
+              Reset
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600">
+              {total} matching order{total === 1 ? "" : "s"}
+            </span>
+            <Button size="sm" variant="outline" asChild>
+              <a href={getExportUrl("csv")} download>
+                Export CSV
+              </a>
+            </Button>
+            <Button size="sm" variant="outline" asChild>
+              <a href={getExportUrl("jsonl")} download>
+                Export JSONL
+              </a>
+            </Button>
+          </div>
+        </div>
+      </form>
 
       {/* Orders Table */}
       <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
@@ -228,6 +604,9 @@ export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Merchant
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Payer
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Status
                   </th>
@@ -258,16 +637,56 @@ export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
                       <div className="text-sm font-medium text-gray-900">
                         {formatCurrency(order.amount)}
                       </div>
+                      {!!order.refundedAmount && (
+                        <div className="text-xs text-purple-600">
+                          {formatCurrency(order.refundedAmount)} refunded
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">
                         {order.merchantName}
                       </div>
                     </td>
+                    <td className="px-6 py-4 max-w-xs">
+                      <PayerDetailsSummary
+                        payerName={order.payerName}
+                        payerFields={order.payerFields}
+                        payerDetails={order.payerDetails}
+                      />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <Badge variant={getStatusBadgeVariant(order.status)}>
                         {order.status.replace("-", " ")}
                       </Badge>
+                      {order.risk && order.risk.level !== "low" && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          <Badge
+                            variant={
+                              order.risk.level === "high"
+                                ? "destructive"
+                                : "outline"
+                            }
+                            className={
+                              order.risk.level === "medium"
+                                ? "border-amber-300 bg-amber-50 text-amber-800"
+                                : undefined
+                            }
+                          >
+                            {order.risk.level} risk · {order.risk.score}
+                          </Badge>
+                          {order.risk.reasons?.map((reason) => (
+                            <Badge
+                              key={reason.signal}
+                              variant="outline"
+                              title={reason.message}
+                            >
+                              {FRAUD_SIGNAL_LABELS[reason.signal] ||
+                                reason.signal}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-gray-900">
@@ -294,7 +713,7 @@ export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
                               size="sm"
                               onClick={() =>
                                 handleUpdateOrderStatus(
-                                  order.orderId,
+                                  order,
                                   "completed",
                                   "Manual verification - approved"
                                 )
@@ -310,7 +729,7 @@ export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
                               variant="destructive"
                               onClick={() =>
                                 handleUpdateOrderStatus(
-                                  order.orderId,
+                                  order,
                                   "failed",
                                   "Manual verification - rejected"
                                 )
@@ -329,7 +748,7 @@ export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
                             variant="outline"
                             onClick={() =>
                               handleUpdateOrderStatus(
-                                order.orderId,
+                                order,
                                 "expired",
                                 "Manual expiration"
                               )
@@ -339,6 +758,17 @@ export function OrdersOverview({ onOrderUpdated }: OrdersOverviewProps) {
                             {updatingOrder === order.orderId ? "..." : "Expire"}
                           </Button>
                         )}
+                        {(order.status === "completed" ||
+                          order.status === "partially-refunded") && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRequestRefund(order)}
+                            disabled={updatingOrder === order.orderId}
+                          >
+                            {updatingOrder === order.orderId ? "..." : "Refund"}
+                          </Button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -0,0 +1,306 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+
+interface Refund {
+  _id: string;
+  refundId: string;
+  orderId: string;
+  amount: number;
+  reason: string;
+  status: "requested" | "processed" | "rejected";
+  refundUtr?: string;
+  rejectionReason?: string;
+  requestedBy: string;
+  processedAt?: string;
+  createdAt: string;
+}
+
+export function RefundsManagement() {
+  const csrfHeaders = useCSRFHeaders();
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<string>("requested");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [settlingRefund, setSettlingRefund] = useState<string | null>(null);
+
+  // Fetch refunds
+  const fetchRefunds = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({
+        page: page.toString(),
+        limit: "20",
+      });
+
+      if (statusFilter) {
+        params.append("status", statusFilter);
+      }
+
+      const response = await fetch(`/api/admin/refunds?${params}`);
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch refunds");
+      }
+
+      const data = await response.json();
+      setRefunds(data.refunds);
+      setTotalPages(data.totalPages || 1);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch refunds");
+    } finally {
+      setLoading(false);
+    }
+  }, [page, statusFilter]);
+
+  // Process or reject a refund
+  const handleSettleRefund = async (
+    refundId: string,
+    action: "process" | "reject"
+  ) => {
+    const input =
+      action === "process"
+        ? prompt("Enter the UTR of the refund transfer")
+        : prompt("Enter the reason for rejecting this refund");
+
+    if (!input) return;
+
+    try {
+      setSettlingRefund(refundId);
+
+      const response = await fetch(`/api/admin/refunds/${refundId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          ...csrfHeaders,
+        },
+        body: JSON.stringify(
+          action === "process"
+            ? { action, refundUtr: input.trim() }
+            : { action, rejectionReason: input.trim() }
+        ),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to settle refund");
+      }
+
+      await fetchRefunds();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to settle refund");
+    } finally {
+      setSettlingRefund(null);
+    }
+  };
+
+  const getStatusBadgeVariant = (status: Refund["status"]) => {
+    switch (status) {
+      case "processed":
+        return "default";
+      case "rejected":
+        return "destructive";
+      default:
+        return "secondary";
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+    }).format(amount);
+  };
+
+  useEffect(() => {
+    fetchRefunds();
+  }, [fetchRefunds]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
+            Refunds
+          </h2>
+          <p className="text-sm text-gray-600">
+            Settle requested refunds and review refund history
+          </p>
+        </div>
+        <Button onClick={() => fetchRefunds()} className="w-full sm:w-auto">
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2">
+        <Label htmlFor="refund-status-filter" className="text-sm font-medium">
+          Filter by status:
+        </Label>
+        <select
+          id="refund-status-filter"
+          value={statusFilter}
+          onChange={(e) => {
+            setStatusFilter(e.target.value);
+            setPage(1);
+          }}
+          className="w-full sm:w-auto px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="">All statuses</option>
+          <option value="requested">Requested</option>
+          <option value="processed">Processed</option>
+          <option value="rejected">Rejected</option>
+        </select>
+      </div>
+
+      {/* Refunds Table */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="mt-2 text-gray-600">Loading refunds...</p>
+          </div>
+        ) : refunds.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No refunds found</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Refund
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reason
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Refund UTR
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Requested
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {refunds.map((refund) => (
+                  <tr key={refund._id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">
+                        {refund.refundId}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {refund.orderId}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatCurrency(refund.amount)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {refund.reason}
+                      {refund.rejectionReason && (
+                        <div className="text-xs text-red-600">
+                          Rejected: {refund.rejectionReason}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <Badge variant={getStatusBadgeVariant(refund.status)}>
+                        {refund.status}
+                      </Badge>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                      {refund.refundUtr || "-"}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(refund.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {refund.status === "requested" && (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            onClick={() =>
+                              handleSettleRefund(refund.refundId, "process")
+                            }
+                            disabled={settlingRefund === refund.refundId}
+                          >
+                            {settlingRefund === refund.refundId
+                              ? "..."
+                              : "Mark Processed"}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() =>
+                              handleSettleRefund(refund.refundId, "reject")
+                            }
+                            disabled={settlingRefund === refund.refundId}
+                          >
+                            {settlingRefund === refund.refundId
+                              ? "..."
+                              : "Reject"}
+                          </Button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="px-6 py-3 bg-gray-50 border-t border-gray-200 flex items-center justify-between">
+            <div className="text-sm text-gray-700">
+              Page {page} of {totalPages}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPage(page - 1)}
+                disabled={page === 1}
+              >
+                Previous
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPage(page + 1)}
+                disabled={page === totalPages}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
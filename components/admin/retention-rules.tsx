@@ -0,0 +1,481 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Swal from "sweetalert2";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+import { AUDIT_ACTIONS, ORDER_STATUS } from "@/lib/utils/constants";
+import {
+  PURGE_AUDIT_ACTION,
+  RETENTION_ENTITIES,
+  RETENTION_ENTITY_LABELS,
+  RetentionEntity,
+  RetentionMode,
+} from "@/lib/utils/retention";
+
+interface RetentionRuleForm {
+  name: string;
+  entity: RetentionEntity;
+  statuses: string[];
+  actions: string[];
+  olderThanDays: number;
+  mode: RetentionMode;
+  enabled: boolean;
+}
+
+interface RetentionRule extends RetentionRuleForm {
+  id: string;
+  description: string;
+  lastRun?: { ranAt: string; ranBy: string; affected: number };
+}
+
+interface RetentionPreview {
+  description: string;
+  cutoff: string;
+  matched: number;
+  sample: { id: string; date: string }[];
+}
+
+const EMPTY_RULE: RetentionRuleForm = {
+  name: "",
+  entity: "orders",
+  statuses: [],
+  actions: [],
+  olderThanDays: 365,
+  mode: "anonymize",
+  enabled: true,
+};
+
+// Purge records are always kept, so they are not offered here
+const AUDIT_ACTION_OPTIONS = Object.values(AUDIT_ACTIONS).filter(
+  (action) => action !== PURGE_AUDIT_ACTION
+);
+
+const toForm = (rule: RetentionRule): RetentionRuleForm => ({
+  name: rule.name,
+  entity: rule.entity,
+  statuses: rule.statuses,
+  actions: rule.actions,
+  olderThanDays: rule.olderThanDays,
+  mode: rule.mode,
+  enabled: rule.enabled,
+});
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value)
+    ? values.filter((item) => item !== value)
+    : [...values, value];
+
+export function RetentionRules() {
+  const csrfHeaders = useCSRFHeaders();
+  const [rules, setRules] = useState<RetentionRule[]>([]);
+  // Rule being edited: "new", a rule ID, or null when the form is closed
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<RetentionRuleForm>(EMPTY_RULE);
+  const [preview, setPreview] = useState<RetentionPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const jsonHeaders = { ...csrfHeaders, "Content-Type": "application/json" };
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/retention");
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to fetch retention rules");
+      }
+
+      setRules(result.data);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to fetch retention rules"
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  // Send a request and surface the API's error message on failure
+  const request = async (url: string, init: RequestInit) => {
+    const response = await fetch(url, init);
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.error || "Request failed");
+    }
+    return result;
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openForm = (rule?: RetentionRule) => {
+    setEditing(rule ? rule.id : "new");
+    setForm(rule ? toForm(rule) : EMPTY_RULE);
+    setPreview(null);
+  };
+
+  const updateForm = (updates: Partial<RetentionRuleForm>) => {
+    setForm((current) => ({ ...current, ...updates }));
+    setPreview(null);
+  };
+
+  const previewRule = (rule: RetentionRuleForm) =>
+    run(async () => {
+      const result = await request("/api/admin/retention/preview", {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify(rule),
+      });
+      setPreview(result.data);
+    });
+
+  const saveRule = () =>
+    run(async () => {
+      await request(
+        editing === "new"
+          ? "/api/admin/retention"
+          : `/api/admin/retention/${editing}`,
+        {
+          method: editing === "new" ? "POST" : "PUT",
+          headers: jsonHeaders,
+          body: JSON.stringify(form),
+        }
+      );
+      setEditing(null);
+      setPreview(null);
+      await fetchRules();
+    });
+
+  const deleteRule = async (rule: RetentionRule) => {
+    const confirmation = await Swal.fire({
+      title: "Delete retention rule?",
+      text: `"${rule.name}" will no longer run.`,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+      confirmButtonText: "Delete rule",
+    });
+    if (!confirmation.isConfirmed) return;
+
+    await run(async () => {
+      await request(`/api/admin/retention/${rule.id}`, {
+        method: "DELETE",
+        headers: csrfHeaders,
+      });
+      await fetchRules();
+    });
+  };
+
+  const runRule = async (rule: RetentionRule) => {
+    const confirmation = await Swal.fire({
+      title: "Run retention rule now?",
+      text: `${rule.description}. This cannot be undone.`,
+      icon: "warning",
+      showCancelButton: true,
+      confirmButtonColor: "#d33",
+      cancelButtonColor: "#3085d6",
+      confirmButtonText: "Run now",
+    });
+    if (!confirmation.isConfirmed) return;
+
+    await run(async () => {
+      const result = await request(`/api/admin/retention/${rule.id}/run`, {
+        method: "POST",
+        headers: csrfHeaders,
+      });
+      Swal.fire({
+        title: "Done",
+        text: result.message,
+        icon: "success",
+        timer: 2000,
+        showConfirmButton: false,
+      });
+      await fetchRules();
+    });
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Data Retention</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Enabled rules run on the daily retention job. Anonymizing keeps
+            records and amounts but removes IPs, user agents and payer details.
+            Purges are recorded in the audit log and those records are never
+            purged.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => openForm()}
+          disabled={editing !== null}
+        >
+          Add rule
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {rules.length === 0 && editing === null && (
+        <p className="text-sm text-gray-500">
+          No retention rules. Data is kept until a rule removes it.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {rules.map((rule) => (
+          <div
+            key={rule.id}
+            className="flex justify-between items-center border rounded-md p-3"
+          >
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {rule.name}{" "}
+                <Badge
+                  variant={rule.enabled ? "default" : "secondary"}
+                  className="text-xs ml-1"
+                >
+                  {rule.enabled ? "Enabled" : "Disabled"}
+                </Badge>
+              </p>
+              <p className="text-xs text-gray-500">{rule.description}</p>
+              {rule.lastRun && (
+                <p className="text-xs text-gray-500">
+                  Last run {new Date(rule.lastRun.ranAt).toLocaleString()}
+                  {rule.lastRun.ranBy === "system" ? " (scheduled)" : ""},{" "}
+                  {rule.lastRun.affected} records
+                </p>
+              )}
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => previewRule(toForm(rule))}
+                disabled={busy}
+              >
+                Preview
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => runRule(rule)}
+                disabled={busy}
+              >
+                Run now
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => openForm(rule)}
+                disabled={busy || editing !== null}
+              >
+                Edit
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => deleteRule(rule)}
+                disabled={busy}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editing !== null && (
+        <div className="border rounded-md p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="retentionName">Name</Label>
+              <Input
+                id="retentionName"
+                value={form.name}
+                maxLength={100}
+                onChange={(e) => updateForm({ name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="retentionEntity">Applies to</Label>
+              <select
+                id="retentionEntity"
+                value={form.entity}
+                onChange={(e) =>
+                  updateForm({
+                    entity: e.target.value as RetentionEntity,
+                    statuses: [],
+                    actions: [],
+                  })
+                }
+                className="w-full border border-gray-300 rounded-md px-2 py-2 text-sm"
+              >
+                {RETENTION_ENTITIES.map((entity) => (
+                  <option key={entity} value={entity}>
+                    {RETENTION_ENTITY_LABELS[entity]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="retentionDays">Older than (days)</Label>
+              <Input
+                id="retentionDays"
+                type="number"
+                min="1"
+                max="3650"
+                value={form.olderThanDays}
+                onChange={(e) =>
+                  updateForm({ olderThanDays: Number(e.target.value) })
+                }
+              />
+            </div>
+          </div>
+
+          {form.entity === "orders" && (
+            <div>
+              <Label>Order statuses (none selected means all)</Label>
+              <div className="flex flex-wrap gap-3 mt-1">
+                {Object.values(ORDER_STATUS).map((status) => (
+                  <label key={status} className="flex items-center text-sm">
+                    <input
+                      type="checkbox"
+                      className="mr-1"
+                      checked={form.statuses.includes(status)}
+                      onChange={() =>
+                        updateForm({
+                          statuses: toggle(form.statuses, status),
+                        })
+                      }
+                    />
+                    {status}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {form.entity === "auditLogs" && (
+            <div>
+              <Label>Audit actions (none selected means all)</Label>
+              <div className="flex flex-wrap gap-3 mt-1">
+                {AUDIT_ACTION_OPTIONS.map((action) => (
+                  <label key={action} className="flex items-center text-sm">
+                    <input
+                      type="checkbox"
+                      className="mr-1"
+                      checked={form.actions.includes(action)}
+                      onChange={() =>
+                        updateForm({ actions: toggle(form.actions, action) })
+                      }
+                    />
+                    {action}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-6 text-sm">
+            <label className="flex items-center">
+              <input
+                type="radio"
+                className="mr-1"
+                checked={form.mode === "anonymize"}
+                onChange={() => updateForm({ mode: "anonymize" })}
+              />
+              Anonymize
+            </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                className="mr-1"
+                checked={form.mode === "delete"}
+                onChange={() => updateForm({ mode: "delete" })}
+              />
+              Delete
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                className="mr-1"
+                checked={form.enabled}
+                onChange={(e) => updateForm({ enabled: e.target.checked })}
+              />
+              Run on schedule
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => {
+                setEditing(null);
+                setPreview(null);
+              }}
+              disabled={busy}
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => previewRule(form)}
+              disabled={busy}
+            >
+              Preview
+            </Button>
+            <Button onClick={saveRule} disabled={busy || !form.name.trim()}>
+              Save rule
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {preview && (
+        <div className="border rounded-md p-4 space-y-2 text-sm">
+          <p className="font-medium text-gray-900">
+            Dry run: {preview.description}
+          </p>
+          <p className="text-gray-600">
+            {preview.matched} records from before{" "}
+            {new Date(preview.cutoff).toLocaleString()} would be affected.
+          </p>
+          {preview.sample.length > 0 && (
+            <ul className="text-xs text-gray-500 font-mono space-y-0.5">
+              {preview.sample.map((record) => (
+                <li key={record.id}>
+                  {record.id} ({new Date(record.date).toLocaleDateString()})
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
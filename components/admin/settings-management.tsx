@@ -7,6 +7,21 @@ import { Label } from "@/components/ui/label";
 import { Alert } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import Swal from "sweetalert2";
+import { EncryptionStatus } from "@/components/admin/encryption-status";
+import { RetentionRules } from "@/components/admin/retention-rules";
+import { DataRequests } from "@/components/admin/data-requests";
+import {
+  DEFAULT_RATE_LIMIT_POLICIES,
+  RATE_LIMIT_ALGORITHM_LABELS,
+  RATE_LIMIT_ALGORITHMS,
+  RATE_LIMIT_KEY_LABELS,
+  RATE_LIMIT_KEYS,
+  RATE_LIMIT_POLICY_LABELS,
+  RATE_LIMIT_POLICY_NAMES,
+  RateLimitPolicies,
+  RateLimitPolicy,
+  RateLimitPolicyName,
+} from "@/lib/utils/rate-limit-policies";
 
 interface SystemSettings {
   timerDuration: number;
@@ -17,6 +32,8 @@ interface SystemSettings {
     paytm: boolean;
     bhim: boolean;
   };
+  allowLegacyPaymentUrls: boolean;
+  rateLimitPolicies: RateLimitPolicies;
   updatedBy: string;
   updatedAt: string;
 }
@@ -46,6 +63,8 @@ export function SettingsManagement() {
       paytm: true,
       bhim: true,
     },
+    allowLegacyPaymentUrls: false,
+    rateLimitPolicies: DEFAULT_RATE_LIMIT_POLICIES,
   });
 
   // Fetch current settings
@@ -60,6 +79,8 @@ export function SettingsManagement() {
           timerDuration: result.data.timerDuration,
           staticUpiId: result.data.staticUpiId,
           enabledUpiApps: result.data.enabledUpiApps,
+          allowLegacyPaymentUrls: result.data.allowLegacyPaymentUrls,
+          rateLimitPolicies: result.data.rateLimitPolicies,
         });
       } else {
         throw new Error(result.error || "Failed to fetch settings");
@@ -167,6 +188,8 @@ export function SettingsManagement() {
             timerDuration: result.data.timerDuration,
             staticUpiId: result.data.staticUpiId,
             enabledUpiApps: result.data.enabledUpiApps,
+            allowLegacyPaymentUrls: result.data.allowLegacyPaymentUrls,
+            rateLimitPolicies: result.data.rateLimitPolicies,
           });
 
           Swal.fire({
@@ -227,6 +250,29 @@ export function SettingsManagement() {
     }));
   };
 
+  // Handle rate limit policy change
+  const handleRateLimitChange = (
+    name: RateLimitPolicyName,
+    changes: Partial<RateLimitPolicy>
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      rateLimitPolicies: {
+        ...prev.rateLimitPolicies,
+        [name]: { ...prev.rateLimitPolicies[name], ...changes },
+      },
+    }));
+  };
+
+  // Limits must be whole numbers the API accepts
+  const isValidRateLimitPolicy = (policy: RateLimitPolicy): boolean =>
+    Number.isInteger(policy.limit) &&
+    policy.limit >= 1 &&
+    policy.limit <= 10000 &&
+    Number.isInteger(policy.windowSeconds) &&
+    policy.windowSeconds >= 1 &&
+    policy.windowSeconds <= 24 * 60 * 60;
+
   // Validate UPI ID format
   const isValidUpiId = (upiId: string): boolean => {
     if (!upiId) return true; // Empty is valid (optional)
@@ -241,7 +287,10 @@ export function SettingsManagement() {
       formData.timerDuration !== settings.timerDuration ||
       formData.staticUpiId !== settings.staticUpiId ||
       JSON.stringify(formData.enabledUpiApps) !==
-        JSON.stringify(settings.enabledUpiApps)
+        JSON.stringify(settings.enabledUpiApps) ||
+      formData.allowLegacyPaymentUrls !== settings.allowLegacyPaymentUrls ||
+      JSON.stringify(formData.rateLimitPolicies) !==
+        JSON.stringify(settings.rateLimitPolicies)
     );
   };
 
@@ -315,7 +364,7 @@ export function SettingsManagement() {
               htmlFor="staticUpiId"
               className="text-sm font-medium text-gray-700"
             >
-              Static UPI ID (Optional)
+              Static UPI ID Override (Optional)
             </Label>
             <div className="mt-1">
               <Input
@@ -331,8 +380,8 @@ export function SettingsManagement() {
                 }`}
               />
               <p className="text-xs text-gray-500 mt-1">
-                When set, all payment links will use this UPI ID instead of
-                individual merchant UPI IDs
+                Leave empty so merchants use their own verified UPI IDs and
+                routing rules. When set, every new order uses this UPI ID.
               </p>
               {formData.staticUpiId && !isValidUpiId(formData.staticUpiId) && (
                 <p className="text-xs text-red-500 mt-1">
@@ -381,6 +430,132 @@ export function SettingsManagement() {
             </p>
           </div>
 
+          {/* Legacy payment URLs */}
+          <div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="allowLegacyPaymentUrls"
+                checked={formData.allowLegacyPaymentUrls}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    allowLegacyPaymentUrls: e.target.checked,
+                  }))
+                }
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <Label
+                htmlFor="allowLegacyPaymentUrls"
+                className="text-sm font-medium text-gray-700"
+              >
+                Allow unsigned payment links
+              </Label>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Payment links now carry a signature so orders cannot be found by
+              guessing their ID. Only enable this while old links without a
+              signature are still in circulation.
+            </p>
+          </div>
+
+          {/* Rate limits */}
+          <div>
+            <Label className="text-sm font-medium text-gray-700">
+              Rate Limits
+            </Label>
+            <p className="text-xs text-gray-500 mt-1">
+              Requests allowed per window for each group of routes. Token
+              buckets allow short bursts up to the limit and refill over the
+              window. Callers without the chosen key are counted by IP.
+            </p>
+            <div className="mt-3 space-y-3">
+              {RATE_LIMIT_POLICY_NAMES.map((name) => {
+                const policy = formData.rateLimitPolicies[name];
+                return (
+                  <div
+                    key={name}
+                    className={`grid grid-cols-1 md:grid-cols-5 gap-3 items-center border rounded-md p-3 ${
+                      isValidRateLimitPolicy(policy) ? "" : "border-red-500"
+                    }`}
+                  >
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {RATE_LIMIT_POLICY_LABELS[name].label}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {RATE_LIMIT_POLICY_LABELS[name].description}
+                      </p>
+                    </div>
+                    <select
+                      aria-label="Algorithm"
+                      value={policy.algorithm}
+                      onChange={(e) =>
+                        handleRateLimitChange(name, {
+                          algorithm: e.target
+                            .value as RateLimitPolicy["algorithm"],
+                        })
+                      }
+                      className="border border-gray-300 rounded-md px-2 py-2 text-sm"
+                    >
+                      {RATE_LIMIT_ALGORITHMS.map((algorithm) => (
+                        <option key={algorithm} value={algorithm}>
+                          {RATE_LIMIT_ALGORITHM_LABELS[algorithm]}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        aria-label="Requests"
+                        type="number"
+                        min="1"
+                        max="10000"
+                        value={policy.limit}
+                        onChange={(e) =>
+                          handleRateLimitChange(name, {
+                            limit: Number(e.target.value),
+                          })
+                        }
+                      />
+                      <span className="text-xs text-gray-500">requests</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        aria-label="Window in seconds"
+                        type="number"
+                        min="1"
+                        max={24 * 60 * 60}
+                        value={policy.windowSeconds}
+                        onChange={(e) =>
+                          handleRateLimitChange(name, {
+                            windowSeconds: Number(e.target.value),
+                          })
+                        }
+                      />
+                      <span className="text-xs text-gray-500">seconds</span>
+                    </div>
+                    <select
+                      aria-label="Count requests by"
+                      value={policy.keyBy}
+                      onChange={(e) =>
+                        handleRateLimitChange(name, {
+                          keyBy: e.target.value as RateLimitPolicy["keyBy"],
+                        })
+                      }
+                      className="border border-gray-300 rounded-md px-2 py-2 text-sm"
+                    >
+                      {RATE_LIMIT_KEYS.map((key) => (
+                        <option key={key} value={key}>
+                          Per {RATE_LIMIT_KEY_LABELS[key]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
           {/* Save Button */}
           <div className="flex justify-end space-x-3 pt-4 border-t">
             <Button
@@ -388,7 +563,10 @@ export function SettingsManagement() {
               disabled={
                 saving ||
                 !hasChanges() ||
-                (formData.staticUpiId && !isValidUpiId(formData.staticUpiId))
+                (formData.staticUpiId && !isValidUpiId(formData.staticUpiId)) ||
+                !Object.values(formData.rateLimitPolicies).every(
+                  isValidRateLimitPolicy
+                )
               }
             >
               {saving ? "Saving..." : "Save Settings"}
@@ -413,7 +591,7 @@ export function SettingsManagement() {
             <div>
               <span className="text-gray-500">Static UPI ID:</span>
               <span className="ml-2 font-medium">
-                {settings.staticUpiId || "Not set"}
+                {settings.staticUpiId || "Not set (merchant routing)"}
               </span>
             </div>
             <div>
@@ -444,6 +622,12 @@ export function SettingsManagement() {
         </div>
       )}
 
+      <EncryptionStatus />
+
+      <RetentionRules />
+
+      <DataRequests />
+
       {/* Settings History */}
       {showHistory && (
         <div className="bg-white shadow rounded-lg p-6">
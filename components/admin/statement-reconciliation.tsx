@@ -0,0 +1,210 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+
+interface ReconciliationResult {
+  line: number;
+  amount: number;
+  utr?: string;
+  vpa?: string;
+  decision: "auto_completed" | "flagged" | "already_completed" | "unmatched";
+  flag?: string;
+  orderIds: string[];
+}
+
+interface ReconciliationSummary {
+  totalCredits: number;
+  autoCompleted: number;
+  flagged: number;
+  alreadyCompleted: number;
+  unmatched: number;
+  results: ReconciliationResult[];
+}
+
+interface StatementReconciliationProps {
+  onReconciled?: () => void;
+}
+
+export function StatementReconciliation({
+  onReconciled,
+}: StatementReconciliationProps) {
+  const csrfHeaders = useCSRFHeaders();
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ReconciliationSummary | null>(null);
+
+  const handleUpload = async () => {
+    if (!file) return;
+
+    try {
+      setUploading(true);
+      setError(null);
+
+      const formData = new FormData();
+      formData.append("statement", file);
+
+      const response = await fetch("/api/admin/reconciliation", {
+        method: "POST",
+        headers: csrfHeaders,
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to reconcile statement");
+      }
+
+      setSummary(data.summary);
+      onReconciled?.();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to reconcile statement"
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const getDecisionBadgeVariant = (decision: string) => {
+    switch (decision) {
+      case "auto_completed":
+        return "default";
+      case "flagged":
+        return "destructive";
+      default:
+        return "secondary";
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+    }).format(amount);
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">
+          Bank Statement Reconciliation
+        </h3>
+        <p className="text-sm text-gray-600">
+          Upload a CSV, XLSX or MT940 statement to verify submitted UTRs
+          automatically
+        </p>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-2 items-start sm:items-center">
+        <Label htmlFor="statement-file" className="sr-only">
+          Bank statement
+        </Label>
+        <input
+          id="statement-file"
+          type="file"
+          accept=".csv,.xlsx,.xls,.sta,.mt940,.txt"
+          onChange={(e) => setFile(e.target.files?.[0] || null)}
+          className="text-sm"
+          disabled={uploading}
+        />
+        <Button
+          size="sm"
+          onClick={handleUpload}
+          disabled={!file || uploading}
+          className="w-full sm:w-auto"
+        >
+          {uploading ? "Reconciling..." : "Reconcile"}
+        </Button>
+      </div>
+
+      {summary && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+            <div>
+              <span className="font-medium">Completed:</span>{" "}
+              {summary.autoCompleted}
+            </div>
+            <div>
+              <span className="font-medium">Flagged:</span> {summary.flagged}
+            </div>
+            <div>
+              <span className="font-medium">Already completed:</span>{" "}
+              {summary.alreadyCompleted}
+            </div>
+            <div>
+              <span className="font-medium">Unmatched:</span>{" "}
+              {summary.unmatched}
+            </div>
+          </div>
+
+          {summary.results.some((result) => result.decision === "flagged") && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Line
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Amount
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      UTR
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Review
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Orders
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {summary.results
+                    .filter((result) => result.decision === "flagged")
+                    .map((result) => (
+                      <tr key={result.line}>
+                        <td className="px-4 py-2">{result.line}</td>
+                        <td className="px-4 py-2">
+                          {formatCurrency(result.amount)}
+                        </td>
+                        <td className="px-4 py-2 font-mono">
+                          {result.utr || "-"}
+                        </td>
+                        <td className="px-4 py-2">
+                          <Badge
+                            variant={getDecisionBadgeVariant(result.decision)}
+                          >
+                            {(result.flag || result.decision).replace(
+                              /_/g,
+                              " "
+                            )}
+                          </Badge>
+                        </td>
+                        <td className="px-4 py-2">
+                          {result.orderIds.join(", ") || "-"}
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, Fragment } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import Image from "next/image";
+import {
+  SessionList,
+  type ActiveSession,
+} from "@/components/auth/user-profile";
 
 interface User {
   id: string;
@@ -46,6 +50,10 @@ export function UserManagement({
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [roleFilter, setRoleFilter] = useState<string>("");
+  const [sessionsUser, setSessionsUser] = useState<string | null>(null);
+  const [userSessions, setUserSessions] = useState<ActiveSession[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [revokingSession, setRevokingSession] = useState<string | null>(null);
 
   // Form state for creating new user
   const [newUser, setNewUser] = useState<CreateUserData>({
@@ -178,6 +186,72 @@ export function UserManagement({
     }
   };
 
+  // Fetch a user's active sessions
+  const fetchUserSessions = async (userId: string) => {
+    try {
+      setSessionsLoading(true);
+      const response = await fetch(`/api/admin/users/${userId}/sessions`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch sessions");
+      }
+
+      setUserSessions(data.sessions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch sessions");
+    } finally {
+      setSessionsLoading(false);
+    }
+  };
+
+  // Show or hide a user's sessions
+  const toggleUserSessions = (userId: string) => {
+    if (sessionsUser === userId) {
+      setSessionsUser(null);
+      return;
+    }
+
+    setSessionsUser(userId);
+    setUserSessions([]);
+    fetchUserSessions(userId);
+  };
+
+  // Revoke one session, or all of them when sessionId is omitted
+  const handleRevokeSessions = async (userId: string, sessionId?: string) => {
+    if (
+      !sessionId &&
+      !confirm(
+        "Sign this user out of every device? They will need to sign in again."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setRevokingSession(sessionId || "all");
+      const response = await fetch(
+        sessionId
+          ? `/api/admin/users/${userId}/sessions/${sessionId}`
+          : `/api/admin/users/${userId}/sessions`,
+        { method: "DELETE" }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to revoke sessions");
+      }
+
+      await fetchUserSessions(userId);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to revoke sessions"
+      );
+    } finally {
+      setRevokingSession(null);
+    }
+  };
+
   // Get role badge variant
   const getRoleBadgeVariant = (role: string) => {
     switch (role) {
@@ -370,96 +444,141 @@ export function UserManagement({
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {users.map((user) => (
-                  <tr key={user.id}>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0 h-10 w-10">
-                          {user.imageUrl ? (
-                            <Image
-                              className="h-10 w-10 rounded-full"
-                              src={user.imageUrl}
-                              alt=""
-                              width={40}
-                              height={40}
-                            />
-                          ) : (
-                            <div className="h-10 w-10 rounded-full bg-gray-300 flex items-center justify-center">
-                              <span className="text-sm font-medium text-gray-700">
-                                {user.firstName?.[0]}
-                                {user.lastName?.[0]}
-                              </span>
-                            </div>
-                          )}
-                        </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-medium text-gray-900">
-                            {user.firstName} {user.lastName}
+                  <Fragment key={user.id}>
+                    <tr>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <div className="flex-shrink-0 h-10 w-10">
+                            {user.imageUrl ? (
+                              <Image
+                                className="h-10 w-10 rounded-full"
+                                src={user.imageUrl}
+                                alt=""
+                                width={40}
+                                height={40}
+                              />
+                            ) : (
+                              <div className="h-10 w-10 rounded-full bg-gray-300 flex items-center justify-center">
+                                <span className="text-sm font-medium text-gray-700">
+                                  {user.firstName?.[0]}
+                                  {user.lastName?.[0]}
+                                </span>
+                              </div>
+                            )}
                           </div>
-                          <div className="text-sm text-gray-500">
-                            {user.email}
+                          <div className="ml-4">
+                            <div className="text-sm font-medium text-gray-900">
+                              {user.firstName} {user.lastName}
+                            </div>
+                            <div className="text-sm text-gray-500">
+                              {user.email}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      {editingUser === user.id ? (
-                        <select
-                          value={user.role}
-                          onChange={(e) =>
-                            handleUpdateRole(user.id, e.target.value)
-                          }
-                          className="px-2 py-1 border border-gray-300 rounded text-sm"
-                        >
-                          <option value="viewer">Viewer</option>
-                          <option value="merchant">Merchant</option>
-                          <option value="admin">Admin</option>
-                        </select>
-                      ) : (
-                        <Badge variant={getRoleBadgeVariant(user.role)}>
-                          {user.role}
-                        </Badge>
-                      )}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {formatDate(user.createdAt)}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {formatDate(user.lastSignInAt)}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                      <div className="flex gap-2">
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
                         {editingUser === user.id ? (
+                          <select
+                            value={user.role}
+                            onChange={(e) =>
+                              handleUpdateRole(user.id, e.target.value)
+                            }
+                            className="px-2 py-1 border border-gray-300 rounded text-sm"
+                          >
+                            <option value="viewer">Viewer</option>
+                            <option value="merchant">Merchant</option>
+                            <option value="admin">Admin</option>
+                          </select>
+                        ) : (
+                          <Badge variant={getRoleBadgeVariant(user.role)}>
+                            {user.role}
+                          </Badge>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatDate(user.createdAt)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatDate(user.lastSignInAt)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <div className="flex gap-2">
+                          {editingUser === user.id ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setEditingUser(null)}
+                            >
+                              Cancel
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setEditingUser(user.id)}
+                            >
+                              Edit Role
+                            </Button>
+                          )}
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={() => setEditingUser(null)}
+                            onClick={() => toggleUserSessions(user.id)}
                           >
-                            Cancel
+                            {sessionsUser === user.id
+                              ? "Hide Sessions"
+                              : "Sessions"}
                           </Button>
-                        ) : (
                           <Button
                             size="sm"
-                            variant="outline"
-                            onClick={() => setEditingUser(user.id)}
+                            variant="destructive"
+                            onClick={() =>
+                              handleDeleteUser(
+                                user.id,
+                                `${user.firstName} ${user.lastName}`
+                              )
+                            }
                           >
-                            Edit Role
+                            Delete
                           </Button>
-                        )}
-                        <Button
-                          size="sm"
-                          variant="destructive"
-                          onClick={() =>
-                            handleDeleteUser(
-                              user.id,
-                              `${user.firstName} ${user.lastName}`
-                            )
-                          }
-                        >
-                          Delete
-                        </Button>
-                      </div>
-                    </td>
-                  </tr>
+                        </div>
+                      </td>
+                    </tr>
+                    {sessionsUser === user.id && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-4 bg-gray-50">
+                          <div className="flex items-center justify-between mb-2">
+                            <h4 className="text-sm font-semibold text-gray-900">
+                              Active sessions
+                            </h4>
+                            {userSessions.length > 0 && (
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => handleRevokeSessions(user.id)}
+                                disabled={revokingSession !== null}
+                              >
+                                Revoke All
+                              </Button>
+                            )}
+                          </div>
+                          {sessionsLoading ? (
+                            <p className="text-sm text-gray-500">
+                              Loading sessions...
+                            </p>
+                          ) : (
+                            <SessionList
+                              sessions={userSessions}
+                              revokingId={revokingSession}
+                              onRevoke={(session) =>
+                                handleRevokeSessions(user.id, session.id)
+                              }
+                            />
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
                 ))}
               </tbody>
             </table>
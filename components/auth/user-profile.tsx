@@ -1,23 +1,180 @@
 "use client";
 
+import { useCallback, useEffect, useState } from "react";
 import { UserButton } from "@clerk/nextjs";
 import { useSafeUser, useUserDisplay } from "@/lib/auth/safe-client";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 
 interface UserProfileProps {
   showRole?: boolean;
   showEmail?: boolean;
+  showSessions?: boolean;
   className?: string;
 }
 
+export interface ActiveSession {
+  id: string;
+  device: string;
+  ipAddress: string;
+  lastActivityAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+const formatSessionTime = (value: string) =>
+  new Date(value).toLocaleString("en-IN");
+
+export function SessionList({
+  sessions,
+  onRevoke,
+  revokingId,
+}: {
+  sessions: ActiveSession[];
+  onRevoke: (session: ActiveSession) => void;
+  revokingId?: string | null;
+}) {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-gray-500">No active sessions</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {sessions.map((session) => (
+        <li
+          key={session.id}
+          className="flex items-center justify-between gap-3 py-2"
+        >
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-900">
+              {session.device}
+              {session.current && (
+                <Badge variant="secondary" className="ml-2 text-xs">
+                  This device
+                </Badge>
+              )}
+            </p>
+            <p className="text-xs text-gray-500">
+              {session.ipAddress} · Last active{" "}
+              {formatSessionTime(session.lastActivityAt)} · Signed in{" "}
+              {formatSessionTime(session.createdAt)}
+            </p>
+          </div>
+          {!session.current && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onRevoke(session)}
+              disabled={revokingId === session.id}
+            >
+              {revokingId === session.id ? "Signing out..." : "Sign out"}
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ActiveSessions() {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/auth/sessions");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load sessions");
+      }
+
+      setSessions(data.sessions);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load sessions");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const revoke = async (url: string, id: string) => {
+    try {
+      setRevokingId(id);
+      const response = await fetch(url, { method: "DELETE" });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to sign out session");
+      }
+
+      await fetchSessions();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to sign out session"
+      );
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-900">
+          Your active sessions
+        </h3>
+        {sessions.some((session) => !session.current) && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => revoke("/api/auth/sessions", "others")}
+            disabled={revokingId !== null}
+          >
+            Sign out all others
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <LoadingSpinner size="sm" />
+      ) : (
+        <SessionList
+          sessions={sessions}
+          revokingId={revokingId}
+          onRevoke={(session) =>
+            revoke(`/api/auth/sessions/${session.id}`, session.id)
+          }
+        />
+      )}
+    </div>
+  );
+}
+
 export function UserProfile({
   showRole = true,
   showEmail = false,
+  showSessions = true,
   className = "",
 }: UserProfileProps) {
   const { user, isLoaded, error } = useSafeUser();
   const { displayName, email } = useUserDisplay();
+  const [sessionsOpen, setSessionsOpen] = useState(false);
 
   if (!isLoaded) {
     return (
@@ -53,7 +210,21 @@ export function UserProfile({
   };
 
   return (
-    <div className={`flex items-center space-x-3 ${className}`}>
+    <div className={`relative flex items-center space-x-3 ${className}`}>
+      {showSessions && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setSessionsOpen((open) => !open)}
+        >
+          Sessions
+        </Button>
+      )}
+      {showSessions && sessionsOpen && (
+        <div className="absolute right-0 top-full z-20 mt-2 w-96 max-w-[90vw] rounded-lg border border-gray-200 bg-white p-4 text-left shadow-lg">
+          <ActiveSessions />
+        </div>
+      )}
       <div className="flex flex-col items-end space-y-1">
         {showEmail && email && (
           <span className="text-sm text-gray-600">{email}</span>
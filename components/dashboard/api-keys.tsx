@@ -0,0 +1,281 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+import type { ApiKeyScope } from "@/lib/auth/types";
+
+const SCOPES: { value: ApiKeyScope; label: string }[] = [
+  { value: "create_order", label: "Create orders" },
+  { value: "read_orders", label: "Read orders" },
+  { value: "refund", label: "Request refunds" },
+];
+
+interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: string;
+  expiresAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+const formatDate = (value?: string) =>
+  value ? new Date(value).toLocaleString("en-IN") : "Never";
+
+const getKeyStatus = (apiKey: ApiKey) => {
+  if (apiKey.revokedAt) return "Revoked";
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) {
+    return "Expired";
+  }
+  return "Active";
+};
+
+export function ApiKeys() {
+  const csrfHeaders = useCSRFHeaders();
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["create_order"]);
+  const [expiresAt, setExpiresAt] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  const fetchApiKeys = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/api-keys");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load API keys");
+      }
+
+      setApiKeys(data.data.apiKeys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load API keys");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, [fetchApiKeys]);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch("/api/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...csrfHeaders },
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresAt: expiresAt
+            ? new Date(`${expiresAt}T23:59:59`).toISOString()
+            : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create API key");
+      }
+
+      setNewKey(data.data.key);
+      setName("");
+      setScopes(["create_order"]);
+      setExpiresAt("");
+      await fetchApiKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API key");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Requests using it will fail.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/api-keys/${apiKey.id}`, {
+        method: "DELETE",
+        headers: csrfHeaders,
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to revoke API key");
+      }
+
+      await fetchApiKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke API key");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">API Keys</h3>
+          <p className="text-sm text-gray-600">
+            Let your backend create and read orders without a browser login.
+            Send the key as{" "}
+            <code className="font-mono">Authorization: Bearer &lt;key&gt;</code>
+          </p>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {newKey && (
+          <Alert>
+            <AlertDescription>
+              <p className="font-medium">API key (shown only once):</p>
+              <code className="block mt-1 break-all font-mono text-sm">
+                {newKey}
+              </code>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-2"
+                onClick={() => setNewKey(null)}
+              >
+                I have saved it
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div>
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                placeholder="e.g. Billing server"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setName(e.target.value)}
+                required
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="api-key-expiry">Expires on (optional)</Label>
+              <Input
+                id="api-key-expiry"
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                disabled={saving}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            {SCOPES.map((scope) => (
+              <label
+                key={scope.value}
+                className="flex items-center gap-1 text-sm"
+              >
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope.value)}
+                  onChange={() => toggleScope(scope.value)}
+                  disabled={saving}
+                />
+                {scope.label}
+              </label>
+            ))}
+          </div>
+          <Button
+            type="submit"
+            size="sm"
+            disabled={saving || !name.trim() || scopes.length === 0}
+          >
+            {saving ? "Creating..." : "Create API Key"}
+          </Button>
+        </form>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Your Keys</h3>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : apiKeys.length === 0 ? (
+          <p className="text-sm text-gray-500">No API keys yet</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {apiKeys.map((apiKey) => {
+              const status = getKeyStatus(apiKey);
+
+              return (
+                <div
+                  key={apiKey.id}
+                  className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {apiKey.name}{" "}
+                      <span className="font-mono text-gray-500">
+                        {apiKey.prefix}…
+                      </span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {apiKey.scopes.join(", ")} · Last used{" "}
+                      {formatDate(apiKey.lastUsedAt)}
+                      {apiKey.expiresAt &&
+                        ` · Expires ${formatDate(apiKey.expiresAt)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant={status === "Active" ? "default" : "secondary"}
+                    >
+                      {status}
+                    </Badge>
+                    {!apiKey.revokedAt && (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleRevoke(apiKey)}
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
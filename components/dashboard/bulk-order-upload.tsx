@@ -0,0 +1,246 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+import { parseCsv } from "@/lib/utils/csv";
+
+interface BulkOrderUploadProps {
+  onComplete?: () => void;
+}
+
+interface UploadResult {
+  created: number;
+  failed: number;
+  csv: string;
+  failures: { line: string; payerName: string; error: string }[];
+}
+
+const TEMPLATE_CSV =
+  "amount,payer_name,note,vpa\r\n500,Asha Verma,Term 1 fee,\r\n750,Rahul Iyer,Term 1 fee + bus,\r\n";
+
+const downloadCsv = (csv: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export function BulkOrderUpload({ onComplete }: BulkOrderUploadProps) {
+  const csrfHeaders = useCSRFHeaders();
+  const [file, setFile] = useState<File | null>(null);
+  const [merchantName, setMerchantName] = useState("");
+  const [vpa, setVpa] = useState("");
+  const [validityHours, setValidityHours] = useState("");
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<UploadResult | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    try {
+      setUploading(true);
+      setError(null);
+      setResult(null);
+
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("merchantName", merchantName.trim());
+      if (vpa.trim()) {
+        formData.append("vpa", vpa.trim());
+      }
+      if (validityHours) {
+        formData.append(
+          "expiresInMinutes",
+          String(Math.round(parseFloat(validityHours) * 60))
+        );
+      }
+
+      const response = await fetch("/api/orders/bulk", {
+        method: "POST",
+        headers: csrfHeaders,
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to upload orders");
+      }
+
+      const csv = await response.text();
+      const [header, ...rows] = parseCsv(csv);
+      const column = (name: string) => header.indexOf(name);
+
+      setResult({
+        created: Number(response.headers.get("X-Bulk-Created") || 0),
+        failed: Number(response.headers.get("X-Bulk-Failed") || 0),
+        csv,
+        failures: rows
+          .filter((row) => row[column("status")] === "failed")
+          .map((row) => ({
+            line: row[column("line")],
+            payerName: row[column("payer_name")],
+            error: row[column("error")],
+          })),
+      });
+      setFile(null);
+      onComplete?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload orders");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            Bulk Order Upload
+          </h3>
+          <p className="text-sm text-gray-600">
+            Create up to 500 payment links at once from a CSV with amount,
+            payer name, note and an optional per-row UPI ID
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => downloadCsv(TEMPLATE_CSV, "bulk-orders-template.csv")}
+        >
+          Download Template
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <Label htmlFor="bulk-file">CSV file</Label>
+            <Input
+              id="bulk-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              required
+              disabled={uploading}
+            />
+          </div>
+          <div>
+            <Label htmlFor="bulk-merchant">Merchant name</Label>
+            <Input
+              id="bulk-merchant"
+              value={merchantName}
+              onChange={(e) => setMerchantName(e.target.value)}
+              required
+              disabled={uploading}
+            />
+          </div>
+          <div>
+            <Label htmlFor="bulk-vpa">Default UPI ID (optional)</Label>
+            <Input
+              id="bulk-vpa"
+              placeholder="merchant@upi"
+              value={vpa}
+              onChange={(e) => setVpa(e.target.value)}
+              disabled={uploading}
+            />
+          </div>
+          <div>
+            <Label htmlFor="bulk-validity">Link validity in hours (optional)</Label>
+            <Input
+              id="bulk-validity"
+              type="number"
+              min="0.1"
+              max="720"
+              step="0.1"
+              placeholder="Uses the system payment timer"
+              value={validityHours}
+              onChange={(e) => setValidityHours(e.target.value)}
+              disabled={uploading}
+            />
+          </div>
+        </div>
+
+        <Button
+          type="submit"
+          size="sm"
+          disabled={uploading || !file || !merchantName.trim()}
+        >
+          {uploading ? "Creating orders..." : "Upload and Create Orders"}
+        </Button>
+      </form>
+
+      {result && (
+        <div className="border-t pt-4 space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <p className="text-sm text-gray-900">
+              <span className="font-medium text-green-700">
+                {result.created} created
+              </span>
+              {result.failed > 0 && (
+                <span className="font-medium text-red-600">
+                  , {result.failed} failed
+                </span>
+              )}
+            </p>
+            <Button
+              size="sm"
+              onClick={() =>
+                downloadCsv(result.csv, `bulk-orders-${Date.now()}.csv`)
+              }
+            >
+              Download Results CSV
+            </Button>
+          </div>
+
+          {result.failures.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Line
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Payer
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Error
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {result.failures.map((failure) => (
+                    <tr key={failure.line}>
+                      <td className="px-4 py-2">{failure.line}</td>
+                      <td className="px-4 py-2">{failure.payerName || "-"}</td>
+                      <td className="px-4 py-2 text-red-600">
+                        {failure.error}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,16 +6,23 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 
 interface LinkSharingProps {
-  orderId: string;
+  orderId?: string;
+  // Set when sharing a reusable payment link instead of a single order
+  linkSlug?: string;
   paymentUrl: string;
   onClose?: () => void;
 }
 
 export function LinkSharing({
   orderId,
+  linkSlug,
   paymentUrl,
   onClose,
 }: LinkSharingProps) {
+  const referenceLine = linkSlug
+    ? `Payment link: ${linkSlug}`
+    : `Order ID: ${orderId}`;
+
   const [copied, setCopied] = useState(false);
   const [copyType, setCopyType] = useState<"url" | "whatsapp" | "sms" | null>(
     null
@@ -40,30 +47,29 @@ export function LinkSharing({
     }
   };
 
-  const getWhatsAppMessage = () => {
-    const message = `Hi! Please complete your payment using this secure UPI link: ${paymentUrl}
-
-Order ID: ${orderId}
+  const getShareText = () =>
+    `Hi! Please complete your payment using this secure UPI link: ${paymentUrl}\n\n${referenceLine}\n\nClick the link to pay instantly through your preferred UPI app.`;
 
-Click the link to pay instantly through your preferred UPI app.`;
-
-    return `https://wa.me/?text=${encodeURIComponent(message)}`;
+  const getWhatsAppMessage = () => {
+    return `https://wa.me/?text=${encodeURIComponent(getShareText())}`;
   };
 
   const getSMSMessage = () => {
-    const message = `Complete your payment: ${paymentUrl} (Order: ${orderId})`;
+    const message = `Complete your payment: ${paymentUrl} (${linkSlug ? `Link: ${linkSlug}` : `Order: ${orderId}`})`;
     return `sms:?body=${encodeURIComponent(message)}`;
   };
 
   const getEmailMessage = () => {
-    const subject = `Payment Link - Order ${orderId}`;
+    const subject = linkSlug
+      ? `Payment Link - ${linkSlug}`
+      : `Payment Link - Order ${orderId}`;
     const body = `Hi,
 
 Please complete your payment using the secure link below:
 
 ${paymentUrl}
 
-Order ID: ${orderId}
+${referenceLine}
 
 This link will redirect you to a secure payment page where you can pay using your preferred UPI app.
 
@@ -79,7 +85,7 @@ Thank you!`;
           <h3 className="text-lg font-semibold text-gray-900">
             Share Payment Link
           </h3>
-          <p className="text-sm text-gray-600 mt-1">Order ID: {orderId}</p>
+          <p className="text-sm text-gray-600 mt-1">{referenceLine}</p>
         </div>
         {onClose && (
           <Button variant="outline" size="sm" onClick={onClose}>
@@ -149,10 +155,7 @@ Thank you!`;
             <Button
               variant="outline"
               size="sm"
-              onClick={() => {
-                const message = `Hi! Please complete your payment using this secure UPI link: ${paymentUrl}\n\nOrder ID: ${orderId}\n\nClick the link to pay instantly through your preferred UPI app.`;
-                copyToClipboard(message, "whatsapp");
-              }}
+              onClick={() => copyToClipboard(getShareText(), "whatsapp")}
               className="flex items-center gap-2"
             >
               <span>📋</span>
@@ -173,7 +176,7 @@ Thank you!`;
             <Button
               variant="outline"
               size="sm"
-              onClick={() => window.open(`/pay/${orderId}`, "_blank")}
+              onClick={() => window.open(paymentUrl, "_blank")}
             >
               View QR Code
             </Button>
@@ -190,6 +193,9 @@ Thank you!`;
             <li>• Use WhatsApp or SMS for instant delivery</li>
             <li>• The link works on all devices and UPI apps</li>
             <li>• Payment page includes QR code for easy scanning</li>
+            {linkSlug && (
+              <li>• Every customer who opens this link gets a fresh order</li>
+            )}
           </ul>
         </div>
       </div>
@@ -8,13 +8,26 @@ import { PaymentLinkForm } from "./payment-link-form";
 import { OrderHistory } from "./order-history";
 import { DashboardStats } from "./dashboard-stats";
 import { LinkSharing } from "./link-sharing";
+import { WebhookSettings } from "./webhook-settings";
+import { PaymentLinks } from "./payment-links";
+import { BulkOrderUpload } from "./bulk-order-upload";
+import { MerchantVpas } from "./merchant-vpas";
+import { ApiKeys } from "./api-keys";
 
 interface MerchantDashboardProps {
   user: User;
   role: string;
 }
 
-type ActiveTab = "overview" | "create" | "orders";
+type ActiveTab =
+  | "overview"
+  | "create"
+  | "bulk"
+  | "links"
+  | "orders"
+  | "vpas"
+  | "webhooks"
+  | "api-keys";
 
 interface CreatedOrder {
   orderId: string;
@@ -91,12 +104,42 @@ export function MerchantDashboard({ user, role }: MerchantDashboardProps) {
               >
                 Create Link
               </button>
+              <button
+                onClick={() => setActiveTab("bulk")}
+                className={getTabButtonClass("bulk")}
+              >
+                Bulk Upload
+              </button>
+              <button
+                onClick={() => setActiveTab("links")}
+                className={getTabButtonClass("links")}
+              >
+                Payment Links
+              </button>
               <button
                 onClick={() => setActiveTab("orders")}
                 className={getTabButtonClass("orders")}
               >
                 Order History
               </button>
+              <button
+                onClick={() => setActiveTab("vpas")}
+                className={getTabButtonClass("vpas")}
+              >
+                UPI IDs
+              </button>
+              <button
+                onClick={() => setActiveTab("webhooks")}
+                className={getTabButtonClass("webhooks")}
+              >
+                Webhooks
+              </button>
+              <button
+                onClick={() => setActiveTab("api-keys")}
+                className={getTabButtonClass("api-keys")}
+              >
+                API Keys
+              </button>
             </nav>
           </div>
 
@@ -136,7 +179,10 @@ export function MerchantDashboard({ user, role }: MerchantDashboardProps) {
             <div className="mb-6">
               <LinkSharing
                 orderId={recentlyCreatedOrder.orderId}
-                paymentUrl={`${window.location.origin}${recentlyCreatedOrder.paymentPageUrl}`}
+                paymentUrl={new URL(
+                  recentlyCreatedOrder.paymentPageUrl,
+                  window.location.origin
+                ).toString()}
                 onClose={handleCloseLinkSharing}
               />
             </div>
@@ -252,6 +298,20 @@ export function MerchantDashboard({ user, role }: MerchantDashboardProps) {
               <OrderHistory refreshTrigger={refreshTrigger} />
             </div>
           )}
+
+          {activeTab === "bulk" && (
+            <BulkOrderUpload
+              onComplete={() => setRefreshTrigger((prev) => prev + 1)}
+            />
+          )}
+
+          {activeTab === "links" && <PaymentLinks />}
+
+          {activeTab === "vpas" && <MerchantVpas />}
+
+          {activeTab === "webhooks" && <WebhookSettings />}
+
+          {activeTab === "api-keys" && <ApiKeys />}
         </div>
       </main>
     </div>
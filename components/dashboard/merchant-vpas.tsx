@@ -0,0 +1,481 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+import type { VpaRoutingStrategy } from "@/lib/utils/vpa-routing";
+
+interface MerchantVpa {
+  id: string;
+  vpa: string;
+  label?: string;
+  isDefault: boolean;
+  verified: boolean;
+  verifiedAt?: string;
+  verification?: {
+    amount: number;
+    code: string;
+    upiLink: string;
+  };
+}
+
+// Form state keeps numbers as strings until the rules are saved
+interface RuleDraft {
+  from: string;
+  to: string;
+  vpa: string;
+}
+
+interface MerchantProfileResponse {
+  vpas: MerchantVpa[];
+  routing: {
+    strategy: VpaRoutingStrategy;
+    amountBands: { minAmount: number; maxAmount: number; vpa: string }[];
+    timeWindows: { startHour: number; endHour: number; vpa: string }[];
+  };
+}
+
+const STRATEGIES: { value: VpaRoutingStrategy; label: string }[] = [
+  { value: "default", label: "Always use the default UPI ID" },
+  { value: "amount", label: "By amount band" },
+  { value: "time", label: "By time of day (IST)" },
+  { value: "round-robin", label: "Round-robin across verified UPI IDs" },
+];
+
+export function MerchantVpas() {
+  const csrfHeaders = useCSRFHeaders();
+  const [vpas, setVpas] = useState<MerchantVpa[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [newVpa, setNewVpa] = useState("");
+  const [newLabel, setNewLabel] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [utrInputs, setUtrInputs] = useState<Record<string, string>>({});
+  const [strategy, setStrategy] = useState<VpaRoutingStrategy>("default");
+  const [amountBands, setAmountBands] = useState<RuleDraft[]>([]);
+  const [timeWindows, setTimeWindows] = useState<RuleDraft[]>([]);
+
+  const applyProfile = (profile: MerchantProfileResponse) => {
+    setVpas(profile.vpas);
+    setStrategy(profile.routing.strategy);
+    setAmountBands(
+      profile.routing.amountBands.map((band) => ({
+        from: String(band.minAmount),
+        to: String(band.maxAmount),
+        vpa: band.vpa,
+      }))
+    );
+    setTimeWindows(
+      profile.routing.timeWindows.map((window) => ({
+        from: String(window.startHour),
+        to: String(window.endHour),
+        vpa: window.vpa,
+      }))
+    );
+  };
+
+  const fetchProfile = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/merchant-vpas");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load UPI IDs");
+      }
+
+      applyProfile(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load UPI IDs");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const sendRequest = async (
+    url: string,
+    method: string,
+    fallbackError: string,
+    body?: unknown
+  ) => {
+    try {
+      setError(null);
+      setNotice(null);
+
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json", ...csrfHeaders },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || fallbackError);
+      }
+
+      applyProfile(data.data);
+      setNotice(data.message || null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      return false;
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    const added = await sendRequest(
+      "/api/merchant-vpas",
+      "POST",
+      "Failed to add UPI ID",
+      { vpa: newVpa.trim(), label: newLabel.trim() || undefined }
+    );
+    setSaving(false);
+
+    if (added) {
+      setNewVpa("");
+      setNewLabel("");
+    }
+  };
+
+  const handleVerify = async (vpaId: string) => {
+    const verified = await sendRequest(
+      `/api/merchant-vpas/${vpaId}/verify`,
+      "POST",
+      "Failed to verify UPI ID",
+      { utr: (utrInputs[vpaId] || "").trim() }
+    );
+
+    if (verified) {
+      setUtrInputs((prev) => ({ ...prev, [vpaId]: "" }));
+    }
+  };
+
+  const handleRemove = async (entry: MerchantVpa) => {
+    if (!confirm(`Remove ${entry.vpa} and any routing rules that use it?`)) {
+      return;
+    }
+
+    await sendRequest(
+      `/api/merchant-vpas/${entry.id}`,
+      "DELETE",
+      "Failed to remove UPI ID"
+    );
+  };
+
+  const handleSaveRouting = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    await sendRequest(
+      "/api/merchant-vpas/routing",
+      "PUT",
+      "Failed to save routing rules",
+      {
+        strategy,
+        amountBands: amountBands.map((band) => ({
+          minAmount: Number(band.from),
+          maxAmount: Number(band.to),
+          vpa: band.vpa,
+        })),
+        timeWindows: timeWindows.map((window) => ({
+          startHour: Number(window.from),
+          endHour: Number(window.to),
+          vpa: window.vpa,
+        })),
+      }
+    );
+    setSaving(false);
+  };
+
+  const verifiedVpas = vpas.filter((entry) => entry.verified);
+
+  const renderRules = (
+    rules: RuleDraft[],
+    setRules: (rules: RuleDraft[]) => void,
+    labels: { from: string; to: string; max: number }
+  ) => (
+    <div className="space-y-2">
+      {rules.map((rule, index) => {
+        const update = (changes: Partial<RuleDraft>) =>
+          setRules(
+            rules.map((r, i) => (i === index ? { ...r, ...changes } : r))
+          );
+
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              max={labels.max}
+              placeholder={labels.from}
+              value={rule.from}
+              onChange={(e) => update({ from: e.target.value })}
+              className="w-28"
+              required
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <Input
+              type="number"
+              min="0"
+              max={labels.max}
+              placeholder={labels.to}
+              value={rule.to}
+              onChange={(e) => update({ to: e.target.value })}
+              className="w-28"
+              required
+            />
+            <select
+              value={rule.vpa}
+              onChange={(e) => update({ vpa: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+              required
+            >
+              <option value="">Select UPI ID</option>
+              {verifiedVpas.map((entry) => (
+                <option key={entry.id} value={entry.vpa}>
+                  {entry.label ? `${entry.label} (${entry.vpa})` : entry.vpa}
+                </option>
+              ))}
+            </select>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => setRules(rules.filter((_, i) => i !== index))}
+            >
+              Remove
+            </Button>
+          </div>
+        );
+      })}
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => setRules([...rules, { from: "", to: "", vpa: "" }])}
+      >
+        Add rule
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">UPI IDs</h3>
+          <p className="text-sm text-gray-600">
+            Register the UPI IDs you collect payments on. Each one is verified
+            with a small test payment before it can receive orders.
+          </p>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {notice && (
+          <Alert>
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        <form
+          onSubmit={handleAdd}
+          className="flex flex-col sm:flex-row sm:items-end gap-3"
+        >
+          <div className="flex-1">
+            <Label htmlFor="merchant-vpa">UPI ID</Label>
+            <Input
+              id="merchant-vpa"
+              placeholder="merchant@upi"
+              value={newVpa}
+              onChange={(e) => setNewVpa(e.target.value)}
+              required
+              disabled={saving}
+            />
+          </div>
+          <div className="flex-1">
+            <Label htmlFor="merchant-vpa-label">Label (optional)</Label>
+            <Input
+              id="merchant-vpa-label"
+              placeholder="e.g. Current account"
+              value={newLabel}
+              maxLength={50}
+              onChange={(e) => setNewLabel(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <Button type="submit" size="sm" disabled={saving || !newVpa.trim()}>
+            Add UPI ID
+          </Button>
+        </form>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">
+          Registered UPI IDs
+        </h3>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : vpas.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No UPI IDs yet. Until you add one, enter a UPI ID on each order.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {vpas.map((entry) => (
+              <div key={entry.id} className="py-3 space-y-2">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-mono text-sm truncate">{entry.vpa}</p>
+                    {entry.label && (
+                      <p className="text-xs text-gray-500">{entry.label}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {entry.isDefault && <Badge>Default</Badge>}
+                    <Badge variant={entry.verified ? "default" : "secondary"}>
+                      {entry.verified ? "Verified" : "Unverified"}
+                    </Badge>
+                    {entry.verified && !entry.isDefault && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          sendRequest(
+                            `/api/merchant-vpas/${entry.id}`,
+                            "PATCH",
+                            "Failed to update UPI ID",
+                            { isDefault: true }
+                          )
+                        }
+                      >
+                        Make default
+                      </Button>
+                    )}
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleRemove(entry)}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+
+                {entry.verification && (
+                  <div className="bg-gray-50 rounded-md p-3 space-y-2 text-sm">
+                    <p className="text-gray-700">
+                      Pay{" "}
+                      <strong>₹{entry.verification.amount.toFixed(2)}</strong>{" "}
+                      to this UPI ID with the note{" "}
+                      <code className="font-mono">
+                        VERIFY {entry.verification.code}
+                      </code>
+                      , then enter the UTR from your UPI app.
+                    </p>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <Button asChild variant="outline" size="sm">
+                        <a href={entry.verification.upiLink}>
+                          Pay with UPI app
+                        </a>
+                      </Button>
+                      <Input
+                        placeholder="12-character UTR"
+                        maxLength={12}
+                        value={utrInputs[entry.id] || ""}
+                        onChange={(e) =>
+                          setUtrInputs((prev) => ({
+                            ...prev,
+                            [entry.id]: e.target.value,
+                          }))
+                        }
+                        className="sm:w-48"
+                      />
+                      <Button
+                        size="sm"
+                        disabled={
+                          (utrInputs[entry.id] || "").trim().length !== 12
+                        }
+                        onClick={() => handleVerify(entry.id)}
+                      >
+                        Verify
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <form
+        onSubmit={handleSaveRouting}
+        className="bg-white shadow rounded-lg p-6 space-y-4"
+      >
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Routing</h3>
+          <p className="text-sm text-gray-600">
+            Choose which verified UPI ID receives new orders when none is
+            entered. Orders that match no rule use the default.
+          </p>
+        </div>
+
+        <div>
+          <Label htmlFor="routing-strategy">Strategy</Label>
+          <select
+            id="routing-strategy"
+            value={strategy}
+            onChange={(e) => setStrategy(e.target.value as VpaRoutingStrategy)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {STRATEGIES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {strategy === "amount" &&
+          renderRules(amountBands, setAmountBands, {
+            from: "Min ₹",
+            to: "Max ₹",
+            max: 100000,
+          })}
+
+        {strategy === "time" &&
+          renderRules(timeWindows, setTimeWindows, {
+            from: "From hour",
+            to: "To hour",
+            max: 24,
+          })}
+
+        <Button
+          type="submit"
+          size="sm"
+          disabled={saving || verifiedVpas.length === 0}
+        >
+          {saving ? "Saving..." : "Save Routing"}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -5,6 +5,10 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 import { OrderStatusTracker } from "@/components/payment/order-status-tracker";
+import GstBreakdown from "@/components/payment/gst-breakdown";
+import PayerDetailsSummary from "@/components/payment/payer-details-summary";
+import type { LineItem, TaxBreakdown } from "@/lib/utils/gst";
+import type { PayerDetails, PayerFields } from "@/lib/utils/payer-details";
 
 interface Order {
   _id: string;
@@ -17,8 +21,16 @@ interface Order {
     | "pending-verification"
     | "completed"
     | "expired"
-    | "failed";
+    | "failed"
+    | "refunded"
+    | "partially-refunded";
   utr?: string;
+  refundedAmount?: number;
+  lineItems?: LineItem[];
+  taxBreakdown?: TaxBreakdown;
+  payerName?: string;
+  payerFields?: PayerFields;
+  payerDetails?: Omit<PayerDetails, "submittedAt"> & { submittedAt?: string };
   createdAt: string;
   expiresAt: string;
   paymentPageUrl: string;
@@ -39,6 +51,7 @@ export function OrderHistory({
   const [selectedStatus, setSelectedStatus] = useState<string>("all");
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const [expandedInvoice, setExpandedInvoice] = useState<string | null>(null);
 
   const fetchOrders = async (page = 1, status?: string) => {
     setIsLoading(true);
@@ -105,6 +118,9 @@ export function OrderHistory({
         return "destructive"; // Red
       case "failed":
         return "destructive"; // Red
+      case "refunded":
+      case "partially-refunded":
+        return "outline";
       default:
         return "secondary";
     }
@@ -127,8 +143,14 @@ export function OrderHistory({
     });
   };
 
-  const getPaymentUrl = (orderId: string) => {
-    return `${window.location.origin}/pay/${orderId}`;
+  const getPaymentUrl = (order: Order) => {
+    return new URL(order.paymentPageUrl, window.location.origin).toString();
+  };
+
+  // Receipts are public, so they carry the payment link's signature
+  const getReceiptUrl = (order: Order) => {
+    const { search } = new URL(order.paymentPageUrl, window.location.origin);
+    return `/api/orders/${order.orderId}/receipt${search}`;
   };
 
   if (error) {
@@ -166,6 +188,7 @@ export function OrderHistory({
                 "completed",
                 "expired",
                 "failed",
+                "refunded",
               ].map((status) => (
                 <Button
                   key={status}
@@ -222,6 +245,12 @@ export function OrderHistory({
                       <div>
                         <span className="font-medium">Amount:</span>{" "}
                         {formatAmount(order.amount)}
+                        {!!order.refundedAmount && (
+                          <span className="text-purple-600">
+                            {" "}
+                            ({formatAmount(order.refundedAmount)} refunded)
+                          </span>
+                        )}
                       </div>
                       <div>
                         <span className="font-medium">Merchant:</span>{" "}
@@ -244,6 +273,43 @@ export function OrderHistory({
                       )}
                     </div>
 
+                    <div className="mt-2">
+                      <PayerDetailsSummary
+                        payerName={order.payerName}
+                        payerFields={order.payerFields}
+                        payerDetails={order.payerDetails}
+                      />
+                    </div>
+
+                    {order.lineItems && order.taxBreakdown && (
+                      <div className="mt-2">
+                        <button
+                          type="button"
+                          className="text-sm text-blue-600 hover:underline"
+                          onClick={() =>
+                            setExpandedInvoice(
+                              expandedInvoice === order.orderId
+                                ? null
+                                : order.orderId
+                            )
+                          }
+                        >
+                          {expandedInvoice === order.orderId
+                            ? "Hide bill details"
+                            : `Show bill details (${order.lineItems.length} items, GST ${formatAmount(order.taxBreakdown.totalTax)})`}
+                        </button>
+                        {expandedInvoice === order.orderId && (
+                          <div className="mt-2 max-w-xl">
+                            <GstBreakdown
+                              lineItems={order.lineItems}
+                              taxBreakdown={order.taxBreakdown}
+                              compact
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {order.status !== "expired" &&
                       order.status !== "failed" && (
                         <div className="mt-3">
@@ -256,9 +322,7 @@ export function OrderHistory({
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() =>
-                        copyToClipboard(getPaymentUrl(order.orderId))
-                      }
+                      onClick={() => copyToClipboard(getPaymentUrl(order))}
                     >
                       Copy Link
                     </Button>
@@ -267,11 +331,23 @@ export function OrderHistory({
                       variant="outline"
                       size="sm"
                       onClick={() =>
-                        window.open(getPaymentUrl(order.orderId), "_blank")
+                        window.open(getPaymentUrl(order), "_blank")
                       }
                     >
                       View Page
                     </Button>
+
+                    {order.status === "completed" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          window.open(getReceiptUrl(order), "_blank")
+                        }
+                      >
+                        Download Receipt
+                      </Button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,126 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  MAX_CUSTOM_PAYER_FIELDS,
+  type PayerFields,
+} from "@/lib/utils/payer-details";
+
+interface PayerFieldsEditorProps {
+  value: PayerFields;
+  onChange: (value: PayerFields) => void;
+  disabled?: boolean;
+}
+
+export const EMPTY_PAYER_FIELDS: PayerFields = {
+  name: false,
+  phone: false,
+  email: false,
+  customFields: [],
+};
+
+const STANDARD_FIELDS = [
+  { key: "name", label: "Name" },
+  { key: "phone", label: "Phone" },
+  { key: "email", label: "Email" },
+] as const;
+
+export function PayerFieldsEditor({
+  value,
+  onChange,
+  disabled = false,
+}: PayerFieldsEditorProps) {
+  const updateCustomField = (
+    index: number,
+    changes: Partial<PayerFields["customFields"][number]>
+  ) => {
+    onChange({
+      ...value,
+      customFields: value.customFields.map((field, i) =>
+        i === index ? { ...field, ...changes } : field
+      ),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-gray-900">
+        Ask the payer for (optional)
+      </p>
+      <div className="flex flex-wrap gap-4">
+        {STANDARD_FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-1 text-sm">
+            <input
+              type="checkbox"
+              checked={value[key]}
+              onChange={(e) => onChange({ ...value, [key]: e.target.checked })}
+              disabled={disabled}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      {value.customFields.map((field, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            placeholder="Field label, e.g. Roll number"
+            value={field.label}
+            maxLength={50}
+            onChange={(e) =>
+              updateCustomField(index, { label: e.target.value })
+            }
+            required
+            disabled={disabled}
+          />
+          <label className="flex items-center gap-1 text-sm whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={field.required}
+              onChange={(e) =>
+                updateCustomField(index, { required: e.target.checked })
+              }
+              disabled={disabled}
+            />
+            Required
+          </label>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() =>
+              onChange({
+                ...value,
+                customFields: value.customFields.filter((_, i) => i !== index),
+              })
+            }
+            disabled={disabled}
+          >
+            Remove
+          </Button>
+        </div>
+      ))}
+
+      {value.customFields.length < MAX_CUSTOM_PAYER_FIELDS && (
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() =>
+            onChange({
+              ...value,
+              customFields: [
+                ...value.customFields,
+                { label: "", required: true },
+              ],
+            })
+          }
+          disabled={disabled}
+        >
+          Add custom field
+        </Button>
+      )}
+    </div>
+  );
+}
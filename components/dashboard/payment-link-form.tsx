@@ -1,12 +1,14 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
+import { PayerFieldsEditor, EMPTY_PAYER_FIELDS } from "./payer-fields-editor";
+import { hasPayerFields, type PayerFields } from "@/lib/utils/payer-details";
 
 const CreateOrderSchema = z.object({
   amount: z
@@ -33,14 +35,19 @@ export function PaymentLinkForm({ onSuccess }: PaymentLinkFormProps) {
     merchantName: "",
     vpa: "",
   });
+  const [payerFields, setPayerFields] =
+    useState<PayerFields>(EMPTY_PAYER_FIELDS);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(false);
+  // Reused until the order is created so double submits cannot duplicate it
+  const idempotencyKey = useRef<string | null>(null);
   const router = useRouter();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setErrors({});
+    idempotencyKey.current ??= crypto.randomUUID();
 
     try {
       // Validate form data
@@ -55,8 +62,12 @@ export function PaymentLinkForm({ onSuccess }: PaymentLinkFormProps) {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKey.current,
         },
-        body: JSON.stringify(validatedData),
+        body: JSON.stringify({
+          ...validatedData,
+          payerFields: hasPayerFields(payerFields) ? payerFields : undefined,
+        }),
       });
 
       if (!response.ok) {
@@ -65,6 +76,7 @@ export function PaymentLinkForm({ onSuccess }: PaymentLinkFormProps) {
       }
 
       const orderData = await response.json();
+      idempotencyKey.current = null;
 
       // Reset form
       setFormData({
@@ -72,6 +84,7 @@ export function PaymentLinkForm({ onSuccess }: PaymentLinkFormProps) {
         merchantName: "",
         vpa: "",
       });
+      setPayerFields(EMPTY_PAYER_FIELDS);
 
       // Call success callback or refresh page
       if (onSuccess) {
@@ -100,6 +113,8 @@ export function PaymentLinkForm({ onSuccess }: PaymentLinkFormProps) {
 
   const handleInputChange = (field: string, value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
+    // A changed form is a new order, not a retry
+    idempotencyKey.current = null;
     // Clear error when user starts typing
     if (errors[field]) {
       setErrors((prev) => ({ ...prev, [field]: "" }));
@@ -174,10 +189,19 @@ export function PaymentLinkForm({ onSuccess }: PaymentLinkFormProps) {
             <p className="text-sm text-red-600 mt-1">{errors.vpa}</p>
           )}
           <p className="text-xs text-gray-500 mt-1">
-            If left empty, the system will use the configured default UPI ID
+            If left empty, your UPI ID routing rules pick one for this order
           </p>
         </div>
 
+        <PayerFieldsEditor
+          value={payerFields}
+          onChange={(value) => {
+            setPayerFields(value);
+            idempotencyKey.current = null;
+          }}
+          disabled={isLoading}
+        />
+
         <div className="flex justify-end">
           <Button type="submit" disabled={isLoading}>
             {isLoading ? (
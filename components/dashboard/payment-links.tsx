@@ -0,0 +1,442 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+import { LinkSharing } from "./link-sharing";
+import { PayerFieldsEditor, EMPTY_PAYER_FIELDS } from "./payer-fields-editor";
+import {
+  describePayerFields,
+  hasPayerFields,
+  type PayerFields,
+} from "@/lib/utils/payer-details";
+
+interface PaymentLink {
+  slug: string;
+  title: string;
+  description?: string;
+  merchantName: string;
+  amountType: "fixed" | "open";
+  amount?: number;
+  minAmount: number;
+  maxAmount: number;
+  usageLimit?: number;
+  usageCount: number;
+  expiresAt?: string;
+  payerFields?: PayerFields;
+  active: boolean;
+  paymentUrl: string;
+  createdAt: string;
+}
+
+const initialForm = {
+  slug: "",
+  title: "",
+  merchantName: "",
+  vpa: "",
+  amountType: "fixed" as "fixed" | "open",
+  amount: "",
+  minAmount: "",
+  maxAmount: "",
+  usageLimit: "",
+  expiresAt: "",
+};
+
+const toOptionalNumber = (value: string) =>
+  value.trim() === "" ? undefined : Number(value);
+
+export function PaymentLinks() {
+  const csrfHeaders = useCSRFHeaders();
+  const [links, setLinks] = useState<PaymentLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState(initialForm);
+  const [payerFields, setPayerFields] =
+    useState<PayerFields>(EMPTY_PAYER_FIELDS);
+  const [saving, setSaving] = useState(false);
+  const [sharingLink, setSharingLink] = useState<PaymentLink | null>(null);
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/payment-links");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load payment links");
+      }
+
+      setLinks(data.data.links);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load payment links"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  const updateField = (field: keyof typeof initialForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch("/api/payment-links", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...csrfHeaders },
+        body: JSON.stringify({
+          slug: form.slug.trim().toLowerCase(),
+          title: form.title.trim(),
+          merchantName: form.merchantName.trim(),
+          vpa: form.vpa.trim(),
+          amountType: form.amountType,
+          ...(form.amountType === "fixed"
+            ? { amount: toOptionalNumber(form.amount) }
+            : {
+                minAmount: toOptionalNumber(form.minAmount),
+                maxAmount: toOptionalNumber(form.maxAmount),
+              }),
+          usageLimit: toOptionalNumber(form.usageLimit),
+          expiresAt: form.expiresAt
+            ? new Date(form.expiresAt).toISOString()
+            : undefined,
+          payerFields: hasPayerFields(payerFields) ? payerFields : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create payment link");
+      }
+
+      setForm(initialForm);
+      setPayerFields(EMPTY_PAYER_FIELDS);
+      await fetchLinks();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to create payment link"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (link: PaymentLink) => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/payment-links/${link.slug}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...csrfHeaders },
+        body: JSON.stringify({ active: !link.active }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update payment link");
+      }
+
+      await fetchLinks();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update payment link"
+      );
+    }
+  };
+
+  const handleDelete = async (slug: string) => {
+    if (!confirm("Delete this payment link? Existing orders are kept.")) return;
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/payment-links/${slug}`, {
+        method: "DELETE",
+        headers: csrfHeaders,
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete payment link");
+      }
+
+      if (sharingLink?.slug === slug) {
+        setSharingLink(null);
+      }
+      await fetchLinks();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to delete payment link"
+      );
+    }
+  };
+
+  const formatAmount = (link: PaymentLink) => {
+    const format = (value: number) => `₹${value.toLocaleString("en-IN")}`;
+    return link.amountType === "fixed"
+      ? format(link.amount ?? 0)
+      : `${format(link.minAmount)} - ${format(link.maxAmount)}`;
+  };
+
+  const getAbsoluteUrl = (path: string) =>
+    typeof window !== "undefined" ? `${window.location.origin}${path}` : path;
+
+  return (
+    <div className="space-y-6">
+      {sharingLink && (
+        <LinkSharing
+          linkSlug={sharingLink.slug}
+          paymentUrl={getAbsoluteUrl(sharingLink.paymentUrl)}
+          onClose={() => setSharingLink(null)}
+        />
+      )}
+
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Payment Links</h3>
+          <p className="text-sm text-gray-600">
+            Permanent links that create a fresh order for every customer who
+            opens them
+          </p>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="link-slug">Link name</Label>
+              <Input
+                id="link-slug"
+                placeholder="my-shop"
+                value={form.slug}
+                onChange={(e) => updateField("slug", e.target.value)}
+                required
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="link-title">Title</Label>
+              <Input
+                id="link-title"
+                placeholder="Shop counter payments"
+                value={form.title}
+                onChange={(e) => updateField("title", e.target.value)}
+                required
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="link-merchant">Merchant name</Label>
+              <Input
+                id="link-merchant"
+                value={form.merchantName}
+                onChange={(e) => updateField("merchantName", e.target.value)}
+                required
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="link-vpa">UPI ID</Label>
+              <Input
+                id="link-vpa"
+                placeholder="merchant@upi"
+                value={form.vpa}
+                onChange={(e) => updateField("vpa", e.target.value)}
+                required
+                disabled={saving}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-4 text-sm">
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                checked={form.amountType === "fixed"}
+                onChange={() => updateField("amountType", "fixed")}
+                disabled={saving}
+              />
+              Fixed amount
+            </label>
+            <label className="flex items-center gap-1">
+              <input
+                type="radio"
+                checked={form.amountType === "open"}
+                onChange={() => updateField("amountType", "open")}
+                disabled={saving}
+              />
+              Customer enters amount
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {form.amountType === "fixed" ? (
+              <div>
+                <Label htmlFor="link-amount">Amount (₹)</Label>
+                <Input
+                  id="link-amount"
+                  type="number"
+                  min="1"
+                  max="100000"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => updateField("amount", e.target.value)}
+                  required
+                  disabled={saving}
+                />
+              </div>
+            ) : (
+              <>
+                <div>
+                  <Label htmlFor="link-min-amount">Minimum (₹)</Label>
+                  <Input
+                    id="link-min-amount"
+                    type="number"
+                    min="1"
+                    max="100000"
+                    step="0.01"
+                    placeholder="1"
+                    value={form.minAmount}
+                    onChange={(e) => updateField("minAmount", e.target.value)}
+                    disabled={saving}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="link-max-amount">Maximum (₹)</Label>
+                  <Input
+                    id="link-max-amount"
+                    type="number"
+                    min="1"
+                    max="100000"
+                    step="0.01"
+                    placeholder="100000"
+                    value={form.maxAmount}
+                    onChange={(e) => updateField("maxAmount", e.target.value)}
+                    disabled={saving}
+                  />
+                </div>
+              </>
+            )}
+            <div>
+              <Label htmlFor="link-usage-limit">Usage limit (optional)</Label>
+              <Input
+                id="link-usage-limit"
+                type="number"
+                min="1"
+                step="1"
+                value={form.usageLimit}
+                onChange={(e) => updateField("usageLimit", e.target.value)}
+                disabled={saving}
+              />
+            </div>
+            <div>
+              <Label htmlFor="link-expires-at">Expires (optional)</Label>
+              <Input
+                id="link-expires-at"
+                type="datetime-local"
+                value={form.expiresAt}
+                onChange={(e) => updateField("expiresAt", e.target.value)}
+                disabled={saving}
+              />
+            </div>
+          </div>
+
+          <PayerFieldsEditor
+            value={payerFields}
+            onChange={setPayerFields}
+            disabled={saving}
+          />
+
+          <Button type="submit" size="sm" disabled={saving}>
+            {saving ? "Creating..." : "Create Payment Link"}
+          </Button>
+        </form>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">
+          Your Payment Links
+        </h3>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : links.length === 0 ? (
+          <p className="text-sm text-gray-500">No payment links yet</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {links.map((link) => (
+              <div
+                key={link.slug}
+                className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-sm text-gray-900">
+                    {link.title}
+                  </p>
+                  <p className="font-mono text-xs text-gray-500 truncate">
+                    {link.paymentUrl}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatAmount(link)} · Used {link.usageCount}
+                    {link.usageLimit ? ` / ${link.usageLimit}` : ""}
+                    {link.expiresAt &&
+                      ` · Expires ${new Date(link.expiresAt).toLocaleString("en-IN")}`}
+                  </p>
+                  {hasPayerFields(link.payerFields) && (
+                    <p className="text-xs text-gray-500">
+                      Collects{" "}
+                      {describePayerFields(link.payerFields).join(", ")}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={link.active ? "default" : "secondary"}>
+                    {link.active ? "Active" : "Disabled"}
+                  </Badge>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSharingLink(link)}
+                  >
+                    Share
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleToggleActive(link)}
+                  >
+                    {link.active ? "Disable" : "Enable"}
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleDelete(link.slug)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
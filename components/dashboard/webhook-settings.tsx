@@ -0,0 +1,437 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+
+const WEBHOOK_EVENTS = [
+  "order.created",
+  "order.utr_submitted",
+  "order.completed",
+  "order.expired",
+  "order.failed",
+] as const;
+
+interface WebhookEndpoint {
+  id: string;
+  url: string;
+  events: string[];
+  description?: string;
+  active: boolean;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  deliveryId: string;
+  event: string;
+  orderId?: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: { attemptedAt: string }[];
+  responseStatus?: number;
+  lastError?: string;
+  redeliveryOf?: string;
+  createdAt: string;
+}
+
+export function WebhookSettings() {
+  const csrfHeaders = useCSRFHeaders();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<string[]>([...WEBHOOK_EVENTS]);
+  const [saving, setSaving] = useState(false);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [selectedEndpoint, setSelectedEndpoint] = useState<string | null>(
+    null
+  );
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
+
+  const fetchEndpoints = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/webhook-endpoints");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load webhook endpoints");
+      }
+
+      setEndpoints(data.data.endpoints);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load webhook endpoints"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchDeliveries = useCallback(async (endpointId: string) => {
+    try {
+      const response = await fetch(
+        `/api/webhook-endpoints/${endpointId}/deliveries`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load deliveries");
+      }
+
+      setDeliveries(data.data.deliveries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load deliveries");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEndpoints();
+  }, [fetchEndpoints]);
+
+  useEffect(() => {
+    if (selectedEndpoint) {
+      fetchDeliveries(selectedEndpoint);
+    }
+  }, [selectedEndpoint, fetchDeliveries]);
+
+  const toggleEvent = (event: string) => {
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch("/api/webhook-endpoints", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...csrfHeaders },
+        body: JSON.stringify({ url, events }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to register endpoint");
+      }
+
+      setNewSecret(data.data.secret);
+      setUrl("");
+      setEvents([...WEBHOOK_EVENTS]);
+      await fetchEndpoints();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to register endpoint"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (endpoint: WebhookEndpoint) => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/webhook-endpoints/${endpoint.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...csrfHeaders },
+        body: JSON.stringify({ active: !endpoint.active }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to update endpoint");
+      }
+
+      await fetchEndpoints();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update endpoint");
+    }
+  };
+
+  const handleDelete = async (endpointId: string) => {
+    if (!confirm("Delete this webhook endpoint and its delivery log?")) return;
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/webhook-endpoints/${endpointId}`, {
+        method: "DELETE",
+        headers: csrfHeaders,
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to delete endpoint");
+      }
+
+      if (selectedEndpoint === endpointId) {
+        setSelectedEndpoint(null);
+        setDeliveries([]);
+      }
+      await fetchEndpoints();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete endpoint");
+    }
+  };
+
+  const handleRedeliver = async (deliveryId: string) => {
+    try {
+      setRedelivering(deliveryId);
+      setError(null);
+
+      const response = await fetch(
+        `/api/webhook-deliveries/${deliveryId}/redeliver`,
+        { method: "POST", headers: csrfHeaders }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to redeliver webhook");
+      }
+
+      if (selectedEndpoint) {
+        await fetchDeliveries(selectedEndpoint);
+      }
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to redeliver webhook"
+      );
+    } finally {
+      setRedelivering(null);
+    }
+  };
+
+  const getDeliveryBadgeVariant = (status: WebhookDelivery["status"]) => {
+    switch (status) {
+      case "delivered":
+        return "default";
+      case "failed":
+        return "destructive";
+      default:
+        return "secondary";
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Webhooks</h3>
+          <p className="text-sm text-gray-600">
+            Receive signed notifications when your orders change instead of
+            polling the API
+          </p>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {newSecret && (
+          <Alert>
+            <AlertDescription>
+              <p className="font-medium">Signing secret (shown only once):</p>
+              <code className="block mt-1 break-all font-mono text-sm">
+                {newSecret}
+              </code>
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-2"
+                onClick={() => setNewSecret(null)}
+              >
+                I have saved it
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-3">
+          <div>
+            <Label htmlFor="webhook-url">Endpoint URL</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              placeholder="https://example.com/webhooks/upi"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              required
+              disabled={saving}
+            />
+          </div>
+          <div className="flex flex-wrap gap-3">
+            {WEBHOOK_EVENTS.map((event) => (
+              <label key={event} className="flex items-center gap-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                  disabled={saving}
+                />
+                {event}
+              </label>
+            ))}
+          </div>
+          <Button
+            type="submit"
+            size="sm"
+            disabled={saving || !url || events.length === 0}
+          >
+            {saving ? "Registering..." : "Add Endpoint"}
+          </Button>
+        </form>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">
+          Registered Endpoints
+        </h3>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : endpoints.length === 0 ? (
+          <p className="text-sm text-gray-500">No webhook endpoints yet</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {endpoints.map((endpoint) => (
+              <div
+                key={endpoint.id}
+                className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2"
+              >
+                <div className="min-w-0">
+                  <p className="font-mono text-sm truncate">{endpoint.url}</p>
+                  <p className="text-xs text-gray-500">
+                    {endpoint.events.join(", ")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={endpoint.active ? "default" : "secondary"}>
+                    {endpoint.active ? "Active" : "Disabled"}
+                  </Badge>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSelectedEndpoint(endpoint.id)}
+                  >
+                    Deliveries
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleToggleActive(endpoint)}
+                  >
+                    {endpoint.active ? "Disable" : "Enable"}
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleDelete(endpoint.id)}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selectedEndpoint && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">
+              Delivery Log
+            </h3>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fetchDeliveries(selectedEndpoint)}
+            >
+              Refresh
+            </Button>
+          </div>
+
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-gray-500">No deliveries yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Event
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Order
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Status
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Attempts
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                      Created
+                    </th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {deliveries.map((delivery) => (
+                    <tr key={delivery.deliveryId}>
+                      <td className="px-4 py-2 font-mono">{delivery.event}</td>
+                      <td className="px-4 py-2">{delivery.orderId || "-"}</td>
+                      <td className="px-4 py-2">
+                        <Badge
+                          variant={getDeliveryBadgeVariant(delivery.status)}
+                        >
+                          {delivery.status}
+                          {delivery.responseStatus
+                            ? ` (${delivery.responseStatus})`
+                            : ""}
+                        </Badge>
+                        {delivery.lastError && (
+                          <p className="text-xs text-red-600 mt-1">
+                            {delivery.lastError}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">{delivery.attempts.length}</td>
+                      <td className="px-4 py-2">
+                        {new Date(delivery.createdAt).toLocaleString("en-IN")}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRedeliver(delivery.deliveryId)}
+                          disabled={
+                            redelivering === delivery.deliveryId ||
+                            delivery.status === "pending"
+                          }
+                        >
+                          {redelivering === delivery.deliveryId
+                            ? "Sending..."
+                            : "Redeliver"}
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import type { LineItem, TaxBreakdown } from "@/lib/utils/gst";
+
+interface GstBreakdownProps {
+  lineItems: LineItem[];
+  taxBreakdown: TaxBreakdown;
+  compact?: boolean;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+  }).format(amount);
+};
+
+export default function GstBreakdown({
+  lineItems,
+  taxBreakdown,
+  compact = false,
+}: GstBreakdownProps) {
+  const textSize = compact ? "text-xs" : "text-sm";
+
+  return (
+    <div className={`space-y-2 ${textSize}`}>
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-200">
+            <th className="py-1 font-medium">Item</th>
+            <th className="py-1 font-medium text-right">Qty</th>
+            <th className="py-1 font-medium text-right">Rate</th>
+            <th className="py-1 font-medium text-right">GST</th>
+            <th className="py-1 font-medium text-right">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lineItems.map((item, index) => (
+            <tr key={index} className="border-b border-gray-100 align-top">
+              <td className="py-1 pr-2">
+                <div className="text-gray-900">{item.description}</div>
+                {item.hsnCode && (
+                  <div className="text-xs text-gray-500">
+                    HSN/SAC {item.hsnCode}
+                  </div>
+                )}
+              </td>
+              <td className="py-1 text-right">{item.quantity}</td>
+              <td className="py-1 text-right">
+                {formatCurrency(item.unitPrice)}
+              </td>
+              <td className="py-1 text-right">{item.taxRate}%</td>
+              <td className="py-1 text-right">
+                {formatCurrency(item.taxableValue)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <dl className="space-y-1">
+        <div className="flex justify-between">
+          <dt className="text-gray-600">Subtotal</dt>
+          <dd>{formatCurrency(taxBreakdown.subtotal)}</dd>
+        </div>
+        {taxBreakdown.supplyType === "inter-state" ? (
+          <div className="flex justify-between">
+            <dt className="text-gray-600">IGST</dt>
+            <dd>{formatCurrency(taxBreakdown.igst)}</dd>
+          </div>
+        ) : (
+          <>
+            <div className="flex justify-between">
+              <dt className="text-gray-600">CGST</dt>
+              <dd>{formatCurrency(taxBreakdown.cgst)}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-600">SGST</dt>
+              <dd>{formatCurrency(taxBreakdown.sgst)}</dd>
+            </div>
+          </>
+        )}
+        <div className="flex justify-between font-semibold border-t border-gray-200 pt-1">
+          <dt>Total</dt>
+          <dd>{formatCurrency(taxBreakdown.total)}</dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
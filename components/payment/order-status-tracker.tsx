@@ -1,9 +1,17 @@
 "use client";
 
-import { CheckCircle, Clock, AlertCircle, XCircle } from "lucide-react";
+import {
+  CheckCircle,
+  Clock,
+  AlertCircle,
+  XCircle,
+  Download,
+} from "lucide-react";
 
 interface OrderStatusTrackerProps {
   status: string;
+  // Signed receipt download link, shown once the payment is completed
+  receiptUrl?: string;
   utr?: string;
   createdAt?: string;
   utrSubmittedAt?: string;
@@ -40,6 +48,7 @@ const statusSteps: StatusStep[] = [
 
 function OrderStatusTrackerComponent({
   status: currentStatus,
+  receiptUrl,
   utr,
   createdAt,
   utrSubmittedAt,
@@ -60,6 +69,9 @@ function OrderStatusTrackerComponent({
           return "bg-blue-100 text-blue-800";
         case "completed":
           return "bg-green-100 text-green-800";
+        case "refunded":
+        case "partially-refunded":
+          return "bg-purple-100 text-purple-800";
         default:
           return "bg-gray-100 text-gray-800";
       }
@@ -73,6 +85,8 @@ function OrderStatusTrackerComponent({
           {currentStatus === "pending" && "Payment Pending"}
           {currentStatus === "pending-verification" && "Under Verification"}
           {currentStatus === "completed" && "Completed"}
+          {currentStatus === "refunded" && "Refunded"}
+          {currentStatus === "partially-refunded" && "Partially Refunded"}
         </div>
         {utr && (
           <span className="text-xs text-gray-500 font-mono">UTR: {utr}</span>
@@ -88,6 +102,8 @@ function OrderStatusTrackerComponent({
       case "pending-verification":
         return 1;
       case "completed":
+      case "refunded":
+      case "partially-refunded":
         return 2;
       default:
         return 0;
@@ -250,6 +266,9 @@ function OrderStatusTrackerComponent({
           {currentStatus === "pending-verification" &&
             "Payment under verification"}
           {currentStatus === "completed" && "Payment successfully completed"}
+          {currentStatus === "refunded" && "Payment refunded"}
+          {currentStatus === "partially-refunded" &&
+            "Payment partially refunded"}
         </div>
 
         {currentStatus === "pending-verification" && (
@@ -258,6 +277,19 @@ function OrderStatusTrackerComponent({
             confirmed.
           </div>
         )}
+
+        {currentStatus === "completed" && receiptUrl && (
+          <div className="text-center mt-3">
+            <a
+              href={receiptUrl}
+              download
+              className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:underline"
+            >
+              <Download className="h-4 w-4" />
+              Download receipt
+            </a>
+          </div>
+        )}
       </div>
     </div>
   );
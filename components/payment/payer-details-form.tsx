@@ -0,0 +1,183 @@
+"use client";
+
+import { useState } from "react";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+import {
+  buildPayerDetailsSchema,
+  type PayerFields,
+} from "@/lib/utils/payer-details";
+import { PAYMENT_TOKEN_HEADER } from "@/lib/utils/payment-tokens";
+
+interface PayerDetailsFormProps {
+  orderId: string;
+  // Signed token from the payment page that authorizes this submission
+  paymentToken: string;
+  payerFields: PayerFields;
+  defaultName?: string;
+  onSubmitted: () => void;
+}
+
+export default function PayerDetailsForm({
+  orderId,
+  paymentToken,
+  payerFields,
+  defaultName,
+  onSubmitted,
+}: PayerDetailsFormProps) {
+  const csrfHeaders = useCSRFHeaders();
+  const customFields = payerFields.customFields || [];
+  const [name, setName] = useState(defaultName || "");
+  const [phone, setPhone] = useState("");
+  const [email, setEmail] = useState("");
+  const [customValues, setCustomValues] = useState<string[]>(
+    customFields.map(() => "")
+  );
+  const [submitting, setSubmitting] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setErrors([]);
+
+      // Validate with the same rules the server applies
+      const details = buildPayerDetailsSchema(payerFields).parse({
+        name,
+        phone,
+        email,
+        customFields: customFields.map((field, index) => ({
+          label: field.label,
+          value: customValues[index],
+        })),
+      });
+
+      const response = await fetch(`/api/orders/${orderId}/payer-details`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [PAYMENT_TOKEN_HEADER]: paymentToken,
+          ...csrfHeaders,
+        },
+        body: JSON.stringify(details),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          result.details || result.error || "Failed to save your details"
+        );
+      }
+
+      onSubmitted();
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        setErrors(err.errors.map((issue) => issue.message));
+      } else {
+        setErrors([
+          err instanceof Error ? err.message : "Failed to save your details",
+        ]);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {errors.map((message) => (
+              <div key={message}>{message}</div>
+            ))}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {payerFields.name && (
+        <div className="space-y-1">
+          <Label htmlFor="payer-name">Name</Label>
+          <Input
+            id="payer-name"
+            autoComplete="name"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            disabled={submitting}
+            className="min-h-[44px]"
+          />
+        </div>
+      )}
+
+      {payerFields.phone && (
+        <div className="space-y-1">
+          <Label htmlFor="payer-phone">Mobile number</Label>
+          <Input
+            id="payer-phone"
+            type="tel"
+            autoComplete="tel"
+            placeholder="98765 43210"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            disabled={submitting}
+            className="min-h-[44px]"
+          />
+        </div>
+      )}
+
+      {payerFields.email && (
+        <div className="space-y-1">
+          <Label htmlFor="payer-email">Email</Label>
+          <Input
+            id="payer-email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            disabled={submitting}
+            className="min-h-[44px]"
+          />
+        </div>
+      )}
+
+      {customFields.map((field, index) => (
+        <div key={field.label} className="space-y-1">
+          <Label htmlFor={`payer-custom-${index}`}>
+            {field.label}
+            {!field.required && (
+              <span className="text-gray-500 font-normal"> (optional)</span>
+            )}
+          </Label>
+          <Input
+            id={`payer-custom-${index}`}
+            value={customValues[index]}
+            maxLength={200}
+            onChange={(e) =>
+              setCustomValues((prev) =>
+                prev.map((value, i) => (i === index ? e.target.value : value))
+              )
+            }
+            disabled={submitting}
+            className="min-h-[44px]"
+          />
+        </div>
+      ))}
+
+      <Button
+        type="submit"
+        disabled={submitting || !("x-csrf-token" in csrfHeaders)}
+        className="w-full h-12 text-base font-medium touch-manipulation"
+      >
+        {submitting ? "Saving..." : "Continue to Payment"}
+      </Button>
+    </form>
+  );
+}
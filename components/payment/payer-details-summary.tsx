@@ -0,0 +1,37 @@
+import type { PayerDetails, PayerFields } from "@/lib/utils/payer-details";
+
+interface PayerDetailsSummaryProps {
+  payerName?: string;
+  payerFields?: Partial<PayerFields>;
+  payerDetails?: Omit<PayerDetails, "submittedAt"> & { submittedAt?: string };
+}
+
+export default function PayerDetailsSummary({
+  payerName,
+  payerFields,
+  payerDetails,
+}: PayerDetailsSummaryProps) {
+  const rows = [
+    { label: "Payer", value: payerDetails?.name || payerName },
+    { label: "Phone", value: payerDetails?.phone },
+    { label: "Email", value: payerDetails?.email },
+    ...(payerDetails?.customFields || []),
+  ].filter((row) => row.value);
+
+  if (rows.length === 0) {
+    return payerFields && !payerDetails?.submittedAt ? (
+      <div className="text-xs text-gray-500">Awaiting payer details</div>
+    ) : null;
+  }
+
+  return (
+    <dl className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+      {rows.map((row) => (
+        <div key={row.label}>
+          <dt className="inline font-medium">{row.label}:</dt>{" "}
+          <dd className="inline break-all">{row.value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
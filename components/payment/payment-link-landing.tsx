@@ -0,0 +1,165 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
+
+interface PaymentLinkData {
+  slug: string;
+  title: string;
+  description?: string;
+  merchantName: string;
+  amountType: "fixed" | "open";
+  amount?: number;
+  minAmount: number;
+  maxAmount: number;
+}
+
+interface PaymentLinkLandingProps {
+  link: PaymentLinkData;
+}
+
+export default function PaymentLinkLanding({ link }: PaymentLinkLandingProps) {
+  const router = useRouter();
+  const csrfHeaders = useCSRFHeaders();
+  const [amount, setAmount] = useState("");
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const autoStarted = useRef(false);
+
+  const hasCSRFToken = "x-csrf-token" in csrfHeaders;
+
+  const startPayment = useCallback(
+    async (payAmount?: number) => {
+      try {
+        setCreating(true);
+        setError(null);
+
+        const response = await fetch(`/api/payment-links/${link.slug}/orders`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...csrfHeaders,
+          },
+          body: JSON.stringify(
+            payAmount !== undefined ? { amount: payAmount } : {}
+          ),
+        });
+
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to start payment");
+        }
+
+        router.replace(result.data.paymentPageUrl);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to start payment");
+        setCreating(false);
+      }
+    },
+    [link.slug, csrfHeaders, router]
+  );
+
+  // Fixed amount links go straight to a fresh order once CSRF is ready
+  useEffect(() => {
+    if (link.amountType === "fixed" && hasCSRFToken && !autoStarted.current) {
+      autoStarted.current = true;
+      startPayment();
+    }
+  }, [link.amountType, hasCSRFToken, startPayment]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(amount);
+    if (isNaN(value) || value < link.minAmount || value > link.maxAmount) {
+      setError(
+        `Enter an amount between ₹${link.minAmount.toLocaleString("en-IN")} and ₹${link.maxAmount.toLocaleString("en-IN")}`
+      );
+      return;
+    }
+
+    startPayment(value);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-4 sm:py-8 px-3 sm:px-4">
+      <div className="max-w-md mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6">
+          <div className="text-center mb-4">
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">
+              {link.title}
+            </h1>
+            <div className="text-sm sm:text-base text-gray-600">
+              to {link.merchantName}
+            </div>
+            {link.description && (
+              <p className="text-sm text-gray-500 mt-2">{link.description}</p>
+            )}
+          </div>
+
+          {error && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {link.amountType === "fixed" ? (
+            <div className="space-y-4 text-center">
+              <div className="text-2xl sm:text-3xl font-bold text-green-600">
+                ₹{(link.amount ?? 0).toLocaleString("en-IN")}
+              </div>
+              {error ? (
+                <Button
+                  onClick={() => startPayment()}
+                  disabled={creating || !hasCSRFToken}
+                  className="w-full"
+                >
+                  Try Again
+                </Button>
+              ) : (
+                <div className="flex items-center justify-center gap-2 text-sm text-gray-600">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                  Preparing your payment...
+                </div>
+              )}
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="link-amount">Amount (₹)</Label>
+                <Input
+                  id="link-amount"
+                  type="number"
+                  min={link.minAmount}
+                  max={link.maxAmount}
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder={`${link.minAmount} - ${link.maxAmount}`}
+                  required
+                />
+                <p className="text-xs text-gray-500">
+                  Between ₹{link.minAmount.toLocaleString("en-IN")} and ₹
+                  {link.maxAmount.toLocaleString("en-IN")}
+                </p>
+              </div>
+              <Button
+                type="submit"
+                disabled={creating || !hasCSRFToken}
+                className="w-full"
+              >
+                {creating ? "Preparing payment..." : "Continue to Pay"}
+              </Button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
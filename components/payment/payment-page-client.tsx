@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
 import { Copy, Clock, CheckCircle, XCircle, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,6 +13,17 @@ import UpiButtons from "@/components/payment/upi-buttons";
 import UtrForm from "@/components/payment/utr-form";
 import QRCodeDisplay from "@/components/payment/qr-code-display";
 import OrderStatusTracker from "@/components/payment/order-status-tracker";
+import GstBreakdown from "@/components/payment/gst-breakdown";
+import PayerDetailsForm from "@/components/payment/payer-details-form";
+import type { LineItem, TaxBreakdown } from "@/lib/utils/gst";
+import type { PayerFields } from "@/lib/utils/payer-details";
+import { useOrderEvents } from "@/lib/utils/order-events-client";
+
+// Statuses that can still change while the payer is on the page
+const LIVE_STATUSES = ["pending", "pending-verification"];
+
+// Polling interval used when the event stream is unavailable
+const STATUS_POLL_INTERVAL_MS = 15 * 1000;
 
 interface OrderData {
   orderId: string;
@@ -24,6 +36,13 @@ interface OrderData {
   expiresAt: string;
   canSubmitUTR: boolean;
   utrSubmittedAt?: string;
+  lineItems?: LineItem[];
+  taxBreakdown?: TaxBreakdown;
+  payerName?: string;
+  payerFields?: PayerFields;
+  payerDetailsSubmitted?: boolean;
+  paymentSignature?: string;
+  paymentToken?: string;
 }
 
 interface SettingsData {
@@ -58,6 +77,40 @@ export default function PaymentPageClient({
   );
   const [showManualUpi, setShowManualUpi] = useState(false);
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [needsPayerDetails, setNeedsPayerDetails] = useState(
+    !!order.payerFields && !order.payerDetailsSubmitted
+  );
+  const router = useRouter();
+  const isLive = LIVE_STATUSES.includes(order.status);
+
+  // The order's public endpoints need the same signature as this page
+  const signatureQuery = order.paymentSignature
+    ? `?sig=${encodeURIComponent(order.paymentSignature)}`
+    : "";
+
+  // Re-render from the server as soon as the order changes
+  const { connected } = useOrderEvents(
+    isLive ? `/api/orders/${order.orderId}/events${signatureQuery}` : null,
+    {
+      onEvent: (event) => {
+        if (event.status !== order.status) {
+          router.refresh();
+        }
+      },
+      onResync: () => router.refresh(),
+    }
+  );
+
+  // Fall back to polling while the event stream is down
+  useEffect(() => {
+    if (!isLive || connected) return;
+
+    const interval = setInterval(
+      () => router.refresh(),
+      STATUS_POLL_INTERVAL_MS
+    );
+    return () => clearInterval(interval);
+  }, [isLive, connected, router]);
 
   // Handle timer expiration
   const handleTimerExpire = () => {
@@ -89,6 +142,9 @@ export default function PaymentPageClient({
         return "destructive";
       case "failed":
         return "destructive";
+      case "refunded":
+      case "partially-refunded":
+        return "secondary";
       default:
         return "default";
     }
@@ -125,6 +181,10 @@ export default function PaymentPageClient({
         return "Payment Expired";
       case "failed":
         return "Payment Failed";
+      case "refunded":
+        return "Payment Refunded";
+      case "partially-refunded":
+        return "Partially Refunded";
       default:
         return status;
     }
@@ -213,6 +273,17 @@ export default function PaymentPageClient({
               )}
             </div>
 
+            {/* Itemized bill with GST */}
+            {order.lineItems && order.taxBreakdown && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Bill Details</Label>
+                <GstBreakdown
+                  lineItems={order.lineItems}
+                  taxBreakdown={order.taxBreakdown}
+                />
+              </div>
+            )}
+
             {/* Order ID */}
             <div className="text-sm text-gray-500 text-center">
               Order ID: {order.orderId}
@@ -273,8 +344,31 @@ export default function PaymentPageClient({
           </Alert>
         )}
 
+        {/* Payer details requested by the merchant */}
+        {needsPayerDetails &&
+          order.payerFields &&
+          order.paymentToken &&
+          !isExpired &&
+          order.status === "pending" && (
+            <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 mb-4 sm:mb-6">
+              <h2 className="text-lg font-semibold mb-1 text-center">
+                Your Details
+              </h2>
+              <p className="text-sm text-gray-600 mb-4 text-center">
+                {order.merchantName} needs a few details before you pay
+              </p>
+              <PayerDetailsForm
+                orderId={order.orderId}
+                paymentToken={order.paymentToken}
+                payerFields={order.payerFields}
+                defaultName={order.payerName}
+                onSubmitted={() => setNeedsPayerDetails(false)}
+              />
+            </div>
+          )}
+
         {/* UPI App Buttons */}
-        {!isExpired && order.status === "pending" && (
+        {!needsPayerDetails && !isExpired && order.status === "pending" && (
           <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 mb-4 sm:mb-6">
             <h2 className="text-lg font-semibold mb-4 text-center">
               Pay with UPI App
@@ -298,18 +392,21 @@ export default function PaymentPageClient({
         )}
 
         {/* Manual UPI Options */}
-        {showManualUpi && !isExpired && order.status === "pending" && (
-          <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 mb-4 sm:mb-6">
-            <h3 className="text-lg font-semibold mb-4 text-center">
-              Manual UPI Payment
-            </h3>
-            <QRCodeDisplay
-              upiLink={upiLinks.standard}
-              amount={order.amount}
-              merchantName={order.merchantName}
-            />
-          </div>
-        )}
+        {showManualUpi &&
+          !needsPayerDetails &&
+          !isExpired &&
+          order.status === "pending" && (
+            <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6 mb-4 sm:mb-6">
+              <h3 className="text-lg font-semibold mb-4 text-center">
+                Manual UPI Payment
+              </h3>
+              <QRCodeDisplay
+                upiLink={upiLinks.standard}
+                amount={order.amount}
+                merchantName={order.merchantName}
+              />
+            </div>
+          )}
 
         {/* Order Status Tracker */}
         {(order.status === "pending-verification" ||
@@ -317,6 +414,7 @@ export default function PaymentPageClient({
           <div className="mb-6">
             <OrderStatusTracker
               status={order.status}
+              receiptUrl={`/api/orders/${order.orderId}/receipt${signatureQuery}`}
               utr={order.utr}
               createdAt={order.createdAt}
               utrSubmittedAt={order.utrSubmittedAt}
@@ -325,14 +423,20 @@ export default function PaymentPageClient({
         )}
 
         {/* UTR Submission Form */}
-        {order.canSubmitUTR && !isExpired && (
-          <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6">
-            <h2 className="text-lg font-semibold mb-4 text-center">
-              Submit Payment Confirmation
-            </h2>
-            <UtrForm orderId={order.orderId} />
-          </div>
-        )}
+        {order.canSubmitUTR &&
+          order.paymentToken &&
+          !needsPayerDetails &&
+          !isExpired && (
+            <div className="bg-white rounded-lg shadow-lg p-4 sm:p-6">
+              <h2 className="text-lg font-semibold mb-4 text-center">
+                Submit Payment Confirmation
+              </h2>
+              <UtrForm
+                orderId={order.orderId}
+                paymentToken={order.paymentToken}
+              />
+            </div>
+          )}
 
         {/* Footer */}
         <div className="text-center text-sm text-gray-500 mt-6">
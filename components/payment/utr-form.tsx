@@ -11,13 +11,36 @@ import {
   useFormValidation,
 } from "@/components/forms/validated-input";
 import { apiClient } from "@/lib/utils/network-handler";
+import { PAYMENT_TOKEN_HEADER } from "@/lib/utils/payment-tokens";
+import { DEVICE_ID_HEADER } from "@/lib/utils/fraud-detection";
+import { useCSRFHeaders } from "@/components/auth/csrf-provider";
 import { ErrorDisplay, useToast } from "@/components/error/error-messages";
 
 interface UtrFormProps {
   orderId: string;
+  // Signed token from the payment page that authorizes this submission
+  paymentToken: string;
 }
 
-export default function UtrForm({ orderId }: UtrFormProps) {
+const DEVICE_ID_STORAGE_KEY = "upi-payment-device-id";
+
+// Random per-browser ID, so the server can spot one device submitting many UTRs
+function getDeviceId(): string | undefined {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    // Storage disabled (e.g. private browsing); submit without it
+    return undefined;
+  }
+}
+
+export default function UtrForm({ orderId, paymentToken }: UtrFormProps) {
+  const csrfHeaders = useCSRFHeaders();
   const [utr, setUtr] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<any>(null);
@@ -50,10 +73,16 @@ export default function UtrForm({ orderId }: UtrFormProps) {
     setError(null);
 
     try {
+      const deviceId = getDeviceId();
       const data = await apiClient.post(
         `/orders/${orderId}/utr`,
         { utr },
         {
+          headers: {
+            [PAYMENT_TOKEN_HEADER]: paymentToken,
+            ...(deviceId && { [DEVICE_ID_HEADER]: deviceId }),
+            ...csrfHeaders,
+          },
           retryOptions: {
             maxRetries: 2,
             baseDelay: 1000,
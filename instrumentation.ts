@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { assertEncryptionConfigured } =
+      await import("@/lib/utils/encryption");
+    assertEncryptionConfigured();
+  }
+}
@@ -15,8 +15,14 @@ export const rolePermissions = {
     "view_analytics",
     "create_order",
     "view_own_orders",
+    "request_refund",
+  ],
+  merchant: [
+    "create_order",
+    "view_own_orders",
+    "manage_own_links",
+    "request_refund",
   ],
-  merchant: ["create_order", "view_own_orders", "manage_own_links"],
   viewer: ["view_assigned_orders"],
 } as const;
 
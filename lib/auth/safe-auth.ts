@@ -9,6 +9,7 @@ import {
   AuthError,
   PermissionError,
   RoleError,
+  apiKeyScopePermissions,
 } from "./types";
 import {
   adaptClerkUser,
@@ -17,6 +18,8 @@ import {
   hasRoleLevel,
   validateUserIntegrity,
 } from "./adapters";
+import { findUsableApiKey } from "@/lib/db/queries/api-keys";
+import { getBearerToken } from "@/lib/utils/api-keys";
 
 /**
  * Safely get current authenticated user
@@ -195,13 +198,72 @@ export async function getSafeUserById(
   }
 }
 
+/**
+ * Authenticate an API key as its owner, limited to the key's scopes
+ */
+async function authenticateApiKey(key: string): Promise<AuthResult> {
+  const apiKey = await findUsableApiKey(key);
+
+  if (!apiKey) {
+    return {
+      success: false,
+      user: null,
+      error: "Invalid, expired or revoked API key",
+      code: "INVALID_API_KEY",
+    };
+  }
+
+  const owner = await getSafeUserById(apiKey.createdBy);
+
+  if (!owner || !owner.isActive || !validateUserIntegrity(owner)) {
+    return {
+      success: false,
+      user: null,
+      error: "API key owner is not active",
+      code: "INVALID_API_KEY",
+    };
+  }
+
+  const scopedPermissions = apiKey.scopes.flatMap(
+    (scope) => apiKeyScopePermissions[scope]
+  );
+
+  return {
+    success: true,
+    user: {
+      ...owner,
+      permissions: owner.permissions.filter((permission) =>
+        scopedPermissions.includes(permission)
+      ),
+      apiKey: { id: String(apiKey._id), scopes: apiKey.scopes },
+    },
+  };
+}
+
 /**
  * Authenticate request and return safe user
  */
 export async function authenticateRequest(
-  req: NextRequest
+  req: NextRequest,
+  options: { allowApiKey?: boolean } = {}
 ): Promise<AuthResult> {
   try {
+    // A bearer token is the only credential considered when present, so
+    // API key requests never fall back to the session cookie
+    const bearerToken = getBearerToken(req.headers);
+    if (bearerToken) {
+      if (!options.allowApiKey) {
+        return {
+          success: false,
+          user: null,
+          error: "API keys are not accepted on this endpoint",
+          code: "API_KEY_NOT_ALLOWED",
+        };
+      }
+
+      return await authenticateApiKey(bearerToken);
+    }
+
     const { userId } = await auth();
 
     if (!userId) {
@@ -253,9 +315,10 @@ export async function authenticateRequest(
  */
 export async function withAuth(
   req: NextRequest,
-  handler: (user: SafeUser) => Promise<Response>
+  handler: (user: SafeUser) => Promise<Response>,
+  options: { allowApiKey?: boolean } = {}
 ): Promise<Response> {
-  const authResult = await authenticateRequest(req);
+  const authResult = await authenticateRequest(req, options);
 
   if (!authResult.success || !authResult.user) {
     return NextResponse.json(
@@ -302,21 +365,26 @@ export async function withPermission(
   permission: Permission,
   handler: (user: SafeUser) => Promise<Response>
 ): Promise<Response> {
-  return withAuth(req, async (user) => {
-    if (!hasPermission(user, permission)) {
-      return NextResponse.json(
-        {
-          error: `Access denied. Required permission: ${permission}`,
-          code: "PERMISSION_DENIED",
-          userRole: user.role,
-          userPermissions: user.permissions,
-        },
-        { status: 403 }
-      );
-    }
-
-    return handler(user);
-  });
+  // Permission checks enforce key scopes, so API keys are accepted here
+  return withAuth(
+    req,
+    async (user) => {
+      if (!hasPermission(user, permission)) {
+        return NextResponse.json(
+          {
+            error: `Access denied. Required permission: ${permission}`,
+            code: "PERMISSION_DENIED",
+            userRole: user.role,
+            userPermissions: user.permissions,
+          },
+          { status: 403 }
+        );
+      }
+
+      return handler(user);
+    },
+    { allowApiKey: true }
+  );
 }
 
 /**
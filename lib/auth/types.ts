@@ -15,9 +15,17 @@ export const PermissionSchema = z.enum([
   "create_order",
   "view_own_orders",
   "manage_own_links",
+  "request_refund",
   "view_assigned_orders",
 ]);
 
+// Scopes a merchant can grant to an API key
+export const ApiKeyScopeSchema = z.enum([
+  "create_order",
+  "read_orders",
+  "refund",
+]);
+
 export const UserMetadataSchema = z.object({
   role: UserRoleSchema.optional(),
   onboardingComplete: z.boolean().optional(),
@@ -37,6 +45,13 @@ export const SafeUserSchema = z.object({
   createdAt: z.date(),
   updatedAt: z.date(),
   isActive: z.boolean(),
+  // Present when the request authenticated with an API key instead of a session
+  apiKey: z
+    .object({
+      id: z.string(),
+      scopes: z.array(ApiKeyScopeSchema),
+    })
+    .optional(),
 });
 
 // TypeScript types
@@ -44,6 +59,7 @@ export type UserRole = z.infer<typeof UserRoleSchema>;
 export type Permission = z.infer<typeof PermissionSchema>;
 export type UserMetadata = z.infer<typeof UserMetadataSchema>;
 export type SafeUser = z.infer<typeof SafeUserSchema>;
+export type ApiKeyScope = z.infer<typeof ApiKeyScopeSchema>;
 
 // Authentication result types
 export interface AuthResult {
@@ -74,11 +90,24 @@ export const rolePermissions: Record<UserRole, Permission[]> = {
     "create_order",
     "view_own_orders",
     "manage_own_links",
+    "request_refund",
+  ],
+  merchant: [
+    "create_order",
+    "view_own_orders",
+    "manage_own_links",
+    "request_refund",
   ],
-  merchant: ["create_order", "view_own_orders", "manage_own_links"],
   viewer: ["view_assigned_orders"],
 };
 
+// Permissions an API key principal receives for each granted scope
+export const apiKeyScopePermissions: Record<ApiKeyScope, Permission[]> = {
+  create_order: ["create_order"],
+  read_orders: ["view_own_orders"],
+  refund: ["request_refund"],
+};
+
 // Type guards
 export function isClerkUser(user: unknown): user is ClerkUser {
   return (
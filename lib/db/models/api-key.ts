@@ -0,0 +1,116 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+import { z } from "zod";
+import { ApiKeyScopeSchema, type ApiKeyScope } from "../../auth/types";
+
+export const MAX_ACTIVE_API_KEYS = 10;
+
+// Zod validation schemas
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z
+    .array(ApiKeyScopeSchema)
+    .min(1, "Select at least one scope")
+    .refine((scopes) => new Set(scopes).size === scopes.length, {
+      message: "Scopes must be unique",
+    }),
+  expiresAt: z.coerce
+    .date()
+    .refine((date) => date > new Date(), "Expiry must be in the future")
+    .optional(),
+  createdBy: z.string().min(1),
+});
+
+// TypeScript interfaces
+export interface IApiKey extends Document {
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  createdBy: string;
+  lastUsedAt?: Date;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  revokedBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Instance methods
+  isUsable(): boolean;
+}
+
+// Static methods interface
+export interface IApiKeyModel extends Model<IApiKey> {
+  findByHash(keyHash: string): Promise<IApiKey | null>;
+  countActiveForUser(createdBy: string): Promise<number>;
+}
+
+// Mongoose schema
+const ApiKeySchema = new Schema<IApiKey>(
+  {
+    name: {
+      type: String,
+      required: true,
+      maxlength: 100,
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    scopes: {
+      type: [String],
+      enum: ["create_order", "read_orders", "refund"],
+      required: true,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    lastUsedAt: Date,
+    expiresAt: Date,
+    revokedAt: Date,
+    revokedBy: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Instance methods
+ApiKeySchema.methods.isUsable = function (): boolean {
+  if (this.revokedAt) {
+    return false;
+  }
+
+  return !this.expiresAt || this.expiresAt > new Date();
+};
+
+// Static methods
+ApiKeySchema.statics.findByHash = function (keyHash: string) {
+  return this.findOne({ keyHash });
+};
+
+ApiKeySchema.statics.countActiveForUser = function (createdBy: string) {
+  return this.countDocuments({
+    createdBy,
+    revokedAt: { $exists: false },
+    $or: [
+      { expiresAt: { $exists: false } },
+      { expiresAt: { $gt: new Date() } },
+    ],
+  });
+};
+
+// Create and export the model
+const ApiKey = (mongoose.models.ApiKey ||
+  mongoose.model<IApiKey, IApiKeyModel>(
+    "ApiKey",
+    ApiKeySchema
+  )) as IApiKeyModel;
+
+export default ApiKey;
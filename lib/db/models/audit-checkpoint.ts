@@ -0,0 +1,69 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+// TypeScript interfaces
+export interface IAuditCheckpoint extends Document {
+  // Chain position and hash of the entry the checkpoint pins
+  sequence: number;
+  hash: string;
+  entryTimestamp: Date;
+  // Signing key fingerprint and Ed25519 signature over the fields above
+  // and createdAt
+  keyId: string;
+  signature: string;
+  // Admin's user ID, or "system" for the scheduled job
+  createdBy: string;
+  createdAt: Date;
+}
+
+// Static methods interface
+export interface IAuditCheckpointModel extends Model<IAuditCheckpoint> {
+  findLatest(): Promise<IAuditCheckpoint | null>;
+}
+
+// Mongoose schema
+const AuditCheckpointSchema = new Schema<IAuditCheckpoint>({
+  sequence: {
+    type: Number,
+    required: true,
+  },
+  hash: {
+    type: String,
+    required: true,
+  },
+  entryTimestamp: {
+    type: Date,
+    required: true,
+  },
+  keyId: {
+    type: String,
+    required: true,
+  },
+  signature: {
+    type: String,
+    required: true,
+  },
+  createdBy: {
+    type: String,
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+AuditCheckpointSchema.index({ sequence: 1 }, { unique: true });
+
+// Static methods
+AuditCheckpointSchema.statics.findLatest = function () {
+  return this.findOne().sort({ sequence: -1 });
+};
+
+// Create and export the model
+const AuditCheckpoint = (mongoose.models.AuditCheckpoint ||
+  mongoose.model<IAuditCheckpoint, IAuditCheckpointModel>(
+    "AuditCheckpoint",
+    AuditCheckpointSchema
+  )) as IAuditCheckpointModel;
+
+export default AuditCheckpoint;
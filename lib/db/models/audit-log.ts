@@ -1,5 +1,14 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
 import { z } from "zod";
+import {
+  AUDIT_REDACTION_ACTION,
+  AuditRedaction,
+  MAX_REDACTIONS_PER_RECORD,
+  auditContentOf,
+  hashAuditContent,
+  redactedContentDigest,
+  sealAuditEntry,
+} from "../../utils/audit-chain";
 
 // Zod validation schemas
 export const AuditActionSchema = z.enum([
@@ -12,6 +21,17 @@ export const AuditActionSchema = z.enum([
   "settings_updated",
   "login_attempt",
   "logout",
+  "refund_requested",
+  "refund_processed",
+  "refund_rejected",
+  "api_key_created",
+  "api_key_revoked",
+  "data_reencrypted",
+  "data_purged",
+  "data_request_created",
+  "data_exported",
+  "data_erased",
+  "audit_redacted",
 ]);
 
 export const EntityTypeSchema = z.enum(["order", "user", "settings", "auth"]);
@@ -36,7 +56,18 @@ export type AuditAction =
   | "user_role_updated"
   | "settings_updated"
   | "login_attempt"
-  | "logout";
+  | "logout"
+  | "refund_requested"
+  | "refund_processed"
+  | "refund_rejected"
+  | "api_key_created"
+  | "api_key_revoked"
+  | "data_reencrypted"
+  | "data_purged"
+  | "data_request_created"
+  | "data_exported"
+  | "data_erased"
+  | "audit_redacted";
 
 export type EntityType = "order" | "user" | "settings" | "auth";
 
@@ -49,8 +80,25 @@ export interface IAuditLog extends Document {
   timestamp: Date;
   ipAddress?: string;
   userAgent?: string;
+  // Hash chain (see lib/utils/audit-chain); missing on entries written
+  // before the chain existed
+  sequence?: number;
+  prevHash?: string;
+  hash?: string;
+  salt?: string;
+  // Digest of the content as written, kept when the entry is anonymized
+  redactedDigest?: string;
+  redactedAt?: Date;
+  // Set when retention removed the content and left only the chain fields
+  prunedAt?: Date;
 }
 
+// Update applied to one entry when it is anonymized
+export type AuditLogRedaction = {
+  $set?: Record<string, any>;
+  $unset?: Record<string, any>;
+};
+
 // Static methods interface
 export interface IAuditLogModel extends Model<IAuditLog> {
   logAction(
@@ -64,6 +112,10 @@ export interface IAuditLogModel extends Model<IAuditLog> {
       userAgent?: string;
     }
   ): Promise<IAuditLog>;
+  redactEntries(
+    filter: Record<string, any>,
+    redaction: (entry: Record<string, any>) => AuditLogRedaction
+  ): Promise<number>;
   getRecentActivity(
     limit?: number,
     filters?: {
@@ -107,6 +159,17 @@ const AuditLogSchema = new Schema<IAuditLog>(
         "settings_updated",
         "login_attempt",
         "logout",
+        "refund_requested",
+        "refund_processed",
+        "refund_rejected",
+        "api_key_created",
+        "api_key_revoked",
+        "data_reencrypted",
+        "data_purged",
+        "data_request_created",
+        "data_exported",
+        "data_erased",
+        "audit_redacted",
       ],
       index: true,
     },
@@ -140,6 +203,13 @@ const AuditLogSchema = new Schema<IAuditLog>(
     userAgent: {
       type: String,
     },
+    sequence: Number,
+    prevHash: String,
+    hash: String,
+    salt: String,
+    redactedDigest: String,
+    redactedAt: Date,
+    prunedAt: Date,
   },
   {
     timestamps: false, // We use our own timestamp field
@@ -156,6 +226,20 @@ AuditLogSchema.index({ entityType: 1, entityId: 1, timestamp: -1 });
 AuditLogSchema.index({ userId: 1, action: 1, timestamp: -1 });
 AuditLogSchema.index({ entityType: 1, action: 1, timestamp: -1 });
 
+// One entry per chain position; appends from separate instances race on this
+AuditLogSchema.index({ sequence: 1 }, { unique: true, sparse: true });
+
+// Appends retried after losing a race for the next sequence number
+const MAX_APPEND_ATTEMPTS = 10;
+
+const isDuplicateKeyError = (error: unknown) =>
+  (error as { code?: number })?.code === 11000;
+
+// Appends from this process run one at a time, so a burst (a bulk upload
+// flushing hundreds of entries) never races itself for sequence numbers.
+// The unique index and retries only have to cover other instances.
+let appendQueue: Promise<unknown> = Promise.resolve();
+
 // Static methods
 AuditLogSchema.statics.logAction = async function (
   action: AuditAction,
@@ -168,7 +252,7 @@ AuditLogSchema.statics.logAction = async function (
     userAgent?: string;
   } = {}
 ) {
-  return await this.create({
+  const entry = {
     action,
     entityType,
     userId,
@@ -177,7 +261,97 @@ AuditLogSchema.statics.logAction = async function (
     ipAddress: options.ipAddress,
     userAgent: options.userAgent,
     timestamp: new Date(),
-  });
+  };
+
+  // Chain onto the current head; if another instance took the next
+  // sequence number first, re-read the head and try again
+  const append = async () => {
+    for (let attempt = 1; ; attempt++) {
+      const head = await this.findOne({ sequence: { $exists: true } })
+        .sort({ sequence: -1 })
+        .select({ sequence: 1, hash: 1 })
+        .lean();
+
+      try {
+        return await this.create({ ...entry, ...sealAuditEntry(entry, head) });
+      } catch (error) {
+        if (!isDuplicateKeyError(error) || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  };
+
+  const appended = appendQueue.then(append);
+  appendQueue = appended.catch(() => undefined);
+  return appended;
+};
+
+// Anonymize matching entries. Chained entries keep the digest of what they
+// first held, so the chain still verifies; the salt goes so the removed
+// values can't be confirmed by guessing. Each batch of chained entries is
+// then authorized by an `audit_redacted` entry naming them, which is never
+// redacted itself.
+AuditLogSchema.statics.redactEntries = async function (
+  filter: Record<string, any>,
+  redaction: (entry: Record<string, any>) => AuditLogRedaction
+) {
+  const entries = this.find({
+    $and: [filter, { action: { $ne: AUDIT_REDACTION_ACTION } }],
+  })
+    .lean()
+    .cursor();
+  let redacted = 0;
+  let authorized: AuditRedaction[] = [];
+
+  const authorize = async () => {
+    if (authorized.length > 0) {
+      await (this as IAuditLogModel).logAction(
+        AUDIT_REDACTION_ACTION,
+        "settings",
+        "system",
+        { details: { entries: authorized } }
+      );
+      authorized = [];
+    }
+  };
+
+  for await (const entry of entries) {
+    const update = redaction(entry);
+    const seal =
+      entry.salt && !entry.redactedDigest
+        ? {
+            redactedDigest: hashAuditContent(entry.salt, auditContentOf(entry)),
+            redactedAt: new Date(),
+          }
+        : {};
+
+    const updated = await this.findOneAndUpdate(
+      { _id: entry._id },
+      {
+        $set: { ...update.$set, ...seal },
+        $unset: {
+          ...update.$unset,
+          ...(entry.salt ? { salt: "" } : {}),
+        },
+      },
+      { new: true }
+    ).lean();
+    redacted += 1;
+
+    if (updated?.sequence) {
+      authorized.push({
+        sequence: updated.sequence,
+        digest: redactedContentDigest(updated),
+      });
+      if (authorized.length >= MAX_REDACTIONS_PER_RECORD) {
+        await authorize();
+      }
+    }
+  }
+
+  await authorize();
+  return redacted;
 };
 
 AuditLogSchema.statics.getRecentActivity = function (
@@ -190,7 +364,8 @@ AuditLogSchema.statics.getRecentActivity = function (
     endDate?: Date;
   } = {}
 ) {
-  const query: any = {};
+  // Entries pruned by retention only hold chain fields
+  const query: any = { prunedAt: { $exists: false } };
 
   if (filters.userId) query.userId = filters.userId;
   if (filters.action) query.action = filters.action;
@@ -246,12 +421,6 @@ AuditLogSchema.statics.getActionStats = function (
   ]);
 };
 
-// TTL index for automatic cleanup (optional - keep logs for 1 year)
-AuditLogSchema.index(
-  { timestamp: 1 },
-  { expireAfterSeconds: 365 * 24 * 60 * 60 }
-);
-
 // Create and export the model
 const AuditLog = (mongoose.models.AuditLog ||
   mongoose.model<IAuditLog, IAuditLogModel>(
@@ -0,0 +1,157 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+import { z } from "zod";
+import { protectedFieldsPlugin } from "../plugins/protected-fields";
+import { PHONE_PATTERN } from "../../utils/payer-details";
+import {
+  DATA_REQUEST_STATUSES,
+  DATA_REQUEST_TYPES,
+  DataRequestStatus,
+  DataRequestType,
+  normalizeIdentifier,
+  SUBJECT_IDENTIFIER_TYPES,
+  SubjectIdentifierType,
+} from "../../utils/data-subject";
+
+// What each identifier type must look like once normalized
+const IDENTIFIER_FORMATS: Record<SubjectIdentifierType, z.ZodTypeAny> = {
+  phone: z
+    .string()
+    .regex(PHONE_PATTERN, "Enter a valid 10-digit mobile number"),
+  email: z.string().email("Enter a valid email address"),
+  vpa: z.string().regex(/^[\w.-]+@[\w.-]+$/, "Invalid UPI ID format"),
+  ip: z.string().ip("Enter a valid IP address"),
+  userId: z.string().min(1).max(100),
+};
+
+// Zod validation schemas
+export const CreateDataSubjectRequestSchema = z
+  .object({
+    type: z.enum(DATA_REQUEST_TYPES),
+    identifierType: z.enum(SUBJECT_IDENTIFIER_TYPES),
+    identifier: z.string().trim().min(1).max(200),
+    // Ticket or letter the request arrived with
+    reference: z.string().trim().max(100).optional(),
+    notes: z.string().trim().max(500).optional(),
+  })
+  .transform((data) => ({
+    ...data,
+    identifier: normalizeIdentifier(data.identifierType, data.identifier),
+  }))
+  .superRefine((data, ctx) => {
+    const result = IDENTIFIER_FORMATS[data.identifierType].safeParse(
+      data.identifier
+    );
+    if (!result.success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: result.error.errors[0].message,
+        path: ["identifier"],
+      });
+    }
+  });
+
+// TypeScript interfaces
+export interface IDataSubjectRecordCounts {
+  orders: number;
+  auditLogs: number;
+  sessions: number;
+  settings: number;
+}
+
+export interface IDataSubjectRequest extends Document {
+  type: DataRequestType;
+  identifierType: SubjectIdentifierType;
+  // Cleared once an erasure completes; the hash still shows which
+  // identifier the request was for
+  identifier?: string;
+  identifierHash?: string;
+  reference?: string;
+  notes?: string;
+  status: DataRequestStatus;
+  requestedBy: string;
+  completedBy?: string;
+  completedAt?: Date;
+  // Records exported or erased
+  result?: IDataSubjectRecordCounts;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Static methods interface
+export interface IDataSubjectRequestModel extends Model<IDataSubjectRequest> {
+  findRecent(limit?: number): Promise<IDataSubjectRequest[]>;
+}
+
+const DataSubjectRecordCountsSchema = new Schema<IDataSubjectRecordCounts>(
+  {
+    orders: { type: Number, default: 0 },
+    auditLogs: { type: Number, default: 0 },
+    sessions: { type: Number, default: 0 },
+    settings: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+// Mongoose schema
+const DataSubjectRequestSchema = new Schema<IDataSubjectRequest>(
+  {
+    type: {
+      type: String,
+      enum: DATA_REQUEST_TYPES,
+      required: true,
+    },
+    identifierType: {
+      type: String,
+      enum: SUBJECT_IDENTIFIER_TYPES,
+      required: true,
+    },
+    identifier: {
+      type: String,
+      encrypted: true,
+      lookup: "identifierHash",
+    },
+    identifierHash: String,
+    reference: {
+      type: String,
+      maxlength: 100,
+    },
+    notes: {
+      type: String,
+      maxlength: 500,
+    },
+    status: {
+      type: String,
+      enum: DATA_REQUEST_STATUSES,
+      default: "open",
+    },
+    requestedBy: {
+      type: String,
+      required: true,
+    },
+    completedBy: String,
+    completedAt: Date,
+    result: DataSubjectRecordCountsSchema,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+DataSubjectRequestSchema.index({ createdAt: -1 });
+DataSubjectRequestSchema.index({ identifierHash: 1 });
+
+// Static methods
+DataSubjectRequestSchema.statics.findRecent = function (limit: number = 50) {
+  return this.find().sort({ createdAt: -1 }).limit(limit);
+};
+
+DataSubjectRequestSchema.plugin(protectedFieldsPlugin);
+
+// Create and export the model
+const DataSubjectRequest = (mongoose.models.DataSubjectRequest ||
+  mongoose.model<IDataSubjectRequest, IDataSubjectRequestModel>(
+    "DataSubjectRequest",
+    DataSubjectRequestSchema
+  )) as IDataSubjectRequestModel;
+
+export default DataSubjectRequest;
@@ -0,0 +1,112 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+// A running migration that has not saved progress for this long is treated
+// as interrupted (e.g. the server restarted) and may be started again
+export const MIGRATION_STALE_AFTER_MS = 5 * 60 * 1000;
+
+export type EncryptionMigrationStatus = "running" | "completed" | "failed";
+
+// TypeScript interfaces
+export interface IEncryptionMigrationField {
+  // Protected field, e.g. "orders.utr"
+  name: string;
+  // Values that needed re-encryption when the migration reached this field
+  total: number;
+  processed: number;
+  reEncrypted: number;
+  failed: number;
+}
+
+export interface IEncryptionMigration extends Document {
+  status: EncryptionMigrationStatus;
+  // Key every value is re-encrypted under
+  targetKeyId: string;
+  startedBy: string;
+  fields: IEncryptionMigrationField[];
+  completedAt?: Date;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Instance methods
+  isStale(now?: Date): boolean;
+}
+
+// Static methods interface
+export interface IEncryptionMigrationModel extends Model<IEncryptionMigration> {
+  findLatest(): Promise<IEncryptionMigration | null>;
+  findRunning(): Promise<IEncryptionMigration | null>;
+}
+
+const EncryptionMigrationFieldSchema = new Schema<IEncryptionMigrationField>(
+  {
+    name: { type: String, required: true },
+    total: { type: Number, default: 0 },
+    processed: { type: Number, default: 0 },
+    reEncrypted: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+// Mongoose schema
+const EncryptionMigrationSchema = new Schema<IEncryptionMigration>(
+  {
+    status: {
+      type: String,
+      enum: ["running", "completed", "failed"],
+      default: "running",
+    },
+    targetKeyId: {
+      type: String,
+      required: true,
+    },
+    startedBy: {
+      type: String,
+      required: true,
+    },
+    fields: {
+      type: [EncryptionMigrationFieldSchema],
+      default: [],
+    },
+    completedAt: Date,
+    error: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+EncryptionMigrationSchema.index({ createdAt: -1 });
+// Only one migration may run at a time
+EncryptionMigrationSchema.index(
+  { status: 1 },
+  { unique: true, partialFilterExpression: { status: "running" } }
+);
+
+// Instance methods
+EncryptionMigrationSchema.methods.isStale = function (
+  now: Date = new Date()
+): boolean {
+  return (
+    this.status === "running" &&
+    now.getTime() - this.updatedAt.getTime() > MIGRATION_STALE_AFTER_MS
+  );
+};
+
+// Static methods
+EncryptionMigrationSchema.statics.findLatest = function () {
+  return this.findOne().sort({ createdAt: -1 });
+};
+
+EncryptionMigrationSchema.statics.findRunning = function () {
+  return this.findOne({ status: "running" }).sort({ createdAt: -1 });
+};
+
+// Create and export the model
+const EncryptionMigration = (mongoose.models.EncryptionMigration ||
+  mongoose.model<IEncryptionMigration, IEncryptionMigrationModel>(
+    "EncryptionMigration",
+    EncryptionMigrationSchema
+  )) as IEncryptionMigrationModel;
+
+export default EncryptionMigration;
@@ -0,0 +1,109 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+import { z } from "zod";
+
+// Stored responses are replayed for 24 hours
+export const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Zod validation schemas
+export const IdempotencyKeySchema = z
+  .string()
+  .min(1)
+  .max(255)
+  .regex(/^[\x21-\x7e]+$/, "Idempotency-Key must be printable ASCII");
+
+// TypeScript interfaces
+export interface IIdempotencyKey extends Document {
+  key: string;
+  // Method and path the key was used on, e.g. "POST /api/orders"
+  scope: string;
+  // User ID, or "anonymous" for unauthenticated callers
+  principal: string;
+  requestHash: string;
+  status: "processing" | "completed";
+  responseStatus?: number;
+  responseBody?: string;
+  responseContentType?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Instance methods
+  isExpired(): boolean;
+}
+
+// Static methods interface
+export interface IIdempotencyKeyModel extends Model<IIdempotencyKey> {
+  findForRequest(
+    key: string,
+    scope: string,
+    principal: string
+  ): Promise<IIdempotencyKey | null>;
+}
+
+// Mongoose schema
+const IdempotencyKeyDocumentSchema = new Schema<IIdempotencyKey>(
+  {
+    key: {
+      type: String,
+      required: true,
+      maxlength: 255,
+    },
+    scope: {
+      type: String,
+      required: true,
+    },
+    principal: {
+      type: String,
+      required: true,
+    },
+    requestHash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["processing", "completed"],
+      default: "processing",
+    },
+    responseStatus: Number,
+    responseBody: String,
+    responseContentType: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A key is unique per caller and endpoint
+IdempotencyKeyDocumentSchema.index(
+  { key: 1, scope: 1, principal: 1 },
+  { unique: true }
+);
+
+// TTL index for automatic cleanup
+IdempotencyKeyDocumentSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: IDEMPOTENCY_KEY_TTL_MS / 1000 }
+);
+
+// Instance methods
+// The TTL monitor runs periodically, so expiry is also checked on read
+IdempotencyKeyDocumentSchema.methods.isExpired = function (): boolean {
+  return Date.now() - this.createdAt.getTime() > IDEMPOTENCY_KEY_TTL_MS;
+};
+
+// Static methods
+IdempotencyKeyDocumentSchema.statics.findForRequest = function (
+  key: string,
+  scope: string,
+  principal: string
+) {
+  return this.findOne({ key, scope, principal });
+};
+
+// Create and export the model
+const IdempotencyKey = (mongoose.models.IdempotencyKey ||
+  mongoose.model<IIdempotencyKey, IIdempotencyKeyModel>(
+    "IdempotencyKey",
+    IdempotencyKeyDocumentSchema
+  )) as IIdempotencyKeyModel;
+
+export default IdempotencyKey;
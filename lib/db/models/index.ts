@@ -2,18 +2,112 @@
 export { default as Order } from "./order";
 export { default as SystemSettings } from "./settings";
 export { default as AuditLog } from "./audit-log";
+export { default as WebhookEndpoint } from "./webhook-endpoint";
+export { default as WebhookDelivery } from "./webhook-delivery";
+export { default as Refund } from "./refund";
+export { default as PaymentLink } from "./payment-link";
+export { default as MerchantProfile } from "./merchant-profile";
+export { default as ApiKey } from "./api-key";
+export { default as IdempotencyKey } from "./idempotency-key";
+export { default as RateLimitCounter } from "./rate-limit-counter";
+export { default as UserSession } from "./user-session";
+export { default as EncryptionMigration } from "./encryption-migration";
+export { default as RetentionRule } from "./retention-rule";
+export { default as DataSubjectRequest } from "./data-subject-request";
+export { default as AuditCheckpoint } from "./audit-checkpoint";
 
 // Export types and schemas
 export type { IOrder } from "./order";
 export type { ISystemSettings, IUpiApps } from "./settings";
-export type { IAuditLog, AuditAction, EntityType } from "./audit-log";
+export type {
+  IAuditLog,
+  AuditAction,
+  AuditLogRedaction,
+  EntityType,
+} from "./audit-log";
+export type { IWebhookEndpoint, WebhookEvent } from "./webhook-endpoint";
+export type {
+  IWebhookDelivery,
+  IWebhookAttempt,
+  WebhookDeliveryStatus,
+} from "./webhook-delivery";
+export type { IRefund } from "./refund";
+export type { IPaymentLink } from "./payment-link";
+export type {
+  IMerchantProfile,
+  IMerchantVpa,
+  IVpaRouting,
+} from "./merchant-profile";
+export type { IApiKey } from "./api-key";
+export type { IIdempotencyKey } from "./idempotency-key";
+export type { IRateLimitCounter } from "./rate-limit-counter";
+export type { IUserSession, SessionEndReason } from "./user-session";
+export type {
+  IEncryptionMigration,
+  IEncryptionMigrationField,
+  EncryptionMigrationStatus,
+} from "./encryption-migration";
+export type { IRetentionRule, IRetentionRunResult } from "./retention-rule";
+export type {
+  IDataSubjectRequest,
+  IDataSubjectRecordCounts,
+} from "./data-subject-request";
+export type { IAuditCheckpoint } from "./audit-checkpoint";
 
-export { CreateOrderSchema, SubmitUTRSchema, OrderStatus } from "./order";
+export {
+  CreateOrderSchema,
+  SubmitUTRSchema,
+  OrderStatus,
+  LineItemSchema,
+  SupplyTypeSchema,
+  OrderSearchSchema,
+  ORDER_SORT_FIELDS,
+} from "./order";
 
-export { SystemSettingsSchema, UpiAppsSchema } from "./settings";
+export {
+  SystemSettingsSchema,
+  UpiAppsSchema,
+  RateLimitPolicySchema,
+  RateLimitPoliciesSchema,
+} from "./settings";
 
 export {
   CreateAuditLogSchema,
   AuditActionSchema,
   EntityTypeSchema,
 } from "./audit-log";
+
+export {
+  CreateWebhookEndpointSchema,
+  WebhookEventSchema,
+} from "./webhook-endpoint";
+
+export {
+  CreateRefundSchema,
+  ProcessRefundSchema,
+  RejectRefundSchema,
+  RefundStatus,
+} from "./refund";
+
+export {
+  CreatePaymentLinkSchema,
+  PaymentLinkAmountType,
+} from "./payment-link";
+
+export {
+  AddMerchantVpaSchema,
+  VerifyMerchantVpaSchema,
+  UpdateVpaRoutingSchema,
+  VpaRoutingStrategy,
+} from "./merchant-profile";
+
+export { CreateApiKeySchema } from "./api-key";
+
+export { IdempotencyKeySchema } from "./idempotency-key";
+
+export {
+  RetentionRuleSchema,
+  RetentionCriteriaSchema,
+} from "./retention-rule";
+
+export { CreateDataSubjectRequestSchema } from "./data-subject-request";
@@ -0,0 +1,228 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import { z } from "zod";
+
+export const MAX_MERCHANT_VPAS = 10;
+const MAX_ROUTING_RULES = 10;
+
+const VpaSchema = z
+  .string()
+  .regex(/^[\w.-]+@[\w.-]+$/, "Invalid UPI ID format");
+
+// Zod validation schemas
+export const VpaRoutingStrategy = z.enum([
+  "default",
+  "amount",
+  "time",
+  "round-robin",
+]);
+
+export const AddMerchantVpaSchema = z.object({
+  vpa: VpaSchema,
+  label: z.string().trim().max(50).optional(),
+});
+
+export const VerifyMerchantVpaSchema = z.object({
+  utr: z
+    .string()
+    .regex(/^[A-Za-z0-9]{12}$/, "UTR must be 12-digit alphanumeric"),
+});
+
+export const AmountBandSchema = z
+  .object({
+    minAmount: z.number().min(0).max(100000),
+    maxAmount: z.number().min(0).max(100000),
+    vpa: VpaSchema,
+  })
+  .refine((band) => band.minAmount <= band.maxAmount, {
+    message: "Minimum amount cannot exceed maximum amount",
+    path: ["minAmount"],
+  });
+
+// Hours are in IST; a window may wrap past midnight (e.g. 22 to 6)
+export const TimeWindowSchema = z
+  .object({
+    startHour: z.number().int().min(0).max(23),
+    endHour: z.number().int().min(0).max(24),
+    vpa: VpaSchema,
+  })
+  .refine((window) => window.startHour !== window.endHour, {
+    message: "Start and end hour must differ",
+    path: ["endHour"],
+  });
+
+export const UpdateVpaRoutingSchema = z.object({
+  strategy: VpaRoutingStrategy,
+  amountBands: z.array(AmountBandSchema).max(MAX_ROUTING_RULES).default([]),
+  timeWindows: z.array(TimeWindowSchema).max(MAX_ROUTING_RULES).default([]),
+});
+
+// TypeScript interfaces
+export interface IMerchantVpa {
+  _id: Types.ObjectId;
+  vpa: string;
+  label?: string;
+  isDefault: boolean;
+  verified: boolean;
+  verificationCode: string;
+  verificationAmount: number;
+  verificationUtr?: string;
+  verifiedAt?: Date;
+  createdAt: Date;
+}
+
+export interface IAmountBand {
+  minAmount: number;
+  maxAmount: number;
+  vpa: string;
+}
+
+export interface ITimeWindow {
+  startHour: number;
+  endHour: number;
+  vpa: string;
+}
+
+export interface IVpaRouting {
+  strategy: z.infer<typeof VpaRoutingStrategy>;
+  amountBands: IAmountBand[];
+  timeWindows: ITimeWindow[];
+  roundRobinCounter: number;
+}
+
+export interface IMerchantProfile extends Document {
+  userId: string;
+  vpas: Types.DocumentArray<IMerchantVpa & Types.Subdocument>;
+  routing: IVpaRouting;
+  createdAt: Date;
+  updatedAt: Date;
+  // Instance methods
+  getVerifiedVpas(): IMerchantVpa[];
+  getDefaultVpa(): IMerchantVpa | undefined;
+}
+
+// Static methods interface
+export interface IMerchantProfileModel extends Model<IMerchantProfile> {
+  findByUserId(userId: string): Promise<IMerchantProfile | null>;
+  getOrCreate(userId: string): Promise<IMerchantProfile>;
+}
+
+// Mongoose schema
+const MerchantVpaSchema = new Schema<IMerchantVpa>({
+  vpa: {
+    type: String,
+    required: true,
+    lowercase: true,
+    validate: {
+      validator: (v: string) => /^[\w.-]+@[\w.-]+$/.test(v),
+      message: "Invalid UPI ID format",
+    },
+  },
+  label: {
+    type: String,
+    maxlength: 50,
+  },
+  isDefault: {
+    type: Boolean,
+    default: false,
+  },
+  verified: {
+    type: Boolean,
+    default: false,
+  },
+  verificationCode: {
+    type: String,
+    required: true,
+  },
+  verificationAmount: {
+    type: Number,
+    required: true,
+  },
+  verificationUtr: String,
+  verifiedAt: Date,
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const MerchantProfileSchema = new Schema<IMerchantProfile>(
+  {
+    userId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    vpas: {
+      type: [MerchantVpaSchema],
+      default: [],
+    },
+    routing: {
+      strategy: {
+        type: String,
+        enum: ["default", "amount", "time", "round-robin"],
+        default: "default",
+      },
+      amountBands: {
+        type: [
+          {
+            _id: false,
+            minAmount: { type: Number, required: true, min: 0 },
+            maxAmount: { type: Number, required: true, min: 0 },
+            vpa: { type: String, required: true },
+          },
+        ],
+        default: [],
+      },
+      timeWindows: {
+        type: [
+          {
+            _id: false,
+            startHour: { type: Number, required: true, min: 0, max: 23 },
+            endHour: { type: Number, required: true, min: 0, max: 24 },
+            vpa: { type: String, required: true },
+          },
+        ],
+        default: [],
+      },
+      roundRobinCounter: {
+        type: Number,
+        default: 0,
+      },
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Instance methods
+MerchantProfileSchema.methods.getVerifiedVpas = function (): IMerchantVpa[] {
+  return this.vpas.filter((entry: IMerchantVpa) => entry.verified);
+};
+
+MerchantProfileSchema.methods.getDefaultVpa = function ():
+  IMerchantVpa | undefined {
+  return this.getVerifiedVpas().find((entry: IMerchantVpa) => entry.isDefault);
+};
+
+// Static methods
+MerchantProfileSchema.statics.findByUserId = function (userId: string) {
+  return this.findOne({ userId });
+};
+
+MerchantProfileSchema.statics.getOrCreate = async function (userId: string) {
+  return this.findOneAndUpdate(
+    { userId },
+    { $setOnInsert: { userId } },
+    { new: true, upsert: true, setDefaultsOnInsert: true }
+  );
+};
+
+// Create and export the model
+const MerchantProfile = (mongoose.models.MerchantProfile ||
+  mongoose.model<IMerchantProfile, IMerchantProfileModel>(
+    "MerchantProfile",
+    MerchantProfileSchema
+  )) as IMerchantProfileModel;
+
+export default MerchantProfile;
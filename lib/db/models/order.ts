@@ -1,5 +1,22 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
 import { z } from "zod";
+import {
+  LineItem,
+  LineItemInput,
+  TaxBreakdown,
+  calculateGstBreakdown,
+  amountMatchesTotal,
+} from "../../utils/gst";
+import {
+  PayerFields,
+  PayerDetails,
+  PayerFieldsSchema,
+  hasPayerFields,
+} from "../../utils/payer-details";
+import { canTransitionOrder } from "../../utils/order-state-machine";
+import type { RiskAssessment } from "../../utils/fraud-detection";
+import { isEncryptedValue } from "../../utils/encryption";
+import { protectedFieldsPlugin } from "../plugins/protected-fields";
 
 // Zod validation schemas
 export const OrderStatus = z.enum([
@@ -8,15 +25,93 @@ export const OrderStatus = z.enum([
   "completed",
   "expired",
   "failed",
+  "refunded",
+  "partially-refunded",
 ]);
 
-export const CreateOrderSchema = z.object({
-  amount: z.number().min(1).max(100000),
-  merchantName: z.string().min(1).max(100),
-  vpa: z.string().regex(/^[\w.-]+@[\w.-]+$/, "Invalid UPI ID format"),
-  createdBy: z.string().min(1),
+export const LineItemSchema = z.object({
+  description: z.string().min(1).max(200),
+  quantity: z.number().positive().max(10000),
+  unitPrice: z.number().min(0).max(100000),
+  hsnCode: z
+    .string()
+    .regex(/^\d{4,8}$/, "HSN/SAC code must be 4-8 digits")
+    .optional(),
+  taxRate: z.number().min(0).max(40),
 });
 
+export const SupplyTypeSchema = z.enum(["intra-state", "inter-state"]);
+
+export const CreateOrderSchema = z
+  .object({
+    amount: z.number().min(1).max(100000),
+    merchantName: z.string().min(1).max(100),
+    vpa: z.string().regex(/^[\w.-]+@[\w.-]+$/, "Invalid UPI ID format"),
+    createdBy: z.string().min(1),
+    payerName: z.string().max(100).optional(),
+    note: z.string().max(200).optional(),
+    lineItems: z.array(LineItemSchema).min(1).max(50).optional(),
+    supplyType: SupplyTypeSchema.optional(),
+    payerFields: PayerFieldsSchema.optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (!data.lineItems) return;
+
+    const { taxBreakdown } = calculateGstBreakdown(
+      data.lineItems as LineItemInput[],
+      data.supplyType
+    );
+
+    if (!amountMatchesTotal(data.amount, taxBreakdown.total)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Amount does not match line item total of ${taxBreakdown.total.toFixed(2)}`,
+        path: ["amount"],
+      });
+    }
+  });
+
+// Fields the admin order search can sort by; each is backed by an index
+export const ORDER_SORT_FIELDS = [
+  "createdAt",
+  "expiresAt",
+  "amount",
+  "status",
+  "orderId",
+  "createdBy",
+] as const;
+
+export const OrderSearchSchema = z
+  .object({
+    status: OrderStatus.optional(),
+    minAmount: z.coerce.number().min(0).optional(),
+    maxAmount: z.coerce.number().min(0).optional(),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+    merchantName: z.string().trim().min(1).max(100).optional(),
+    createdBy: z.string().trim().min(1).max(100).optional(),
+    vpa: z.string().trim().min(1).max(100).optional(),
+    orderId: z.string().trim().min(1).max(50).optional(),
+    utr: z.string().trim().min(1).max(50).optional(),
+    sortBy: z.enum(ORDER_SORT_FIELDS).default("createdAt"),
+    sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  })
+  .refine(
+    (data) =>
+      data.minAmount === undefined ||
+      data.maxAmount === undefined ||
+      data.minAmount <= data.maxAmount,
+    {
+      message: "Minimum amount cannot exceed maximum amount",
+      path: ["minAmount"],
+    }
+  )
+  .refine(
+    (data) =>
+      !data.startDate || !data.endDate || data.startDate <= data.endDate,
+    { message: "Start date cannot be after end date", path: ["startDate"] }
+  );
+
 export const SubmitUTRSchema = z.object({
   utr: z
     .string()
@@ -34,24 +129,55 @@ export interface IOrder extends Document {
     | "pending-verification"
     | "completed"
     | "expired"
-    | "failed";
+    | "failed"
+    | "refunded"
+    | "partially-refunded";
   utr?: string;
+  // Keyed hash of the UTR, for finding reuse without decrypting
+  utrHash?: string;
+  // Fraud signals found when the UTR was submitted
+  risk?: RiskAssessment;
+  refundedAmount: number;
+  // Requested plus processed refunds; missing on orders that never had one
+  refundReservedAmount?: number;
+  payerName?: string;
+  note?: string;
+  lineItems?: LineItem[];
+  taxBreakdown?: TaxBreakdown;
+  payerFields?: PayerFields;
+  payerDetails?: PayerDetails & {
+    // Keyed hashes of phone and email, for data subject requests
+    phoneHash?: string;
+    emailHash?: string;
+  };
+  paymentLinkSlug?: string;
   createdBy: string;
   createdAt: Date;
   expiresAt: Date;
   paymentPageUrl: string;
   upiDeepLink: string;
+  // Version counter, bumped on every save
+  __v: number;
   metadata: {
     customerIP?: string;
+    // Keyed hash of customerIP, for data subject requests
+    customerIPHash?: string;
     userAgent?: string;
     referrer?: string;
+    // When the payment page was first served; the fast submission check
+    // measures from here, not from the latest re-render
+    paymentPageOpenedAt?: Date;
     utrSubmittedAt?: Date;
     utrSubmissionIP?: string;
+    // Keyed hash of utrSubmissionIP, for velocity checks
+    utrSubmissionIPHash?: string;
     utrSubmissionUserAgent?: string;
+    utrSubmissionDeviceId?: string;
     utrRemovedAt?: Date;
     utrRemovedReason?: string;
     expiredAt?: Date;
     expiredBy?: string;
+    failureReason?: string;
     adminNotes?: string;
     lastUpdatedBy?: string;
     lastUpdatedAt?: Date;
@@ -60,6 +186,8 @@ export interface IOrder extends Document {
   isExpired(): boolean;
   canSubmitUTR(): boolean;
   canUpdateStatus(): boolean;
+  canRefund(): boolean;
+  needsPayerDetails(): boolean;
 }
 
 // Static methods interface
@@ -105,19 +233,133 @@ const OrderSchema = new Schema<IOrder>(
         "completed",
         "expired",
         "failed",
+        "refunded",
+        "partially-refunded",
       ],
       default: "pending",
       index: true,
     },
     utr: {
       type: String,
+      encrypted: true,
+      lookup: "utrHash",
       validate: {
+        // Stored encrypted; plain values are from before encryption
         validator: function (v: string) {
-          return !v || /^[A-Za-z0-9]{12}$/.test(v);
+          return !v || /^[A-Za-z0-9]{12}$/.test(v) || isEncryptedValue(v);
         },
         message: "UTR must be 12-digit alphanumeric",
       },
     },
+    utrHash: String,
+    risk: {
+      score: { type: Number, min: 0, max: 100 },
+      level: { type: String, enum: ["low", "medium", "high"] },
+      reasons: {
+        type: [
+          {
+            _id: false,
+            signal: { type: String, required: true },
+            message: { type: String, required: true },
+          },
+        ],
+        default: undefined,
+      },
+      assessedAt: Date,
+    },
+    refundedAmount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // No default: a missing value means it has to be counted from the
+    // refunds collection first
+    refundReservedAmount: {
+      type: Number,
+      min: 0,
+    },
+    // Encrypted values are longer than the input, so lengths of protected
+    // fields are only checked by the zod schemas
+    payerName: {
+      type: String,
+      encrypted: true,
+    },
+    note: {
+      type: String,
+      maxlength: 200,
+    },
+    lineItems: {
+      type: [
+        {
+          _id: false,
+          description: { type: String, required: true, maxlength: 200 },
+          quantity: { type: Number, required: true, min: 0 },
+          unitPrice: { type: Number, required: true, min: 0 },
+          hsnCode: String,
+          taxRate: { type: Number, required: true, min: 0, max: 40 },
+          taxableValue: { type: Number, required: true },
+          taxAmount: { type: Number, required: true },
+        },
+      ],
+      default: undefined,
+    },
+    taxBreakdown: {
+      supplyType: {
+        type: String,
+        enum: ["intra-state", "inter-state"],
+      },
+      subtotal: Number,
+      cgst: Number,
+      sgst: Number,
+      igst: Number,
+      totalTax: Number,
+      total: Number,
+    },
+    payerFields: {
+      name: Boolean,
+      phone: Boolean,
+      email: Boolean,
+      customFields: {
+        type: [
+          {
+            _id: false,
+            label: { type: String, required: true, maxlength: 50 },
+            required: { type: Boolean, default: true },
+          },
+        ],
+        default: undefined,
+      },
+    },
+    payerDetails: {
+      name: { type: String, encrypted: true },
+      phone: {
+        type: String,
+        encrypted: true,
+        lookup: "payerDetails.phoneHash",
+      },
+      phoneHash: String,
+      email: {
+        type: String,
+        encrypted: true,
+        lookup: "payerDetails.emailHash",
+      },
+      emailHash: String,
+      customFields: {
+        type: [
+          {
+            _id: false,
+            label: { type: String, required: true, maxlength: 50 },
+            value: { type: String, encrypted: true },
+          },
+        ],
+        default: undefined,
+      },
+      submittedAt: Date,
+    },
+    paymentLinkSlug: {
+      type: String,
+      index: true,
+    },
     createdBy: {
       type: String,
       required: true,
@@ -142,16 +384,29 @@ const OrderSchema = new Schema<IOrder>(
       required: true,
     },
     metadata: {
-      customerIP: String,
-      userAgent: String,
+      customerIP: {
+        type: String,
+        encrypted: true,
+        lookup: "metadata.customerIPHash",
+      },
+      customerIPHash: String,
+      userAgent: { type: String, encrypted: true },
       referrer: String,
+      paymentPageOpenedAt: Date,
       utrSubmittedAt: Date,
-      utrSubmissionIP: String,
-      utrSubmissionUserAgent: String,
+      utrSubmissionIP: {
+        type: String,
+        encrypted: true,
+        lookup: "metadata.utrSubmissionIPHash",
+      },
+      utrSubmissionIPHash: String,
+      utrSubmissionUserAgent: { type: String, encrypted: true },
+      utrSubmissionDeviceId: { type: String, hashed: true },
       utrRemovedAt: Date,
       utrRemovedReason: String,
       expiredAt: Date,
       expiredBy: String,
+      failureReason: String,
       adminNotes: String,
       lastUpdatedBy: String,
       lastUpdatedAt: Date,
@@ -159,6 +414,9 @@ const OrderSchema = new Schema<IOrder>(
   },
   {
     timestamps: true,
+    // Every save checks and bumps __v, so concurrent updates to the same
+    // order fail with a VersionError instead of overwriting each other
+    optimisticConcurrency: true,
   }
 );
 
@@ -168,22 +426,48 @@ OrderSchema.index({ createdBy: 1 });
 OrderSchema.index({ expiresAt: 1 });
 OrderSchema.index({ status: 1 });
 OrderSchema.index({ createdAt: -1 });
+OrderSchema.index({ amount: 1 });
 
 // Compound indexes for common queries
 OrderSchema.index({ createdBy: 1, status: 1 });
 OrderSchema.index({ createdBy: 1, createdAt: -1 });
+OrderSchema.index({ utrHash: 1 }, { sparse: true });
+OrderSchema.index({
+  "metadata.utrSubmissionIPHash": 1,
+  "metadata.utrSubmittedAt": -1,
+});
+OrderSchema.index(
+  { "metadata.utrSubmissionDeviceId": 1, "metadata.utrSubmittedAt": -1 },
+  { sparse: true }
+);
+OrderSchema.index({ "payerDetails.phoneHash": 1 }, { sparse: true });
+OrderSchema.index({ "payerDetails.emailHash": 1 }, { sparse: true });
+OrderSchema.index({ "metadata.customerIPHash": 1 }, { sparse: true });
 
 // Instance methods
 OrderSchema.methods.isExpired = function (): boolean {
   return new Date() > this.expiresAt;
 };
 
+// Status checks defer to the order state machine
 OrderSchema.methods.canSubmitUTR = function (): boolean {
-  return this.status === "pending" && !this.isExpired();
+  return canTransitionOrder(this, "pending-verification", "customer");
 };
 
 OrderSchema.methods.canUpdateStatus = function (): boolean {
-  return this.status === "pending-verification";
+  return canTransitionOrder(this, "completed", "admin");
+};
+
+OrderSchema.methods.canRefund = function (): boolean {
+  return (
+    (this.status === "completed" || this.status === "partially-refunded") &&
+    (this.refundedAmount || 0) < this.amount
+  );
+};
+
+// Payer details must be captured before the customer is shown UPI options
+OrderSchema.methods.needsPayerDetails = function (): boolean {
+  return hasPayerFields(this.payerFields) && !this.payerDetails?.submittedAt;
 };
 
 // Static methods
@@ -216,6 +500,9 @@ OrderSchema.pre("save", function (next) {
   next();
 });
 
+// Encrypt payer details and client metadata at rest
+OrderSchema.plugin(protectedFieldsPlugin);
+
 // Create and export the model
 const Order = (mongoose.models.Order ||
   mongoose.model<IOrder, IOrderModel>("Order", OrderSchema)) as IOrderModel;
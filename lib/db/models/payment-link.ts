@@ -0,0 +1,222 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+import { z } from "zod";
+import { PayerFields, PayerFieldsSchema } from "../../utils/payer-details";
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,48}[a-z0-9]$/;
+
+// Zod validation schemas
+export const PaymentLinkAmountType = z.enum(["fixed", "open"]);
+
+export const CreatePaymentLinkSchema = z
+  .object({
+    slug: z
+      .string()
+      .regex(
+        SLUG_PATTERN,
+        "Slug must be 3-50 lowercase letters, numbers or hyphens"
+      ),
+    title: z.string().min(1).max(100),
+    description: z.string().max(500).optional(),
+    merchantName: z.string().min(1).max(100),
+    vpa: z.string().regex(/^[\w.-]+@[\w.-]+$/, "Invalid UPI ID format"),
+    amountType: PaymentLinkAmountType,
+    amount: z.number().min(1).max(100000).optional(),
+    minAmount: z.number().min(1).max(100000).optional(),
+    maxAmount: z.number().min(1).max(100000).optional(),
+    usageLimit: z.number().int().min(1).optional(),
+    expiresAt: z.coerce.date().optional(),
+    payerFields: PayerFieldsSchema.optional(),
+    createdBy: z.string().min(1),
+  })
+  .refine((data) => data.amountType !== "fixed" || data.amount !== undefined, {
+    message: "Fixed amount links require an amount",
+    path: ["amount"],
+  })
+  .refine(
+    (data) =>
+      data.minAmount === undefined ||
+      data.maxAmount === undefined ||
+      data.minAmount <= data.maxAmount,
+    {
+      message: "Minimum amount cannot exceed maximum amount",
+      path: ["minAmount"],
+    }
+  )
+  .refine((data) => !data.expiresAt || data.expiresAt > new Date(), {
+    message: "Expiry date must be in the future",
+    path: ["expiresAt"],
+  });
+
+// TypeScript interfaces
+export interface IPaymentLink extends Document {
+  slug: string;
+  title: string;
+  description?: string;
+  merchantName: string;
+  vpa: string;
+  amountType: "fixed" | "open";
+  amount?: number;
+  minAmount: number;
+  maxAmount: number;
+  usageLimit?: number;
+  usageCount: number;
+  expiresAt?: Date;
+  payerFields?: PayerFields;
+  active: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Instance methods
+  isExpired(): boolean;
+  isUsable(): boolean;
+  isAmountAllowed(amount: number): boolean;
+}
+
+// Static methods interface
+export interface IPaymentLinkModel extends Model<IPaymentLink> {
+  findBySlug(slug: string): Promise<IPaymentLink | null>;
+  findByCreatedBy(createdBy: string): Promise<IPaymentLink[]>;
+}
+
+// Mongoose schema
+const PaymentLinkSchema = new Schema<IPaymentLink>(
+  {
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      validate: {
+        validator: (v: string) => SLUG_PATTERN.test(v),
+        message: "Invalid payment link slug",
+      },
+    },
+    title: {
+      type: String,
+      required: true,
+      maxlength: 100,
+    },
+    description: {
+      type: String,
+      maxlength: 500,
+    },
+    merchantName: {
+      type: String,
+      required: true,
+      maxlength: 100,
+    },
+    vpa: {
+      type: String,
+      required: true,
+      validate: {
+        validator: (v: string) => /^[\w.-]+@[\w.-]+$/.test(v),
+        message: "Invalid UPI ID format",
+      },
+    },
+    amountType: {
+      type: String,
+      enum: ["fixed", "open"],
+      required: true,
+    },
+    amount: {
+      type: Number,
+      min: 1,
+      max: 100000,
+    },
+    minAmount: {
+      type: Number,
+      min: 1,
+      max: 100000,
+      default: 1,
+    },
+    maxAmount: {
+      type: Number,
+      min: 1,
+      max: 100000,
+      default: 100000,
+    },
+    usageLimit: {
+      type: Number,
+      min: 1,
+    },
+    usageCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    expiresAt: Date,
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    payerFields: {
+      name: Boolean,
+      phone: Boolean,
+      email: Boolean,
+      customFields: {
+        type: [
+          {
+            _id: false,
+            label: { type: String, required: true, maxlength: 50 },
+            required: { type: Boolean, default: true },
+          },
+        ],
+        default: undefined,
+      },
+    },
+    createdBy: {
+      type: String,
+      required: true,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Compound indexes for common queries
+PaymentLinkSchema.index({ createdBy: 1, createdAt: -1 });
+
+// Instance methods
+PaymentLinkSchema.methods.isExpired = function (): boolean {
+  return !!this.expiresAt && new Date() > this.expiresAt;
+};
+
+PaymentLinkSchema.methods.isUsable = function (): boolean {
+  return (
+    this.active &&
+    !this.isExpired() &&
+    (this.usageLimit === undefined ||
+      this.usageLimit === null ||
+      this.usageCount < this.usageLimit)
+  );
+};
+
+PaymentLinkSchema.methods.isAmountAllowed = function (
+  amount: number
+): boolean {
+  if (this.amountType === "fixed") {
+    return amount === this.amount;
+  }
+
+  return amount >= this.minAmount && amount <= this.maxAmount;
+};
+
+// Static methods
+PaymentLinkSchema.statics.findBySlug = function (slug: string) {
+  return this.findOne({ slug: slug.toLowerCase() });
+};
+
+PaymentLinkSchema.statics.findByCreatedBy = function (createdBy: string) {
+  return this.find({ createdBy }).sort({ createdAt: -1 });
+};
+
+// Create and export the model
+const PaymentLink = (mongoose.models.PaymentLink ||
+  mongoose.model<IPaymentLink, IPaymentLinkModel>(
+    "PaymentLink",
+    PaymentLinkSchema
+  )) as IPaymentLinkModel;
+
+export default PaymentLink;
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+import type { RateLimitState } from "../../utils/rate-limiter";
+
+// TypeScript interfaces
+export interface IRateLimitCounter extends Document {
+  // Policy name and caller, e.g. "general:ip:203.0.113.7"
+  key: string;
+  state: RateLimitState;
+  // Bumped on every write so concurrent instances can compare-and-set
+  version: number;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Static methods interface
+export interface IRateLimitCounterModel extends Model<IRateLimitCounter> {
+  findLive(key: string): Promise<IRateLimitCounter | null>;
+}
+
+// Mongoose schema
+const RateLimitCounterSchema = new Schema<IRateLimitCounter>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    state: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// TTL index for automatic cleanup
+RateLimitCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Static methods
+// The TTL monitor runs periodically, so expiry is also checked on read
+RateLimitCounterSchema.statics.findLive = function (key: string) {
+  return this.findOne({ key, expiresAt: { $gt: new Date() } }).lean();
+};
+
+// Create and export the model
+const RateLimitCounter = (mongoose.models.RateLimitCounter ||
+  mongoose.model<IRateLimitCounter, IRateLimitCounterModel>(
+    "RateLimitCounter",
+    RateLimitCounterSchema
+  )) as IRateLimitCounterModel;
+
+export default RateLimitCounter;
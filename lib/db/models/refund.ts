@@ -0,0 +1,132 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+import { z } from "zod";
+
+// Zod validation schemas
+export const RefundStatus = z.enum(["requested", "processed", "rejected"]);
+
+export const CreateRefundSchema = z.object({
+  orderId: z.string().min(1),
+  amount: z.number().positive().max(100000),
+  reason: z.string().min(1).max(500),
+  requestedBy: z.string().min(1),
+});
+
+export const ProcessRefundSchema = z.object({
+  refundUtr: z
+    .string()
+    .regex(/^[A-Za-z0-9]{12}$/, "Refund UTR must be 12-digit alphanumeric"),
+});
+
+export const RejectRefundSchema = z.object({
+  rejectionReason: z.string().min(1).max(500),
+});
+
+// TypeScript interfaces
+export interface IRefund extends Document {
+  refundId: string;
+  orderId: string;
+  amount: number;
+  reason: string;
+  status: "requested" | "processed" | "rejected";
+  refundUtr?: string;
+  rejectionReason?: string;
+  requestedBy: string;
+  processedBy?: string;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Static methods interface
+export interface IRefundModel extends Model<IRefund> {
+  findByRefundId(refundId: string): Promise<IRefund | null>;
+  findByOrderId(orderId: string): Promise<IRefund[]>;
+  getCommittedAmount(orderId: string): Promise<number>;
+}
+
+// Mongoose schema
+const RefundSchema = new Schema<IRefund>(
+  {
+    refundId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    orderId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0.01,
+      max: 100000,
+    },
+    reason: {
+      type: String,
+      required: true,
+      maxlength: 500,
+    },
+    status: {
+      type: String,
+      enum: ["requested", "processed", "rejected"],
+      default: "requested",
+      index: true,
+    },
+    refundUtr: {
+      type: String,
+      validate: {
+        validator: function (v: string) {
+          return !v || /^[A-Za-z0-9]{12}$/.test(v);
+        },
+        message: "Refund UTR must be 12-digit alphanumeric",
+      },
+    },
+    rejectionReason: {
+      type: String,
+      maxlength: 500,
+    },
+    requestedBy: {
+      type: String,
+      required: true,
+    },
+    processedBy: String,
+    processedAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Compound indexes for common queries
+RefundSchema.index({ orderId: 1, status: 1 });
+RefundSchema.index({ status: 1, createdAt: -1 });
+
+// Static methods
+RefundSchema.statics.findByRefundId = function (refundId: string) {
+  return this.findOne({ refundId });
+};
+
+RefundSchema.statics.findByOrderId = function (orderId: string) {
+  return this.find({ orderId }).sort({ createdAt: -1 });
+};
+
+// Amount already refunded or awaiting settlement for an order
+RefundSchema.statics.getCommittedAmount = async function (
+  orderId: string
+): Promise<number> {
+  const [result] = await this.aggregate([
+    { $match: { orderId, status: { $in: ["requested", "processed"] } } },
+    { $group: { _id: null, total: { $sum: "$amount" } } },
+  ]);
+
+  return result?.total || 0;
+};
+
+// Create and export the model
+const Refund = (mongoose.models.Refund ||
+  mongoose.model<IRefund, IRefundModel>("Refund", RefundSchema)) as IRefundModel;
+
+export default Refund;
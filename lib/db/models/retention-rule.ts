@@ -0,0 +1,154 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+import { z } from "zod";
+import { OrderStatus } from "./order";
+import { AuditActionSchema } from "./audit-log";
+import {
+  RETENTION_ENTITIES,
+  RETENTION_MODES,
+  RetentionEntity,
+  RetentionMode,
+} from "../../utils/retention";
+
+// Zod validation schemas
+const RetentionCriteriaFields = z.object({
+  entity: z.enum(RETENTION_ENTITIES),
+  statuses: z.array(OrderStatus).default([]),
+  actions: z.array(AuditActionSchema).default([]),
+  olderThanDays: z.number().int().min(1).max(3650),
+  mode: z.enum(RETENTION_MODES),
+});
+
+// Statuses and actions only narrow the entity they belong to
+const checkRetentionScope = (
+  rule: z.infer<typeof RetentionCriteriaFields>,
+  ctx: z.RefinementCtx
+) => {
+  if (rule.entity !== "orders" && rule.statuses.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Statuses only apply to order rules",
+      path: ["statuses"],
+    });
+  }
+  if (rule.entity !== "auditLogs" && rule.actions.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Actions only apply to audit log rules",
+      path: ["actions"],
+    });
+  }
+};
+
+// What a rule matches and does; enough for a dry run
+export const RetentionCriteriaSchema =
+  RetentionCriteriaFields.superRefine(checkRetentionScope);
+
+export const RetentionRuleSchema = RetentionCriteriaFields.extend({
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean().default(true),
+}).superRefine(checkRetentionScope);
+
+// TypeScript interfaces
+export interface IRetentionRunResult {
+  ranAt: Date;
+  // Admin's user ID, or "system" for the scheduled job
+  ranBy: string;
+  affected: number;
+}
+
+export interface IRetentionRule extends Document {
+  name: string;
+  entity: RetentionEntity;
+  statuses: string[];
+  actions: string[];
+  olderThanDays: number;
+  mode: RetentionMode;
+  enabled: boolean;
+  createdBy: string;
+  updatedBy: string;
+  lastRun?: IRetentionRunResult;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Static methods interface
+export interface IRetentionRuleModel extends Model<IRetentionRule> {
+  findEnabled(): Promise<IRetentionRule[]>;
+}
+
+const RetentionRunResultSchema = new Schema<IRetentionRunResult>(
+  {
+    ranAt: { type: Date, required: true },
+    ranBy: { type: String, required: true },
+    affected: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+// Mongoose schema
+const RetentionRuleSchema_Mongoose = new Schema<IRetentionRule>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    entity: {
+      type: String,
+      enum: RETENTION_ENTITIES,
+      required: true,
+    },
+    statuses: {
+      type: [String],
+      default: [],
+    },
+    actions: {
+      type: [String],
+      default: [],
+    },
+    olderThanDays: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 3650,
+    },
+    mode: {
+      type: String,
+      enum: RETENTION_MODES,
+      required: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+    },
+    updatedBy: {
+      type: String,
+      required: true,
+    },
+    lastRun: RetentionRunResultSchema,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+RetentionRuleSchema_Mongoose.index({ enabled: 1, entity: 1 });
+
+// Static methods
+RetentionRuleSchema_Mongoose.statics.findEnabled = function () {
+  return this.find({ enabled: true }).sort({ createdAt: 1 });
+};
+
+// Create and export the model
+const RetentionRule = (mongoose.models.RetentionRule ||
+  mongoose.model<IRetentionRule, IRetentionRuleModel>(
+    "RetentionRule",
+    RetentionRuleSchema_Mongoose
+  )) as IRetentionRuleModel;
+
+export default RetentionRule;
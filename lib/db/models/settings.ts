@@ -1,5 +1,13 @@
 import mongoose, { Schema, Document, Model } from "mongoose";
 import { z } from "zod";
+import {
+  DEFAULT_RATE_LIMIT_POLICIES,
+  RATE_LIMIT_ALGORITHMS,
+  RATE_LIMIT_KEYS,
+  RATE_LIMIT_POLICY_NAMES,
+  RateLimitPolicies,
+  RateLimitPolicy,
+} from "../../utils/rate-limit-policies";
 
 // Zod validation schemas
 export const UpiAppsSchema = z.object({
@@ -9,6 +17,25 @@ export const UpiAppsSchema = z.object({
   bhim: z.boolean().default(true),
 });
 
+export const RateLimitPolicySchema = z.object({
+  algorithm: z.enum(RATE_LIMIT_ALGORITHMS),
+  limit: z.number().int().min(1).max(10000),
+  windowSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(24 * 60 * 60),
+  keyBy: z.enum(RATE_LIMIT_KEYS),
+});
+
+export const RateLimitPoliciesSchema = z.object({
+  general: RateLimitPolicySchema,
+  orderCreation: RateLimitPolicySchema,
+  utrSubmission: RateLimitPolicySchema,
+  admin: RateLimitPolicySchema,
+  auth: RateLimitPolicySchema,
+});
+
 export const SystemSettingsSchema = z.object({
   timerDuration: z.number().min(1).max(60).default(9), // 1-60 minutes
   staticUpiId: z
@@ -16,6 +43,11 @@ export const SystemSettingsSchema = z.object({
     .regex(/^[\w.-]+@[\w.-]+$/)
     .optional(),
   enabledUpiApps: UpiAppsSchema,
+  // Serve /pay/<orderId> links that were shared before URLs were signed
+  allowLegacyPaymentUrls: z.boolean().default(false),
+  rateLimitPolicies: RateLimitPoliciesSchema.default(
+    DEFAULT_RATE_LIMIT_POLICIES
+  ),
   updatedBy: z.string().min(1),
 });
 
@@ -31,6 +63,8 @@ export interface ISystemSettings extends Document {
   timerDuration: number;
   staticUpiId?: string;
   enabledUpiApps: IUpiApps;
+  allowLegacyPaymentUrls: boolean;
+  rateLimitPolicies: RateLimitPolicies;
   updatedBy: string;
   updatedAt: Date;
   createdAt: Date;
@@ -72,6 +106,48 @@ const UpiAppsSchema_Mongoose = new Schema<IUpiApps>(
   { _id: false }
 );
 
+const RateLimitPolicySchema_Mongoose = new Schema<RateLimitPolicy>(
+  {
+    algorithm: {
+      type: String,
+      enum: RATE_LIMIT_ALGORITHMS,
+      required: true,
+    },
+    limit: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 10000,
+    },
+    windowSeconds: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 24 * 60 * 60,
+    },
+    keyBy: {
+      type: String,
+      enum: RATE_LIMIT_KEYS,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+// One entry per named policy, each defaulting to the built-in limits
+const RateLimitPoliciesSchema_Mongoose = new Schema<RateLimitPolicies>(
+  Object.fromEntries(
+    RATE_LIMIT_POLICY_NAMES.map((name) => [
+      name,
+      {
+        type: RateLimitPolicySchema_Mongoose,
+        default: () => ({ ...DEFAULT_RATE_LIMIT_POLICIES[name] }),
+      },
+    ])
+  ),
+  { _id: false }
+);
+
 const SystemSettingsSchema_Mongoose = new Schema<ISystemSettings>(
   {
     timerDuration: {
@@ -99,6 +175,14 @@ const SystemSettingsSchema_Mongoose = new Schema<ISystemSettings>(
         bhim: true,
       }),
     },
+    allowLegacyPaymentUrls: {
+      type: Boolean,
+      default: false,
+    },
+    rateLimitPolicies: {
+      type: RateLimitPoliciesSchema_Mongoose,
+      default: () => ({}),
+    },
     updatedBy: {
       type: String,
       required: true,
@@ -0,0 +1,128 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+
+// Sessions idle for longer than this are signed out
+export const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+// Signing in on another device past this ends the least recently used session
+export const MAX_SESSIONS_PER_USER = 5;
+// Ended sessions are kept this long so they show up in audits
+const SESSION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type SessionEndReason =
+  "signed_out" | "revoked" | "idle_timeout" | "session_limit";
+
+// TypeScript interfaces
+export interface IUserSession extends Document {
+  // Clerk session ID
+  sessionId: string;
+  userId: string;
+  role: string;
+  ipAddress: string;
+  userAgent: string;
+  // Readable summary of the user agent, e.g. "Chrome on Windows"
+  device: string;
+  lastActivityAt: Date;
+  revokedAt?: Date;
+  // User ID of whoever ended the session, or "system"
+  revokedBy?: string;
+  revokeReason?: SessionEndReason;
+  createdAt: Date;
+  updatedAt: Date;
+  // Instance methods
+  isActive(now?: Date): boolean;
+  isIdle(now?: Date): boolean;
+}
+
+// Static methods interface
+export interface IUserSessionModel extends Model<IUserSession> {
+  findBySessionId(sessionId: string): Promise<IUserSession | null>;
+  findActiveForUser(userId: string): Promise<IUserSession[]>;
+}
+
+// Mongoose schema
+const UserSessionSchema = new Schema<IUserSession>(
+  {
+    sessionId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    role: {
+      type: String,
+      required: true,
+    },
+    ipAddress: {
+      type: String,
+      default: "unknown",
+    },
+    userAgent: {
+      type: String,
+      default: "unknown",
+    },
+    device: {
+      type: String,
+      default: "Unknown device",
+    },
+    lastActivityAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    revokedAt: Date,
+    revokedBy: String,
+    revokeReason: {
+      type: String,
+      enum: ["signed_out", "revoked", "idle_timeout", "session_limit"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+UserSessionSchema.index({ userId: 1, revokedAt: 1, lastActivityAt: -1 });
+
+// TTL index for automatic cleanup
+UserSessionSchema.index(
+  { lastActivityAt: 1 },
+  { expireAfterSeconds: SESSION_RETENTION_MS / 1000 }
+);
+
+// Instance methods
+UserSessionSchema.methods.isIdle = function (now: Date = new Date()): boolean {
+  return (
+    now.getTime() - this.lastActivityAt.getTime() > SESSION_IDLE_TIMEOUT_MS
+  );
+};
+
+UserSessionSchema.methods.isActive = function (
+  now: Date = new Date()
+): boolean {
+  return !this.revokedAt && !this.isIdle(now);
+};
+
+// Static methods
+UserSessionSchema.statics.findBySessionId = function (sessionId: string) {
+  return this.findOne({ sessionId });
+};
+
+UserSessionSchema.statics.findActiveForUser = function (userId: string) {
+  return this.find({
+    userId,
+    revokedAt: { $exists: false },
+    lastActivityAt: { $gt: new Date(Date.now() - SESSION_IDLE_TIMEOUT_MS) },
+  }).sort({ lastActivityAt: -1 });
+};
+
+// Create and export the model
+const UserSession = (mongoose.models.UserSession ||
+  mongoose.model<IUserSession, IUserSessionModel>(
+    "UserSession",
+    UserSessionSchema
+  )) as IUserSessionModel;
+
+export default UserSession;
@@ -0,0 +1,141 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import type { WebhookEvent } from "./webhook-endpoint";
+
+// TypeScript interfaces
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface IWebhookAttempt {
+  attemptedAt: Date;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface IWebhookDelivery extends Document {
+  deliveryId: string;
+  endpointId: Types.ObjectId;
+  event: WebhookEvent;
+  orderId?: string;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: IWebhookAttempt[];
+  responseStatus?: number;
+  responseBody?: string;
+  lastError?: string;
+  deliveredAt?: Date;
+  redeliveryOf?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Static methods interface
+export interface IWebhookDeliveryModel extends Model<IWebhookDelivery> {
+  findByDeliveryId(deliveryId: string): Promise<IWebhookDelivery | null>;
+  getEndpointDeliveries(
+    endpointId: string,
+    limit?: number
+  ): Promise<IWebhookDelivery[]>;
+}
+
+// Mongoose schema
+const WebhookAttemptSchema = new Schema<IWebhookAttempt>(
+  {
+    attemptedAt: {
+      type: Date,
+      required: true,
+    },
+    responseStatus: Number,
+    error: String,
+    durationMs: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const WebhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    deliveryId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    endpointId: {
+      type: Schema.Types.ObjectId,
+      ref: "WebhookEndpoint",
+      required: true,
+      index: true,
+    },
+    event: {
+      type: String,
+      required: true,
+    },
+    orderId: {
+      type: String,
+      index: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "delivered", "failed"],
+      default: "pending",
+      index: true,
+    },
+    attempts: {
+      type: [WebhookAttemptSchema],
+      default: [],
+    },
+    responseStatus: Number,
+    responseBody: String,
+    lastError: String,
+    deliveredAt: Date,
+    redeliveryOf: String,
+    createdBy: {
+      type: String,
+      required: true,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Compound indexes for common queries
+WebhookDeliverySchema.index({ endpointId: 1, createdAt: -1 });
+WebhookDeliverySchema.index({ createdBy: 1, status: 1 });
+
+// Static methods
+WebhookDeliverySchema.statics.findByDeliveryId = function (
+  deliveryId: string
+) {
+  return this.findOne({ deliveryId });
+};
+
+WebhookDeliverySchema.statics.getEndpointDeliveries = function (
+  endpointId: string,
+  limit: number = 50
+) {
+  return this.find({ endpointId }).sort({ createdAt: -1 }).limit(limit);
+};
+
+// TTL index for automatic cleanup (keep delivery log for 90 days)
+WebhookDeliverySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: 90 * 24 * 60 * 60 }
+);
+
+// Create and export the model
+const WebhookDelivery = (mongoose.models.WebhookDelivery ||
+  mongoose.model<IWebhookDelivery, IWebhookDeliveryModel>(
+    "WebhookDelivery",
+    WebhookDeliverySchema
+  )) as IWebhookDeliveryModel;
+
+export default WebhookDelivery;
@@ -0,0 +1,132 @@
+import mongoose, { Schema, Document, Model } from "mongoose";
+import { z } from "zod";
+import { protectedFieldsPlugin } from "../plugins/protected-fields";
+
+// Zod validation schemas
+export const WebhookEventSchema = z.enum([
+  "order.created",
+  "order.utr_submitted",
+  "order.completed",
+  "order.expired",
+  "order.failed",
+]);
+
+export const CreateWebhookEndpointSchema = z.object({
+  url: z
+    .string()
+    .url("Invalid webhook URL")
+    .refine(
+      (url) =>
+        url.startsWith("https://") || process.env.NODE_ENV !== "production",
+      "Webhook URL must use HTTPS"
+    ),
+  secret: z.string().min(16).max(128).optional(),
+  events: z.array(WebhookEventSchema).min(1).default([
+    "order.created",
+    "order.utr_submitted",
+    "order.completed",
+    "order.expired",
+    "order.failed",
+  ]),
+  description: z.string().max(200).optional(),
+  createdBy: z.string().min(1),
+});
+
+// TypeScript interfaces
+export type WebhookEvent = z.infer<typeof WebhookEventSchema>;
+
+export interface IWebhookEndpoint extends Document {
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  description?: string;
+  active: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Instance methods
+  isSubscribedTo(event: WebhookEvent): boolean;
+}
+
+// Static methods interface
+export interface IWebhookEndpointModel extends Model<IWebhookEndpoint> {
+  findActiveForEvent(
+    createdBy: string,
+    event: WebhookEvent
+  ): Promise<IWebhookEndpoint[]>;
+}
+
+// Mongoose schema
+const WebhookEndpointSchema = new Schema<IWebhookEndpoint>(
+  {
+    url: {
+      type: String,
+      required: true,
+    },
+    secret: {
+      type: String,
+      required: true,
+      select: false,
+      encrypted: true,
+    },
+    events: {
+      type: [String],
+      enum: [
+        "order.created",
+        "order.utr_submitted",
+        "order.completed",
+        "order.expired",
+        "order.failed",
+      ],
+      required: true,
+    },
+    description: {
+      type: String,
+      maxlength: 200,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Compound indexes for common queries
+WebhookEndpointSchema.index({ createdBy: 1, active: 1 });
+
+// Instance methods
+WebhookEndpointSchema.methods.isSubscribedTo = function (
+  event: WebhookEvent
+): boolean {
+  return this.active && this.events.includes(event);
+};
+
+// Static methods
+WebhookEndpointSchema.statics.findActiveForEvent = function (
+  createdBy: string,
+  event: WebhookEvent
+) {
+  return this.find({ createdBy, active: true, events: event }).select(
+    "+secret"
+  );
+};
+
+// Secrets are stored encrypted
+WebhookEndpointSchema.plugin(protectedFieldsPlugin);
+
+// Create and export the model
+const WebhookEndpoint = (mongoose.models.WebhookEndpoint ||
+  mongoose.model<IWebhookEndpoint, IWebhookEndpointModel>(
+    "WebhookEndpoint",
+    WebhookEndpointSchema
+  )) as IWebhookEndpointModel;
+
+export default WebhookEndpoint;
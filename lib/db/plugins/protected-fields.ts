@@ -0,0 +1,225 @@
+import { Schema } from "mongoose";
+import {
+  decryptValue,
+  encryptValue,
+  hashForLookup,
+  isEncryptedValue,
+  isLookupHash,
+  maskValue,
+} from "../../utils/encryption";
+
+/**
+ * Protected Fields
+ * Schema paths can be marked so their values never reach the database in
+ * plain text:
+ *
+ *   phone: { type: String, encrypted: true }
+ *   ip: { type: String, encrypted: true, lookup: "ipHash" }
+ *   deviceId: { type: String, hashed: true }
+ *
+ * Encrypted paths are encrypted when set and decrypted when read through the
+ * document. `lookup` names a sibling path kept filled with a keyed hash of
+ * the value so it can still be queried with hashForLookup(). Hashed paths
+ * only ever store the hash; filters on them are hashed by Mongoose too.
+ *
+ * Lean queries and toObject()/toJSON() return stored values; pass them
+ * through redactProtectedFields before they leave the server.
+ */
+
+export interface ProtectedPath {
+  // Dotted path; paths inside arrays of subdocuments contain "$"
+  path: string;
+  kind: "encrypted" | "hashed";
+  lookup?: string;
+}
+
+const PROTECTED_PATHS = Symbol("protectedPaths");
+
+type ProtectedSchema = Schema & { [PROTECTED_PATHS]?: ProtectedPath[] };
+
+const collectProtectedPaths = (
+  schema: Schema,
+  prefix = ""
+): ProtectedPath[] => {
+  const paths: ProtectedPath[] = [];
+
+  schema.eachPath((path, schemaType) => {
+    const options = schemaType.options as {
+      encrypted?: boolean;
+      hashed?: boolean;
+      lookup?: string;
+    };
+
+    if (options.encrypted) {
+      paths.push({
+        path: `${prefix}${path}`,
+        kind: "encrypted",
+        lookup: options.lookup,
+      });
+    } else if (options.hashed) {
+      paths.push({ path: `${prefix}${path}`, kind: "hashed" });
+    }
+
+    const subschema = (schemaType as { schema?: Schema }).schema;
+    if (subschema) {
+      const isArray = schemaType.instance === "Array";
+      paths.push(
+        ...collectProtectedPaths(
+          subschema,
+          `${prefix}${path}.${isArray ? "$." : ""}`
+        )
+      );
+    }
+  });
+
+  return paths;
+};
+
+/**
+ * Paths marked encrypted or hashed, including those in subdocuments
+ */
+export function getProtectedPaths(schema: Schema): ProtectedPath[] {
+  const protectedSchema = schema as ProtectedSchema;
+  if (!protectedSchema[PROTECTED_PATHS]) {
+    protectedSchema[PROTECTED_PATHS] = collectProtectedPaths(schema);
+  }
+  return protectedSchema[PROTECTED_PATHS];
+}
+
+// Values already in stored form are left alone, so re-assigning a stored
+// value (or running a filter through the setter) never double-encrypts
+const encryptSetter = (value: unknown) =>
+  typeof value === "string" && value && !isEncryptedValue(value)
+    ? encryptValue(value)
+    : value;
+
+const decryptGetter = (value: unknown) => {
+  if (typeof value !== "string" || !isEncryptedValue(value)) {
+    return value;
+  }
+
+  try {
+    return decryptValue(value);
+  } catch (error) {
+    console.error("Failed to decrypt protected field:", error);
+    return undefined;
+  }
+};
+
+const hashSetter = (value: unknown) =>
+  typeof value === "string" && value && !isLookupHash(value)
+    ? hashForLookup(value)
+    : value;
+
+const attachAccessors = (schema: Schema) => {
+  schema.eachPath((_path, schemaType) => {
+    const options = schemaType.options as {
+      encrypted?: boolean;
+      hashed?: boolean;
+    };
+
+    if (options.encrypted) {
+      schemaType.set(encryptSetter);
+      schemaType.get(decryptGetter);
+    } else if (options.hashed) {
+      schemaType.set(hashSetter);
+    }
+
+    const subschema = (schemaType as { schema?: Schema }).schema;
+    if (subschema) {
+      attachAccessors(subschema);
+    }
+  });
+};
+
+/**
+ * Mongoose plugin applying the `encrypted`, `lookup` and `hashed` options
+ */
+export function protectedFieldsPlugin(schema: Schema): void {
+  attachAccessors(schema);
+
+  const lookups = getProtectedPaths(schema).filter(
+    (protectedPath) => protectedPath.lookup && !protectedPath.path.includes("$")
+  );
+
+  schema.pre("validate", function () {
+    for (const { path, lookup } of lookups) {
+      if (this.isModified(path)) {
+        const value = this.get(path) as string | undefined;
+        this.set(lookup!, value ? hashForLookup(value) : undefined);
+      }
+    }
+  });
+}
+
+const updateAtPath = (
+  target: any,
+  segments: string[],
+  transform: (value: any) => any
+): void => {
+  if (!target || typeof target !== "object") return;
+
+  const [segment, ...rest] = segments;
+  if (segment === "$") {
+    if (Array.isArray(target)) {
+      target.forEach((item) => updateAtPath(item, rest, transform));
+    }
+    return;
+  }
+
+  if (rest.length === 0) {
+    if (target[segment] !== undefined && target[segment] !== null) {
+      const value = transform(target[segment]);
+      if (value === undefined) {
+        delete target[segment];
+      } else {
+        target[segment] = value;
+      }
+    }
+    return;
+  }
+
+  updateAtPath(target[segment], rest, transform);
+};
+
+/**
+ * Apply `transform` to every value at a protected path, walking into arrays.
+ * Returning undefined removes the value.
+ */
+export function mapPathValues(
+  record: unknown,
+  path: string,
+  transform: (value: any) => any
+): void {
+  updateAtPath(record, path.split("."), transform);
+}
+
+/**
+ * Turn stored values in a plain object (a lean result or toObject()) into
+ * what a viewer may see: plaintext when `reveal` is set, masked otherwise.
+ * Hashes are dropped either way. The object is modified in place.
+ */
+export function redactProtectedFields<T>(
+  schema: Schema,
+  record: T,
+  options: { reveal: boolean }
+): T {
+  for (const { path, kind, lookup } of getProtectedPaths(schema)) {
+    if (kind === "hashed") {
+      mapPathValues(record, path, () => undefined);
+      continue;
+    }
+
+    mapPathValues(record, path, (stored) => {
+      const value = decryptGetter(stored) as string | undefined;
+      if (value === undefined) return "****";
+      return options.reveal ? value : maskValue(value);
+    });
+
+    if (lookup) {
+      mapPathValues(record, lookup, () => undefined);
+    }
+  }
+
+  return record;
+}
@@ -0,0 +1,137 @@
+import connectDB from "../connection";
+import ApiKey, {
+  IApiKey,
+  CreateApiKeySchema,
+  MAX_ACTIVE_API_KEYS,
+} from "../models/api-key";
+import AuditLog from "../models/audit-log";
+import {
+  generateApiKey,
+  hashApiKey,
+  isApiKeyFormat,
+} from "../../utils/api-keys";
+import { z } from "zod";
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+// Public representation of a key (never includes the hash or the key itself)
+export const serializeApiKey = (apiKey: IApiKey) => ({
+  id: String(apiKey._id),
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  lastUsedAt: apiKey.lastUsedAt,
+  expiresAt: apiKey.expiresAt,
+  revokedAt: apiKey.revokedAt,
+  createdAt: apiKey.createdAt,
+});
+
+// Mint a key for a merchant; the plain key is returned only here
+export const createApiKey = async (
+  keyData: z.input<typeof CreateApiKeySchema>,
+  options: {
+    ipAddress?: string;
+    userAgent?: string;
+  } = {}
+): Promise<{ apiKey: IApiKey; key: string }> => {
+  await ensureConnection();
+
+  const validatedData = CreateApiKeySchema.parse(keyData);
+
+  const activeCount = await ApiKey.countActiveForUser(validatedData.createdBy);
+  if (activeCount >= MAX_ACTIVE_API_KEYS) {
+    throw new Error(
+      `You can have at most ${MAX_ACTIVE_API_KEYS} active API keys`
+    );
+  }
+
+  const { key, prefix, keyHash } = generateApiKey();
+  const apiKey = await ApiKey.create({ ...validatedData, prefix, keyHash });
+
+  await AuditLog.logAction("api_key_created", "auth", validatedData.createdBy, {
+    entityId: String(apiKey._id),
+    details: {
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt,
+    },
+    ipAddress: options.ipAddress,
+    userAgent: options.userAgent,
+  });
+
+  return { apiKey, key };
+};
+
+// Get a merchant's keys, newest first
+export const getApiKeysByUser = async (
+  createdBy: string
+): Promise<IApiKey[]> => {
+  await ensureConnection();
+
+  return ApiKey.find({ createdBy }).sort({ createdAt: -1 });
+};
+
+// Revoke a key; it stops authenticating immediately
+export const revokeApiKey = async (
+  keyId: string,
+  createdBy: string,
+  options: {
+    ipAddress?: string;
+    userAgent?: string;
+  } = {}
+): Promise<IApiKey> => {
+  await ensureConnection();
+
+  const apiKey = await ApiKey.findOne({ _id: keyId, createdBy });
+  if (!apiKey) {
+    throw new Error("API key not found");
+  }
+
+  if (apiKey.revokedAt) {
+    throw new Error("API key is already revoked");
+  }
+
+  apiKey.revokedAt = new Date();
+  apiKey.revokedBy = createdBy;
+  await apiKey.save();
+
+  await AuditLog.logAction("api_key_revoked", "auth", createdBy, {
+    entityId: String(apiKey._id),
+    details: {
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+    },
+    ipAddress: options.ipAddress,
+    userAgent: options.userAgent,
+  });
+
+  return apiKey;
+};
+
+// Resolve a presented key to its record, recording when it was last used
+export const findUsableApiKey = async (
+  key: string
+): Promise<IApiKey | null> => {
+  if (!isApiKeyFormat(key)) {
+    return null;
+  }
+
+  await ensureConnection();
+
+  const apiKey = await ApiKey.findByHash(hashApiKey(key));
+  if (!apiKey || !apiKey.isUsable()) {
+    return null;
+  }
+
+  apiKey.lastUsedAt = new Date();
+  await ApiKey.updateOne(
+    { _id: apiKey._id },
+    { $set: { lastUsedAt: apiKey.lastUsedAt } }
+  );
+
+  return apiKey;
+};
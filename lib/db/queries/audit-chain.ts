@@ -0,0 +1,254 @@
+import connectDB from "../connection";
+import AuditLog from "../models/audit-log";
+import AuditCheckpoint, { IAuditCheckpoint } from "../models/audit-checkpoint";
+import { ConflictError } from "../../utils/api-errors";
+import {
+  AUDIT_REDACTION_ACTION,
+  AuditChainBreak,
+  AuditChainEntry,
+  AuditSigningKey,
+  checkAuditChainLink,
+  collectAuditRedactions,
+  loadAuditSigningKey,
+  signAuditCheckpoint,
+  verifyAuditCheckpointSignature,
+} from "../../utils/audit-chain";
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+const requireSigningKey = (): AuditSigningKey => {
+  const key = loadAuditSigningKey();
+  if (!key) {
+    throw new Error("AUDIT_SIGNING_KEY is not set");
+  }
+  return key;
+};
+
+// What admins see about a checkpoint
+export const serializeAuditCheckpoint = (checkpoint: IAuditCheckpoint) => ({
+  id: String(checkpoint._id),
+  sequence: checkpoint.sequence,
+  hash: checkpoint.hash,
+  entryTimestamp: checkpoint.entryTimestamp,
+  keyId: checkpoint.keyId,
+  signature: checkpoint.signature,
+  createdBy: checkpoint.createdBy,
+  createdAt: checkpoint.createdAt,
+});
+
+/**
+ * Walk the chain in sequence order from `start` (a checkpoint already
+ * trusted) or from the first entry, checking each link, each redaction and
+ * every checkpoint passed on the way. Stops at the first break. The
+ * authorizing entries are themselves checked as the walk reaches them.
+ */
+const walkAuditChain = async (
+  checkpoints: IAuditCheckpoint[],
+  signingKey: AuditSigningKey | null,
+  start?: { sequence: number; hash: string }
+) => {
+  const pinned = new Map(
+    checkpoints.map((checkpoint) => [checkpoint.sequence, checkpoint])
+  );
+  const redactions = collectAuditRedactions(
+    await AuditLog.find({
+      action: AUDIT_REDACTION_ACTION,
+      sequence: start ? { $gt: start.sequence } : { $exists: true },
+    })
+      .select({ sequence: 1, details: 1 })
+      .lean<AuditChainEntry[]>()
+  );
+  const entries = AuditLog.find({
+    sequence: start ? { $gte: start.sequence } : { $exists: true },
+  })
+    .sort({ sequence: 1 })
+    .lean<AuditChainEntry>()
+    .cursor();
+
+  let previous: AuditChainEntry | null = null;
+  let checked = 0;
+  let redacted = 0;
+  let firstBreak: AuditChainBreak | null = null;
+
+  for await (const entry of entries) {
+    if (start && !previous) {
+      // The starting entry is vouched for by its checkpoint
+      if (entry.sequence !== start.sequence || entry.hash !== start.hash) {
+        firstBreak = {
+          sequence: start.sequence,
+          entryId: String(entry._id),
+          reason: "checkpoint_mismatch",
+          message: `Entry ${start.sequence} no longer matches its checkpoint`,
+        };
+        break;
+      }
+    } else {
+      firstBreak = checkAuditChainLink(entry, previous, redactions);
+      if (firstBreak) break;
+    }
+
+    const checkpoint = pinned.get(entry.sequence);
+    if (checkpoint && checkpoint.hash !== entry.hash) {
+      firstBreak = {
+        sequence: entry.sequence,
+        entryId: String(entry._id),
+        reason: "checkpoint_mismatch",
+        message: `Entry ${entry.sequence} no longer matches its checkpoint`,
+      };
+      break;
+    }
+    if (
+      checkpoint &&
+      signingKey &&
+      checkpoint.keyId === signingKey.keyId &&
+      !verifyAuditCheckpointSignature(
+        checkpoint,
+        checkpoint.signature,
+        signingKey.publicKey
+      )
+    ) {
+      firstBreak = {
+        sequence: entry.sequence,
+        entryId: String(entry._id),
+        reason: "bad_signature",
+        message: `Checkpoint at entry ${entry.sequence} has an invalid signature`,
+      };
+      break;
+    }
+
+    if (entry.redactedDigest) redacted += 1;
+    checked += 1;
+    previous = entry;
+  }
+
+  // Entries cut from the end of the chain still show up as long as a
+  // checkpoint pinned them
+  const lastCheckpoint = checkpoints[checkpoints.length - 1];
+  if (
+    !firstBreak &&
+    lastCheckpoint &&
+    lastCheckpoint.sequence > (previous?.sequence || 0)
+  ) {
+    firstBreak = {
+      sequence: (previous?.sequence || 0) + 1,
+      reason: "missing_entry",
+      message: `Entries after ${previous?.sequence || 0} are missing; a checkpoint pins entry ${lastCheckpoint.sequence}`,
+    };
+  }
+
+  return { checked, redacted, head: previous, firstBreak };
+};
+
+/**
+ * Verify the whole chain and all checkpoints. Checkpoints signed with a key
+ * other than the current AUDIT_SIGNING_KEY are matched against the chain
+ * but their signatures can't be checked here.
+ */
+export const verifyAuditChain = async () => {
+  await ensureConnection();
+
+  const signingKey = loadAuditSigningKey();
+  const checkpoints = await AuditCheckpoint.find().sort({ sequence: 1 });
+  const [walk, unchained] = await Promise.all([
+    walkAuditChain(checkpoints, signingKey),
+    AuditLog.countDocuments({ sequence: { $exists: false } }),
+  ]);
+
+  return {
+    verified: !walk.firstBreak,
+    checkedEntries: walk.checked,
+    redactedEntries: walk.redacted,
+    // Written before the chain existed, so not covered by it
+    unchainedEntries: unchained,
+    checkpoints: checkpoints.length,
+    unverifiedCheckpoints: checkpoints.filter(
+      (checkpoint) => checkpoint.keyId !== signingKey?.keyId
+    ).length,
+    head: walk.head
+      ? { sequence: walk.head.sequence, hash: walk.head.hash }
+      : null,
+    firstBreak: walk.firstBreak,
+    verifiedAt: new Date(),
+  };
+};
+
+// Checkpoints, oldest first
+export const getAuditCheckpoints = async (): Promise<IAuditCheckpoint[]> => {
+  await ensureConnection();
+
+  return AuditCheckpoint.find().sort({ sequence: 1 });
+};
+
+/**
+ * Sign the chain's current head. The entries since the last checkpoint are
+ * verified first so a tampered chain is never signed. Returns null when
+ * nothing was logged since the last checkpoint.
+ */
+export const createAuditCheckpoint = async (
+  createdBy: string
+): Promise<IAuditCheckpoint | null> => {
+  await ensureConnection();
+
+  const signingKey = requireSigningKey();
+  const latest = await AuditCheckpoint.findLatest();
+  const walk = await walkAuditChain(
+    latest ? [latest] : [],
+    signingKey,
+    latest ? { sequence: latest.sequence, hash: latest.hash } : undefined
+  );
+
+  if (walk.firstBreak) {
+    throw new ConflictError(
+      `Audit chain is broken at entry ${walk.firstBreak.sequence}: ${walk.firstBreak.message}`,
+      walk.firstBreak
+    );
+  }
+  if (!walk.head || (latest && walk.head.sequence <= latest.sequence)) {
+    return null;
+  }
+
+  const payload = {
+    sequence: walk.head.sequence,
+    hash: walk.head.hash,
+    entryTimestamp: walk.head.timestamp,
+    createdAt: new Date(),
+    keyId: signingKey.keyId,
+  };
+
+  return AuditCheckpoint.create({
+    ...payload,
+    signature: signAuditCheckpoint(payload, signingKey.privateKey),
+    createdBy,
+  });
+};
+
+/**
+ * All checkpoints with the public key that verifies them, for keeping
+ * outside the database. `node scripts/verify-audit-chain.js --checkpoints
+ * <file>` checks the chain against such an export.
+ */
+export const exportAuditCheckpoints = async () => {
+  await ensureConnection();
+
+  const signingKey = requireSigningKey();
+  const checkpoints = await AuditCheckpoint.find().sort({ sequence: 1 });
+
+  return {
+    format: "audit-checkpoints",
+    version: 1,
+    exportedAt: new Date(),
+    keyId: signingKey.keyId,
+    publicKey: signingKey.publicKey,
+    checkpoints: checkpoints.map((checkpoint) => ({
+      sequence: checkpoint.sequence,
+      hash: checkpoint.hash,
+      entryTimestamp: checkpoint.entryTimestamp,
+      createdAt: checkpoint.createdAt,
+      keyId: checkpoint.keyId,
+      signature: checkpoint.signature,
+    })),
+  };
+};
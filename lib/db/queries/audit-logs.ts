@@ -342,18 +342,3 @@ export const logAuthEvent = async (
     userAgent: options.userAgent,
   });
 };
-
-// Cleanup old audit logs (for maintenance)
-export const cleanupOldLogs = async (
-  olderThanDays: number = 365
-): Promise<number> => {
-  await ensureConnection();
-
-  const cutoffDate = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
-
-  const result = await AuditLog.deleteMany({
-    timestamp: { $lt: cutoffDate },
-  });
-
-  return result.deletedCount || 0;
-};
@@ -0,0 +1,483 @@
+import { Model } from "mongoose";
+import { z } from "zod";
+import connectDB from "../connection";
+import DataSubjectRequest, {
+  CreateDataSubjectRequestSchema,
+  IDataSubjectRecordCounts,
+  IDataSubjectRequest,
+} from "../models/data-subject-request";
+import Order from "../models/order";
+import AuditLog from "../models/audit-log";
+import UserSession from "../models/user-session";
+import SystemSettings from "../models/settings";
+import { redactProtectedFields } from "../plugins/protected-fields";
+import { ConflictError } from "../../utils/api-errors";
+import { hashForLookup, maskValue } from "../../utils/encryption";
+import { buildAnonymizeUpdate } from "../../utils/retention";
+import {
+  ERASED_VALUE,
+  identifierMatcher,
+  identifierVariants,
+  scrubIdentifier,
+  SubjectIdentifierType,
+} from "../../utils/data-subject";
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+type SubjectEntity = keyof IDataSubjectRecordCounts;
+
+type DataSubjectRequestInput = z.input<typeof CreateDataSubjectRequestSchema>;
+
+interface RequestMetadata {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const SUBJECT_MODELS: Record<SubjectEntity, Model<any>> = {
+  orders: Order,
+  auditLogs: AuditLog,
+  sessions: UserSession,
+  settings: SystemSettings,
+};
+
+// Identifiers only payers leave on orders
+const PAYER_IDENTIFIER_TYPES: SubjectIdentifierType[] = [
+  "phone",
+  "email",
+  "ip",
+];
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Filters finding a person's records in each collection, or null where that
+ * kind of identifier is never stored. Encrypted order fields are found by
+ * their lookup hashes.
+ */
+const buildSubjectFilters = (
+  type: SubjectIdentifierType,
+  identifier: string
+): Record<SubjectEntity, Record<string, any> | null> => {
+  const hashes = {
+    $in: identifierVariants(type, identifier).map(hashForLookup),
+  };
+
+  switch (type) {
+    case "phone":
+      return {
+        orders: { "payerDetails.phoneHash": hashes },
+        auditLogs: null,
+        sessions: null,
+        settings: null,
+      };
+    case "email":
+      return {
+        orders: { "payerDetails.emailHash": hashes },
+        auditLogs: null,
+        sessions: null,
+        settings: null,
+      };
+    case "ip":
+      return {
+        orders: {
+          $or: [
+            { "metadata.customerIPHash": hashes },
+            { "metadata.utrSubmissionIPHash": hashes },
+          ],
+        },
+        auditLogs: { ipAddress: identifier },
+        sessions: { ipAddress: identifier },
+        settings: null,
+      };
+    case "vpa": {
+      const vpa = new RegExp(`^${escapeRegex(identifier)}$`, "i");
+      return {
+        orders: { vpa },
+        auditLogs: {
+          $or: [
+            { "details.vpa": vpa },
+            { "details.staticUpiId.old": vpa },
+            { "details.staticUpiId.new": vpa },
+          ],
+        },
+        sessions: null,
+        settings: { staticUpiId: vpa },
+      };
+    }
+    case "userId":
+      return {
+        orders: {
+          $or: [
+            { createdBy: identifier },
+            { "metadata.lastUpdatedBy": identifier },
+            { "metadata.expiredBy": identifier },
+          ],
+        },
+        auditLogs: {
+          $or: [
+            { userId: identifier },
+            { entityId: identifier },
+            { "details.userId": identifier },
+          ],
+        },
+        sessions: { userId: identifier },
+        settings: { updatedBy: identifier },
+      };
+  }
+};
+
+// Stands in for an erased user ID. The same user always gets the same
+// pseudonym, so per-merchant totals still add up.
+const erasedUserId = (userId: string) =>
+  `erased_${hashForLookup(userId).slice(0, 16)}`;
+
+// What admins see about a request; the identifier is masked
+export const serializeDataSubjectRequest = (request: IDataSubjectRequest) => ({
+  id: String(request._id),
+  type: request.type,
+  identifierType: request.identifierType,
+  identifier: request.identifier ? maskValue(request.identifier) : undefined,
+  reference: request.reference,
+  notes: request.notes,
+  status: request.status,
+  requestedBy: request.requestedBy,
+  completedBy: request.completedBy,
+  completedAt: request.completedAt,
+  result: request.result
+    ? {
+        orders: request.result.orders,
+        auditLogs: request.result.auditLogs,
+        sessions: request.result.sessions,
+        settings: request.result.settings,
+      }
+    : undefined,
+  createdAt: request.createdAt,
+  updatedAt: request.updatedAt,
+});
+
+const logRequestAction = async (
+  action: "data_request_created" | "data_exported" | "data_erased",
+  request: IDataSubjectRequest,
+  userId: string,
+  metadata: RequestMetadata,
+  details: Record<string, any> = {}
+) => {
+  await AuditLog.logAction(action, "settings", userId, {
+    entityId: String(request._id),
+    details: {
+      type: request.type,
+      identifierType: request.identifierType,
+      // Only ever the masked identifier, so erasing never has to touch this
+      identifier: request.identifier
+        ? maskValue(request.identifier)
+        : undefined,
+      reference: request.reference,
+      ...details,
+    },
+    ipAddress: metadata.ipAddress,
+    userAgent: metadata.userAgent,
+  });
+};
+
+// Most recent requests first
+export const getDataSubjectRequests = async (
+  limit: number = 50
+): Promise<IDataSubjectRequest[]> => {
+  await ensureConnection();
+
+  return DataSubjectRequest.findRecent(limit);
+};
+
+export const getDataSubjectRequest = async (
+  requestId: string
+): Promise<IDataSubjectRequest | null> => {
+  await ensureConnection();
+
+  return DataSubjectRequest.findById(requestId);
+};
+
+// Record a request as it arrives
+export const createDataSubjectRequest = async (
+  input: DataSubjectRequestInput,
+  requestedBy: string,
+  metadata: RequestMetadata = {}
+): Promise<IDataSubjectRequest> => {
+  await ensureConnection();
+
+  const validatedData = CreateDataSubjectRequestSchema.parse(input);
+  const request = await DataSubjectRequest.create({
+    ...validatedData,
+    requestedBy,
+  });
+
+  await logRequestAction(
+    "data_request_created",
+    request,
+    requestedBy,
+    metadata
+  );
+
+  return request;
+};
+
+// How many records in each collection hold the request's identifier
+export const countSubjectRecords = async (
+  request: IDataSubjectRequest
+): Promise<IDataSubjectRecordCounts | null> => {
+  await ensureConnection();
+
+  if (!request.identifier) {
+    return null;
+  }
+
+  const filters = buildSubjectFilters(
+    request.identifierType,
+    request.identifier
+  );
+  const entities = Object.keys(SUBJECT_MODELS) as SubjectEntity[];
+  const counts = await Promise.all(
+    entities.map((entity) =>
+      filters[entity]
+        ? SUBJECT_MODELS[entity].countDocuments(filters[entity])
+        : 0
+    )
+  );
+
+  return Object.fromEntries(
+    entities.map((entity, index) => [entity, counts[index]])
+  ) as unknown as IDataSubjectRecordCounts;
+};
+
+const findSubjectRecords = async (
+  type: SubjectIdentifierType,
+  identifier: string
+) => {
+  const filters = buildSubjectFilters(type, identifier);
+  const find = (entity: SubjectEntity) =>
+    filters[entity]
+      ? SUBJECT_MODELS[entity]
+          .find(filters[entity])
+          .lean<Array<Record<string, any>>>()
+      : Promise.resolve([]);
+
+  const [orders, auditLogs, sessions, settings] = await Promise.all([
+    find("orders"),
+    find("auditLogs"),
+    find("sessions"),
+    find("settings"),
+  ]);
+
+  return { orders, auditLogs, sessions, settings };
+};
+
+/**
+ * Everything held about the request's identifier, as one JSON bundle.
+ * Payer details are decrypted when the subject is the payer; a merchant's
+ * export only shows their customers' details masked. Settings changes are
+ * listed apart from other audit logs.
+ */
+export const exportDataSubjectData = async (
+  requestId: string,
+  exportedBy: string,
+  metadata: RequestMetadata = {}
+) => {
+  await ensureConnection();
+
+  const request = await DataSubjectRequest.findById(requestId);
+  if (!request) {
+    return null;
+  }
+  if (request.type !== "export") {
+    throw new ConflictError("Only export requests can be exported");
+  }
+
+  const records = await findSubjectRecords(
+    request.identifierType,
+    request.identifier!
+  );
+  const generatedAt = new Date();
+  const counts: IDataSubjectRecordCounts = {
+    orders: records.orders.length,
+    auditLogs: records.auditLogs.length,
+    sessions: records.sessions.length,
+    settings: records.settings.length,
+  };
+
+  if (request.status === "open") {
+    request.status = "completed";
+    request.completedBy = exportedBy;
+    request.completedAt = generatedAt;
+    request.result = counts;
+    await request.save();
+  }
+
+  await logRequestAction("data_exported", request, exportedBy, metadata, {
+    counts,
+  });
+
+  return {
+    format: "data-subject-export",
+    version: 1,
+    requestId: String(request._id),
+    identifierType: request.identifierType,
+    identifier: request.identifier,
+    generatedAt,
+    records: {
+      orders: records.orders.map((order) =>
+        redactProtectedFields(Order.schema, order, {
+          reveal: PAYER_IDENTIFIER_TYPES.includes(request.identifierType),
+        })
+      ),
+      auditLogs: records.auditLogs.filter(
+        (log) => log.entityType !== "settings"
+      ),
+      settingsHistory: records.auditLogs.filter(
+        (log) => log.entityType === "settings"
+      ),
+      sessions: records.sessions,
+      settings: records.settings,
+    },
+  };
+};
+
+// Strip the identifier from matched audit logs. IPs and user agents go
+// when they were the subject's own; the rest of the entry stays.
+const eraseAuditLogs = (
+  type: SubjectIdentifierType,
+  identifier: string,
+  filter: Record<string, any>,
+  replacement: string
+) => {
+  const matches = identifierMatcher(type, identifier);
+
+  return AuditLog.redactEntries(filter, (log) => {
+    const ownedBySubject =
+      (type === "userId" && log.userId === identifier) ||
+      (type === "ip" && log.ipAddress === identifier);
+
+    return {
+      $set: {
+        ...(type === "userId" && log.userId === identifier
+          ? { userId: replacement }
+          : {}),
+        ...(log.entityId && matches(log.entityId)
+          ? { entityId: replacement }
+          : {}),
+        ...(log.details
+          ? { details: scrubIdentifier(log.details, matches, replacement) }
+          : {}),
+      },
+      $unset: ownedBySubject ? { ipAddress: "", userAgent: "" } : {},
+    };
+  });
+};
+
+/**
+ * Erase the request's identifier everywhere it is held. Orders keep their
+ * amounts, statuses, UTRs and payee VPA so financial totals still add up;
+ * payer details, IPs and user agents are removed, and an erased user's ID
+ * is replaced by a pseudonym. Once done the request keeps only the
+ * identifier's hash.
+ */
+export const eraseDataSubjectData = async (
+  requestId: string,
+  erasedBy: string,
+  metadata: RequestMetadata = {}
+): Promise<IDataSubjectRequest | null> => {
+  await ensureConnection();
+
+  const request = await DataSubjectRequest.findById(requestId);
+  if (!request) {
+    return null;
+  }
+  if (request.type !== "erasure") {
+    throw new ConflictError("Only erasure requests can be erased");
+  }
+  if (request.status === "completed" || !request.identifier) {
+    throw new ConflictError("This request has already been completed");
+  }
+
+  const type = request.identifierType;
+  const identifier = request.identifier;
+  const filters = buildSubjectFilters(type, identifier);
+  const replacement =
+    type === "userId" ? erasedUserId(identifier) : ERASED_VALUE;
+  const result: IDataSubjectRecordCounts = {
+    orders: 0,
+    auditLogs: 0,
+    sessions: 0,
+    settings: 0,
+  };
+
+  if (type === "userId") {
+    result.orders = await Order.countDocuments(filters.orders!);
+    // Bump the version so an order loaded before this can't write the
+    // old values back
+    for (const field of [
+      "createdBy",
+      "metadata.lastUpdatedBy",
+      "metadata.expiredBy",
+    ]) {
+      await Order.updateMany(
+        { [field]: identifier },
+        { $set: { [field]: replacement }, $inc: { __v: 1 } }
+      );
+    }
+  } else if (type !== "vpa") {
+    const update = await Order.updateMany(filters.orders!, {
+      ...buildAnonymizeUpdate("orders"),
+      $inc: { __v: 1 },
+    });
+    result.orders = update.modifiedCount || 0;
+  }
+
+  if (filters.auditLogs) {
+    result.auditLogs = await eraseAuditLogs(
+      type,
+      identifier,
+      filters.auditLogs,
+      replacement
+    );
+  }
+
+  if (type === "userId") {
+    const deleted = await UserSession.deleteMany(filters.sessions!);
+    result.sessions = deleted.deletedCount || 0;
+
+    const updated = await SystemSettings.updateMany(filters.settings!, {
+      $set: { updatedBy: replacement },
+    });
+    result.settings = updated.modifiedCount || 0;
+  } else if (type === "ip") {
+    const updated = await UserSession.updateMany(
+      filters.sessions!,
+      buildAnonymizeUpdate("sessions")
+    );
+    result.sessions = updated.modifiedCount || 0;
+  }
+
+  await logRequestAction("data_erased", request, erasedBy, metadata, {
+    counts: result,
+  });
+
+  // Written directly: saving the document would clear the hash along with
+  // the identifier
+  await DataSubjectRequest.updateOne(
+    { _id: request._id },
+    {
+      $set: {
+        status: "completed",
+        completedBy: erasedBy,
+        completedAt: new Date(),
+        result,
+      },
+      $unset: { identifier: "" },
+    }
+  );
+
+  return DataSubjectRequest.findById(requestId);
+};
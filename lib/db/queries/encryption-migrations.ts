@@ -0,0 +1,317 @@
+import { Model, Types } from "mongoose";
+import connectDB from "../connection";
+import EncryptionMigration, {
+  IEncryptionMigration,
+} from "../models/encryption-migration";
+import Order from "../models/order";
+import WebhookEndpoint from "../models/webhook-endpoint";
+import DataSubjectRequest from "../models/data-subject-request";
+import AuditLog from "../models/audit-log";
+import {
+  getProtectedPaths,
+  mapPathValues,
+  ProtectedPath,
+} from "../plugins/protected-fields";
+import {
+  encryptValue,
+  getCurrentEncryptionKeyId,
+  getEncryptionKeyIds,
+  hashForLookup,
+  isLookupHash,
+  needsReEncryption,
+  resolveStoredValue,
+} from "../../utils/encryption";
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+// Documents read and rewritten per round trip; progress is saved after each
+const BATCH_SIZE = 100;
+
+const isDuplicateKeyError = (error: unknown) =>
+  (error as { code?: number })?.code === 11000;
+
+// Models using protectedFieldsPlugin
+const PROTECTED_MODELS: Model<any>[] = [
+  Order,
+  WebhookEndpoint,
+  DataSubjectRequest,
+];
+
+interface ProtectedField extends ProtectedPath {
+  // Shown in migration progress, e.g. "Order.utr"
+  name: string;
+  model: Model<any>;
+  // Top-level field rewritten as a whole, e.g. the array holding the value
+  root: string;
+}
+
+export const PROTECTED_FIELDS: ProtectedField[] = PROTECTED_MODELS.flatMap(
+  (model) =>
+    getProtectedPaths(model.schema).map((protectedPath) => ({
+      ...protectedPath,
+      name: `${model.modelName}.${protectedPath.path.replace(".$", "")}`,
+      model,
+      root: protectedPath.path.split(".$")[0],
+    }))
+);
+
+// Values that are plaintext, sealed with anything but the target key, or
+// not yet hashed
+const pendingCondition = (field: ProtectedField, targetKeyId: string) =>
+  field.kind === "hashed"
+    ? { $type: "string", $ne: "", $not: /^[0-9a-f]{64}$/ }
+    : {
+        $type: "string",
+        $ne: "",
+        $not: new RegExp(`^enc:${targetKeyId}:`),
+      };
+
+const pendingFilter = (field: ProtectedField, targetKeyId: string) => {
+  const condition = pendingCondition(field, targetKeyId);
+  const [root, leaf] = field.path.split(".$.");
+
+  if (leaf) {
+    return { [root]: { $elemMatch: { [leaf]: condition } } };
+  }
+
+  // Lookups added after a value was stored are backfilled too
+  return field.lookup
+    ? {
+        $or: [
+          { [root]: condition },
+          {
+            [root]: { $type: "string", $ne: "" },
+            [field.lookup]: { $exists: false },
+          },
+        ],
+      }
+    : { [root]: condition };
+};
+
+const valueAt = (doc: any, path: string) =>
+  path.split(".").reduce((value, segment) => value?.[segment], doc);
+
+// Bring a stored value up to date with the target key
+const migrateValue = (field: ProtectedField, stored: string) => {
+  if (field.kind === "hashed") {
+    return isLookupHash(stored) ? stored : hashForLookup(stored);
+  }
+  return needsReEncryption(stored)
+    ? encryptValue(resolveStoredValue(stored))
+    : stored;
+};
+
+// What admins see about a migration
+export const serializeEncryptionMigration = (
+  migration: IEncryptionMigration
+) => {
+  const total = migration.fields.reduce((sum, field) => sum + field.total, 0);
+  const processed = migration.fields.reduce(
+    (sum, field) => sum + field.processed,
+    0
+  );
+  const percent = total > 0 ? Math.floor((processed / total) * 100) : 0;
+
+  return {
+    id: String(migration._id),
+    status: migration.isStale() ? "interrupted" : migration.status,
+    targetKeyId: migration.targetKeyId,
+    startedBy: migration.startedBy,
+    fields: migration.fields.map((field) => ({
+      name: field.name,
+      total: field.total,
+      processed: field.processed,
+      reEncrypted: field.reEncrypted,
+      failed: field.failed,
+    })),
+    progress: migration.status === "completed" ? 100 : percent,
+    error: migration.error,
+    startedAt: migration.createdAt,
+    updatedAt: migration.updatedAt,
+    completedAt: migration.completedAt,
+  };
+};
+
+// Re-encrypt one field, saving progress after every batch. Reads and
+// writes go through the driver so the plugin's setters don't touch the
+// stored values used in filters.
+const migrateField = async (
+  migration: IEncryptionMigration,
+  index: number,
+  field: ProtectedField
+) => {
+  const progress = migration.fields[index];
+  const collection = field.model.collection;
+  const filter = pendingFilter(field, migration.targetKeyId);
+
+  progress.total = await collection.countDocuments(filter);
+  await migration.save();
+
+  let lastId: Types.ObjectId | undefined;
+  for (;;) {
+    const batch = await collection
+      .find(lastId ? { ...filter, _id: { $gt: lastId } } : filter, {
+        projection: { [field.root]: 1 },
+      })
+      .sort({ _id: 1 })
+      .limit(BATCH_SIZE)
+      .toArray();
+
+    if (batch.length === 0) {
+      break;
+    }
+
+    for (const doc of batch) {
+      const stored = valueAt(doc, field.root);
+
+      try {
+        const updated = structuredClone(doc);
+        let plaintext: string | undefined;
+        mapPathValues(updated, field.path, (value) => {
+          if (typeof value !== "string" || !value) return value;
+          plaintext = field.lookup ? resolveStoredValue(value) : undefined;
+          return migrateValue(field, value);
+        });
+
+        // Skip documents changed since they were read
+        const result = await collection.updateOne(
+          { _id: doc._id, [field.root]: stored },
+          {
+            $set: {
+              [field.root]: valueAt(updated, field.root),
+              // Plain values from before encryption may not have a hash yet
+              ...(field.lookup && plaintext
+                ? { [field.lookup]: hashForLookup(plaintext) }
+                : {}),
+            },
+          }
+        );
+        if (result.modifiedCount > 0) {
+          progress.reEncrypted += 1;
+        }
+      } catch (error) {
+        console.error(
+          `Failed to re-encrypt ${field.name} of ${String(doc._id)}:`,
+          error
+        );
+        progress.failed += 1;
+      }
+
+      progress.processed += 1;
+    }
+
+    lastId = batch[batch.length - 1]._id;
+    await migration.save();
+  }
+};
+
+const runReEncryptionMigration = async (migration: IEncryptionMigration) => {
+  try {
+    for (const [index, field] of PROTECTED_FIELDS.entries()) {
+      await migrateField(migration, index, field);
+    }
+
+    migration.status = "completed";
+  } catch (error) {
+    console.error("Re-encryption migration failed:", error);
+    migration.status = "failed";
+    migration.error = error instanceof Error ? error.message : String(error);
+  }
+
+  migration.completedAt = new Date();
+  await migration.save();
+
+  await AuditLog.logAction(
+    "data_reencrypted",
+    "settings",
+    migration.startedBy,
+    {
+      entityId: String(migration._id),
+      details: {
+        status: migration.status,
+        targetKeyId: migration.targetKeyId,
+        fields: serializeEncryptionMigration(migration).fields,
+      },
+    }
+  );
+};
+
+// Start re-encrypting every protected field under the current key. The
+// migration runs in the background; poll getEncryptionStatus for progress.
+export const startReEncryptionMigration = async (
+  startedBy: string,
+  metadata: { ipAddress?: string; userAgent?: string } = {}
+): Promise<IEncryptionMigration> => {
+  await ensureConnection();
+
+  const running = await EncryptionMigration.findRunning();
+  if (running && !running.isStale()) {
+    throw new Error("A re-encryption migration is already running");
+  }
+  if (running) {
+    running.status = "failed";
+    running.error = "Interrupted before finishing";
+    running.completedAt = new Date();
+    await running.save();
+  }
+
+  let migration: IEncryptionMigration;
+  try {
+    migration = await EncryptionMigration.create({
+      targetKeyId: getCurrentEncryptionKeyId(),
+      startedBy,
+      fields: PROTECTED_FIELDS.map((field) => ({ name: field.name })),
+    });
+  } catch (error) {
+    // Another admin started one at the same time
+    if (isDuplicateKeyError(error)) {
+      throw new Error("A re-encryption migration is already running");
+    }
+    throw error;
+  }
+
+  await AuditLog.logAction("data_reencrypted", "settings", startedBy, {
+    entityId: String(migration._id),
+    details: {
+      status: "started",
+      targetKeyId: migration.targetKeyId,
+    },
+    ipAddress: metadata.ipAddress,
+    userAgent: metadata.userAgent,
+  });
+
+  void runReEncryptionMigration(migration).catch((error) =>
+    console.error("Failed to record re-encryption migration result:", error)
+  );
+
+  return migration;
+};
+
+// Configured keys, values still waiting for the current key, and the most
+// recent migration
+export const getEncryptionStatus = async () => {
+  await ensureConnection();
+
+  const currentKeyId = getCurrentEncryptionKeyId();
+  const [pending, latest] = await Promise.all([
+    Promise.all(
+      PROTECTED_FIELDS.map(async (field) => ({
+        name: field.name,
+        count: await field.model.collection.countDocuments(
+          pendingFilter(field, currentKeyId)
+        ),
+      }))
+    ),
+    EncryptionMigration.findLatest(),
+  ]);
+
+  return {
+    currentKeyId,
+    keyIds: getEncryptionKeyIds(),
+    pending,
+    migration: latest ? serializeEncryptionMigration(latest) : null,
+  };
+};
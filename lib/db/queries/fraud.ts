@@ -0,0 +1,142 @@
+import connectDB from "../connection";
+import Order, { IOrder } from "../models/order";
+import {
+  assessUtrSubmission,
+  FRAUD_THRESHOLDS,
+  RiskAssessment,
+} from "../../utils/fraud-detection";
+import { hashForLookup } from "../../utils/encryption";
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+// How much merchant history the amount and merchant checks look at
+const MERCHANT_HISTORY_SIZE = 50;
+
+// Statuses where the UTR has been accepted against an order
+const UTR_HOLDING_STATUSES: IOrder["status"][] = [
+  "pending-verification",
+  "completed",
+  "partially-refunded",
+  "refunded",
+];
+
+// Another order already holding this UTR, if any. A UTR can only back one
+// payment; reuse against failed or expired orders is scored instead.
+export const findOrderHoldingUtr = async (
+  utrHash: string,
+  excludeOrderId: string
+): Promise<IOrder | null> => {
+  await ensureConnection();
+
+  return Order.findOne({
+    utrHash,
+    orderId: { $ne: excludeOrderId },
+    status: { $in: UTR_HOLDING_STATUSES },
+  });
+};
+
+// Record when the payment page was first served. Payment tokens are
+// re-issued on every render (reloads, polling refreshes), so they can't
+// tell how long the customer has had the page.
+export const recordPaymentPageOpened = async (
+  order: IOrder,
+  now: Date = new Date()
+): Promise<void> => {
+  if (order.metadata?.paymentPageOpenedAt) {
+    return;
+  }
+
+  await ensureConnection();
+
+  await Order.updateOne(
+    {
+      orderId: order.orderId,
+      "metadata.paymentPageOpenedAt": { $exists: false },
+    },
+    { $set: { "metadata.paymentPageOpenedAt": now } }
+  );
+};
+
+// Gather fraud signals for a UTR submission and score them
+export const assessUtrSubmissionRisk = async (
+  order: IOrder,
+  submission: {
+    utrHash: string;
+    ipAddress?: string;
+    deviceId?: string;
+    pageLoadedAt?: Date;
+  },
+  now: Date = new Date()
+): Promise<RiskAssessment> => {
+  await ensureConnection();
+
+  const since = new Date(now.getTime() - FRAUD_THRESHOLDS.velocityWindowMs);
+  const otherOrders = { orderId: { $ne: order.orderId } };
+
+  // Submission IPs and devices are only queryable by their lookup hashes
+  const countRecentSubmissions = (field: string, value?: string) =>
+    value
+      ? Order.countDocuments({
+          ...otherOrders,
+          [field]: hashForLookup(value),
+          "metadata.utrSubmittedAt": { $gte: since },
+        })
+      : Promise.resolve(0);
+
+  const [
+    reusedOrders,
+    recentSubmissionsFromIP,
+    recentSubmissionsFromDevice,
+    merchantRecent,
+    merchantSettled,
+  ] = await Promise.all([
+    Order.find({ ...otherOrders, utrHash: submission.utrHash })
+      .select("orderId")
+      .lean(),
+    countRecentSubmissions(
+      "metadata.utrSubmissionIPHash",
+      submission.ipAddress !== "unknown" ? submission.ipAddress : undefined
+    ),
+    countRecentSubmissions(
+      "metadata.utrSubmissionDeviceId",
+      submission.deviceId
+    ),
+    Order.find({ ...otherOrders, createdBy: order.createdBy })
+      .sort({ createdAt: -1 })
+      .limit(MERCHANT_HISTORY_SIZE)
+      .select("amount")
+      .lean(),
+    Order.find({
+      ...otherOrders,
+      createdBy: order.createdBy,
+      status: {
+        $in: ["completed", "failed", "partially-refunded", "refunded"],
+      },
+    })
+      .sort({ updatedAt: -1 })
+      .limit(MERCHANT_HISTORY_SIZE)
+      .select("status")
+      .lean(),
+  ]);
+
+  return assessUtrSubmission(
+    {
+      reusedUtrOrderIds: reusedOrders.map((reused) => reused.orderId),
+      recentSubmissionsFromIP,
+      recentSubmissionsFromDevice,
+      msSincePageLoad: submission.pageLoadedAt
+        ? now.getTime() - submission.pageLoadedAt.getTime()
+        : undefined,
+      amount: order.amount,
+      merchantRecentAmounts: merchantRecent.map((recent) => recent.amount),
+      merchantSettledCount: merchantSettled.length,
+      merchantFailedCount: merchantSettled.filter(
+        (settled) => settled.status === "failed"
+      ).length,
+    },
+    now
+  );
+};
@@ -0,0 +1,97 @@
+import connectDB from "../connection";
+import IdempotencyKey, { IIdempotencyKey } from "../models/idempotency-key";
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+// A request still "processing" after this long is assumed to have crashed
+const ABANDONED_AFTER_MS = 2 * 60 * 1000;
+
+export type IdempotencyReservation =
+  | { outcome: "reserved"; record: IIdempotencyKey }
+  | { outcome: "replay"; record: IIdempotencyKey }
+  | { outcome: "mismatch" }
+  | { outcome: "in-progress" };
+
+const isDuplicateKeyError = (error: unknown) =>
+  (error as { code?: number })?.code === 11000;
+
+// Claim a key for a request, or report what an earlier request with it did
+export const reserveIdempotencyKey = async (request: {
+  key: string;
+  scope: string;
+  principal: string;
+  requestHash: string;
+}): Promise<IdempotencyReservation> => {
+  await ensureConnection();
+
+  // A second pass covers keys that expired or were released meanwhile
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const record = await IdempotencyKey.create(request);
+      return { outcome: "reserved", record };
+    } catch (error) {
+      if (!isDuplicateKeyError(error)) {
+        throw error;
+      }
+    }
+
+    const existing = await IdempotencyKey.findForRequest(
+      request.key,
+      request.scope,
+      request.principal
+    );
+    if (!existing) {
+      continue;
+    }
+
+    const abandoned =
+      existing.status === "processing" &&
+      Date.now() - existing.updatedAt.getTime() > ABANDONED_AFTER_MS;
+    if (existing.isExpired() || abandoned) {
+      await IdempotencyKey.deleteOne({ _id: existing._id });
+      continue;
+    }
+
+    if (existing.requestHash !== request.requestHash) {
+      return { outcome: "mismatch" };
+    }
+
+    return existing.status === "completed"
+      ? { outcome: "replay", record: existing }
+      : { outcome: "in-progress" };
+  }
+
+  return { outcome: "in-progress" };
+};
+
+// Store the response so repeats of the request can be replayed
+export const completeIdempotencyKey = async (
+  record: IIdempotencyKey,
+  response: { status: number; body: string; contentType?: string }
+): Promise<void> => {
+  await ensureConnection();
+
+  await IdempotencyKey.updateOne(
+    { _id: record._id },
+    {
+      $set: {
+        status: "completed",
+        responseStatus: response.status,
+        responseBody: response.body,
+        responseContentType: response.contentType,
+      },
+    }
+  );
+};
+
+// Forget a key whose request failed so the client can retry it
+export const releaseIdempotencyKey = async (
+  record: IIdempotencyKey
+): Promise<void> => {
+  await ensureConnection();
+
+  await IdempotencyKey.deleteOne({ _id: record._id });
+};
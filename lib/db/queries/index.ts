@@ -2,6 +2,20 @@
 export * from "./orders";
 export * from "./settings";
 export * from "./audit-logs";
+export * from "./reconciliation";
+export * from "./webhooks";
+export * from "./refunds";
+export * from "./payment-links";
+export * from "./merchant-profiles";
+export * from "./api-keys";
+export * from "./idempotency-keys";
+export * from "./fraud";
+export * from "./rate-limits";
+export * from "./user-sessions";
+export * from "./encryption-migrations";
+export * from "./retention";
+export * from "./data-subject-requests";
+export * from "./audit-chain";
 
 // Re-export models and types for convenience
 export * from "../models";
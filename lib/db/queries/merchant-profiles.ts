@@ -0,0 +1,268 @@
+import crypto from "crypto";
+import connectDB from "../connection";
+import MerchantProfile, {
+  IMerchantProfile,
+  IAmountBand,
+  ITimeWindow,
+  AddMerchantVpaSchema,
+  UpdateVpaRoutingSchema,
+  MAX_MERCHANT_VPAS,
+} from "../models/merchant-profile";
+import { generateUpiLink } from "../../utils/upi-links";
+import { selectVpa } from "../../utils/vpa-routing";
+import { z } from "zod";
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+// Public representation of a merchant's UPI IDs and routing rules
+export const serializeMerchantProfile = (profile: IMerchantProfile) => ({
+  vpas: profile.vpas.map((entry) => ({
+    id: String(entry._id),
+    vpa: entry.vpa,
+    label: entry.label,
+    isDefault: entry.isDefault,
+    verified: entry.verified,
+    verifiedAt: entry.verifiedAt,
+    createdAt: entry.createdAt,
+    // Unverified IDs carry the test payment that proves ownership
+    ...(!entry.verified && {
+      verification: {
+        amount: entry.verificationAmount,
+        code: entry.verificationCode,
+        upiLink: generateUpiLink({
+          vpa: entry.vpa,
+          amount: entry.verificationAmount,
+          merchantName: entry.label || entry.vpa,
+          note: `VERIFY ${entry.verificationCode}`,
+        }),
+      },
+    }),
+  })),
+  routing: {
+    strategy: profile.routing.strategy,
+    amountBands: profile.routing.amountBands,
+    timeWindows: profile.routing.timeWindows,
+  },
+});
+
+// Get (or lazily create) the profile for a merchant
+export const getMerchantProfile = async (
+  userId: string
+): Promise<IMerchantProfile> => {
+  await ensureConnection();
+
+  return MerchantProfile.getOrCreate(userId);
+};
+
+// Register a UPI ID; it cannot receive orders until verified
+export const addMerchantVpa = async (
+  userId: string,
+  vpaData: z.input<typeof AddMerchantVpaSchema>
+): Promise<IMerchantProfile> => {
+  await ensureConnection();
+
+  const { vpa, label } = AddMerchantVpaSchema.parse(vpaData);
+  const profile = await MerchantProfile.getOrCreate(userId);
+
+  if (profile.vpas.some((entry) => entry.vpa === vpa.toLowerCase())) {
+    throw new Error("UPI ID is already registered");
+  }
+
+  if (profile.vpas.length >= MAX_MERCHANT_VPAS) {
+    throw new Error(`You can register at most ${MAX_MERCHANT_VPAS} UPI IDs`);
+  }
+
+  profile.vpas.push({
+    vpa,
+    label: label || undefined,
+    verificationCode: crypto.randomBytes(3).toString("hex").toUpperCase(),
+    // A distinctive ₹1.01-₹1.99 amount makes the test payment easy to spot
+    verificationAmount: 1 + crypto.randomInt(1, 100) / 100,
+  });
+  await profile.save();
+
+  return profile;
+};
+
+// Mark a UPI ID verified using the UTR of its test payment
+export const verifyMerchantVpa = async (
+  userId: string,
+  vpaId: string,
+  utr: string
+): Promise<IMerchantProfile> => {
+  await ensureConnection();
+
+  const profile = await MerchantProfile.findByUserId(userId);
+  const entry = profile?.vpas.id(vpaId);
+
+  if (!profile || !entry) {
+    throw new Error("UPI ID not found");
+  }
+
+  if (entry.verified) {
+    throw new Error("UPI ID is already verified");
+  }
+
+  entry.verified = true;
+  entry.verificationUtr = utr.toUpperCase();
+  entry.verifiedAt = new Date();
+
+  // The first verified ID becomes the default
+  if (!profile.getDefaultVpa()) {
+    profile.vpas.forEach((other) => {
+      other.isDefault = other === entry;
+    });
+  }
+
+  await profile.save();
+
+  return profile;
+};
+
+// Update a UPI ID's label or make it the default
+export const updateMerchantVpa = async (
+  userId: string,
+  vpaId: string,
+  updates: { label?: string; isDefault?: true }
+): Promise<IMerchantProfile> => {
+  await ensureConnection();
+
+  const profile = await MerchantProfile.findByUserId(userId);
+  const entry = profile?.vpas.id(vpaId);
+
+  if (!profile || !entry) {
+    throw new Error("UPI ID not found");
+  }
+
+  if (updates.isDefault) {
+    if (!entry.verified) {
+      throw new Error("Only verified UPI IDs can be the default");
+    }
+
+    profile.vpas.forEach((other) => {
+      other.isDefault = other === entry;
+    });
+  }
+
+  if (updates.label !== undefined) {
+    entry.label = updates.label || undefined;
+  }
+
+  await profile.save();
+
+  return profile;
+};
+
+// Remove a UPI ID along with any routing rules that point at it
+export const removeMerchantVpa = async (
+  userId: string,
+  vpaId: string
+): Promise<IMerchantProfile> => {
+  await ensureConnection();
+
+  const profile = await MerchantProfile.findByUserId(userId);
+  const entry = profile?.vpas.id(vpaId);
+
+  if (!profile || !entry) {
+    throw new Error("UPI ID not found");
+  }
+
+  const { vpa, isDefault } = entry;
+  entry.deleteOne();
+
+  profile.routing.amountBands = profile.routing.amountBands.filter(
+    (band) => band.vpa !== vpa
+  );
+  profile.routing.timeWindows = profile.routing.timeWindows.filter(
+    (window) => window.vpa !== vpa
+  );
+
+  if (isDefault) {
+    const [nextDefault] = profile.getVerifiedVpas();
+    if (nextDefault) {
+      profile.vpas.id(nextDefault._id)!.isDefault = true;
+    }
+  }
+
+  await profile.save();
+
+  return profile;
+};
+
+// Replace the routing rules; every rule must use a verified UPI ID
+export const updateVpaRouting = async (
+  userId: string,
+  rules: z.input<typeof UpdateVpaRoutingSchema>
+): Promise<IMerchantProfile> => {
+  await ensureConnection();
+
+  const validatedRules = UpdateVpaRoutingSchema.parse(rules);
+  const profile = await MerchantProfile.getOrCreate(userId);
+
+  const verified = new Set(profile.getVerifiedVpas().map((entry) => entry.vpa));
+  const routedVpas = [
+    ...validatedRules.amountBands.map((band) => band.vpa),
+    ...validatedRules.timeWindows.map((window) => window.vpa),
+  ];
+
+  if (routedVpas.some((vpa) => !verified.has(vpa.toLowerCase()))) {
+    throw new Error("Routing rules can only use verified UPI IDs");
+  }
+
+  profile.routing.strategy = validatedRules.strategy;
+  profile.routing.amountBands = (
+    validatedRules.amountBands as IAmountBand[]
+  ).map((band) => ({ ...band, vpa: band.vpa.toLowerCase() }));
+  profile.routing.timeWindows = (
+    validatedRules.timeWindows as ITimeWindow[]
+  ).map((window) => ({ ...window, vpa: window.vpa.toLowerCase() }));
+  await profile.save();
+
+  return profile;
+};
+
+// Decide which UPI ID a new order pays into. The admin's static UPI ID
+// overrides everything, then an explicitly requested ID, then the
+// merchant's routing rules.
+export const resolveOrderVpa = async (options: {
+  createdBy: string;
+  amount: number;
+  requestedVpa?: string;
+  staticUpiId?: string;
+}): Promise<string | undefined> => {
+  if (options.staticUpiId) {
+    return options.staticUpiId;
+  }
+
+  if (options.requestedVpa) {
+    return options.requestedVpa;
+  }
+
+  await ensureConnection();
+
+  let profile = await MerchantProfile.findByUserId(options.createdBy);
+  if (!profile) {
+    return undefined;
+  }
+
+  // Claim the next round-robin slot atomically so concurrent orders spread out
+  let counter = 0;
+  if (profile.routing.strategy === "round-robin") {
+    const previous = await MerchantProfile.findOneAndUpdate(
+      { _id: profile._id },
+      { $inc: { "routing.roundRobinCounter": 1 } }
+    );
+    if (previous) {
+      profile = previous;
+      counter = previous.routing.roundRobinCounter || 0;
+    }
+  }
+
+  return selectVpa(profile.vpas, profile.routing, {
+    amount: options.amount,
+    counter,
+  });
+};
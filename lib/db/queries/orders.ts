@@ -1,8 +1,35 @@
 import connectDB from "../connection";
-import Order, { IOrder, CreateOrderSchema } from "../models/order";
+import Order, {
+  IOrder,
+  CreateOrderSchema,
+  OrderSearchSchema,
+} from "../models/order";
 import AuditLog from "../models/audit-log";
 import SystemSettings from "../models/settings";
+import Refund from "../models/refund";
+import { emitOrderEvent, getWebhookEventForStatus } from "./webhooks";
+import { assessUtrSubmissionRisk, findOrderHoldingUtr } from "./fraud";
+import { calculateGstBreakdown, LineItemInput } from "../../utils/gst";
+import { generateOrderId } from "../../utils/validation";
+import {
+  buildPayerDetailsSchema,
+  hasPayerFields,
+} from "../../utils/payer-details";
+import type { BatchAuditLogger } from "../../utils/audit-logger";
+import { maskValue, SensitiveDataHandler } from "../../utils/encryption";
+import {
+  buildPaymentPagePath,
+  canAccessOrderWithSignature,
+} from "../../utils/payment-tokens";
+import {
+  assertOrderTransition,
+  OrderActor,
+  OrderStatus,
+  OrderVersionConflictError,
+} from "../../utils/order-state-machine";
 import { z } from "zod";
+import mongoose from "mongoose";
+import type { FilterQuery } from "mongoose";
 
 // Connect to database before operations
 const ensureConnection = async () => {
@@ -16,6 +43,7 @@ export const createOrder = async (
     ipAddress?: string;
     userAgent?: string;
     referrer?: string;
+    paymentLinkSlug?: string;
   } = {}
 ): Promise<IOrder> => {
   await ensureConnection();
@@ -27,7 +55,7 @@ export const createOrder = async (
   const settings = await SystemSettings.getSettings();
 
   // Generate unique order ID
-  const orderId = `UPI${Date.now()}${Math.random().toString(36).substr(2, 5).toUpperCase()}`;
+  const orderId = generateOrderId();
 
   // Calculate expiration time
   const expiresAt = new Date(Date.now() + settings.getTimerDurationMs());
@@ -35,8 +63,16 @@ export const createOrder = async (
   // Use static UPI ID if configured, otherwise use provided VPA
   const vpa = settings.staticUpiId || validatedData.vpa;
 
+  // Compute the GST breakdown for itemized orders (totals validated above)
+  const invoice = validatedData.lineItems
+    ? calculateGstBreakdown(
+        validatedData.lineItems as LineItemInput[],
+        validatedData.supplyType
+      )
+    : undefined;
+
   // Generate payment page URL and UPI deep link
-  const paymentPageUrl = `/pay/${orderId}`;
+  const paymentPageUrl = buildPaymentPagePath(orderId);
   const upiDeepLink = `upi://pay?pa=${vpa}&am=${validatedData.amount}&tn=Payment%20to%20${encodeURIComponent(validatedData.merchantName)}`;
 
   // Create order
@@ -49,6 +85,14 @@ export const createOrder = async (
     expiresAt,
     paymentPageUrl,
     upiDeepLink,
+    payerName: validatedData.payerName,
+    note: validatedData.note,
+    lineItems: invoice?.lineItems,
+    taxBreakdown: invoice?.taxBreakdown,
+    payerFields: hasPayerFields(validatedData.payerFields)
+      ? validatedData.payerFields
+      : undefined,
+    paymentLinkSlug: options.paymentLinkSlug,
     metadata: {
       customerIP: options.ipAddress,
       userAgent: options.userAgent,
@@ -63,14 +107,252 @@ export const createOrder = async (
       amount: validatedData.amount,
       merchantName: validatedData.merchantName,
       vpa,
+      paymentLinkSlug: options.paymentLinkSlug,
+      ...(invoice && { taxBreakdown: invoice.taxBreakdown }),
     },
     ipAddress: options.ipAddress,
     userAgent: options.userAgent,
   });
 
+  await emitOrderEvent("order.created", order);
+
+  return order;
+};
+
+// Create many validated orders in one insert; audit entries share one flush.
+// Returns the created order for each input, or null where its insert failed.
+export const createOrdersInBulk = async (
+  ordersData: z.infer<typeof CreateOrderSchema>[],
+  auditLogger: BatchAuditLogger,
+  options: {
+    expiresInMinutes?: number;
+  } = {}
+): Promise<(IOrder | null)[]> => {
+  await ensureConnection();
+
+  if (ordersData.length === 0) {
+    return [];
+  }
+
+  const settings = await SystemSettings.getSettings();
+  const validityMs = options.expiresInMinutes
+    ? options.expiresInMinutes * 60 * 1000
+    : settings.getTimerDurationMs();
+  const expiresAt = new Date(Date.now() + validityMs);
+
+  // Rows are built within the same millisecond, so IDs can repeat
+  const orderIds = new Set<string>();
+  const nextOrderId = () => {
+    let orderId = generateOrderId();
+    while (orderIds.has(orderId)) {
+      orderId = generateOrderId();
+    }
+    orderIds.add(orderId);
+    return orderId;
+  };
+
+  const documents = ordersData.map((orderData) => {
+    const validatedData = CreateOrderSchema.parse(orderData);
+    const orderId = nextOrderId();
+    const vpa = settings.staticUpiId || validatedData.vpa;
+    const note =
+      validatedData.note || `Payment to ${validatedData.merchantName}`;
+
+    return {
+      orderId,
+      amount: validatedData.amount,
+      merchantName: validatedData.merchantName,
+      vpa,
+      createdBy: validatedData.createdBy,
+      expiresAt,
+      paymentPageUrl: buildPaymentPagePath(orderId),
+      upiDeepLink: `upi://pay?pa=${vpa}&am=${validatedData.amount}&tn=${encodeURIComponent(note)}`,
+      payerName: validatedData.payerName,
+      note: validatedData.note,
+    };
+  });
+
+  // Unordered, so one failed row doesn't stop the rest of the batch
+  let orders: IOrder[];
+  try {
+    orders = await Order.insertMany(documents, { ordered: false });
+  } catch (error: any) {
+    if (!error?.writeErrors || !Array.isArray(error.insertedDocs)) {
+      throw error;
+    }
+    console.error("Bulk order insert skipped rows:", error.message);
+    orders = error.insertedDocs;
+  }
+
+  for (const order of orders) {
+    auditLogger.add("order_created", "order", order.createdBy, {
+      entityId: order.orderId,
+      details: {
+        amount: order.amount,
+        merchantName: order.merchantName,
+        vpa: order.vpa,
+        payerName: order.payerName && maskValue(order.payerName),
+        bulk: true,
+      },
+    });
+  }
+
+  await auditLogger.flush();
+
+  await Promise.all(
+    orders.map((order) => emitOrderEvent("order.created", order))
+  );
+
+  const created = new Map(orders.map((order) => [order.orderId, order]));
+  return documents.map((document) => created.get(document.orderId) || null);
+};
+
+// Conflict error describing the order as it is now in the database
+const buildVersionConflict = async (orderId: string): Promise<Error> => {
+  const current = await Order.findByOrderId(orderId);
+  if (!current) {
+    return new Error("Order not found");
+  }
+
+  return new OrderVersionConflictError({
+    orderId,
+    status: current.status,
+    version: current.__v,
+  });
+};
+
+// Save an order as a compare-and-set on its version. Losing the race to
+// another writer throws OrderVersionConflictError instead of overwriting.
+const saveOrder = async (order: IOrder): Promise<void> => {
+  try {
+    await order.save();
+  } catch (error) {
+    if (error instanceof mongoose.Error.VersionError) {
+      throw await buildVersionConflict(order.orderId);
+    }
+    throw error;
+  }
+};
+
+export interface OrderTransitionRequest {
+  actor: OrderActor;
+  performedBy: string;
+  // Version the caller last saw; a newer order is a conflict
+  expectedVersion?: number;
+  reason?: string;
+  utr?: string;
+  metadata?: Partial<IOrder["metadata"]>;
+  auditDetails?: Record<string, any>;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+type OrderTransitionHook = (
+  order: IOrder,
+  change: { from: OrderStatus; to: OrderStatus },
+  request: OrderTransitionRequest
+) => Promise<void>;
+
+// Post-transition hooks, run in order once the new status is saved
+const afterOrderTransition: OrderTransitionHook[] = [
+  async (order, { from, to }, request) => {
+    await AuditLog.logAction(
+      "order_status_updated",
+      "order",
+      request.performedBy,
+      {
+        entityId: order.orderId,
+        details: {
+          ...request.auditDetails,
+          oldStatus: from,
+          newStatus: to,
+          reason: request.reason,
+          actor: request.actor,
+        },
+        ipAddress: request.ipAddress,
+        userAgent: request.userAgent,
+      }
+    );
+  },
+  async (order, { from, to }) => {
+    const webhookEvent = getWebhookEventForStatus(to);
+    if (webhookEvent && from !== to) {
+      await emitOrderEvent(webhookEvent, order);
+    }
+  },
+];
+
+// Change an order's status through the order state machine. Every status
+// change goes through here so guards, required fields and hooks always run.
+export const transitionOrder = async (
+  order: IOrder,
+  to: OrderStatus,
+  request: OrderTransitionRequest
+): Promise<IOrder> => {
+  await ensureConnection();
+
+  if (
+    request.expectedVersion !== undefined &&
+    request.expectedVersion !== order.__v
+  ) {
+    throw new OrderVersionConflictError({
+      orderId: order.orderId,
+      status: order.status,
+      version: order.__v,
+    });
+  }
+
+  const now = new Date();
+  const from = order.status;
+  assertOrderTransition(order, to, request, now);
+
+  order.status = to;
+  if (request.utr) {
+    order.utr = request.utr;
+  }
+  order.metadata = {
+    ...order.metadata,
+    ...request.metadata,
+    ...(to === "expired" && { expiredAt: now, expiredBy: request.performedBy }),
+    ...(to === "failed" && { failureReason: request.reason }),
+    lastUpdatedBy: request.performedBy,
+    lastUpdatedAt: now,
+  };
+  await saveOrder(order);
+
+  for (const hook of afterOrderTransition) {
+    await hook(order, { from, to }, request);
+  }
+
   return order;
 };
 
+// Expire a pending order whose payment window has passed. Returns whether
+// the order was expired.
+export const expireOrderIfDue = async (
+  order: IOrder,
+  reason: string = "auto_expired"
+): Promise<boolean> => {
+  if (order.status !== "pending" || !order.isExpired()) {
+    return false;
+  }
+
+  try {
+    await transitionOrder(order, "expired", {
+      actor: "system",
+      performedBy: "system",
+      reason,
+    });
+  } catch (error) {
+    // Someone else changed the order first, e.g. the customer's UTR landed
+    if (error instanceof OrderVersionConflictError) {
+      return false;
+    }
+    throw error;
+  }
+  return true;
+};
+
 // Get order by ID with expiration check
 export const getOrderById = async (orderId: string): Promise<IOrder | null> => {
   await ensureConnection();
@@ -81,23 +363,31 @@ export const getOrderById = async (orderId: string): Promise<IOrder | null> => {
     return null;
   }
 
-  // Auto-expire if needed
-  if (order.isExpired() && order.status === "pending") {
-    order.status = "expired";
-    await order.save();
+  await expireOrderIfDue(order);
 
-    // Log expiration
-    await AuditLog.logAction("order_status_updated", "order", order.createdBy, {
-      entityId: orderId,
-      details: {
-        oldStatus: "pending",
-        newStatus: "expired",
-        reason: "auto_expired",
-      },
-    });
+  return order;
+};
+
+// Find an order for a public payment URL. Returns null both for unknown
+// orders and for bad signatures so callers cannot tell the two apart.
+export const findOrderForPaymentUrl = async (
+  orderId: string,
+  signature: string | null | undefined
+): Promise<IOrder | null> => {
+  await ensureConnection();
+
+  const settings = await SystemSettings.getSettings();
+  if (
+    !canAccessOrderWithSignature(
+      orderId,
+      signature,
+      settings.allowLegacyPaymentUrls
+    )
+  ) {
+    return null;
   }
 
-  return order;
+  return Order.findByOrderId(orderId);
 };
 
 // Submit UTR for an order
@@ -114,18 +404,29 @@ export const submitUTR = async (
     throw new Error("Order not found");
   }
 
-  if (!order.canSubmitUTR()) {
-    throw new Error("Cannot submit UTR for this order");
+  if (order.needsPayerDetails()) {
+    throw new Error("Payer details must be submitted before the UTR");
   }
 
   // Validate UTR format
   const { SubmitUTRSchema } = await import("../models/order");
   SubmitUTRSchema.parse({ utr });
 
-  // Update order
-  order.utr = utr;
-  order.status = "pending-verification";
-  await order.save();
+  const utrHash = SensitiveDataHandler.hashUTR(utr);
+  if (await findOrderHoldingUtr(utrHash, orderId)) {
+    throw new Error("This UTR has already been used for another order");
+  }
+
+  order.utrHash = utrHash;
+  order.risk = await assessUtrSubmissionRisk(order, { utrHash });
+
+  const previousStatus = order.status;
+  await transitionOrder(order, "pending-verification", {
+    actor: "customer",
+    performedBy: userId || order.createdBy,
+    reason: "UTR submitted",
+    utr,
+  });
 
   // Log audit event
   await AuditLog.logAction(
@@ -135,8 +436,8 @@ export const submitUTR = async (
     {
       entityId: orderId,
       details: {
-        utr,
-        previousStatus: "pending",
+        utr: SensitiveDataHandler.maskUTR(utr),
+        previousStatus,
       },
     }
   );
@@ -144,12 +445,50 @@ export const submitUTR = async (
   return order;
 };
 
+// Capture the payer details requested by the merchant
+export const submitPayerDetails = async (
+  orderId: string,
+  input: unknown
+): Promise<IOrder> => {
+  await ensureConnection();
+
+  const order = await Order.findByOrderId(orderId);
+
+  if (!order) {
+    throw new Error("Order not found");
+  }
+
+  if (!hasPayerFields(order.payerFields)) {
+    throw new Error("This order does not collect payer details");
+  }
+
+  if (!order.canSubmitUTR()) {
+    throw new Error("Payer details can only be submitted for pending orders");
+  }
+
+  if (order.payerDetails?.submittedAt) {
+    throw new Error("Payer details already submitted for this order");
+  }
+
+  const details = buildPayerDetailsSchema(order.payerFields!).parse(input);
+
+  order.payerDetails = { ...details, submittedAt: new Date() };
+  if (details.name) {
+    order.payerName = details.name;
+  }
+  await saveOrder(order);
+
+  return order;
+};
+
 // Update order status (admin function)
 export const updateOrderStatus = async (
   orderId: string,
   newStatus: IOrder["status"],
   updatedBy: string,
-  reason?: string
+  reason?: string,
+  auditDetails: Record<string, any> = {},
+  expectedVersion?: number
 ): Promise<IOrder> => {
   await ensureConnection();
 
@@ -159,21 +498,13 @@ export const updateOrderStatus = async (
     throw new Error("Order not found");
   }
 
-  const oldStatus = order.status;
-  order.status = newStatus;
-  await order.save();
-
-  // Log audit event
-  await AuditLog.logAction("order_status_updated", "order", updatedBy, {
-    entityId: orderId,
-    details: {
-      oldStatus,
-      newStatus,
-      reason,
-    },
+  return transitionOrder(order, newStatus, {
+    actor: "admin",
+    performedBy: updatedBy,
+    reason,
+    auditDetails,
+    expectedVersion,
   });
-
-  return order;
 };
 
 // Get orders by user with pagination
@@ -211,14 +542,70 @@ export const getOrdersByUser = async (
   };
 };
 
-// Get all orders (admin function) with pagination and filtering
+export type OrderSearchFilters = Partial<z.infer<typeof OrderSearchSchema>>;
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Build the Mongo filter for an admin order search
+export const buildOrderSearchQuery = (
+  filters: OrderSearchFilters = {}
+): FilterQuery<IOrder> => {
+  const query: FilterQuery<IOrder> = {};
+
+  if (filters.status) query.status = filters.status;
+  if (filters.createdBy) query.createdBy = filters.createdBy;
+
+  if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+    query.amount = {};
+    if (filters.minAmount !== undefined) query.amount.$gte = filters.minAmount;
+    if (filters.maxAmount !== undefined) query.amount.$lte = filters.maxAmount;
+  }
+
+  if (filters.startDate || filters.endDate) {
+    query.createdAt = {};
+    if (filters.startDate) query.createdAt.$gte = filters.startDate;
+    if (filters.endDate) query.createdAt.$lte = filters.endDate;
+  }
+
+  if (filters.merchantName) {
+    query.merchantName = new RegExp(escapeRegex(filters.merchantName), "i");
+  }
+
+  if (filters.vpa) {
+    query.vpa = new RegExp(escapeRegex(filters.vpa), "i");
+  }
+
+  if (filters.orderId) {
+    query.orderId = new RegExp(escapeRegex(filters.orderId), "i");
+  }
+
+  // Encrypted UTRs use a random IV and never compare equal, so they are
+  // matched by hash; rows from before encryption by value
+  if (filters.utr) {
+    query.$or = [
+      { utrHash: SensitiveDataHandler.hashUTR(filters.utr) },
+      { utr: new RegExp(`^${escapeRegex(filters.utr)}$`, "i") },
+    ];
+  }
+
+  return query;
+};
+
+const buildOrderSort = (
+  filters: OrderSearchFilters
+): Record<string, 1 | -1> => {
+  const direction = filters.sortOrder === "asc" ? 1 : -1;
+
+  // _id breaks ties so pages stay stable when sorting by non-unique fields
+  return { [filters.sortBy || "createdAt"]: direction, _id: direction };
+};
+
+// Get all orders (admin function) with pagination, filtering and sorting
 export const getAllOrders = async (
-  options: {
-    status?: IOrder["status"];
+  options: OrderSearchFilters & {
     page?: number;
     limit?: number;
-    startDate?: Date;
-    endDate?: Date;
   } = {}
 ): Promise<{
   orders: IOrder[];
@@ -228,20 +615,12 @@ export const getAllOrders = async (
 }> => {
   await ensureConnection();
 
-  const { status, page = 1, limit = 50, startDate, endDate } = options;
+  const { page = 1, limit = 50, ...filters } = options;
   const skip = (page - 1) * limit;
-
-  const query: any = {};
-  if (status) query.status = status;
-
-  if (startDate || endDate) {
-    query.createdAt = {};
-    if (startDate) query.createdAt.$gte = startDate;
-    if (endDate) query.createdAt.$lte = endDate;
-  }
+  const query = buildOrderSearchQuery(filters);
 
   const [orders, total] = await Promise.all([
-    Order.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+    Order.find(query).sort(buildOrderSort(filters)).skip(skip).limit(limit),
     Order.countDocuments(query),
   ]);
 
@@ -253,6 +632,16 @@ export const getAllOrders = async (
   };
 };
 
+// Stream every order matching a search, for exports too large to buffer
+export const streamOrders = async (filters: OrderSearchFilters = {}) => {
+  await ensureConnection();
+
+  return Order.find(buildOrderSearchQuery(filters))
+    .sort(buildOrderSort(filters))
+    .lean()
+    .cursor({ batchSize: 500 });
+};
+
 // Cleanup expired orders (background job)
 export const cleanupExpiredOrders = async (): Promise<number> => {
   await ensureConnection();
@@ -261,20 +650,9 @@ export const cleanupExpiredOrders = async (): Promise<number> => {
 
   let updatedCount = 0;
   for (const order of expiredOrders) {
-    order.status = "expired";
-    await order.save();
-
-    // Log expiration
-    await AuditLog.logAction("order_status_updated", "order", "system", {
-      entityId: order.orderId,
-      details: {
-        oldStatus: "pending",
-        newStatus: "expired",
-        reason: "cleanup_job",
-      },
-    });
-
-    updatedCount++;
+    if (await expireOrderIfDue(order, "cleanup_job")) {
+      updatedCount++;
+    }
   }
 
   return updatedCount;
@@ -287,13 +665,17 @@ export const getOrderStats = async (
   total: number;
   byStatus: Record<string, number>;
   recentCount: number;
+  refunds: {
+    byStatus: Record<string, { count: number; amount: number }>;
+    totalRefunded: number;
+  };
 }> => {
   await ensureConnection();
 
   const query = userId ? { createdBy: userId } : {};
   const recentDate = new Date(Date.now() - 24 * 60 * 60 * 1000); // Last 24 hours
 
-  const [total, statusStats, recentCount] = await Promise.all([
+  const [total, statusStats, recentCount, refundStats] = await Promise.all([
     Order.countDocuments(query),
     Order.aggregate([
       ...(userId ? [{ $match: { createdBy: userId } }] : []),
@@ -308,6 +690,28 @@ export const getOrderStats = async (
       ...query,
       createdAt: { $gte: recentDate },
     }),
+    Refund.aggregate([
+      ...(userId
+        ? [
+            {
+              $lookup: {
+                from: "orders",
+                localField: "orderId",
+                foreignField: "orderId",
+                as: "order",
+              },
+            },
+            { $match: { "order.createdBy": userId } },
+          ]
+        : []),
+      {
+        $group: {
+          _id: "$status",
+          count: { $sum: 1 },
+          amount: { $sum: "$amount" },
+        },
+      },
+    ]),
   ]);
 
   const byStatus: Record<string, number> = {};
@@ -315,9 +719,19 @@ export const getOrderStats = async (
     byStatus[stat._id] = stat.count;
   });
 
+  const refundsByStatus: Record<string, { count: number; amount: number }> =
+    {};
+  refundStats.forEach((stat) => {
+    refundsByStatus[stat._id] = { count: stat.count, amount: stat.amount };
+  });
+
   return {
     total,
     byStatus,
     recentCount,
+    refunds: {
+      byStatus: refundsByStatus,
+      totalRefunded: refundsByStatus.processed?.amount || 0,
+    },
   };
 };
@@ -0,0 +1,203 @@
+import connectDB from "../connection";
+import PaymentLink, {
+  IPaymentLink,
+  CreatePaymentLinkSchema,
+} from "../models/payment-link";
+import { IOrder } from "../models/order";
+import { createOrder } from "./orders";
+import { PayerFields, hasPayerFields } from "../../utils/payer-details";
+import { z } from "zod";
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+// Public representation of a payment link
+export const serializePaymentLink = (link: IPaymentLink) => ({
+  slug: link.slug,
+  title: link.title,
+  description: link.description,
+  merchantName: link.merchantName,
+  amountType: link.amountType,
+  amount: link.amount,
+  minAmount: link.minAmount,
+  maxAmount: link.maxAmount,
+  usageLimit: link.usageLimit,
+  usageCount: link.usageCount,
+  expiresAt: link.expiresAt,
+  payerFields: link.toObject().payerFields,
+  active: link.active,
+  paymentUrl: `/pay/${link.slug}`,
+  createdAt: link.createdAt,
+  updatedAt: link.updatedAt,
+});
+
+// Create a reusable payment link
+export const createPaymentLink = async (
+  linkData: z.input<typeof CreatePaymentLinkSchema>
+): Promise<IPaymentLink> => {
+  await ensureConnection();
+
+  const validatedData = CreatePaymentLinkSchema.parse(linkData);
+
+  const existing = await PaymentLink.findBySlug(validatedData.slug);
+  if (existing) {
+    throw new Error("Payment link slug is already in use");
+  }
+
+  return PaymentLink.create({
+    ...validatedData,
+    payerFields: hasPayerFields(validatedData.payerFields)
+      ? validatedData.payerFields
+      : undefined,
+  });
+};
+
+// Get payment links created by a merchant
+export const getPaymentLinksByUser = async (
+  createdBy: string
+): Promise<IPaymentLink[]> => {
+  await ensureConnection();
+
+  return PaymentLink.findByCreatedBy(createdBy);
+};
+
+// Get an active, usable payment link for the public pay page
+export const getUsablePaymentLink = async (
+  slug: string
+): Promise<IPaymentLink | null> => {
+  await ensureConnection();
+
+  const link = await PaymentLink.findBySlug(slug);
+  if (!link || !link.isUsable()) {
+    return null;
+  }
+
+  return link;
+};
+
+// Update a payment link owned by the merchant
+export const updatePaymentLink = async (
+  slug: string,
+  createdBy: string,
+  updates: {
+    title?: string;
+    description?: string;
+    usageLimit?: number | null;
+    expiresAt?: Date | null;
+    payerFields?: PayerFields | null;
+    active?: boolean;
+  }
+): Promise<IPaymentLink | null> => {
+  await ensureConnection();
+
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, 1> = {};
+
+  // A payer field configuration that asks for nothing is cleared
+  if (updates.payerFields && !hasPayerFields(updates.payerFields)) {
+    updates = { ...updates, payerFields: null };
+  }
+
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === undefined) continue;
+    if (value === null) {
+      $unset[key] = 1;
+    } else {
+      $set[key] = value;
+    }
+  }
+
+  return PaymentLink.findOneAndUpdate(
+    { slug, createdBy },
+    { $set, $unset },
+    { new: true, runValidators: true }
+  );
+};
+
+// Delete a payment link owned by the merchant; spawned orders are kept
+export const deletePaymentLink = async (
+  slug: string,
+  createdBy: string
+): Promise<boolean> => {
+  await ensureConnection();
+
+  const result = await PaymentLink.deleteOne({ slug, createdBy });
+  return result.deletedCount > 0;
+};
+
+// Spawn a fresh order from a payment link, reserving one use atomically
+export const createOrderFromPaymentLink = async (
+  slug: string,
+  requestedAmount: number | undefined,
+  options: {
+    ipAddress?: string;
+    userAgent?: string;
+    referrer?: string;
+  } = {}
+): Promise<IOrder> => {
+  await ensureConnection();
+
+  const link = await PaymentLink.findBySlug(slug);
+  if (!link) {
+    throw new Error("Payment link not found");
+  }
+
+  if (!link.isUsable()) {
+    throw new Error("Payment link is no longer available");
+  }
+
+  const amount =
+    link.amountType === "fixed" ? (link.amount as number) : requestedAmount;
+
+  if (amount === undefined || !link.isAmountAllowed(amount)) {
+    throw new Error(
+      `Amount must be between ${link.minAmount} and ${link.maxAmount}`
+    );
+  }
+
+  // Reserve a use so concurrent customers cannot exceed the usage cap
+  const now = new Date();
+  const reserved = await PaymentLink.findOneAndUpdate(
+    {
+      _id: link._id,
+      active: true,
+      $and: [
+        { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+        {
+          $or: [
+            { usageLimit: null },
+            { $expr: { $lt: ["$usageCount", "$usageLimit"] } },
+          ],
+        },
+      ],
+    },
+    { $inc: { usageCount: 1 } },
+    { new: true }
+  );
+
+  if (!reserved) {
+    throw new Error("Payment link is no longer available");
+  }
+
+  try {
+    return await createOrder(
+      {
+        amount,
+        merchantName: link.merchantName,
+        vpa: link.vpa,
+        createdBy: link.createdBy,
+        payerFields: link.toObject().payerFields,
+      },
+      { ...options, paymentLinkSlug: link.slug }
+    );
+  } catch (error) {
+    // Release the reserved use if the order could not be created
+    await PaymentLink.updateOne(
+      { _id: link._id },
+      { $inc: { usageCount: -1 } }
+    );
+    throw error;
+  }
+};
@@ -0,0 +1,51 @@
+import connectDB from "../connection";
+import RateLimitCounter from "../models/rate-limit-counter";
+import type { RateLimitStore } from "../../utils/rate-limiter";
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+const isDuplicateKeyError = (error: unknown) =>
+  (error as { code?: number })?.code === 11000;
+
+// Rate limit state shared by every instance through MongoDB
+export const mongoRateLimitStore: RateLimitStore = {
+  get: async (key) => {
+    await ensureConnection();
+
+    const counter = await RateLimitCounter.findLive(key);
+    return counter ? { state: counter.state, version: counter.version } : null;
+  },
+
+  compareAndSet: async (key, state, expectedVersion, expiresAt) => {
+    await ensureConnection();
+
+    const update = { $set: { state, expiresAt }, $inc: { version: 1 } };
+
+    if (expectedVersion !== null) {
+      const result = await RateLimitCounter.updateOne(
+        { key, version: expectedVersion, expiresAt: { $gt: new Date() } },
+        update
+      );
+      return result.modifiedCount === 1;
+    }
+
+    // First write, or replacing a counter the TTL monitor has not removed
+    // yet. A live counter fails the filter, so the upsert hits the unique key.
+    try {
+      await RateLimitCounter.updateOne(
+        { key, expiresAt: { $lte: new Date() } },
+        update,
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  },
+};
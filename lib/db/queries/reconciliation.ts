@@ -0,0 +1,244 @@
+import connectDB from "../connection";
+import Order, { IOrder } from "../models/order";
+import AuditLog from "../models/audit-log";
+import { updateOrderStatus } from "./orders";
+import { OrderVersionConflictError } from "../../utils/order-state-machine";
+import { SensitiveDataHandler } from "../../utils/encryption";
+import type { BankCredit } from "../../utils/bank-statement-parser";
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+export type ReconciliationDecision =
+  | "auto_completed"
+  | "flagged"
+  | "already_completed"
+  | "unmatched";
+
+export type ReconciliationFlag =
+  | "amount_mismatch"
+  | "ambiguous_utr"
+  | "duplicate_credit"
+  | "order_changed"
+  | "utr_not_found";
+
+export interface ReconciliationResult {
+  line: number;
+  amount: number;
+  utr?: string;
+  vpa?: string;
+  timestamp?: Date;
+  decision: ReconciliationDecision;
+  flag?: ReconciliationFlag;
+  orderIds: string[];
+}
+
+export interface ReconciliationSummary {
+  totalCredits: number;
+  autoCompleted: number;
+  flagged: number;
+  alreadyCompleted: number;
+  unmatched: number;
+  results: ReconciliationResult[];
+}
+
+const amountsMatch = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+// Match bank statement credits to orders and settle exact matches
+export const reconcileBankCredits = async (
+  credits: BankCredit[],
+  performedBy: string,
+  options: {
+    fileName?: string;
+    ipAddress?: string;
+    userAgent?: string;
+  } = {}
+): Promise<ReconciliationSummary> => {
+  await ensureConnection();
+
+  const amounts = [...new Set(credits.map((credit) => credit.amount))];
+
+  // Orders awaiting verification are always candidates; completed orders
+  // are only loaded for the statement amounts to detect repeated imports
+  const candidates = await Order.find({
+    utr: { $exists: true, $ne: null },
+    $or: [
+      { status: "pending-verification" },
+      { status: "completed", amount: { $in: amounts } },
+    ],
+  });
+
+  const ordersByUTR = new Map<string, IOrder[]>();
+  for (const order of candidates) {
+    // Read through the document, so already decrypted
+    const utr = order.utr?.toUpperCase();
+    if (!utr) continue;
+    ordersByUTR.set(utr, [...(ordersByUTR.get(utr) || []), order]);
+  }
+
+  const settledOrderIds = new Set<string>();
+  const results: ReconciliationResult[] = [];
+
+  const auditContext = {
+    source: "bank_statement",
+    fileName: options.fileName,
+  };
+
+  const flagOrders = async (
+    orders: IOrder[],
+    credit: BankCredit,
+    flag: ReconciliationFlag
+  ) => {
+    for (const order of orders) {
+      await AuditLog.logAction("order_status_updated", "order", performedBy, {
+        entityId: order.orderId,
+        details: {
+          ...auditContext,
+          oldStatus: order.status,
+          newStatus: order.status,
+          reason: `reconciliation_flagged:${flag}`,
+          decision: "flagged",
+          creditAmount: credit.amount,
+          creditUTR: credit.utr && SensitiveDataHandler.maskUTR(credit.utr),
+          statementLine: credit.line,
+        },
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent,
+      });
+    }
+  };
+
+  for (const credit of credits) {
+    const base = {
+      line: credit.line,
+      amount: credit.amount,
+      utr: credit.utr && SensitiveDataHandler.maskUTR(credit.utr),
+      vpa: credit.vpa,
+      timestamp: credit.timestamp,
+    };
+
+    const utrMatches = credit.utr
+      ? ordersByUTR.get(credit.utr.toUpperCase()) || []
+      : [];
+
+    if (utrMatches.length > 1) {
+      await flagOrders(utrMatches, credit, "ambiguous_utr");
+      results.push({
+        ...base,
+        decision: "flagged",
+        flag: "ambiguous_utr",
+        orderIds: utrMatches.map((order) => order.orderId),
+      });
+      continue;
+    }
+
+    if (utrMatches.length === 1) {
+      const [order] = utrMatches;
+
+      if (settledOrderIds.has(order.orderId)) {
+        await flagOrders([order], credit, "duplicate_credit");
+        results.push({
+          ...base,
+          decision: "flagged",
+          flag: "duplicate_credit",
+          orderIds: [order.orderId],
+        });
+        continue;
+      }
+
+      if (order.status === "completed") {
+        results.push({
+          ...base,
+          decision: "already_completed",
+          orderIds: [order.orderId],
+        });
+        continue;
+      }
+
+      if (!amountsMatch(order.amount, credit.amount)) {
+        await flagOrders([order], credit, "amount_mismatch");
+        results.push({
+          ...base,
+          decision: "flagged",
+          flag: "amount_mismatch",
+          orderIds: [order.orderId],
+        });
+        continue;
+      }
+
+      try {
+        await updateOrderStatus(
+          order.orderId,
+          "completed",
+          performedBy,
+          "Bank statement reconciliation - exact UTR and amount match",
+          {
+            ...auditContext,
+            decision: "auto_completed",
+            creditAmount: credit.amount,
+            statementLine: credit.line,
+          },
+          order.__v
+        );
+      } catch (error) {
+        // Changed since it was matched (e.g. an admin rejected it); leave
+        // the decision to a person
+        if (!(error instanceof OrderVersionConflictError)) {
+          throw error;
+        }
+
+        await flagOrders([order], credit, "order_changed");
+        results.push({
+          ...base,
+          decision: "flagged",
+          flag: "order_changed",
+          orderIds: [order.orderId],
+        });
+        continue;
+      }
+      settledOrderIds.add(order.orderId);
+
+      results.push({
+        ...base,
+        decision: "auto_completed",
+        orderIds: [order.orderId],
+      });
+      continue;
+    }
+
+    // No UTR match - surface same-amount orders for manual review
+    const amountMatches = candidates.filter(
+      (order) =>
+        order.status === "pending-verification" &&
+        !settledOrderIds.has(order.orderId) &&
+        amountsMatch(order.amount, credit.amount)
+    );
+
+    if (amountMatches.length > 0) {
+      await flagOrders(amountMatches, credit, "utr_not_found");
+      results.push({
+        ...base,
+        decision: "flagged",
+        flag: "utr_not_found",
+        orderIds: amountMatches.map((order) => order.orderId),
+      });
+      continue;
+    }
+
+    results.push({ ...base, decision: "unmatched", orderIds: [] });
+  }
+
+  const count = (decision: ReconciliationDecision) =>
+    results.filter((result) => result.decision === decision).length;
+
+  return {
+    totalCredits: credits.length,
+    autoCompleted: count("auto_completed"),
+    flagged: count("flagged"),
+    alreadyCompleted: count("already_completed"),
+    unmatched: count("unmatched"),
+    results,
+  };
+};
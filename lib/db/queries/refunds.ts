@@ -0,0 +1,339 @@
+import connectDB from "../connection";
+import Order from "../models/order";
+import Refund, { IRefund, CreateRefundSchema } from "../models/refund";
+import AuditLog from "../models/audit-log";
+import { transitionOrder } from "./orders";
+import { OrderVersionConflictError } from "../../utils/order-state-machine";
+import { z } from "zod";
+
+const MAX_STATUS_UPDATE_ATTEMPTS = 5;
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+const generateRefundId = () =>
+  `RFD${Date.now()}${Math.random().toString(36).substr(2, 5).toUpperCase()}`;
+
+// Orders that never had a refund reserved start from the refunds already
+// requested or processed against them. Reservations only apply once the
+// amount exists, so nothing reserved can be counted twice.
+const ensureRefundReservation = async (orderId: string): Promise<void> => {
+  const unset = { orderId, refundReservedAmount: { $exists: false } };
+  if (!(await Order.exists(unset))) {
+    return;
+  }
+
+  const committedAmount = await Refund.getCommittedAmount(orderId);
+  await Order.updateOne(unset, {
+    $set: { refundReservedAmount: committedAmount },
+  });
+};
+
+const releaseRefundReservation = async (orderId: string, amount: number) => {
+  await Order.updateOne(
+    { orderId, refundReservedAmount: { $exists: true } },
+    { $inc: { refundReservedAmount: -amount } }
+  );
+};
+
+// Request a full or partial refund for a paid order
+export const createRefund = async (
+  refundData: z.infer<typeof CreateRefundSchema>,
+  options: {
+    ipAddress?: string;
+    userAgent?: string;
+  } = {}
+): Promise<IRefund> => {
+  await ensureConnection();
+
+  const validatedData = CreateRefundSchema.parse(refundData);
+
+  const order = await Order.findByOrderId(validatedData.orderId);
+  if (!order) {
+    throw new Error("Order not found");
+  }
+
+  if (!order.canRefund()) {
+    throw new Error("Order cannot be refunded in its current status");
+  }
+
+  await ensureRefundReservation(order.orderId);
+
+  // Reserve the amount against the order in the same update that checks the
+  // balance, so concurrent requests can't both pass the check
+  const reserved = await Order.findOneAndUpdate(
+    {
+      orderId: order.orderId,
+      status: { $in: ["completed", "partially-refunded"] },
+      $expr: {
+        $lte: [
+          { $add: ["$refundReservedAmount", validatedData.amount] },
+          "$amount",
+        ],
+      },
+    },
+    { $inc: { refundReservedAmount: validatedData.amount } },
+    { new: true }
+  );
+
+  if (!reserved) {
+    const current = await Order.findByOrderId(order.orderId);
+    if (!current?.canRefund()) {
+      throw new Error("Order cannot be refunded in its current status");
+    }
+
+    const refundableAmount =
+      current.amount - (current.refundReservedAmount || 0);
+    throw new Error(
+      `Refund amount exceeds refundable balance of ${refundableAmount}`
+    );
+  }
+
+  let refund: IRefund;
+  try {
+    refund = await Refund.create({
+      refundId: generateRefundId(),
+      ...validatedData,
+    });
+  } catch (error) {
+    await releaseRefundReservation(order.orderId, validatedData.amount);
+    throw error;
+  }
+
+  await AuditLog.logAction(
+    "refund_requested",
+    "order",
+    validatedData.requestedBy,
+    {
+      entityId: order.orderId,
+      details: {
+        refundId: refund.refundId,
+        amount: refund.amount,
+        reason: refund.reason,
+        orderAmount: order.amount,
+      },
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent,
+    }
+  );
+
+  return refund;
+};
+
+// Settle a refund only while it is still requested, in one atomic update,
+// so a double-clicked or concurrent settle can't apply twice
+const claimRequestedRefund = async (
+  refundId: string,
+  update: Partial<IRefund>
+): Promise<IRefund> => {
+  const refund = await Refund.findOneAndUpdate(
+    { refundId, status: "requested" },
+    { $set: update },
+    { new: true, runValidators: true }
+  );
+  if (refund) {
+    return refund;
+  }
+
+  const existing = await Refund.findByRefundId(refundId);
+  if (!existing) {
+    throw new Error("Refund not found");
+  }
+
+  throw new Error(`Refund is already ${existing.status}`);
+};
+
+// Mark a requested refund as paid out and move the order to a refund status
+export const processRefund = async (
+  refundId: string,
+  refundUtr: string,
+  processedBy: string,
+  options: {
+    ipAddress?: string;
+    userAgent?: string;
+  } = {}
+): Promise<IRefund> => {
+  await ensureConnection();
+
+  const refund = await claimRequestedRefund(refundId, {
+    status: "processed",
+    refundUtr,
+    processedBy,
+    processedAt: new Date(),
+  });
+
+  // The balance check is part of the increment, so settled refunds can
+  // never add up to more than the order amount
+  const order = await Order.findOneAndUpdate(
+    {
+      orderId: refund.orderId,
+      $expr: {
+        $lte: [
+          { $add: [{ $ifNull: ["$refundedAmount", 0] }, refund.amount] },
+          "$amount",
+        ],
+      },
+    },
+    // Bump the version too so copies loaded before the refund go stale
+    { $inc: { refundedAmount: refund.amount, __v: 1 } },
+    { new: true }
+  );
+
+  if (!order) {
+    await Refund.updateOne(
+      { refundId, status: "processed" },
+      {
+        $set: { status: "requested" },
+        $unset: { refundUtr: "", processedBy: "", processedAt: "" },
+      }
+    );
+
+    const exists = await Order.exists({ orderId: refund.orderId });
+    throw new Error(
+      exists
+        ? "Refund amount exceeds the order's unrefunded balance"
+        : "Order not found"
+    );
+  }
+
+  await AuditLog.logAction("refund_processed", "order", processedBy, {
+    entityId: order.orderId,
+    details: {
+      refundId,
+      amount: refund.amount,
+      refundUtr,
+      refundedAmount: order.refundedAmount,
+    },
+    ipAddress: options.ipAddress,
+    userAgent: options.userAgent,
+  });
+
+  await settleRefundStatus(order.orderId, processedBy, refundId);
+
+  return refund;
+};
+
+// Move the order to the refund status matching its refunded amount. Another
+// refund settling at the same time bumps the version, so reload and retry.
+const settleRefundStatus = async (
+  orderId: string,
+  processedBy: string,
+  refundId: string
+): Promise<void> => {
+  for (let attempt = 1; ; attempt += 1) {
+    const order = await Order.findByOrderId(orderId);
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    // A refund settled alongside this one already finished the order
+    if (order.status === "refunded") {
+      return;
+    }
+
+    const newStatus =
+      order.refundedAmount >= order.amount ? "refunded" : "partially-refunded";
+
+    try {
+      await transitionOrder(order, newStatus, {
+        actor: "admin",
+        performedBy: processedBy,
+        reason: "refund_processed",
+        auditDetails: { refundId, refundedAmount: order.refundedAmount },
+      });
+      return;
+    } catch (error) {
+      if (
+        !(error instanceof OrderVersionConflictError) ||
+        attempt >= MAX_STATUS_UPDATE_ATTEMPTS
+      ) {
+        throw error;
+      }
+    }
+  }
+};
+
+// Reject a requested refund; the order is left untouched
+export const rejectRefund = async (
+  refundId: string,
+  rejectionReason: string,
+  processedBy: string,
+  options: {
+    ipAddress?: string;
+    userAgent?: string;
+  } = {}
+): Promise<IRefund> => {
+  await ensureConnection();
+
+  const requested = await Refund.findByRefundId(refundId);
+  if (requested?.status === "requested") {
+    // Counted before the claim so the release below applies to it
+    await ensureRefundReservation(requested.orderId);
+  }
+
+  const refund = await claimRequestedRefund(refundId, {
+    status: "rejected",
+    rejectionReason,
+    processedBy,
+    processedAt: new Date(),
+  });
+  await releaseRefundReservation(refund.orderId, refund.amount);
+
+  await AuditLog.logAction("refund_rejected", "order", processedBy, {
+    entityId: refund.orderId,
+    details: {
+      refundId,
+      amount: refund.amount,
+      rejectionReason,
+    },
+    ipAddress: options.ipAddress,
+    userAgent: options.userAgent,
+  });
+
+  return refund;
+};
+
+// Get refunds for a single order
+export const getRefundsByOrder = async (orderId: string): Promise<IRefund[]> => {
+  await ensureConnection();
+
+  return Refund.findByOrderId(orderId);
+};
+
+// Get all refunds (admin function) with pagination and filtering
+export const getAllRefunds = async (
+  options: {
+    status?: IRefund["status"];
+    orderId?: string;
+    page?: number;
+    limit?: number;
+  } = {}
+): Promise<{
+  refunds: IRefund[];
+  total: number;
+  page: number;
+  totalPages: number;
+}> => {
+  await ensureConnection();
+
+  const { status, orderId, page = 1, limit = 50 } = options;
+  const skip = (page - 1) * limit;
+
+  const query: any = {};
+  if (status) query.status = status;
+  if (orderId) query.orderId = orderId;
+
+  const [refunds, total] = await Promise.all([
+    Refund.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit),
+    Refund.countDocuments(query),
+  ]);
+
+  return {
+    refunds,
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+  };
+};
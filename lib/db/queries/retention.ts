@@ -0,0 +1,330 @@
+import { Model } from "mongoose";
+import { z } from "zod";
+import connectDB from "../connection";
+import RetentionRule, {
+  IRetentionRule,
+  RetentionCriteriaSchema,
+  RetentionRuleSchema,
+} from "../models/retention-rule";
+import Order from "../models/order";
+import AuditLog from "../models/audit-log";
+import UserSession from "../models/user-session";
+import {
+  buildAnonymizeUpdate,
+  buildAuditPruneUpdate,
+  buildRetentionFilter,
+  describeRetentionRule,
+  getRetentionCutoff,
+  RETENTION_AGE_FIELDS,
+  RetentionCriteria,
+  RetentionEntity,
+} from "../../utils/retention";
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+// Records listed in a dry run
+const PREVIEW_SAMPLE_SIZE = 10;
+
+const RETENTION_MODELS: Record<RetentionEntity, Model<any>> = {
+  orders: Order,
+  auditLogs: AuditLog,
+  sessions: UserSession,
+};
+
+// Field identifying a record in previews
+const RETENTION_ID_FIELDS: Record<RetentionEntity, string> = {
+  orders: "orderId",
+  auditLogs: "_id",
+  sessions: "sessionId",
+};
+
+type RetentionRuleInput = z.input<typeof RetentionRuleSchema>;
+
+interface RequestMetadata {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// What admins see about a rule
+export const serializeRetentionRule = (rule: IRetentionRule) => ({
+  id: String(rule._id),
+  name: rule.name,
+  entity: rule.entity,
+  statuses: rule.statuses,
+  actions: rule.actions,
+  olderThanDays: rule.olderThanDays,
+  mode: rule.mode,
+  enabled: rule.enabled,
+  description: describeRetentionRule(rule),
+  lastRun: rule.lastRun
+    ? {
+        ranAt: rule.lastRun.ranAt,
+        ranBy: rule.lastRun.ranBy,
+        affected: rule.lastRun.affected,
+      }
+    : undefined,
+  createdBy: rule.createdBy,
+  updatedBy: rule.updatedBy,
+  createdAt: rule.createdAt,
+  updatedAt: rule.updatedAt,
+});
+
+const ruleSnapshot = (rule: IRetentionRule) => ({
+  name: rule.name,
+  entity: rule.entity,
+  statuses: rule.statuses,
+  actions: rule.actions,
+  olderThanDays: rule.olderThanDays,
+  mode: rule.mode,
+  enabled: rule.enabled,
+});
+
+// Rule changes show up in the settings history
+const logRuleChange = async (
+  ruleId: string,
+  change: { old?: object; new?: object },
+  userId: string,
+  metadata: RequestMetadata
+) => {
+  await AuditLog.logAction("settings_updated", "settings", userId, {
+    entityId: ruleId,
+    details: { retentionRule: change },
+    ipAddress: metadata.ipAddress,
+    userAgent: metadata.userAgent,
+  });
+};
+
+// All retention rules, oldest first
+export const getRetentionRules = async (): Promise<IRetentionRule[]> => {
+  await ensureConnection();
+
+  return RetentionRule.find().sort({ createdAt: 1 });
+};
+
+// Add a retention rule
+export const createRetentionRule = async (
+  input: RetentionRuleInput,
+  createdBy: string,
+  metadata: RequestMetadata = {}
+): Promise<IRetentionRule> => {
+  await ensureConnection();
+
+  const validatedData = RetentionRuleSchema.parse(input);
+  const rule = await RetentionRule.create({
+    ...validatedData,
+    createdBy,
+    updatedBy: createdBy,
+  });
+
+  await logRuleChange(
+    String(rule._id),
+    { new: ruleSnapshot(rule) },
+    createdBy,
+    metadata
+  );
+
+  return rule;
+};
+
+// Replace a retention rule's settings
+export const updateRetentionRule = async (
+  ruleId: string,
+  input: RetentionRuleInput,
+  updatedBy: string,
+  metadata: RequestMetadata = {}
+): Promise<IRetentionRule | null> => {
+  await ensureConnection();
+
+  const validatedData = RetentionRuleSchema.parse(input);
+  const rule = await RetentionRule.findById(ruleId);
+  if (!rule) {
+    return null;
+  }
+
+  const old = ruleSnapshot(rule);
+  Object.assign(rule, validatedData, { updatedBy });
+  await rule.save();
+
+  await logRuleChange(
+    ruleId,
+    { old, new: ruleSnapshot(rule) },
+    updatedBy,
+    metadata
+  );
+
+  return rule;
+};
+
+// Remove a retention rule
+export const deleteRetentionRule = async (
+  ruleId: string,
+  deletedBy: string,
+  metadata: RequestMetadata = {}
+): Promise<boolean> => {
+  await ensureConnection();
+
+  const rule = await RetentionRule.findByIdAndDelete(ruleId);
+  if (!rule) {
+    return false;
+  }
+
+  await logRuleChange(ruleId, { old: ruleSnapshot(rule) }, deletedBy, metadata);
+  return true;
+};
+
+// Dry run: what a rule would affect right now, without changing anything
+export const previewRetentionRule = async (
+  input: z.input<typeof RetentionCriteriaSchema>,
+  now: Date = new Date()
+) => {
+  await ensureConnection();
+
+  const criteria = RetentionCriteriaSchema.parse(input) as RetentionCriteria;
+  const model = RETENTION_MODELS[criteria.entity];
+  const filter = buildRetentionFilter(criteria, now);
+  const ageField = RETENTION_AGE_FIELDS[criteria.entity];
+  const idField = RETENTION_ID_FIELDS[criteria.entity];
+
+  const [matched, sample] = await Promise.all([
+    model.countDocuments(filter),
+    model
+      .find(filter)
+      .sort({ [ageField]: 1 })
+      .limit(PREVIEW_SAMPLE_SIZE)
+      .select({ [idField]: 1, [ageField]: 1 })
+      .lean<Array<Record<string, any>>>(),
+  ]);
+
+  return {
+    description: describeRetentionRule(criteria),
+    cutoff: getRetentionCutoff(criteria.olderThanDays, now),
+    matched,
+    sample: sample.map((record) => ({
+      id: String(record[idField]),
+      date: record[ageField] as Date,
+    })),
+  };
+};
+
+// Delete or anonymize what a rule matches
+const purge = async (criteria: RetentionCriteria, now: Date) => {
+  const model = RETENTION_MODELS[criteria.entity];
+  const filter = buildRetentionFilter(criteria, now);
+
+  // Audit entries go through redactEntries so the hash chain still verifies;
+  // only entries from before the chain are deleted outright
+  if (criteria.entity === "auditLogs") {
+    if (criteria.mode === "anonymize") {
+      return AuditLog.redactEntries(filter, () =>
+        buildAnonymizeUpdate("auditLogs")
+      );
+    }
+
+    const deleted = await AuditLog.deleteMany({
+      ...filter,
+      sequence: { $exists: false },
+    });
+    const pruned = await AuditLog.redactEntries(
+      { ...filter, sequence: { $exists: true } },
+      () => buildAuditPruneUpdate(now)
+    );
+    return (deleted.deletedCount || 0) + pruned;
+  }
+
+  if (criteria.mode === "delete") {
+    const result = await model.deleteMany(filter);
+    return result.deletedCount || 0;
+  }
+
+  const update = buildAnonymizeUpdate(criteria.entity);
+  const result = await model.updateMany(
+    filter,
+    // Bump the version so an order loaded before this can't write the
+    // stripped fields back
+    criteria.entity === "orders" ? { ...update, $inc: { __v: 1 } } : update
+  );
+  return result.modifiedCount || 0;
+};
+
+// Apply one rule now. `ranBy` is the admin's user ID, or "system" for the
+// scheduled job.
+export const applyRetentionRule = async (
+  rule: IRetentionRule,
+  ranBy: string,
+  metadata: RequestMetadata = {},
+  now: Date = new Date()
+): Promise<number> => {
+  await ensureConnection();
+
+  const affected = await purge(rule, now);
+
+  rule.lastRun = { ranAt: now, ranBy, affected };
+  await rule.save();
+
+  await AuditLog.logAction("data_purged", "settings", ranBy, {
+    entityId: String(rule._id),
+    details: {
+      rule: rule.name,
+      description: describeRetentionRule(rule),
+      entity: rule.entity,
+      mode: rule.mode,
+      cutoff: getRetentionCutoff(rule.olderThanDays, now),
+      affected,
+      trigger: ranBy === "system" ? "schedule" : "manual",
+    },
+    ipAddress: metadata.ipAddress,
+    userAgent: metadata.userAgent,
+  });
+
+  return affected;
+};
+
+// Apply a saved rule by ID
+export const runRetentionRule = async (
+  ruleId: string,
+  ranBy: string,
+  metadata: RequestMetadata = {}
+): Promise<{ rule: IRetentionRule; affected: number } | null> => {
+  await ensureConnection();
+
+  const rule = await RetentionRule.findById(ruleId);
+  if (!rule) {
+    return null;
+  }
+
+  const affected = await applyRetentionRule(rule, ranBy, metadata);
+  return { rule, affected };
+};
+
+// Apply every enabled rule (the scheduled job). A failing rule is reported
+// and the rest still run.
+export const runEnabledRetentionRules = async (now: Date = new Date()) => {
+  await ensureConnection();
+
+  const rules = await RetentionRule.findEnabled();
+  const results: {
+    ruleId: string;
+    name: string;
+    affected?: number;
+    error?: string;
+  }[] = [];
+
+  for (const rule of rules) {
+    try {
+      const affected = await applyRetentionRule(rule, "system", {}, now);
+      results.push({ ruleId: String(rule._id), name: rule.name, affected });
+    } catch (error) {
+      console.error(`Retention rule ${String(rule._id)} failed:`, error);
+      results.push({
+        ruleId: String(rule._id),
+        name: rule.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return results;
+};
@@ -5,6 +5,11 @@ import SystemSettings, {
 } from "../models/settings";
 import AuditLog from "../models/audit-log";
 import { z } from "zod";
+import { clearRateLimitPolicyCache } from "../../utils/rate-limiter";
+import {
+  DEFAULT_RATE_LIMIT_POLICIES,
+  RATE_LIMIT_POLICY_NAMES,
+} from "../../utils/rate-limit-policies";
 
 // Connect to database before operations
 const ensureConnection = async () => {
@@ -34,6 +39,8 @@ export const updateSystemSettings = async (
     timerDuration: currentSettings.timerDuration,
     staticUpiId: currentSettings.staticUpiId,
     enabledUpiApps: { ...currentSettings.enabledUpiApps },
+    allowLegacyPaymentUrls: currentSettings.allowLegacyPaymentUrls,
+    rateLimitPolicies: currentSettings.toObject().rateLimitPolicies,
   };
 
   // Validate updates
@@ -45,6 +52,10 @@ export const updateSystemSettings = async (
     updatedBy
   );
 
+  if (validatedUpdates.rateLimitPolicies) {
+    clearRateLimitPolicyCache();
+  }
+
   // Prepare audit details
   const auditDetails: Record<string, any> = {};
 
@@ -68,6 +79,35 @@ export const updateSystemSettings = async (
     };
   }
 
+  if (
+    validatedUpdates.allowLegacyPaymentUrls !== undefined &&
+    validatedUpdates.allowLegacyPaymentUrls !== oldValues.allowLegacyPaymentUrls
+  ) {
+    auditDetails.allowLegacyPaymentUrls = {
+      old: oldValues.allowLegacyPaymentUrls,
+      new: validatedUpdates.allowLegacyPaymentUrls,
+    };
+  }
+
+  if (validatedUpdates.rateLimitPolicies) {
+    const policyChanges: Record<string, any> = {};
+    RATE_LIMIT_POLICY_NAMES.forEach((name) => {
+      const oldPolicy = oldValues.rateLimitPolicies?.[name];
+      const newPolicy = validatedUpdates.rateLimitPolicies![name];
+
+      if (JSON.stringify(oldPolicy) !== JSON.stringify(newPolicy)) {
+        policyChanges[name] = {
+          old: oldPolicy,
+          new: newPolicy,
+        };
+      }
+    });
+
+    if (Object.keys(policyChanges).length > 0) {
+      auditDetails.rateLimitPolicies = policyChanges;
+    }
+  }
+
   if (validatedUpdates.enabledUpiApps) {
     const upiAppChanges: Record<string, any> = {};
     Object.keys(validatedUpdates.enabledUpiApps).forEach((app) => {
@@ -193,6 +233,8 @@ export const resetSettingsToDefaults = async (
       paytm: true,
       bhim: true,
     },
+    allowLegacyPaymentUrls: false,
+    rateLimitPolicies: DEFAULT_RATE_LIMIT_POLICIES,
   };
 
   return await updateSystemSettings(defaultSettings, updatedBy, options);
@@ -0,0 +1,245 @@
+import connectDB from "../connection";
+import UserSession, {
+  IUserSession,
+  MAX_SESSIONS_PER_USER,
+  SESSION_IDLE_TIMEOUT_MS,
+  SessionEndReason,
+} from "../models/user-session";
+import AuditLog from "../models/audit-log";
+import { describeDevice } from "../../utils/user-agent";
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+// Last activity is only rewritten this often, not on every request
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+const isDuplicateKeyError = (error: unknown) =>
+  (error as { code?: number })?.code === 11000;
+
+// What users and admins see about a session
+export const serializeUserSession = (
+  session: IUserSession,
+  currentSessionId?: string | null
+) => ({
+  id: session.sessionId,
+  device: session.device,
+  ipAddress: session.ipAddress,
+  lastActivityAt: session.lastActivityAt,
+  createdAt: session.createdAt,
+  current: session.sessionId === currentSessionId,
+});
+
+export type SessionActivityResult =
+  | {
+      outcome: "active";
+      session: IUserSession;
+      // Older sessions ended to stay within MAX_SESSIONS_PER_USER
+      endedSessionIds: string[];
+    }
+  | { outcome: "ended"; session: IUserSession };
+
+interface EndSessionOptions {
+  reason: SessionEndReason;
+  // User ID of whoever is ending the session, or "system"
+  revokedBy: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Mark sessions ended and write a logout audit entry for each one this call
+// actually ended
+const endSessions = async (
+  sessions: IUserSession[],
+  options: EndSessionOptions
+): Promise<IUserSession[]> => {
+  const ended: IUserSession[] = [];
+
+  for (const session of sessions) {
+    const revokedAt = new Date();
+    const result = await UserSession.updateOne(
+      { _id: session._id, revokedAt: { $exists: false } },
+      {
+        $set: {
+          revokedAt,
+          revokedBy: options.revokedBy,
+          revokeReason: options.reason,
+        },
+      }
+    );
+    if (result.modifiedCount === 0) {
+      continue;
+    }
+
+    session.revokedAt = revokedAt;
+    session.revokedBy = options.revokedBy;
+    session.revokeReason = options.reason;
+    ended.push(session);
+
+    await AuditLog.logAction("logout", "auth", options.revokedBy, {
+      entityId: session.sessionId,
+      details: {
+        userId: session.userId,
+        reason: options.reason,
+        device: session.device,
+        sessionIpAddress: session.ipAddress,
+      },
+      ipAddress: options.ipAddress,
+      userAgent: options.userAgent,
+    });
+  }
+
+  return ended;
+};
+
+// Register a request against its session: creates the record on first
+// sight, refreshes last activity, and ends sessions that have gone idle
+export const recordSessionActivity = async (
+  activity: {
+    sessionId: string;
+    userId: string;
+    role: string;
+    ipAddress: string;
+    userAgent: string;
+  },
+  now: Date = new Date()
+): Promise<SessionActivityResult> => {
+  await ensureConnection();
+
+  const device = describeDevice(activity.userAgent);
+  let session = await UserSession.findBySessionId(activity.sessionId);
+
+  if (session) {
+    if (session.revokedAt) {
+      return { outcome: "ended", session };
+    }
+
+    if (session.isIdle(now)) {
+      await endSessions([session], {
+        reason: "idle_timeout",
+        revokedBy: "system",
+      });
+      return { outcome: "ended", session };
+    }
+
+    if (
+      now.getTime() - session.lastActivityAt.getTime() >
+        ACTIVITY_WRITE_INTERVAL_MS ||
+      session.ipAddress !== activity.ipAddress
+    ) {
+      Object.assign(session, {
+        role: activity.role,
+        ipAddress: activity.ipAddress,
+        userAgent: activity.userAgent,
+        device,
+        lastActivityAt: now,
+      });
+      await session.save();
+    }
+
+    return { outcome: "active", session, endedSessionIds: [] };
+  }
+
+  try {
+    session = await UserSession.create({
+      ...activity,
+      device,
+      lastActivityAt: now,
+    });
+  } catch (error) {
+    // Another request registered the session first
+    if (isDuplicateKeyError(error)) {
+      return recordSessionActivity(activity, now);
+    }
+    throw error;
+  }
+
+  // A new sign-in past the limit ends the least recently used sessions
+  const activeSessions = await UserSession.findActiveForUser(activity.userId);
+  const ended = await endSessions(
+    activeSessions
+      .filter((active) => active.sessionId !== activity.sessionId)
+      .slice(MAX_SESSIONS_PER_USER - 1),
+    { reason: "session_limit", revokedBy: "system" }
+  );
+
+  return {
+    outcome: "active",
+    session,
+    endedSessionIds: ended.map((endedSession) => endedSession.sessionId),
+  };
+};
+
+// A user's signed-in sessions, most recently used first
+export const getActiveUserSessions = async (
+  userId: string
+): Promise<IUserSession[]> => {
+  await ensureConnection();
+
+  return UserSession.findActiveForUser(userId);
+};
+
+// End one session. Pass `userId` to only match that user's sessions.
+export const revokeUserSession = async (
+  sessionId: string,
+  options: EndSessionOptions & { userId?: string }
+): Promise<IUserSession> => {
+  await ensureConnection();
+
+  const session = await UserSession.findBySessionId(sessionId);
+  if (!session || (options.userId && session.userId !== options.userId)) {
+    throw new Error("Session not found");
+  }
+
+  if (!session.isActive()) {
+    throw new Error("Session has already ended");
+  }
+
+  await endSessions([session], options);
+  return session;
+};
+
+// End every active session of a user, optionally keeping the caller's own
+export const revokeUserSessions = async (
+  userId: string,
+  options: EndSessionOptions & { exceptSessionId?: string }
+): Promise<IUserSession[]> => {
+  await ensureConnection();
+
+  const sessions = await UserSession.findActiveForUser(userId);
+  return endSessions(
+    sessions.filter((session) => session.sessionId !== options.exceptSessionId),
+    options
+  );
+};
+
+// Active session counts for monitoring
+export const getSessionStats = async (): Promise<{
+  totalSessions: number;
+  activeUsers: number;
+  sessionsByRole: Record<string, number>;
+}> => {
+  await ensureConnection();
+
+  const sessions = await UserSession.find({
+    revokedAt: { $exists: false },
+    lastActivityAt: {
+      $gt: new Date(Date.now() - SESSION_IDLE_TIMEOUT_MS),
+    },
+  })
+    .select("userId role")
+    .lean();
+
+  const sessionsByRole: Record<string, number> = {};
+  for (const session of sessions) {
+    sessionsByRole[session.role] = (sessionsByRole[session.role] || 0) + 1;
+  }
+
+  return {
+    totalSessions: sessions.length,
+    activeUsers: new Set(sessions.map((session) => session.userId)).size,
+    sessionsByRole,
+  };
+};
@@ -0,0 +1,289 @@
+import crypto from "crypto";
+import connectDB from "../connection";
+import WebhookEndpoint, {
+  IWebhookEndpoint,
+  CreateWebhookEndpointSchema,
+  WebhookEvent,
+} from "../models/webhook-endpoint";
+import WebhookDelivery, { IWebhookDelivery } from "../models/webhook-delivery";
+import type { IOrder } from "../models/order";
+import {
+  checkWebhookDestination,
+  deliverWebhook,
+  generateWebhookSecret,
+} from "../../utils/webhooks";
+import { ValidationError } from "../../utils/api-errors";
+import { SensitiveDataHandler } from "../../utils/encryption";
+import { orderEventBus } from "../../utils/order-events";
+import type { RetryOptions } from "../../utils/network-handler";
+import { z } from "zod";
+
+// Connect to database before operations
+const ensureConnection = async () => {
+  await connectDB();
+};
+
+// Order status changes that merchants can subscribe to
+const STATUS_EVENTS: Partial<Record<IOrder["status"], WebhookEvent>> = {
+  "pending-verification": "order.utr_submitted",
+  completed: "order.completed",
+  expired: "order.expired",
+  failed: "order.failed",
+};
+
+export const getWebhookEventForStatus = (
+  status: IOrder["status"]
+): WebhookEvent | undefined => STATUS_EVENTS[status];
+
+const buildOrderEventPayload = async (event: WebhookEvent, order: IOrder) => ({
+  id: `evt_${crypto.randomBytes(12).toString("hex")}`,
+  event,
+  createdAt: new Date().toISOString(),
+  data: {
+    orderId: order.orderId,
+    status: order.status,
+    amount: order.amount,
+    merchantName: order.merchantName,
+    vpa: order.vpa,
+    // Payloads are kept in the delivery log, so the UTR is masked like on
+    // every other merchant-facing path
+    utr: order.utr && SensitiveDataHandler.maskUTR(order.utr),
+    paymentPageUrl: order.paymentPageUrl,
+    createdAt: order.createdAt,
+    expiresAt: order.expiresAt,
+  },
+});
+
+// Send a delivery and persist every attempt in the delivery log
+const executeDelivery = async (
+  delivery: IWebhookDelivery,
+  endpoint: IWebhookEndpoint,
+  retryOptions?: RetryOptions
+): Promise<IWebhookDelivery> => {
+  const result = await deliverWebhook(
+    endpoint.url,
+    endpoint.secret,
+    delivery.payload as { id: string; event: string },
+    retryOptions
+  );
+
+  delivery.attempts.push(...result.attempts);
+  delivery.status = result.success ? "delivered" : "failed";
+  delivery.responseStatus = result.responseStatus;
+  delivery.responseBody = result.responseBody;
+  delivery.lastError = result.error;
+  if (result.success) {
+    delivery.deliveredAt = new Date();
+  }
+
+  await delivery.save();
+  return delivery;
+};
+
+// Public representation of an endpoint (never includes the secret)
+export const serializeWebhookEndpoint = (endpoint: IWebhookEndpoint) => ({
+  id: String(endpoint._id),
+  url: endpoint.url,
+  events: endpoint.events,
+  description: endpoint.description,
+  active: endpoint.active,
+  createdAt: endpoint.createdAt,
+  updatedAt: endpoint.updatedAt,
+});
+
+// Public representation of a delivery log entry
+export const serializeWebhookDelivery = (delivery: IWebhookDelivery) => ({
+  deliveryId: delivery.deliveryId,
+  event: delivery.event,
+  orderId: delivery.orderId,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  responseStatus: delivery.responseStatus,
+  responseBody: delivery.responseBody,
+  lastError: delivery.lastError,
+  deliveredAt: delivery.deliveredAt,
+  redeliveryOf: delivery.redeliveryOf,
+  createdAt: delivery.createdAt,
+});
+
+// Reject URLs whose host resolves to an address the server must not POST to
+const assertPublicWebhookUrl = async (url: string): Promise<void> => {
+  const problem = await checkWebhookDestination(url).catch(
+    () => `Webhook URL host ${new URL(url).hostname} could not be resolved`
+  );
+
+  if (problem) {
+    throw new ValidationError(problem);
+  }
+};
+
+// Register a webhook endpoint; the secret is stored encrypted and only
+// returned here
+export const createWebhookEndpoint = async (
+  endpointData: z.input<typeof CreateWebhookEndpointSchema>
+): Promise<{ endpoint: IWebhookEndpoint; secret: string }> => {
+  await ensureConnection();
+
+  const validatedData = CreateWebhookEndpointSchema.parse(endpointData);
+  await assertPublicWebhookUrl(validatedData.url);
+  const secret = validatedData.secret || generateWebhookSecret();
+
+  const endpoint = await WebhookEndpoint.create({
+    ...validatedData,
+    secret,
+  });
+
+  return { endpoint, secret };
+};
+
+// Get webhook endpoints registered by a merchant
+export const getWebhookEndpointsByUser = async (
+  createdBy: string
+): Promise<IWebhookEndpoint[]> => {
+  await ensureConnection();
+
+  return WebhookEndpoint.find({ createdBy }).sort({ createdAt: -1 });
+};
+
+// Update subscription settings of an endpoint owned by the merchant
+export const updateWebhookEndpoint = async (
+  endpointId: string,
+  createdBy: string,
+  updates: {
+    url?: string;
+    events?: WebhookEvent[];
+    description?: string;
+    active?: boolean;
+  }
+): Promise<IWebhookEndpoint | null> => {
+  await ensureConnection();
+
+  if (updates.url) {
+    await assertPublicWebhookUrl(updates.url);
+  }
+
+  return WebhookEndpoint.findOneAndUpdate(
+    { _id: endpointId, createdBy },
+    { $set: updates },
+    { new: true, runValidators: true }
+  );
+};
+
+// Delete an endpoint and its delivery log
+export const deleteWebhookEndpoint = async (
+  endpointId: string,
+  createdBy: string
+): Promise<boolean> => {
+  await ensureConnection();
+
+  const endpoint = await WebhookEndpoint.findOneAndDelete({
+    _id: endpointId,
+    createdBy,
+  });
+
+  if (!endpoint) {
+    return false;
+  }
+
+  await WebhookDelivery.deleteMany({ endpointId: endpoint._id });
+  return true;
+};
+
+// Get recent deliveries for an endpoint owned by the merchant
+export const getWebhookDeliveries = async (
+  endpointId: string,
+  createdBy: string,
+  limit: number = 50
+): Promise<IWebhookDelivery[] | null> => {
+  await ensureConnection();
+
+  const endpoint = await WebhookEndpoint.findOne({ _id: endpointId, createdBy });
+  if (!endpoint) {
+    return null;
+  }
+
+  return WebhookDelivery.getEndpointDeliveries(endpointId, limit);
+};
+
+// Queue an order event for every subscribed endpoint of the order's merchant.
+// Deliveries are persisted before returning; sending happens in the background
+// so retries never hold up the request that changed the order. Open
+// Server-Sent Event streams are notified first.
+export const emitOrderEvent = async (
+  event: WebhookEvent,
+  order: IOrder
+): Promise<void> => {
+  orderEventBus.publish({
+    event,
+    orderId: order.orderId,
+    status: order.status,
+    createdBy: order.createdBy,
+  });
+
+  try {
+    await ensureConnection();
+
+    const endpoints = await WebhookEndpoint.findActiveForEvent(
+      order.createdBy,
+      event
+    );
+
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const payload = await buildOrderEventPayload(event, order);
+
+    for (const endpoint of endpoints) {
+      const delivery = await WebhookDelivery.create({
+        deliveryId: `whd_${crypto.randomBytes(12).toString("hex")}`,
+        endpointId: endpoint._id,
+        event,
+        orderId: order.orderId,
+        payload,
+        createdBy: order.createdBy,
+      });
+
+      executeDelivery(delivery, endpoint).catch((error) => {
+        console.error(`Webhook delivery ${delivery.deliveryId} failed:`, error);
+      });
+    }
+  } catch (error) {
+    // Webhooks must never break order processing
+    console.error(`Failed to emit ${event} webhook:`, error);
+  }
+};
+
+// Manually resend a delivery with the original payload (single attempt)
+export const redeliverWebhook = async (
+  deliveryId: string,
+  createdBy: string
+): Promise<IWebhookDelivery | null> => {
+  await ensureConnection();
+
+  const original = await WebhookDelivery.findOne({ deliveryId, createdBy });
+  if (!original) {
+    return null;
+  }
+
+  const endpoint = await WebhookEndpoint.findOne({
+    _id: original.endpointId,
+    createdBy,
+  }).select("+secret");
+
+  if (!endpoint) {
+    return null;
+  }
+
+  const delivery = await WebhookDelivery.create({
+    deliveryId: `whd_${crypto.randomBytes(12).toString("hex")}`,
+    endpointId: endpoint._id,
+    event: original.event,
+    orderId: original.orderId,
+    payload: original.payload,
+    redeliveryOf: original.deliveryId,
+    createdBy,
+  });
+
+  return executeDelivery(delivery, endpoint, { maxRetries: 0 });
+};
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
 import {
   authenticateRequest,
   withAuth,
@@ -7,7 +8,11 @@ import {
   withAdmin,
 } from "@/lib/auth/safe-auth";
 import type { SafeUser, UserRole, Permission } from "@/lib/auth/types";
-import { withRateLimit, rateLimiters } from "@/lib/utils/rate-limiter";
+import {
+  rateLimiters,
+  rateLimitExceededResponse,
+  RateLimiter,
+} from "@/lib/utils/rate-limiter";
 import { withSessionManagement } from "@/lib/utils/session-manager";
 import { withCSRFProtection } from "@/lib/utils/csrf-protection";
 
@@ -18,6 +23,29 @@ export type RouteHandler = (
   context?: any
 ) => Promise<NextResponse | Response>;
 
+/**
+ * Count the request against a limiter, returning the 429 response when it is
+ * over the limit. Policies keyed by user need the Clerk user ID up front,
+ * since rate limiting runs before authentication.
+ */
+async function checkRateLimit(
+  request: NextRequest,
+  limiter: RateLimiter,
+  message?: string
+): Promise<NextResponse | null> {
+  let userId: string | null = null;
+  if ((await limiter.getPolicy()).keyBy === "user") {
+    try {
+      ({ userId } = await auth());
+    } catch {
+      // Signed-out callers are counted by IP
+    }
+  }
+
+  const result = await limiter.isAllowed(request, { userId });
+  return result.allowed ? null : rateLimitExceededResponse(result, message);
+}
+
 /**
  * Standard middleware wrapper with authentication, rate limiting, and security
  */
@@ -28,6 +56,8 @@ export function withStandardMiddleware(
     rateLimit?: boolean;
     csrf?: boolean;
     session?: boolean;
+    // Accept `Authorization: Bearer` API keys that grant this permission
+    apiKeyPermission?: Permission;
   } = {}
 ) {
   const {
@@ -35,39 +65,19 @@ export function withStandardMiddleware(
     rateLimit = true,
     csrf = false,
     session = true,
+    apiKeyPermission,
   } = options;
 
   return async (request: NextRequest, context?: any) => {
     try {
       // Apply rate limiting if enabled
       if (rateLimit) {
-        const rateLimitResult = await rateLimiters.general.isAllowed(request);
-        if (!rateLimitResult.allowed) {
-          return NextResponse.json(
-            {
-              error: "Rate limit exceeded",
-              message: "Too many requests. Please try again later.",
-              resetTime: rateLimitResult.resetTime,
-            },
-            {
-              status: 429,
-              headers: {
-                "X-RateLimit-Limit": "60",
-                "X-RateLimit-Remaining": rateLimitResult.remaining.toString(),
-                "X-RateLimit-Reset": rateLimitResult.resetTime.toString(),
-              },
-            }
-          );
+        const limited = await checkRateLimit(request, rateLimiters.general);
+        if (limited) {
+          return limited;
         }
       }
 
-      // Apply CSRF protection if enabled
-      if (csrf) {
-        return withCSRFProtection(request, async () => {
-          return executeHandler();
-        });
-      }
-
       return executeHandler();
 
       async function executeHandler(): Promise<NextResponse> {
@@ -85,12 +95,31 @@ export function withStandardMiddleware(
       async function executeAuthHandler(): Promise<NextResponse> {
         // Apply authentication if required
         if (requireAuth) {
-          const result = await withAuth(request, async (user) => {
-            // Add user to request context for the handler
-            (request as any).user = user;
-            const handlerResult = await handler(request, context);
-            return handlerResult;
-          });
+          const result = await withAuth(
+            request,
+            async (user) => {
+              if (
+                user.apiKey &&
+                !(
+                  apiKeyPermission &&
+                  user.permissions.includes(apiKeyPermission)
+                )
+              ) {
+                return NextResponse.json(
+                  {
+                    error: "API key does not have the required scope",
+                    code: "API_KEY_SCOPE_REQUIRED",
+                  },
+                  { status: 403 }
+                );
+              }
+
+              // Add user to request context for the handler
+              (request as any).user = user;
+              return runHandler();
+            },
+            { allowApiKey: !!apiKeyPermission }
+          );
           return result instanceof NextResponse ? result : NextResponse.json(result);
         }
 
@@ -100,9 +129,21 @@ export function withStandardMiddleware(
           (request as any).user = authResult.user;
         }
 
-        const result = await handler(request, context);
+        const result = await runHandler();
         return result instanceof NextResponse ? result : NextResponse.json(result);
       }
+
+      // CSRF is checked once the caller is known, since requests
+      // authenticated with an API key are exempt
+      async function runHandler(): Promise<Response> {
+        if (csrf) {
+          return withCSRFProtection(request, async () => {
+            return handler(request, context);
+          });
+        }
+
+        return handler(request, context);
+      }
     } catch (error) {
       console.error("Middleware error:", error);
       return NextResponse.json(
@@ -130,16 +171,13 @@ export function withAdminMiddleware(
     try {
       // Apply rate limiting
       if (rateLimit) {
-        const rateLimitResult = await rateLimiters.admin.isAllowed(request);
-        if (!rateLimitResult.allowed) {
-          return NextResponse.json(
-            {
-              error: "Rate limit exceeded",
-              message: "Too many admin requests. Please try again later.",
-              resetTime: rateLimitResult.resetTime,
-            },
-            { status: 429 }
-          );
+        const limited = await checkRateLimit(
+          request,
+          rateLimiters.admin,
+          "Too many admin requests. Please try again later."
+        );
+        if (limited) {
+          return limited;
         }
       }
 
@@ -200,16 +238,9 @@ export function withRoleMiddleware(
     try {
       // Apply rate limiting
       if (rateLimit) {
-        const rateLimitResult = await rateLimiters.general.isAllowed(request);
-        if (!rateLimitResult.allowed) {
-          return NextResponse.json(
-            {
-              error: "Rate limit exceeded",
-              message: "Too many requests. Please try again later.",
-              resetTime: rateLimitResult.resetTime,
-            },
-            { status: 429 }
-          );
+        const limited = await checkRateLimit(request, rateLimiters.general);
+        if (limited) {
+          return limited;
         }
       }
 
@@ -270,26 +301,12 @@ export function withPermissionMiddleware(
     try {
       // Apply rate limiting
       if (rateLimit) {
-        const rateLimitResult = await rateLimiters.general.isAllowed(request);
-        if (!rateLimitResult.allowed) {
-          return NextResponse.json(
-            {
-              error: "Rate limit exceeded",
-              message: "Too many requests. Please try again later.",
-              resetTime: rateLimitResult.resetTime,
-            },
-            { status: 429 }
-          );
+        const limited = await checkRateLimit(request, rateLimiters.general);
+        if (limited) {
+          return limited;
         }
       }
 
-      // Apply CSRF protection
-      if (csrf) {
-        return withCSRFProtection(request, async () => {
-          return executeHandler();
-        });
-      }
-
       return executeHandler();
 
       async function executeHandler(): Promise<NextResponse> {
@@ -298,8 +315,7 @@ export function withPermissionMiddleware(
           const result = await withSessionManagement(request, async () => {
             return withPermission(request, permission, async (user) => {
               (request as any).user = user;
-              const handlerResult = await handler(request, context);
-              return handlerResult;
+              return runHandler();
             });
           });
           return result instanceof NextResponse ? result : NextResponse.json(result);
@@ -307,11 +323,22 @@ export function withPermissionMiddleware(
 
         const result = await withPermission(request, permission, async (user) => {
           (request as any).user = user;
-          const handlerResult = await handler(request, context);
-          return handlerResult;
+          return runHandler();
         });
         return result instanceof NextResponse ? result : NextResponse.json(result);
       }
+
+      // Permission checks accept API keys, which are exempt from CSRF, so
+      // it is checked once the caller is known
+      async function runHandler(): Promise<Response> {
+        if (csrf) {
+          return withCSRFProtection(request, async () => {
+            return handler(request, context);
+          });
+        }
+
+        return handler(request, context);
+      }
     } catch (error) {
       console.error("Permission middleware error:", error);
       return NextResponse.json(
@@ -338,16 +365,9 @@ export function withPublicMiddleware(
     try {
       // Apply rate limiting
       if (rateLimit) {
-        const rateLimitResult = await rateLimiters.general.isAllowed(request);
-        if (!rateLimitResult.allowed) {
-          return NextResponse.json(
-            {
-              error: "Rate limit exceeded",
-              message: "Too many requests. Please try again later.",
-              resetTime: rateLimitResult.resetTime,
-            },
-            { status: 429 }
-          );
+        const limited = await checkRateLimit(request, rateLimiters.general);
+        if (limited) {
+          return limited;
         }
       }
 
@@ -0,0 +1,47 @@
+/**
+ * API Key Utilities
+ * Generates merchant API keys and reads them from Authorization headers.
+ * Only a SHA-256 hash of each key is stored; the key itself is shown once.
+ */
+
+import crypto from "crypto";
+
+export const API_KEY_PREFIX = "upk_";
+
+// Characters shown in the dashboard so merchants can tell keys apart
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+const API_KEY_PATTERN = /^upk_[A-Za-z0-9_-]{43}$/;
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function isApiKeyFormat(key: string): boolean {
+  return API_KEY_PATTERN.test(key);
+}
+
+/**
+ * Mint a new key, returning the secret alongside what gets persisted
+ */
+export function generateApiKey(): {
+  key: string;
+  prefix: string;
+  keyHash: string;
+} {
+  const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+
+  return {
+    key,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+  };
+}
+
+/**
+ * Extract the token from an `Authorization: Bearer <token>` header
+ */
+export function getBearerToken(headers: Headers): string | null {
+  const match = headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
@@ -0,0 +1,363 @@
+import crypto from "crypto";
+
+/**
+ * Audit Log Hash Chain
+ * Every audit entry carries a hash of its content and of the entry before
+ * it, so editing, removing or reordering entries breaks the chain:
+ *
+ *   contentDigest = sha256(salt + "\n" + canonical(entityId, userId,
+ *                                                  details, ipAddress,
+ *                                                  userAgent))
+ *   hash = sha256(canonical(sequence, prevHash, timestamp, action,
+ *                           entityType, contentDigest))
+ *
+ * Anonymizing an entry (retention, erasure requests) changes its content, so
+ * the original digest is kept as `redactedDigest` and the salt is dropped;
+ * the chain still verifies but the removed values can't be recovered by
+ * guessing. Each redaction is authorized by a later `audit_redacted` entry,
+ * itself chained, naming the sequence and a digest of what the entry holds
+ * afterwards; a `redactedDigest` without one is treated as tampering.
+ * Signed checkpoints pin the chain's head at a point in time and can be
+ * kept outside the database.
+ *
+ * scripts/verify-audit-chain.js re-implements this for the CLI; keep the two
+ * in step.
+ */
+
+// prevHash of the first entry
+export const AUDIT_CHAIN_GENESIS = "0".repeat(64);
+
+// Action of the entries that authorize redactions
+export const AUDIT_REDACTION_ACTION = "audit_redacted";
+
+// Redacted entries named by one authorizing entry, keeping it well under
+// MongoDB's document size limit
+export const MAX_REDACTIONS_PER_RECORD = 1000;
+
+export interface AuditChainContent {
+  entityId?: string;
+  userId?: string;
+  details?: Record<string, any>;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditChainEntry extends AuditChainContent {
+  _id?: unknown;
+  sequence: number;
+  prevHash: string;
+  hash: string;
+  salt?: string;
+  redactedDigest?: string;
+  timestamp: Date;
+  action: string;
+  entityType: string;
+}
+
+export interface AuditChainBreak {
+  sequence: number;
+  entryId?: string;
+  reason:
+    | "missing_entry"
+    | "broken_link"
+    | "content_mismatch"
+    | "checkpoint_mismatch"
+    | "bad_signature"
+    | "unauthorized_redaction";
+  message: string;
+}
+
+// One redacted entry, as named in an authorizing entry's details
+export interface AuditRedaction {
+  sequence: number;
+  digest: string;
+}
+
+// The latest authorization for each redacted sequence number
+export type AuditRedactions = Map<
+  number,
+  AuditRedaction & { recordSequence: number }
+>;
+
+export interface AuditCheckpointPayload {
+  sequence: number;
+  hash: string;
+  entryTimestamp: Date;
+  createdAt: Date;
+  keyId: string;
+}
+
+// Dates and ObjectIds become strings, missing, null and empty-object values
+// are dropped (Mongoose minimizes empty objects on save) and keys are sorted,
+// so a value hashes the same before and after a round trip through MongoDB
+const normalize = (value: any): any => {
+  if (value && typeof value.toJSON === "function") {
+    return normalize(value.toJSON());
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => (item === undefined ? null : normalize(item)));
+  }
+
+  if (value && typeof value === "object") {
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+      const item = normalize(value[key]);
+      const isEmptyObject =
+        item &&
+        typeof item === "object" &&
+        !Array.isArray(item) &&
+        Object.keys(item).length === 0;
+
+      if (item !== undefined && item !== null && !isEmptyObject) {
+        result[key] = item;
+      }
+    }
+    return result;
+  }
+
+  return value;
+};
+
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(normalize(value)) ?? "null";
+}
+
+const sha256 = (value: string) =>
+  crypto.createHash("sha256").update(value).digest("hex");
+
+export function auditContentOf(entry: AuditChainContent): AuditChainContent {
+  return {
+    entityId: entry.entityId,
+    userId: entry.userId,
+    details: entry.details,
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent,
+  };
+}
+
+export function hashAuditContent(
+  salt: string,
+  content: AuditChainContent
+): string {
+  return sha256(`${salt}\n${canonicalJson(auditContentOf(content))}`);
+}
+
+// Digest of what a redacted entry holds once redacted
+export function redactedContentDigest(content: AuditChainContent): string {
+  return sha256(canonicalJson(auditContentOf(content)));
+}
+
+/**
+ * Index the redactions named by authorizing entries. Later entries win, so
+ * an entry anonymized and then pruned is checked against its pruned form.
+ */
+export function collectAuditRedactions(
+  records: Array<{ sequence: number; details?: Record<string, any> }>
+): AuditRedactions {
+  const redactions: AuditRedactions = new Map();
+  const ordered = [...records].sort((a, b) => a.sequence - b.sequence);
+
+  for (const record of ordered) {
+    for (const redaction of record.details?.entries || []) {
+      redactions.set(redaction.sequence, {
+        sequence: redaction.sequence,
+        digest: redaction.digest,
+        recordSequence: record.sequence,
+      });
+    }
+  }
+
+  return redactions;
+}
+
+export function computeAuditEntryHash(entry: {
+  sequence: number;
+  prevHash: string;
+  timestamp: Date;
+  action: string;
+  entityType: string;
+  contentDigest: string;
+}): string {
+  return sha256(
+    canonicalJson({
+      sequence: entry.sequence,
+      prevHash: entry.prevHash,
+      timestamp: entry.timestamp,
+      action: entry.action,
+      entityType: entry.entityType,
+      contentDigest: entry.contentDigest,
+    })
+  );
+}
+
+/**
+ * Chain fields for a new entry appended after `previous` (the current
+ * head, or null for the first entry)
+ */
+export function sealAuditEntry(
+  entry: AuditChainContent & {
+    timestamp: Date;
+    action: string;
+    entityType: string;
+  },
+  previous: { sequence: number; hash: string } | null
+) {
+  const sequence = previous ? previous.sequence + 1 : 1;
+  const prevHash = previous ? previous.hash : AUDIT_CHAIN_GENESIS;
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = computeAuditEntryHash({
+    sequence,
+    prevHash,
+    timestamp: entry.timestamp,
+    action: entry.action,
+    entityType: entry.entityType,
+    contentDigest: hashAuditContent(salt, entry),
+  });
+
+  return { sequence, prevHash, salt, hash };
+}
+
+/**
+ * Check one entry against the entry before it. Returns the problem, or null
+ * when the entry is intact and follows on. Redacted entries must also match
+ * an authorization in `redactions`.
+ */
+export function checkAuditChainLink(
+  entry: AuditChainEntry,
+  previous: AuditChainEntry | null,
+  redactions: AuditRedactions = new Map()
+): AuditChainBreak | null {
+  const expected = previous ? previous.sequence + 1 : 1;
+  const entryId = entry._id ? String(entry._id) : undefined;
+
+  if (entry.sequence !== expected) {
+    return {
+      sequence: expected,
+      reason: "missing_entry",
+      message: `Expected entry ${expected}, found entry ${entry.sequence}`,
+    };
+  }
+
+  if (entry.prevHash !== (previous ? previous.hash : AUDIT_CHAIN_GENESIS)) {
+    return {
+      sequence: entry.sequence,
+      entryId,
+      reason: "broken_link",
+      message: `Entry ${entry.sequence} does not follow entry ${expected - 1}`,
+    };
+  }
+
+  const contentDigest =
+    entry.redactedDigest ||
+    (entry.salt ? hashAuditContent(entry.salt, entry) : undefined);
+  if (
+    !contentDigest ||
+    computeAuditEntryHash({ ...entry, contentDigest }) !== entry.hash
+  ) {
+    return {
+      sequence: entry.sequence,
+      entryId,
+      reason: "content_mismatch",
+      message: `Entry ${entry.sequence} was changed after it was written`,
+    };
+  }
+
+  const redaction = entry.redactedDigest && redactions.get(entry.sequence);
+  if (
+    entry.redactedDigest &&
+    (!redaction ||
+      redaction.recordSequence <= entry.sequence ||
+      redaction.digest !== redactedContentDigest(entry))
+  ) {
+    return {
+      sequence: entry.sequence,
+      entryId,
+      reason: "unauthorized_redaction",
+      message: `Entry ${entry.sequence} was anonymized without a matching redaction record`,
+    };
+  }
+
+  return null;
+}
+
+export interface AuditSigningKey {
+  keyId: string;
+  privateKey: crypto.KeyObject;
+  // Base64 DER (SPKI), shipped with exported checkpoints
+  publicKey: string;
+}
+
+/**
+ * Checkpoint signing key from AUDIT_SIGNING_KEY, a base64 DER (PKCS#8)
+ * Ed25519 private key. Returns null when it isn't set.
+ */
+export function loadAuditSigningKey(
+  env: Record<string, string | undefined> = process.env
+): AuditSigningKey | null {
+  if (!env.AUDIT_SIGNING_KEY) {
+    return null;
+  }
+
+  const privateKey = crypto.createPrivateKey({
+    key: Buffer.from(env.AUDIT_SIGNING_KEY, "base64"),
+    format: "der",
+    type: "pkcs8",
+  });
+  if (privateKey.asymmetricKeyType !== "ed25519") {
+    throw new Error("AUDIT_SIGNING_KEY must be an Ed25519 private key");
+  }
+
+  const publicKey = crypto
+    .createPublicKey(privateKey)
+    .export({ type: "spki", format: "der" })
+    .toString("base64");
+
+  return {
+    keyId: sha256(publicKey).slice(0, 16),
+    privateKey,
+    publicKey,
+  };
+}
+
+// The bytes a checkpoint signature covers
+const checkpointMessage = (checkpoint: AuditCheckpointPayload) =>
+  Buffer.from(
+    canonicalJson({
+      sequence: checkpoint.sequence,
+      hash: checkpoint.hash,
+      entryTimestamp: checkpoint.entryTimestamp,
+      createdAt: checkpoint.createdAt,
+      keyId: checkpoint.keyId,
+    })
+  );
+
+export function signAuditCheckpoint(
+  checkpoint: AuditCheckpointPayload,
+  privateKey: crypto.KeyObject
+): string {
+  return crypto
+    .sign(null, checkpointMessage(checkpoint), privateKey)
+    .toString("base64");
+}
+
+export function verifyAuditCheckpointSignature(
+  checkpoint: AuditCheckpointPayload,
+  signature: string,
+  publicKey: string
+): boolean {
+  try {
+    return crypto.verify(
+      null,
+      checkpointMessage(checkpoint),
+      crypto.createPublicKey({
+        key: Buffer.from(publicKey, "base64"),
+        format: "der",
+        type: "spki",
+      }),
+      Buffer.from(signature, "base64")
+    );
+  } catch {
+    return false;
+  }
+}
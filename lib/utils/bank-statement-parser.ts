@@ -0,0 +1,294 @@
+/**
+ * Bank Statement Parser
+ * Extracts UPI credit entries from CSV, XLSX and MT940 bank statements
+ */
+
+import * as XLSX from "xlsx";
+import { parseCsv } from "./csv";
+
+export type StatementFormat = "csv" | "xlsx" | "mt940";
+
+export interface BankCredit {
+  amount: number;
+  utr?: string;
+  vpa?: string;
+  timestamp?: Date;
+  narration?: string;
+  line: number;
+}
+
+// Column header aliases used by common Indian bank exports
+const COLUMN_ALIASES = {
+  amount: ["amount", "credit", "credit amount", "cr amount", "deposit", "deposit amount"],
+  debit: ["debit", "debit amount", "dr amount", "withdrawal", "withdrawal amount"],
+  type: ["type", "cr/dr", "dr/cr", "transaction type", "txn type"],
+  utr: ["utr", "rrn", "utr no", "utr number", "reference", "reference no", "ref no", "chq/ref no"],
+  vpa: ["vpa", "upi id", "payer vpa", "remitter vpa"],
+  date: ["date", "txn date", "transaction date", "value date", "posting date"],
+  narration: ["narration", "description", "particulars", "remarks", "details"],
+} as const;
+
+type ColumnKey = keyof typeof COLUMN_ALIASES;
+
+const UTR_PATTERN = /\b([A-Za-z0-9]{12})\b/;
+const VPA_PATTERN = /\b([\w.-]+@[A-Za-z][\w.-]*)\b/;
+
+/**
+ * Detect statement format from file name and content
+ */
+export function detectStatementFormat(
+  fileName: string,
+  content: Buffer
+): StatementFormat {
+  const extension = fileName.toLowerCase().split(".").pop();
+
+  if (extension === "xlsx" || extension === "xls") {
+    return "xlsx";
+  }
+
+  if (extension === "sta" || extension === "mt940") {
+    return "mt940";
+  }
+
+  const head = content.subarray(0, 512).toString("utf8");
+  if (/^:20:/m.test(head) && /^:61:/m.test(content.toString("utf8"))) {
+    return "mt940";
+  }
+
+  return "csv";
+}
+
+/**
+ * Parse a bank statement into credit entries
+ */
+export function parseBankStatement(
+  content: Buffer,
+  format: StatementFormat
+): BankCredit[] {
+  switch (format) {
+    case "xlsx":
+      return parseXlsxStatement(content);
+    case "mt940":
+      return parseMt940Statement(content.toString("utf8"));
+    default:
+      return parseCsvStatement(content.toString("utf8"));
+  }
+}
+
+/**
+ * Parse CSV statement (first row containing an amount column is the header)
+ */
+export function parseCsvStatement(text: string): BankCredit[] {
+  const rows = parseCsv(text);
+  return parseTabularRows(rows);
+}
+
+/**
+ * Parse XLSX statement using the first worksheet
+ */
+export function parseXlsxStatement(content: Buffer): BankCredit[] {
+  const workbook = XLSX.read(content, { type: "buffer", cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+
+  if (!sheet) {
+    return [];
+  }
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: false,
+    defval: "",
+  });
+
+  return parseTabularRows(
+    rows.map((row) => row.map((cell) => String(cell ?? "").trim()))
+  );
+}
+
+/**
+ * Parse SWIFT MT940 statement (:61: statement lines with :86: narration)
+ */
+export function parseMt940Statement(text: string): BankCredit[] {
+  const credits: BankCredit[] = [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+
+  let pending: BankCredit | null = null;
+  let collectingNarration = false;
+
+  const flush = () => {
+    if (pending) {
+      enrichFromNarration(pending);
+      credits.push(pending);
+    }
+    pending = null;
+    collectingNarration = false;
+  };
+
+  lines.forEach((line, index) => {
+    if (line.startsWith(":61:")) {
+      flush();
+
+      // YYMMDD[MMDD](C|D|RC|RD)[funds code]amount
+      const match = line
+        .slice(4)
+        .match(/^(\d{6})(\d{4})?(R?[CD])[A-Z]?(\d+(?:,\d{0,2})?)(.*)$/);
+
+      if (!match || !match[3].endsWith("C") || match[3] === "RC") {
+        return;
+      }
+
+      const [, valueDate, , , rawAmount, rest] = match;
+      const reference = rest.split("//")[1]?.trim();
+
+      pending = {
+        amount: parseFloat(rawAmount.replace(",", ".")),
+        timestamp: parseMt940Date(valueDate),
+        utr: reference?.match(UTR_PATTERN)?.[1],
+        line: index + 1,
+      };
+      return;
+    }
+
+    if (line.startsWith(":86:") && pending) {
+      pending.narration = line.slice(4).trim();
+      collectingNarration = true;
+      return;
+    }
+
+    if (line.startsWith(":")) {
+      flush();
+      return;
+    }
+
+    if (collectingNarration && pending && line.trim()) {
+      pending.narration = `${pending.narration} ${line.trim()}`;
+    }
+  });
+
+  flush();
+
+  return credits;
+}
+
+/**
+ * Map tabular rows (CSV or spreadsheet) to credit entries
+ */
+function parseTabularRows(rows: string[][]): BankCredit[] {
+  const headerIndex = rows.findIndex((row) =>
+    row.some((cell) => matchColumn(cell) === "amount")
+  );
+
+  if (headerIndex === -1) {
+    throw new Error("Could not find an amount column in the statement");
+  }
+
+  const columns: Partial<Record<ColumnKey, number>> = {};
+  rows[headerIndex].forEach((cell, index) => {
+    const key = matchColumn(cell);
+    if (key && columns[key] === undefined) {
+      columns[key] = index;
+    }
+  });
+
+  const credits: BankCredit[] = [];
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    const cell = (key: ColumnKey) =>
+      columns[key] !== undefined ? (row[columns[key]!] || "").trim() : "";
+
+    const amount = parseAmount(cell("amount"));
+    if (!amount || amount <= 0) {
+      return;
+    }
+
+    // Skip debit entries when the statement uses a single amount column
+    const type = cell("type").toUpperCase();
+    if (type.startsWith("D") || parseAmount(cell("debit")) > 0) {
+      return;
+    }
+
+    const credit: BankCredit = {
+      amount,
+      utr: cell("utr").match(UTR_PATTERN)?.[1],
+      vpa: cell("vpa") || undefined,
+      timestamp: parseDate(cell("date")),
+      narration: cell("narration") || undefined,
+      line: headerIndex + offset + 2,
+    };
+
+    enrichFromNarration(credit);
+    credits.push(credit);
+  });
+
+  return credits;
+}
+
+/**
+ * Fill in UTR and VPA from UPI narration (e.g. "UPI/412345678901/payer@okaxis/...")
+ */
+function enrichFromNarration(credit: BankCredit): void {
+  if (!credit.narration) {
+    return;
+  }
+
+  if (!credit.utr) {
+    const utrMatch = credit.narration.match(/\b(\d{12})\b/);
+    if (utrMatch) {
+      credit.utr = utrMatch[1];
+    }
+  }
+
+  if (!credit.vpa) {
+    const vpaMatch = credit.narration.match(VPA_PATTERN);
+    if (vpaMatch) {
+      credit.vpa = vpaMatch[1];
+    }
+  }
+}
+
+function matchColumn(header: string): ColumnKey | null {
+  const normalized = header.trim().toLowerCase().replace(/[._]/g, " ");
+  const match = (Object.keys(COLUMN_ALIASES) as ColumnKey[]).find((key) =>
+    (COLUMN_ALIASES[key] as readonly string[]).includes(normalized)
+  );
+  return match || null;
+}
+
+function parseAmount(value: string): number {
+  if (!value) return 0;
+  const cleaned = value.replace(/[₹,\s]|INR|Cr\.?$/gi, "");
+  const amount = parseFloat(cleaned);
+  return isNaN(amount) ? 0 : Math.round(amount * 100) / 100;
+}
+
+function parseDate(value: string): Date | undefined {
+  if (!value) return undefined;
+
+  // DD/MM/YYYY or DD-MM-YYYY (optionally followed by time)
+  const indian = value.match(
+    /^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/
+  );
+  if (indian) {
+    const [, day, month, year, hours = "0", minutes = "0", seconds = "0"] =
+      indian;
+    const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+    return new Date(
+      fullYear,
+      Number(month) - 1,
+      Number(day),
+      Number(hours),
+      Number(minutes),
+      Number(seconds)
+    );
+  }
+
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+function parseMt940Date(value: string): Date {
+  const year = 2000 + Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4)) - 1;
+  const day = Number(value.slice(4, 6));
+  return new Date(year, month, day);
+}
@@ -0,0 +1,124 @@
+/**
+ * Bulk Order Upload Utilities
+ * Parses merchant CSV uploads and formats the per-row results file
+ */
+
+import { parseCsv, toCsv } from "./csv";
+
+export const MAX_BULK_ORDER_ROWS = 500;
+
+export interface BulkOrderRow {
+  line: number;
+  amount: string;
+  payerName?: string;
+  note?: string;
+  vpa?: string;
+}
+
+export interface BulkOrderResult {
+  line: number;
+  amount: string;
+  payerName?: string;
+  orderId?: string;
+  paymentPageUrl?: string;
+  error?: string;
+}
+
+// Accepted header names for each column
+const COLUMN_ALIASES = {
+  amount: ["amount", "amount inr", "fee", "fees"],
+  payerName: ["payer name", "payer", "name", "customer name", "customer"],
+  note: ["note", "notes", "description", "purpose", "remarks"],
+  vpa: ["vpa", "upi id", "upi"],
+} as const;
+
+type ColumnKey = keyof typeof COLUMN_ALIASES;
+
+function matchColumn(header: string): ColumnKey | null {
+  const normalized = header.trim().toLowerCase().replace(/[._-]/g, " ");
+  const match = (Object.keys(COLUMN_ALIASES) as ColumnKey[]).find((key) =>
+    (COLUMN_ALIASES[key] as readonly string[]).includes(normalized)
+  );
+  return match || null;
+}
+
+/**
+ * Parse a bulk order CSV; the first row must be a header with an amount column
+ */
+export function parseBulkOrderCsv(text: string): BulkOrderRow[] {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ""));
+
+  if (rows.length === 0) {
+    throw new Error("The CSV file is empty");
+  }
+
+  const columns: Partial<Record<ColumnKey, number>> = {};
+  rows[0].forEach((cell, index) => {
+    const key = matchColumn(cell);
+    if (key && columns[key] === undefined) {
+      columns[key] = index;
+    }
+  });
+
+  if (columns.amount === undefined) {
+    throw new Error("The CSV header must include an amount column");
+  }
+
+  const dataRows = rows.slice(1);
+  if (dataRows.length === 0) {
+    throw new Error("The CSV file has no order rows");
+  }
+
+  if (dataRows.length > MAX_BULK_ORDER_ROWS) {
+    throw new Error(
+      `A bulk upload can contain at most ${MAX_BULK_ORDER_ROWS} orders`
+    );
+  }
+
+  return dataRows.map((row, index) => {
+    const cell = (key: ColumnKey) =>
+      columns[key] !== undefined ? (row[columns[key]!] || "").trim() : "";
+
+    return {
+      line: index + 2,
+      amount: cell("amount"),
+      payerName: cell("payerName") || undefined,
+      note: cell("note") || undefined,
+      vpa: cell("vpa") || undefined,
+    };
+  });
+}
+
+/**
+ * Parse an amount cell, tolerating currency symbols and thousands separators
+ */
+export function parseBulkAmount(value: string): number {
+  const cleaned = value.replace(/[₹,\s]|INR|Rs\.?/gi, "");
+  return cleaned === "" ? NaN : Number(cleaned);
+}
+
+/**
+ * Build the downloadable results CSV returned to the merchant
+ */
+export function formatBulkOrderResults(results: BulkOrderResult[]): string {
+  return toCsv([
+    [
+      "line",
+      "status",
+      "order_id",
+      "payment_page_url",
+      "amount",
+      "payer_name",
+      "error",
+    ],
+    ...results.map((result) => [
+      result.line,
+      result.orderId ? "created" : "failed",
+      result.orderId,
+      result.paymentPageUrl,
+      result.amount,
+      result.payerName,
+      result.error,
+    ]),
+  ]);
+}
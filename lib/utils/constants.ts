@@ -9,6 +9,8 @@ export const ORDER_STATUS = {
   COMPLETED: "completed",
   EXPIRED: "expired",
   FAILED: "failed",
+  REFUNDED: "refunded",
+  PARTIALLY_REFUNDED: "partially-refunded",
 } as const;
 
 // User roles
@@ -29,6 +31,17 @@ export const AUDIT_ACTIONS = {
   SETTINGS_UPDATED: "settings_updated",
   LOGIN_ATTEMPT: "login_attempt",
   LOGOUT: "logout",
+  REFUND_REQUESTED: "refund_requested",
+  REFUND_PROCESSED: "refund_processed",
+  REFUND_REJECTED: "refund_rejected",
+  API_KEY_CREATED: "api_key_created",
+  API_KEY_REVOKED: "api_key_revoked",
+  DATA_REENCRYPTED: "data_reencrypted",
+  DATA_PURGED: "data_purged",
+  DATA_REQUEST_CREATED: "data_request_created",
+  DATA_EXPORTED: "data_exported",
+  DATA_ERASED: "data_erased",
+  AUDIT_REDACTED: "audit_redacted",
 } as const;
 
 // Entity types for audit logs
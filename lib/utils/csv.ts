@@ -0,0 +1,79 @@
+/**
+ * CSV Utilities
+ * Parsing and serialisation shared by statement imports and bulk uploads
+ */
+
+/**
+ * Minimal RFC 4180 CSV splitter (quoted fields, escaped quotes, CRLF)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+// Cells starting with these characters are evaluated as formulas by spreadsheets
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Serialise a single CSV cell, quoting when needed
+ */
+export function toCsvCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+
+  let text = String(value);
+
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialise rows into CSV text with CRLF line endings
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(toCsvCell).join(",")).join("\r\n") + "\r\n";
+}
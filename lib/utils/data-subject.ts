@@ -0,0 +1,124 @@
+/**
+ * Data Subject Requests
+ * Export and erasure requests from people whose data we hold (DPDP Act).
+ * A request names one identifier; these helpers normalize it and find or
+ * scrub it inside stored values. The queries build on them to locate the
+ * person's records.
+ */
+
+import { normalizePhone, PHONE_PATTERN } from "./payer-details";
+
+export const DATA_REQUEST_TYPES = ["export", "erasure"] as const;
+
+export const DATA_REQUEST_STATUSES = ["open", "completed"] as const;
+
+export const SUBJECT_IDENTIFIER_TYPES = [
+  "phone",
+  "email",
+  "vpa",
+  "ip",
+  "userId",
+] as const;
+
+export type DataRequestType = (typeof DATA_REQUEST_TYPES)[number];
+export type DataRequestStatus = (typeof DATA_REQUEST_STATUSES)[number];
+export type SubjectIdentifierType = (typeof SUBJECT_IDENTIFIER_TYPES)[number];
+
+export const SUBJECT_IDENTIFIER_LABELS: Record<SubjectIdentifierType, string> =
+  {
+    phone: "Phone number",
+    email: "Email address",
+    vpa: "UPI ID",
+    ip: "IP address",
+    userId: "User ID",
+  };
+
+// Replaces the identifier wherever it is scrubbed from free-form data
+export const ERASED_VALUE = "[erased]";
+
+/**
+ * Canonical form of an identifier: phone numbers without a +91/0 prefix,
+ * emails and UPI IDs in lower case
+ */
+export function normalizeIdentifier(
+  type: SubjectIdentifierType,
+  value: string
+): string {
+  const trimmed = value.trim();
+
+  switch (type) {
+    case "phone": {
+      const phone = normalizePhone(trimmed);
+      return PHONE_PATTERN.test(phone) ? phone.slice(-10) : phone;
+    }
+    case "email":
+    case "vpa":
+      return trimmed.toLowerCase();
+    default:
+      return trimmed;
+  }
+}
+
+/**
+ * Every form the identifier may have been stored in. Payers could enter a
+ * phone number with or without a prefix, and each form hashes differently.
+ */
+export function identifierVariants(
+  type: SubjectIdentifierType,
+  value: string
+): string[] {
+  const identifier = normalizeIdentifier(type, value);
+
+  if (type === "phone" && PHONE_PATTERN.test(identifier)) {
+    return [
+      identifier,
+      `0${identifier}`,
+      `91${identifier}`,
+      `+91${identifier}`,
+    ];
+  }
+  return [identifier];
+}
+
+/**
+ * Predicate telling whether a stored string is this identifier
+ */
+export function identifierMatcher(
+  type: SubjectIdentifierType,
+  value: string
+): (candidate: string) => boolean {
+  const identifier = normalizeIdentifier(type, value);
+
+  return (candidate) => normalizeIdentifier(type, candidate) === identifier;
+}
+
+/**
+ * Copy of `value` with every string the matcher accepts replaced, at any
+ * depth. Object keys are kept; only values are checked.
+ */
+export function scrubIdentifier<T>(
+  value: T,
+  matches: (candidate: string) => boolean,
+  replacement: string = ERASED_VALUE
+): T {
+  if (typeof value === "string") {
+    return (matches(value) ? replacement : value) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      scrubIdentifier(item, matches, replacement)
+    ) as T;
+  }
+
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        scrubIdentifier(item, matches, replacement),
+      ])
+    ) as T;
+  }
+
+  return value;
+}
@@ -1,8 +1,301 @@
 import crypto from "crypto";
 
-const ENCRYPTION_KEY =
-  process.env.ENCRYPTION_KEY || "default-key-32-chars-long-please";
-const ALGORITHM = "aes-256-cbc";
+/**
+ * Encryption for values stored at rest (UTRs, payer details, webhook
+ * secrets).
+ *
+ * Values are sealed with AES-256-GCM under a key ring read from the
+ * environment. Each ciphertext names the key it was sealed with, so keys can
+ * be rotated: add a new key at the front of ENCRYPTION_KEYS, keep the old ones
+ * until the re-encryption migration has finished, then drop them.
+ *
+ *   enc:<keyId>:<iv>:<authTag>:<ciphertext>   (base64url parts)
+ *
+ * Values written before key rotation existed are AES-256-CBC as
+ * `<ivHex>:<hex>` under ENCRYPTION_KEY; they still decrypt, and the
+ * migration rewrites them in the current format.
+ */
+
+const DEFAULT_KEY = "default-key-32-chars-long-please";
+// Placeholder shipped in .env.example
+const EXAMPLE_KEY = "your-32-character-encryption-key-here";
+const MIN_KEY_LENGTH = 32;
+
+const ALGORITHM = "aes-256-gcm";
+const LEGACY_ALGORITHM = "aes-256-cbc";
+const IV_LENGTH = 12;
+
+export const LEGACY_KEY_ID = "legacy";
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const ENCRYPTED_PATTERN =
+  /^enc:([A-Za-z0-9_-]{1,32}):([A-Za-z0-9_-]+):([A-Za-z0-9_-]+):([A-Za-z0-9_-]*)$/;
+const LEGACY_PATTERN = /^[0-9a-f]{32}:[0-9a-f]+$/i;
+
+interface EncryptionEnv {
+  NODE_ENV?: string;
+  ENCRYPTION_KEY?: string;
+  ENCRYPTION_KEYS?: string;
+  ENCRYPTION_HASH_KEY?: string;
+}
+
+export interface KeyRing {
+  // The key new values are sealed with
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+  // ENCRYPTION_KEY as the old CBC code used it, for values without a key ID
+  legacyKey: Buffer;
+  hashKey: string;
+  usingDefaultKey: boolean;
+}
+
+const deriveKey = (secret: string, keyId: string) =>
+  Buffer.from(
+    crypto.hkdfSync(
+      "sha256",
+      secret,
+      Buffer.alloc(0),
+      `upi-payment-system:${keyId}`,
+      32
+    )
+  );
+
+const isWeakKey = (secret: string) =>
+  secret === DEFAULT_KEY ||
+  secret === EXAMPLE_KEY ||
+  secret.length < MIN_KEY_LENGTH;
+
+/**
+ * Build the key ring from the environment.
+ *
+ * ENCRYPTION_KEYS is a comma-separated list of `keyId:secret` pairs, current
+ * key first. Without it, ENCRYPTION_KEY is the only key, with ID "v1"; list
+ * it as `v1:<ENCRYPTION_KEY>` when adding a second key. UTR hashes
+ * use ENCRYPTION_HASH_KEY, falling back to ENCRYPTION_KEY so hashes written
+ * before rotation still match; unlike encryption keys it must never change.
+ */
+export function buildKeyRing(env: EncryptionEnv = process.env): KeyRing {
+  const keys = new Map<string, Buffer>();
+  const secrets: string[] = [];
+  let currentKeyId: string | undefined;
+
+  const entries = (env.ENCRYPTION_KEYS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  for (const entry of entries) {
+    const separator = entry.indexOf(":");
+    const keyId = entry.slice(0, separator);
+    const secret = entry.slice(separator + 1);
+
+    if (separator < 1 || !KEY_ID_PATTERN.test(keyId) || !secret) {
+      throw new Error(
+        "ENCRYPTION_KEYS must be a comma-separated list of keyId:secret pairs"
+      );
+    }
+    if (keyId === LEGACY_KEY_ID || keys.has(keyId)) {
+      throw new Error(`Encryption key ID "${keyId}" is reserved or repeated`);
+    }
+
+    keys.set(keyId, deriveKey(secret, keyId));
+    secrets.push(secret);
+    currentKeyId = currentKeyId || keyId;
+  }
+
+  if (!currentKeyId) {
+    const secret = env.ENCRYPTION_KEY || DEFAULT_KEY;
+    currentKeyId = "v1";
+    keys.set(currentKeyId, deriveKey(secret, currentKeyId));
+    secrets.push(secret);
+  }
+
+  const hashKey = env.ENCRYPTION_HASH_KEY || env.ENCRYPTION_KEY || DEFAULT_KEY;
+
+  return {
+    currentKeyId,
+    keys,
+    legacyKey: Buffer.from((env.ENCRYPTION_KEY || DEFAULT_KEY).slice(0, 32)),
+    hashKey,
+    usingDefaultKey: [...secrets, hashKey].some(isWeakKey),
+  };
+}
+
+let cachedRing: { source: string; ring: KeyRing } | null = null;
+
+const getKeyRing = (): KeyRing => {
+  const source = [
+    process.env.ENCRYPTION_KEYS,
+    process.env.ENCRYPTION_KEY,
+    process.env.ENCRYPTION_HASH_KEY,
+  ].join("\n");
+
+  if (cachedRing?.source !== source) {
+    const ring = buildKeyRing();
+    assertKeyRingUsable(ring);
+    cachedRing = { source, ring };
+  }
+
+  return cachedRing.ring;
+};
+
+const assertKeyRingUsable = (
+  ring: KeyRing,
+  nodeEnv: string | undefined = process.env.NODE_ENV
+) => {
+  if (ring.usingDefaultKey && nodeEnv === "production") {
+    throw new Error(
+      "Refusing to run in production with a default, example or short encryption key. Set ENCRYPTION_KEYS (or ENCRYPTION_KEY) and ENCRYPTION_HASH_KEY to random secrets of at least 32 characters."
+    );
+  }
+};
+
+/**
+ * Fail fast on an unusable encryption setup; called when the server starts
+ */
+export function assertEncryptionConfigured(
+  env: EncryptionEnv = process.env
+): void {
+  const ring = buildKeyRing(env);
+  assertKeyRingUsable(ring, env.NODE_ENV);
+
+  if (ring.usingDefaultKey) {
+    console.warn(
+      "Using a default encryption key. Set ENCRYPTION_KEYS before storing real data."
+    );
+  }
+}
+
+/**
+ * ID of the key a stored value was encrypted with: LEGACY_KEY_ID for
+ * pre-rotation values, null when the value is not encrypted at all
+ */
+export function getEncryptionKeyId(value?: string | null): string | null {
+  if (!value) return null;
+
+  const match = ENCRYPTED_PATTERN.exec(value);
+  if (match) return match[1];
+
+  return LEGACY_PATTERN.test(value) ? LEGACY_KEY_ID : null;
+}
+
+export function isEncryptedValue(value?: string | null): boolean {
+  return getEncryptionKeyId(value) !== null;
+}
+
+export function getCurrentEncryptionKeyId(): string {
+  return getKeyRing().currentKeyId;
+}
+
+export function getEncryptionKeyIds(): string[] {
+  return [...getKeyRing().keys.keys()];
+}
+
+/**
+ * Whether a stored value is plaintext or sealed with anything but the
+ * current key
+ */
+export function needsReEncryption(
+  value: string,
+  ring: KeyRing = getKeyRing()
+): boolean {
+  return getEncryptionKeyId(value) !== ring.currentKeyId;
+}
+
+export function encryptValue(
+  plaintext: string,
+  ring: KeyRing = getKeyRing()
+): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(
+    ALGORITHM,
+    ring.keys.get(ring.currentKeyId)!,
+    iv
+  );
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+
+  return [
+    "enc",
+    ring.currentKeyId,
+    iv.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+    ciphertext.toString("base64url"),
+  ].join(":");
+}
+
+export function decryptValue(
+  value: string,
+  ring: KeyRing = getKeyRing()
+): string {
+  const match = ENCRYPTED_PATTERN.exec(value);
+
+  if (match) {
+    const [, keyId, iv, authTag, ciphertext] = match;
+    const key = ring.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Encryption key "${keyId}" is not configured`);
+    }
+
+    const decipher = crypto.createDecipheriv(
+      ALGORITHM,
+      key,
+      Buffer.from(iv, "base64url")
+    );
+    decipher.setAuthTag(Buffer.from(authTag, "base64url"));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+
+  if (LEGACY_PATTERN.test(value)) {
+    const [ivHex, encrypted] = value.split(":");
+    const decipher = crypto.createDecipheriv(
+      LEGACY_ALGORITHM,
+      ring.legacyKey,
+      Buffer.from(ivHex, "hex")
+    );
+
+    return decipher.update(encrypted, "hex", "utf8") + decipher.final("utf8");
+  }
+
+  throw new Error("Value is not encrypted");
+}
+
+/**
+ * Stored value as plaintext: decrypted when encrypted, returned as is when
+ * it predates encryption
+ */
+export function resolveStoredValue(value: string): string {
+  return isEncryptedValue(value) ? decryptValue(value) : value;
+}
+
+/**
+ * Keyed hash for finding records by a value without storing it. Case and
+ * surrounding whitespace are ignored.
+ */
+export function hashForLookup(value: string): string {
+  return crypto
+    .createHmac("sha256", getKeyRing().hashKey)
+    .update(value.trim().toUpperCase())
+    .digest("hex");
+}
+
+export function isLookupHash(value?: string | null): boolean {
+  return !!value && /^[0-9a-f]{64}$/.test(value);
+}
+
+/**
+ * Keep the first and last two characters, e.g. "12********90"
+ */
+export function maskValue(value?: string | null): string {
+  if (!value || value.length < 4) return "****";
+  return `${value.slice(0, 2)}${"*".repeat(value.length - 4)}${value.slice(-2)}`;
+}
 
 export class SensitiveDataHandler {
   /**
@@ -10,14 +303,7 @@ export class SensitiveDataHandler {
    */
   static async encryptUTR(utr: string): Promise<string> {
     try {
-      const iv = crypto.randomBytes(16);
-      const key = Buffer.from(ENCRYPTION_KEY.slice(0, 32));
-      const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
-
-      let encrypted = cipher.update(utr, "utf8", "hex");
-      encrypted += cipher.final("hex");
-
-      return `${iv.toString("hex")}:${encrypted}`;
+      return encryptValue(utr);
     } catch (error) {
       console.error("Encryption error:", error);
       throw new Error("Failed to encrypt data");
@@ -29,26 +315,39 @@ export class SensitiveDataHandler {
    */
   static async decryptUTR(encryptedUTR: string): Promise<string> {
     try {
-      const [ivHex, encrypted] = encryptedUTR.split(":");
-      const iv = Buffer.from(ivHex, "hex");
-      const key = Buffer.from(ENCRYPTION_KEY.slice(0, 32));
-      const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-
-      let decrypted = decipher.update(encrypted, "hex", "utf8");
-      decrypted += decipher.final("utf8");
-
-      return decrypted;
+      return decryptValue(encryptedUTR);
     } catch (error) {
       console.error("Decryption error:", error);
       throw new Error("Failed to decrypt data");
     }
   }
 
+  /**
+   * Resolve a stored UTR, decrypting it when it was stored encrypted
+   */
+  static async resolveUTR(stored?: string): Promise<string | undefined> {
+    if (!stored || !isEncryptedValue(stored)) {
+      return stored;
+    }
+
+    try {
+      return await this.decryptUTR(stored);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Keyed hash of a UTR, so reuse can be found without decrypting every order
+   */
+  static hashUTR(utr: string): string {
+    return hashForLookup(utr);
+  }
+
   /**
    * Mask UTR for display purposes
    */
   static maskUTR(utr: string): string {
-    if (!utr || utr.length < 4) return "****";
-    return `${utr.slice(0, 2)}${"*".repeat(utr.length - 4)}${utr.slice(-2)}`;
+    return maskValue(utr);
   }
 }
@@ -0,0 +1,155 @@
+/**
+ * Fraud Detection
+ * Scores UTR submissions from signals gathered at submission time, so
+ * admins can see which payments deserve a closer look before verifying
+ */
+
+// Random ID the payment page keeps in localStorage to tell devices apart
+export const DEVICE_ID_HEADER = "X-Device-Id";
+
+export type FraudSignal =
+  | "reused_utr"
+  | "ip_velocity"
+  | "device_velocity"
+  | "fast_submission"
+  | "amount_anomaly"
+  | "merchant_anomaly";
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export interface RiskReason {
+  signal: FraudSignal;
+  message: string;
+}
+
+export interface RiskAssessment {
+  score: number;
+  level: RiskLevel;
+  reasons: RiskReason[];
+  assessedAt: Date;
+}
+
+// Facts about a submission, collected by the caller from the database
+export interface UtrSubmissionFacts {
+  // Other orders that were given the same UTR
+  reusedUtrOrderIds: string[];
+  // UTRs submitted from the same IP / device within the velocity window
+  recentSubmissionsFromIP: number;
+  recentSubmissionsFromDevice: number;
+  // Milliseconds between the payment page being served and the submission
+  msSincePageLoad?: number;
+  amount: number;
+  // Amounts of the merchant's recent orders, for comparison
+  merchantRecentAmounts: number[];
+  // The merchant's recently settled orders, and how many were rejected
+  merchantSettledCount: number;
+  merchantFailedCount: number;
+}
+
+export const FRAUD_THRESHOLDS = {
+  velocityWindowMs: 60 * 60 * 1000,
+  // Earlier submissions in the window before velocity counts as a signal
+  maxSubmissionsPerIP: 3,
+  maxSubmissionsPerDevice: 2,
+  // Paying in a UPI app and copying the UTR back takes longer than this
+  minMsSincePageLoad: 15 * 1000,
+  // Amount anomalies need enough history to say what is normal
+  minAmountSamples: 10,
+  amountToMedianRatio: 5,
+  minSettledForMerchantCheck: 5,
+  maxMerchantFailureRate: 0.5,
+} as const;
+
+const SIGNAL_WEIGHTS: Record<FraudSignal, number> = {
+  reused_utr: 60,
+  ip_velocity: 25,
+  device_velocity: 25,
+  fast_submission: 20,
+  amount_anomaly: 15,
+  merchant_anomaly: 15,
+};
+
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= 60) return "high";
+  if (score >= 30) return "medium";
+  return "low";
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Work out which signals a submission trips and the resulting risk score
+ * (0-100, the sum of the tripped signals' weights)
+ */
+export function assessUtrSubmission(
+  facts: UtrSubmissionFacts,
+  now: Date = new Date()
+): RiskAssessment {
+  const reasons: RiskReason[] = [];
+  const t = FRAUD_THRESHOLDS;
+
+  if (facts.reusedUtrOrderIds.length > 0) {
+    reasons.push({
+      signal: "reused_utr",
+      message: `UTR was also submitted for ${facts.reusedUtrOrderIds.join(", ")}`,
+    });
+  }
+
+  if (facts.recentSubmissionsFromIP >= t.maxSubmissionsPerIP) {
+    reasons.push({
+      signal: "ip_velocity",
+      message: `${facts.recentSubmissionsFromIP} other UTRs from this IP in the last hour`,
+    });
+  }
+
+  if (facts.recentSubmissionsFromDevice >= t.maxSubmissionsPerDevice) {
+    reasons.push({
+      signal: "device_velocity",
+      message: `${facts.recentSubmissionsFromDevice} other UTRs from this device in the last hour`,
+    });
+  }
+
+  if (
+    facts.msSincePageLoad !== undefined &&
+    facts.msSincePageLoad < t.minMsSincePageLoad
+  ) {
+    reasons.push({
+      signal: "fast_submission",
+      message: `UTR submitted ${Math.max(0, Math.round(facts.msSincePageLoad / 1000))}s after the payment page loaded`,
+    });
+  }
+
+  if (facts.merchantRecentAmounts.length >= t.minAmountSamples) {
+    const typical = median(facts.merchantRecentAmounts);
+    if (typical > 0 && facts.amount / typical >= t.amountToMedianRatio) {
+      reasons.push({
+        signal: "amount_anomaly",
+        message: `Amount is ${Math.round(facts.amount / typical)}x the merchant's typical order of ${typical}`,
+      });
+    }
+  }
+
+  if (
+    facts.merchantSettledCount >= t.minSettledForMerchantCheck &&
+    facts.merchantFailedCount / facts.merchantSettledCount >=
+      t.maxMerchantFailureRate
+  ) {
+    reasons.push({
+      signal: "merchant_anomaly",
+      message: `${facts.merchantFailedCount} of the merchant's last ${facts.merchantSettledCount} verified payments were rejected`,
+    });
+  }
+
+  const score = Math.min(
+    100,
+    reasons.reduce((total, reason) => total + SIGNAL_WEIGHTS[reason.signal], 0)
+  );
+
+  return { score, level: getRiskLevel(score), reasons, assessedAt: now };
+}
@@ -0,0 +1,90 @@
+/**
+ * GST Invoice Utilities
+ * Computes taxable values and CGST/SGST/IGST splits for itemized orders
+ */
+
+export type SupplyType = "intra-state" | "inter-state";
+
+export interface LineItemInput {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  hsnCode?: string;
+  taxRate: number; // GST rate in percent, e.g. 18
+}
+
+export interface LineItem extends LineItemInput {
+  taxableValue: number;
+  taxAmount: number;
+}
+
+export interface TaxBreakdown {
+  supplyType: SupplyType;
+  subtotal: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  total: number;
+}
+
+// Amounts are settled in paise, so every step rounds to two decimals
+export const roundToPaise = (value: number): number =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+/**
+ * Compute per-line taxable values and the order level GST split.
+ * Intra-state supplies split tax equally into CGST and SGST;
+ * inter-state supplies carry the full amount as IGST.
+ */
+export function calculateGstBreakdown(
+  items: LineItemInput[],
+  supplyType: SupplyType = "intra-state"
+): { lineItems: LineItem[]; taxBreakdown: TaxBreakdown } {
+  const lineItems = items.map((item) => {
+    const taxableValue = roundToPaise(item.quantity * item.unitPrice);
+    const taxAmount = roundToPaise((taxableValue * item.taxRate) / 100);
+
+    return { ...item, taxableValue, taxAmount };
+  });
+
+  let cgst = 0;
+  let sgst = 0;
+  let igst = 0;
+
+  for (const item of lineItems) {
+    if (supplyType === "inter-state") {
+      igst += item.taxAmount;
+    } else {
+      // Put the odd paisa on SGST so the halves always add up
+      const half = roundToPaise(item.taxAmount / 2);
+      cgst += half;
+      sgst += roundToPaise(item.taxAmount - half);
+    }
+  }
+
+  const subtotal = roundToPaise(
+    lineItems.reduce((sum, item) => sum + item.taxableValue, 0)
+  );
+  const totalTax = roundToPaise(cgst + sgst + igst);
+
+  return {
+    lineItems,
+    taxBreakdown: {
+      supplyType,
+      subtotal,
+      cgst: roundToPaise(cgst),
+      sgst: roundToPaise(sgst),
+      igst: roundToPaise(igst),
+      totalTax,
+      total: roundToPaise(subtotal + totalTax),
+    },
+  };
+}
+
+/**
+ * Check that a payable amount matches the computed invoice total
+ */
+export function amountMatchesTotal(amount: number, total: number): boolean {
+  return Math.abs(roundToPaise(amount) - total) < 0.005;
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import crypto from "crypto";
+import { IdempotencyKeySchema } from "@/lib/db/models/idempotency-key";
+import {
+  reserveIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+} from "@/lib/db/queries/idempotency-keys";
+import { getUserFromRequest } from "@/lib/middleware/auth-middleware";
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+export const IDEMPOTENT_REPLAY_HEADER = "Idempotent-Replayed";
+
+/**
+ * Hash a raw request body so repeats can be compared with the original
+ */
+export function hashRequestBody(body: string): string {
+  return crypto.createHash("sha256").update(body).digest("hex");
+}
+
+/**
+ * Idempotency wrapper for state-changing requests.
+ *
+ * Requests without an `Idempotency-Key` header run as usual. The first
+ * request with a key runs and its response is kept for 24 hours; repeats
+ * with the same body get that response back, and repeats with a different
+ * body are rejected with 409. Server errors and thrown errors release the
+ * key so the request can be retried.
+ */
+export async function withIdempotency(
+  request: NextRequest,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (key === null) {
+    return handler();
+  }
+
+  if (!IdempotencyKeySchema.safeParse(key).success) {
+    return NextResponse.json(
+      {
+        error: `${IDEMPOTENCY_KEY_HEADER} must be 1-255 printable characters`,
+        code: "INVALID_IDEMPOTENCY_KEY",
+      },
+      { status: 400 }
+    );
+  }
+
+  const reservation = await reserveIdempotencyKey({
+    key,
+    scope: `${request.method} ${request.nextUrl.pathname}`,
+    principal: getUserFromRequest(request)?.id || "anonymous",
+    requestHash: hashRequestBody(await request.clone().text()),
+  });
+
+  switch (reservation.outcome) {
+    case "mismatch":
+      return NextResponse.json(
+        {
+          error: `${IDEMPOTENCY_KEY_HEADER} was already used with a different request body`,
+          code: "IDEMPOTENCY_KEY_REUSED",
+        },
+        { status: 409 }
+      );
+    case "in-progress":
+      return NextResponse.json(
+        {
+          error: `A request with this ${IDEMPOTENCY_KEY_HEADER} is still being processed`,
+          code: "IDEMPOTENCY_KEY_IN_PROGRESS",
+        },
+        { status: 409, headers: { "Retry-After": "1" } }
+      );
+    case "replay": {
+      const { record } = reservation;
+      return new NextResponse(record.responseBody, {
+        status: record.responseStatus,
+        headers: {
+          "Content-Type": record.responseContentType || "application/json",
+          [IDEMPOTENT_REPLAY_HEADER]: "true",
+        },
+      });
+    }
+  }
+
+  const { record } = reservation;
+  let response: Response;
+
+  try {
+    response = await handler();
+  } catch (error) {
+    await releaseIdempotencyKey(record);
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await releaseIdempotencyKey(record);
+  } else {
+    await completeIdempotencyKey(record, {
+      status: response.status,
+      body: await response.clone().text(),
+      contentType: response.headers.get("content-type") || undefined,
+    });
+  }
+
+  return response;
+}
@@ -333,9 +333,20 @@ export class APIClient {
     const { retryOptions, ...fetchOptions } = options;
     const url = `${this.baseURL}${endpoint}`;
 
+    const headers = new Headers(this.defaultOptions.headers);
+    new Headers(fetchOptions.headers).forEach((value, key) =>
+      headers.set(key, value)
+    );
+
+    // One key per logical POST so retries cannot repeat its side effects
+    if (fetchOptions.method === "POST" && !headers.has("Idempotency-Key")) {
+      headers.set("Idempotency-Key", crypto.randomUUID());
+    }
+
     const response = await fetchWithRetry(url, {
       ...this.defaultOptions,
       ...fetchOptions,
+      headers,
       retryOptions,
     });
 
@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+export interface OrderEventMessage {
+  event: string;
+  orderId: string;
+  status: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+/**
+ * Subscribe to an order event stream.
+ *
+ * Returns whether the stream is live; callers should fall back to polling
+ * while it isn't (no EventSource support, or the server refused the stream).
+ * `onResync` fires when the server could not replay missed events.
+ */
+export function useOrderEvents(
+  url: string | null,
+  handlers: {
+    onEvent: (message: OrderEventMessage) => void;
+    onResync?: () => void;
+  }
+): { connected: boolean } {
+  const [connected, setConnected] = useState(false);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!url || typeof EventSource === "undefined") {
+      setConnected(false);
+      return;
+    }
+
+    const source = new EventSource(url);
+
+    source.onopen = () => setConnected(true);
+
+    // EventSource retries dropped connections itself; CLOSED means it gave up
+    source.onerror = () => {
+      setConnected(false);
+      if (source.readyState === EventSource.CLOSED) {
+        source.close();
+      }
+    };
+
+    source.onmessage = (message) => {
+      try {
+        handlersRef.current.onEvent(JSON.parse(message.data));
+      } catch (error) {
+        console.error("Invalid order event:", error);
+      }
+    };
+
+    source.addEventListener("resync", () => {
+      handlersRef.current.onResync?.();
+    });
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [url]);
+
+  return { connected };
+}
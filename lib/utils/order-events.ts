@@ -0,0 +1,216 @@
+/**
+ * Order Events
+ * In-process pub/sub for order changes, served to browsers as Server-Sent Events
+ */
+
+import { EventEmitter } from "events";
+import { NextRequest, NextResponse } from "next/server";
+
+export interface OrderChangeEvent {
+  // `<boot>-<sequence>`, used as the SSE event ID for Last-Event-ID replay
+  id: string;
+  // Webhook-style event name, e.g. "order.utr_submitted"
+  event: string;
+  orderId: string;
+  status: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+// Recent events kept for clients reconnecting with Last-Event-ID
+const REPLAY_BUFFER_SIZE = 1000;
+
+// Open streams allowed per server process
+const MAX_SUBSCRIBERS = 1000;
+
+// Comment lines keep proxies from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// How long browsers wait before reconnecting after a dropped stream
+const RECONNECT_DELAY_MS = 3000;
+
+class OrderEventBus {
+  // Event IDs from another process or an earlier boot are never replayable
+  private readonly bootId = Date.now().toString(36);
+  private sequence = 0;
+  private buffer: OrderChangeEvent[] = [];
+  private emitter = new EventEmitter();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(change: Omit<OrderChangeEvent, "id" | "createdAt">) {
+    const event: OrderChangeEvent = {
+      ...change,
+      id: `${this.bootId}-${++this.sequence}`,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.buffer.push(event);
+    if (this.buffer.length > REPLAY_BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+
+    this.emitter.emit("order", event);
+    return event;
+  }
+
+  subscribe(listener: (event: OrderChangeEvent) => void): () => void {
+    this.emitter.on("order", listener);
+    return () => {
+      this.emitter.off("order", listener);
+    };
+  }
+
+  subscriberCount(): number {
+    return this.emitter.listenerCount("order");
+  }
+
+  /**
+   * Events published after `lastEventId`, or null when they can no longer
+   * be replayed (unknown boot, or already dropped from the buffer)
+   */
+  since(lastEventId: string): OrderChangeEvent[] | null {
+    const [bootId, sequence] = lastEventId.split("-");
+    const lastSequence = Number(sequence);
+
+    if (bootId !== this.bootId || !Number.isInteger(lastSequence)) {
+      return null;
+    }
+
+    const oldest = this.buffer[0];
+    const oldestSequence = oldest
+      ? Number(oldest.id.split("-")[1])
+      : this.sequence + 1;
+    if (lastSequence < oldestSequence - 1) {
+      return null;
+    }
+
+    return this.buffer.filter(
+      (event) => Number(event.id.split("-")[1]) > lastSequence
+    );
+  }
+}
+
+// Kept on globalThis so hot reloads in development share one bus
+const globalForOrderEvents = globalThis as typeof globalThis & {
+  orderEventBus?: OrderEventBus;
+};
+
+export const orderEventBus =
+  globalForOrderEvents.orderEventBus ||
+  (globalForOrderEvents.orderEventBus = new OrderEventBus());
+
+/**
+ * Format one SSE message
+ */
+export function formatServerSentEvent(message: {
+  id?: string;
+  event?: string;
+  data: unknown;
+}): string {
+  let frame = "";
+  if (message.id) frame += `id: ${message.id}\n`;
+  if (message.event) frame += `event: ${message.event}\n`;
+  return `${frame}data: ${JSON.stringify(message.data)}\n\n`;
+}
+
+/**
+ * Stream order changes to the client as Server-Sent Events.
+ *
+ * Clients reconnecting with `Last-Event-ID` get the changes they missed. If
+ * those can't be replayed (server restart, another instance, or too far
+ * behind) a `resync` event tells the client to refetch instead.
+ */
+export function createOrderEventStream(
+  request: NextRequest,
+  options: {
+    filter?: (event: OrderChangeEvent) => boolean;
+    // Include the merchant who owns the order (admin streams only)
+    includeMerchant?: boolean;
+  } = {}
+): NextResponse {
+  const { filter = () => true, includeMerchant = false } = options;
+
+  if (orderEventBus.subscriberCount() >= MAX_SUBSCRIBERS) {
+    return NextResponse.json(
+      { error: "Too many open event streams", code: "STREAM_LIMIT" },
+      { status: 503, headers: { "Retry-After": "30" } }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const lastEventId = request.headers.get("last-event-id");
+  let cleanup = () => {};
+
+  const toMessage = (event: OrderChangeEvent) => {
+    const { id, createdBy, ...data } = event;
+    return formatServerSentEvent({
+      id,
+      data: includeMerchant ? { ...data, createdBy } : data,
+    });
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+      if (lastEventId) {
+        const missed = orderEventBus.since(lastEventId);
+        if (missed === null) {
+          send(formatServerSentEvent({ event: "resync", data: {} }));
+        } else {
+          missed.filter(filter).forEach((event) => send(toMessage(event)));
+        }
+      }
+
+      const unsubscribe = orderEventBus.subscribe((event) => {
+        if (filter(event)) {
+          send(toMessage(event));
+        }
+      });
+
+      const heartbeat = setInterval(
+        () => send(": keep-alive\n\n"),
+        HEARTBEAT_INTERVAL_MS
+      );
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        request.signal.removeEventListener("abort", onAbort);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+      request.signal.addEventListener("abort", onAbort);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -5,6 +5,7 @@
 
 import connectDB from "@/lib/db/connection";
 import Order from "@/lib/db/models/order";
+import { expireOrderIfDue } from "@/lib/db/queries/orders";
 
 /**
  * Mark expired orders as expired
@@ -27,23 +28,18 @@ export async function markExpiredOrders(): Promise<{
 
     // Update each expired order
     for (const order of expiredOrders) {
-      order.status = "expired";
-      order.metadata = {
-        ...order.metadata,
-        expiredAt: new Date(),
-        expiredBy: "system",
-      };
-      await order.save();
-      expiredOrderIds.push(order.orderId);
+      if (await expireOrderIfDue(order)) {
+        expiredOrderIds.push(order.orderId);
+      }
     }
 
     console.log(
-      `Marked ${expiredOrders.length} orders as expired:`,
+      `Marked ${expiredOrderIds.length} orders as expired:`,
       expiredOrderIds
     );
 
     return {
-      expiredCount: expiredOrders.length,
+      expiredCount: expiredOrderIds.length,
       expiredOrderIds,
     };
   } catch (error) {
@@ -67,17 +63,7 @@ export async function checkAndUpdateOrderExpiration(orderId: string): Promise<{
       throw new Error("Order not found");
     }
 
-    const wasExpired = order.isExpired() && order.status === "pending";
-
-    if (wasExpired) {
-      order.status = "expired";
-      order.metadata = {
-        ...order.metadata,
-        expiredAt: new Date(),
-        expiredBy: "system",
-      };
-      await order.save();
-    }
+    const wasExpired = await expireOrderIfDue(order);
 
     return {
       wasExpired,
@@ -130,36 +116,6 @@ export async function getOrdersExpiringSoon(withinMinutes: number = 5): Promise<
   }
 }
 
-/**
- * Clean up old expired orders (optional - for data retention)
- */
-export async function cleanupOldExpiredOrders(
-  olderThanDays: number = 30
-): Promise<{
-  deletedCount: number;
-}> {
-  try {
-    await connectDB();
-
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
-
-    const result = await Order.deleteMany({
-      status: "expired",
-      expiresAt: { $lt: cutoffDate },
-    });
-
-    console.log(`Cleaned up ${result.deletedCount} old expired orders`);
-
-    return {
-      deletedCount: result.deletedCount || 0,
-    };
-  } catch (error) {
-    console.error("Error cleaning up old expired orders:", error);
-    throw error;
-  }
-}
-
 /**
  * Get expiration statistics
  */
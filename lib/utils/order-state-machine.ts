@@ -0,0 +1,221 @@
+/**
+ * Order State Machine
+ * The one place that decides which order status changes are allowed, who
+ * may make them and what each one needs
+ */
+
+import { BusinessLogicError, ConflictError } from "./api-errors";
+import type { IOrder } from "../db/models/order";
+
+export type OrderStatus = IOrder["status"];
+
+// Who is asking for the change: the paying customer, an admin, or a
+// background job
+export type OrderActor = "customer" | "admin" | "system";
+
+export type OrderTransitionField = "reason" | "utr";
+
+// The parts of an order the rules look at, so they can be checked without
+// loading a document
+export type TransitionableOrder = Pick<
+  IOrder,
+  "status" | "amount" | "refundedAmount" | "expiresAt"
+>;
+
+export interface OrderTransitionInput {
+  actor: OrderActor;
+  reason?: string;
+  utr?: string;
+}
+
+export interface OrderTransitionRule {
+  from: readonly OrderStatus[];
+  to: OrderStatus;
+  actors: readonly OrderActor[];
+  requires?: readonly OrderTransitionField[];
+  // Pre-transition hook; returns why the order cannot make this change
+  guard?: (
+    order: TransitionableOrder,
+    actor: OrderActor,
+    now: Date
+  ) => string | undefined;
+}
+
+const hasExpired = (order: TransitionableOrder, now: Date) =>
+  now > order.expiresAt;
+
+export const ORDER_TRANSITIONS: readonly OrderTransitionRule[] = [
+  {
+    from: ["pending"],
+    to: "pending-verification",
+    actors: ["customer"],
+    requires: ["utr"],
+    guard: (order, _actor, now) =>
+      hasExpired(order, now)
+        ? "Order has expired. UTR submission not allowed."
+        : undefined,
+  },
+  {
+    // Admin correction: the submitted UTR was wrong, so the customer can retry
+    from: ["pending-verification"],
+    to: "pending",
+    actors: ["admin"],
+    requires: ["reason"],
+    guard: (order, _actor, now) =>
+      hasExpired(order, now) ? "Order has expired" : undefined,
+  },
+  {
+    from: ["pending", "pending-verification"],
+    to: "expired",
+    actors: ["system", "admin"],
+    // Admins may close a pending order early; anything else must be overdue
+    guard: (order, actor, now) =>
+      (actor === "system" || order.status === "pending-verification") &&
+      !hasExpired(order, now)
+        ? "Order has not expired yet"
+        : undefined,
+  },
+  {
+    from: ["pending", "pending-verification"],
+    to: "failed",
+    actors: ["admin"],
+    requires: ["reason"],
+  },
+  {
+    from: ["pending-verification"],
+    to: "completed",
+    actors: ["admin"],
+  },
+  {
+    from: ["completed", "partially-refunded"],
+    to: "partially-refunded",
+    actors: ["admin"],
+    guard: (order) =>
+      (order.refundedAmount || 0) >= order.amount
+        ? "Order is fully refunded"
+        : undefined,
+  },
+  {
+    from: ["completed", "partially-refunded"],
+    to: "refunded",
+    actors: ["admin"],
+    guard: (order) =>
+      (order.refundedAmount || 0) < order.amount
+        ? "Order still has an unrefunded balance"
+        : undefined,
+  },
+];
+
+export class OrderTransitionError extends BusinessLogicError {
+  constructor(message: string, from: OrderStatus, to: OrderStatus) {
+    super(message, { from, to });
+    this.name = "OrderTransitionError";
+  }
+}
+
+// The order changed after the caller read it; details carry its current
+// state so clients can show it and ask the user to reload
+export class OrderVersionConflictError extends ConflictError {
+  constructor(current: {
+    orderId: string;
+    status: OrderStatus;
+    version: number;
+  }) {
+    super("This order has changed since it was loaded. Reload and try again.", {
+      order: current,
+    });
+    this.name = "OrderVersionConflictError";
+    this.code = "ORDER_VERSION_CONFLICT";
+  }
+}
+
+/**
+ * The rule for moving between two statuses, if there is one
+ */
+export function getOrderTransition(
+  from: OrderStatus,
+  to: OrderStatus
+): OrderTransitionRule | undefined {
+  return ORDER_TRANSITIONS.find(
+    (rule) => rule.to === to && rule.from.includes(from)
+  );
+}
+
+/**
+ * Why the order cannot make this change, or undefined when it can.
+ * Required fields are only checked when `input` is given, so callers can ask
+ * "could this happen?" before they have a UTR or reason to hand.
+ */
+function findTransitionProblem(
+  order: TransitionableOrder,
+  to: OrderStatus,
+  actor: OrderActor,
+  input: OrderTransitionInput | undefined,
+  now: Date
+): string | undefined {
+  const rule = getOrderTransition(order.status, to);
+  if (!rule) {
+    return `Order cannot move from ${order.status} to ${to}`;
+  }
+
+  if (!rule.actors.includes(actor)) {
+    return `Order cannot be moved to ${to} by ${actor}`;
+  }
+
+  const guardProblem = rule.guard?.(order, actor, now);
+  if (guardProblem) {
+    return guardProblem;
+  }
+
+  const missing = (rule.requires || []).filter(
+    (field) => input && !input[field]?.trim()
+  );
+  if (missing.length > 0) {
+    return `Moving an order to ${to} requires: ${missing.join(", ")}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether `actor` could move the order to `to` right now
+ */
+export function canTransitionOrder(
+  order: TransitionableOrder,
+  to: OrderStatus,
+  actor: OrderActor,
+  now: Date = new Date()
+): boolean {
+  return !findTransitionProblem(order, to, actor, undefined, now);
+}
+
+/**
+ * Check a requested change against the state machine, throwing
+ * OrderTransitionError when it is not allowed
+ */
+export function assertOrderTransition(
+  order: TransitionableOrder,
+  to: OrderStatus,
+  input: OrderTransitionInput,
+  now: Date = new Date()
+): OrderTransitionRule {
+  const problem = findTransitionProblem(order, to, input.actor, input, now);
+  if (problem) {
+    throw new OrderTransitionError(problem, order.status, to);
+  }
+
+  return getOrderTransition(order.status, to)!;
+}
+
+/**
+ * Statuses `actor` could move the order to right now
+ */
+export function getAllowedOrderTransitions(
+  order: TransitionableOrder,
+  actor: OrderActor,
+  now: Date = new Date()
+): OrderStatus[] {
+  return Array.from(new Set(ORDER_TRANSITIONS.map((rule) => rule.to))).filter(
+    (to) => canTransitionOrder(order, to, actor, now)
+  );
+}
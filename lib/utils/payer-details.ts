@@ -0,0 +1,149 @@
+/**
+ * Payer Details Utilities
+ * Describes which payer fields a merchant asks for and validates what the
+ * customer enters on the payment page
+ */
+
+import { z } from "zod";
+
+export const MAX_CUSTOM_PAYER_FIELDS = 5;
+
+export const CustomPayerFieldSchema = z.object({
+  label: z.string().trim().min(1).max(50),
+  required: z.boolean().default(true),
+});
+
+// Name, phone and email are required whenever they are switched on;
+// custom free-text fields can be optional
+export const PayerFieldsSchema = z
+  .object({
+    name: z.boolean().default(false),
+    phone: z.boolean().default(false),
+    email: z.boolean().default(false),
+    customFields: z
+      .array(CustomPayerFieldSchema)
+      .max(MAX_CUSTOM_PAYER_FIELDS)
+      .default([]),
+  })
+  .refine(
+    (data) =>
+      new Set(data.customFields.map((field) => field.label.toLowerCase()))
+        .size === data.customFields.length,
+    { message: "Custom field labels must be unique", path: ["customFields"] }
+  );
+
+export type PayerFields = z.infer<typeof PayerFieldsSchema>;
+
+export interface PayerDetails {
+  name?: string;
+  phone?: string;
+  email?: string;
+  customFields?: { label: string; value: string }[];
+  submittedAt?: Date;
+}
+
+// Indian mobile numbers, with or without a +91 or 0 prefix
+export const PHONE_PATTERN = /^(?:\+?91|0)?[6-9]\d{9}$/;
+
+export const normalizePhone = (value: string): string =>
+  value.replace(/[\s().-]/g, "");
+
+/**
+ * Whether a field configuration asks the payer for anything at all
+ */
+export function hasPayerFields(fields?: Partial<PayerFields> | null): boolean {
+  return (
+    !!fields &&
+    (!!fields.name ||
+      !!fields.phone ||
+      !!fields.email ||
+      (fields.customFields?.length ?? 0) > 0)
+  );
+}
+
+/**
+ * Labels of the fields a configuration asks for, for display
+ */
+export function describePayerFields(
+  fields?: Partial<PayerFields> | null
+): string[] {
+  if (!fields) return [];
+
+  return [
+    ...(fields.name ? ["Name"] : []),
+    ...(fields.phone ? ["Phone"] : []),
+    ...(fields.email ? ["Email"] : []),
+    ...(fields.customFields || []).map((field) => field.label),
+  ];
+}
+
+/**
+ * Build the validator for a payer's submission; fields the merchant did not
+ * ask for are stripped and custom values are matched to their labels
+ */
+export function buildPayerDetailsSchema(
+  fields: Partial<PayerFields>
+): z.ZodType<PayerDetails, z.ZodTypeDef, unknown> {
+  const customFields = fields.customFields || [];
+  const shape: z.ZodRawShape = {};
+
+  if (fields.name) {
+    shape.name = z.string().trim().min(1, "Name is required").max(100);
+  }
+
+  if (fields.phone) {
+    shape.phone = z
+      .string()
+      .transform(normalizePhone)
+      .pipe(
+        z.string().regex(PHONE_PATTERN, "Enter a valid 10-digit mobile number")
+      );
+  }
+
+  if (fields.email) {
+    shape.email = z
+      .string()
+      .trim()
+      .toLowerCase()
+      .max(254)
+      .email("Enter a valid email address");
+  }
+
+  if (customFields.length > 0) {
+    shape.customFields = z
+      .array(
+        z.object({
+          label: z.string(),
+          value: z.string().trim().max(200),
+        })
+      )
+      .max(MAX_CUSTOM_PAYER_FIELDS)
+      .default([])
+      .superRefine((values, ctx) => {
+        customFields.forEach((field) => {
+          const entry = values.find((value) => value.label === field.label);
+          if (field.required && !entry?.value) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `${field.label} is required`,
+            });
+          }
+        });
+      })
+      .transform((values) =>
+        customFields
+          .map((field) => ({
+            label: field.label,
+            value:
+              values.find((value) => value.label === field.label)?.value || "",
+          }))
+          .filter((entry) => entry.value)
+      );
+  }
+
+  return z.object(shape) as unknown as z.ZodType<
+    PayerDetails,
+    z.ZodTypeDef,
+    unknown
+  >;
+}
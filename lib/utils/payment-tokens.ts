@@ -0,0 +1,159 @@
+/**
+ * Payment Tokens
+ * HMAC signatures that let anonymous customers view and act on one order:
+ * a permanent signature in the shared payment URL, and short-lived tokens
+ * for submitting UTRs from the payment page
+ */
+
+import crypto from "crypto";
+
+export const PAYMENT_TOKEN_HEADER = "X-Payment-Token";
+export const PAYMENT_URL_SIGNATURE_PARAM = "sig";
+
+// Tokens never outlive the order, and are capped for long-lived orders
+export const PAYMENT_TOKEN_MAX_TTL_MS = 60 * 60 * 1000;
+
+// Only used outside production so local setups work without extra config
+const DEVELOPMENT_SECRET = "development-payment-token-secret";
+
+function getSecret(): string {
+  const secret = process.env.PAYMENT_TOKEN_SECRET;
+  if (secret) {
+    return secret;
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("PAYMENT_TOKEN_SECRET must be set in production");
+  }
+
+  return DEVELOPMENT_SECRET;
+}
+
+function sign(orderId: string, issuedAt: number, expiresAt: number): string {
+  return crypto
+    .createHmac("sha256", getSecret())
+    .update(`payment:${orderId}:${issuedAt}:${expiresAt}`)
+    .digest("base64url");
+}
+
+/**
+ * Issue a token for an order, valid until the order expires (or the TTL cap)
+ */
+export function createPaymentToken(
+  orderId: string,
+  orderExpiresAt: Date,
+  now: number = Date.now()
+): string {
+  const issuedAt = Math.floor(now / 1000);
+  const expiresAt = Math.floor(
+    Math.min(orderExpiresAt.getTime(), now + PAYMENT_TOKEN_MAX_TTL_MS) / 1000
+  );
+
+  return `${issuedAt}.${expiresAt}.${sign(orderId, issuedAt, expiresAt)}`;
+}
+
+/**
+ * Read a token issued for this order, or null if it is invalid or expired.
+ * `issuedAt` is when this copy of the payment page was rendered.
+ */
+export function readPaymentToken(
+  token: string | null | undefined,
+  orderId: string,
+  now: number = Date.now()
+): { issuedAt: Date; expiresAt: Date } | null {
+  const [issuedPart, expiresPart, signature, ...rest] = (token || "").split(
+    "."
+  );
+  if (!issuedPart || !expiresPart || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const issuedAt = Number(issuedPart);
+  const expiresAt = Number(expiresPart);
+  if (
+    !Number.isInteger(issuedAt) ||
+    !Number.isInteger(expiresAt) ||
+    expiresAt * 1000 <= now
+  ) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(orderId, issuedAt, expiresAt));
+  const received = Buffer.from(signature);
+
+  if (
+    expected.length !== received.length ||
+    !crypto.timingSafeEqual(expected, received)
+  ) {
+    return null;
+  }
+
+  return {
+    issuedAt: new Date(issuedAt * 1000),
+    expiresAt: new Date(expiresAt * 1000),
+  };
+}
+
+/**
+ * Check a token was issued for this order and has not expired
+ */
+export function verifyPaymentToken(
+  token: string | null | undefined,
+  orderId: string,
+  now: number = Date.now()
+): boolean {
+  return readPaymentToken(token, orderId, now) !== null;
+}
+
+function signOrderId(orderId: string): string {
+  return crypto
+    .createHmac("sha256", getSecret())
+    .update(`payment-url:${orderId}`)
+    .digest("base64url")
+    .slice(0, 22);
+}
+
+/**
+ * Payment page path for an order, signed so it cannot be guessed from the ID
+ */
+export function buildPaymentPagePath(orderId: string): string {
+  return `/pay/${orderId}?${PAYMENT_URL_SIGNATURE_PARAM}=${signOrderId(orderId)}`;
+}
+
+/**
+ * Check a payment URL signature was issued for this order
+ */
+export function verifyPaymentUrlSignature(
+  orderId: string,
+  signature: string | null | undefined
+): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(signOrderId(orderId));
+  const received = Buffer.from(signature);
+
+  return (
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Whether a request for a public order resource may see the order.
+ *
+ * A signature, when present, must match. Unsigned links are only honoured
+ * while legacy payment URLs are allowed in system settings.
+ */
+export function canAccessOrderWithSignature(
+  orderId: string,
+  signature: string | null | undefined,
+  allowLegacyPaymentUrls: boolean
+): boolean {
+  if (signature) {
+    return verifyPaymentUrlSignature(orderId, signature);
+  }
+
+  return allowLegacyPaymentUrls;
+}
@@ -0,0 +1,122 @@
+/**
+ * Rate Limit Policies
+ * Named limits applied to groups of routes. Defaults live here; admins can
+ * override them from the settings screen.
+ */
+
+export const RATE_LIMIT_POLICY_NAMES = [
+  "general",
+  "orderCreation",
+  "utrSubmission",
+  "admin",
+  "auth",
+] as const;
+
+export const RATE_LIMIT_ALGORITHMS = [
+  "sliding-window",
+  "token-bucket",
+] as const;
+
+// What a caller is counted by. "user" and "api-key" fall back to the IP
+// when the request does not carry that identity.
+export const RATE_LIMIT_KEYS = ["ip", "user", "api-key"] as const;
+
+export type RateLimitPolicyName = (typeof RATE_LIMIT_POLICY_NAMES)[number];
+export type RateLimitAlgorithm = (typeof RATE_LIMIT_ALGORITHMS)[number];
+export type RateLimitKey = (typeof RATE_LIMIT_KEYS)[number];
+
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm;
+  // Requests allowed per window; for token buckets, the bucket size
+  limit: number;
+  // Window length; for token buckets, the time to refill an empty bucket
+  windowSeconds: number;
+  keyBy: RateLimitKey;
+}
+
+export type RateLimitPolicies = Record<RateLimitPolicyName, RateLimitPolicy>;
+
+export const DEFAULT_RATE_LIMIT_POLICIES: RateLimitPolicies = {
+  general: {
+    algorithm: "sliding-window",
+    limit: 60,
+    windowSeconds: 60,
+    keyBy: "ip",
+  },
+  orderCreation: {
+    algorithm: "sliding-window",
+    limit: 10,
+    windowSeconds: 15 * 60,
+    keyBy: "user",
+  },
+  utrSubmission: {
+    algorithm: "sliding-window",
+    limit: 5,
+    windowSeconds: 5 * 60,
+    keyBy: "ip",
+  },
+  admin: {
+    algorithm: "token-bucket",
+    limit: 30,
+    windowSeconds: 60,
+    keyBy: "user",
+  },
+  auth: {
+    algorithm: "sliding-window",
+    limit: 5,
+    windowSeconds: 15 * 60,
+    keyBy: "ip",
+  },
+};
+
+export const RATE_LIMIT_POLICY_LABELS: Record<
+  RateLimitPolicyName,
+  { label: string; description: string }
+> = {
+  general: {
+    label: "General API",
+    description: "Most authenticated and public API routes",
+  },
+  orderCreation: {
+    label: "Order creation",
+    description: "Creating orders, bulk uploads and payment link checkouts",
+  },
+  utrSubmission: {
+    label: "UTR submission",
+    description: "Customers submitting UTRs and payer details",
+  },
+  admin: {
+    label: "Admin",
+    description: "Admin-only routes",
+  },
+  auth: {
+    label: "Authentication",
+    description: "Sign-out and other auth endpoints",
+  },
+};
+
+export const RATE_LIMIT_ALGORITHM_LABELS: Record<RateLimitAlgorithm, string> = {
+  "sliding-window": "Sliding window",
+  "token-bucket": "Token bucket",
+};
+
+export const RATE_LIMIT_KEY_LABELS: Record<RateLimitKey, string> = {
+  ip: "IP address",
+  user: "User ID",
+  "api-key": "API key",
+};
+
+/**
+ * Defaults with any saved overrides applied on top
+ */
+export function resolveRateLimitPolicies(
+  overrides?: Partial<Record<RateLimitPolicyName, Partial<RateLimitPolicy>>>
+): RateLimitPolicies {
+  return RATE_LIMIT_POLICY_NAMES.reduce((policies, name) => {
+    policies[name] = {
+      ...DEFAULT_RATE_LIMIT_POLICIES[name],
+      ...(overrides?.[name] || {}),
+    };
+    return policies;
+  }, {} as RateLimitPolicies);
+}
@@ -1,123 +1,490 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getBearerToken, hashApiKey, isApiKeyFormat } from "./api-keys";
+import {
+  DEFAULT_RATE_LIMIT_POLICIES,
+  RateLimitAlgorithm,
+  RateLimitKey,
+  RateLimitPolicies,
+  RateLimitPolicy,
+  RateLimitPolicyName,
+  resolveRateLimitPolicies,
+} from "./rate-limit-policies";
 
+// Ad-hoc limits for code that does not use a named policy
 interface RateLimitConfig {
+  // Limiters with the same name share counts
+  name?: string;
   windowMs: number; // Time window in milliseconds
   maxRequests: number; // Maximum requests per window
+  algorithm?: RateLimitAlgorithm;
+  keyBy?: RateLimitKey;
   keyGenerator?: (req: NextRequest) => string;
 }
 
-interface RateLimitStore {
-  [key: string]: {
-    count: number;
-    resetTime: number;
+// Sliding window counter: requests in the current fixed window plus a
+// share of the previous one, weighted by how much of it still overlaps
+export interface SlidingWindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+// Token bucket: refills continuously at limit / window
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export type RateLimitState = SlidingWindowState | TokenBucketState;
+
+export interface RateLimitOutcome {
+  allowed: boolean;
+  remaining: number;
+  // Epoch ms when the caller has their full quota back, or, when denied,
+  // when the next request will be allowed
+  resetTime: number;
+  // Set when denied
+  retryAfterMs?: number;
+  state: RateLimitState;
+  // When the stored state stops mattering and can be dropped
+  expiresAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number;
+  retryAfterMs?: number;
+  policy: RateLimitPolicy;
+}
+
+/**
+ * Backing store for limiter state. Writes are compare-and-set on a version
+ * so instances sharing a store cannot lose each other's increments.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<{ state: RateLimitState; version: number } | null>;
+  // Write `state` if the stored version still matches (null: no record yet)
+  compareAndSet(
+    key: string,
+    state: RateLimitState,
+    expectedVersion: number | null,
+    expiresAt: Date
+  ): Promise<boolean>;
+}
+
+/**
+ * Apply one request to a sliding window counter
+ */
+export function consumeSlidingWindow(
+  state: SlidingWindowState | null,
+  policy: Pick<RateLimitPolicy, "limit" | "windowSeconds">,
+  now: number
+): RateLimitOutcome {
+  const windowMs = policy.windowSeconds * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  let current = 0;
+  let previous = 0;
+  if (state?.windowStart === windowStart) {
+    current = state.current;
+    previous = state.previous;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previous = state.current;
+  }
+
+  const overlap = 1 - (now - windowStart) / windowMs;
+  const estimated = previous * overlap + current;
+  const expiresAt = windowStart + 2 * windowMs;
+
+  if (estimated + 1 > policy.limit) {
+    // Wait for the previous window to slide far enough out, or, if this
+    // window alone is full, for this window to start sliding out
+    let retryAt: number;
+    if (current + 1 <= policy.limit && previous > 0) {
+      const overlapNeeded = (policy.limit - 1 - current) / previous;
+      retryAt = windowStart + (1 - overlapNeeded) * windowMs;
+    } else {
+      const overlapNeeded = current > 0 ? (policy.limit - 1) / current : 1;
+      retryAt = windowStart + windowMs + (1 - overlapNeeded) * windowMs;
+    }
+    retryAt = Math.max(now + 1, Math.ceil(retryAt));
+
+    return {
+      allowed: false,
+      remaining: 0,
+      resetTime: retryAt,
+      retryAfterMs: retryAt - now,
+      state: { windowStart, current, previous },
+      expiresAt,
+    };
+  }
+
+  return {
+    allowed: true,
+    remaining: Math.max(0, Math.floor(policy.limit - estimated - 1)),
+    resetTime: windowStart + windowMs,
+    state: { windowStart, current: current + 1, previous },
+    expiresAt,
+  };
+}
+
+/**
+ * Apply one request to a token bucket
+ */
+export function consumeTokenBucket(
+  state: TokenBucketState | null,
+  policy: Pick<RateLimitPolicy, "limit" | "windowSeconds">,
+  now: number
+): RateLimitOutcome {
+  const refillPerMs = policy.limit / (policy.windowSeconds * 1000);
+  const tokens = state
+    ? Math.min(
+        policy.limit,
+        state.tokens + Math.max(0, now - state.updatedAt) * refillPerMs
+      )
+    : policy.limit;
+
+  if (tokens < 1) {
+    const retryAfterMs = Math.ceil((1 - tokens) / refillPerMs);
+    return {
+      allowed: false,
+      remaining: 0,
+      resetTime: now + retryAfterMs,
+      retryAfterMs,
+      state: { tokens, updatedAt: now },
+      expiresAt: now + Math.ceil((policy.limit - tokens) / refillPerMs),
+    };
+  }
+
+  const left = tokens - 1;
+  const fullAt = now + Math.ceil((policy.limit - left) / refillPerMs);
+  return {
+    allowed: true,
+    remaining: Math.floor(left),
+    resetTime: fullAt,
+    state: { tokens: left, updatedAt: now },
+    expiresAt: fullAt,
   };
 }
 
-// In-memory store for rate limiting (use Redis in production)
-const store: RateLimitStore = {};
+export function consumeRateLimit(
+  policy: RateLimitPolicy,
+  state: RateLimitState | null,
+  now: number
+): RateLimitOutcome {
+  if (policy.algorithm === "token-bucket") {
+    return consumeTokenBucket(
+      state && "tokens" in state ? state : null,
+      policy,
+      now
+    );
+  }
+
+  return consumeSlidingWindow(
+    state && "windowStart" in state ? state : null,
+    policy,
+    now
+  );
+}
+
+/**
+ * Per-process store. Fine for development and single instances; each
+ * serverless instance gets its own counts.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<
+    string,
+    { state: RateLimitState; version: number; expiresAt: number }
+  >();
+  private lastSweep = 0;
 
-// Clean up expired entries every 5 minutes
-setInterval(
-  () => {
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    return { state: entry.state, version: entry.version };
+  }
+
+  async compareAndSet(
+    key: string,
+    state: RateLimitState,
+    expectedVersion: number | null,
+    expiresAt: Date
+  ) {
+    this.sweep();
+
+    const entry = this.entries.get(key);
+    const live = entry && entry.expiresAt > Date.now() ? entry : null;
+    if ((live?.version ?? null) !== expectedVersion) {
+      return false;
+    }
+
+    this.entries.set(key, {
+      state,
+      version: (live?.version ?? 0) + 1,
+      expiresAt: expiresAt.getTime(),
+    });
+    return true;
+  }
+
+  // Drop expired entries at most once a minute
+  private sweep() {
     const now = Date.now();
-    Object.keys(store).forEach((key) => {
-      if (store[key].resetTime < now) {
-        delete store[key];
+    if (now - this.lastSweep < 60 * 1000) return;
+    this.lastSweep = now;
+
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
       }
     });
-  },
-  5 * 60 * 1000
-);
+  }
+}
 
-export class RateLimiter {
-  private config: RateLimitConfig;
+const memoryStore = new MemoryRateLimitStore();
+
+// Loaded on first use so this module stays free of database imports
+const mongoStore: RateLimitStore = {
+  get: async (key) =>
+    (await import("../db/queries/rate-limits")).mongoRateLimitStore.get(key),
+  compareAndSet: async (key, state, expectedVersion, expiresAt) =>
+    (
+      await import("../db/queries/rate-limits")
+    ).mongoRateLimitStore.compareAndSet(key, state, expectedVersion, expiresAt),
+};
+
+/**
+ * Store named by RATE_LIMIT_STORE ("memory" or "mongodb"). Production
+ * defaults to MongoDB so limits hold across instances.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  const backend =
+    process.env.RATE_LIMIT_STORE ||
+    (process.env.NODE_ENV === "production" ? "mongodb" : "memory");
+
+  return backend === "mongodb" ? mongoStore : memoryStore;
+}
 
-  constructor(config: RateLimitConfig) {
-    this.config = config;
+// Policies are read from system settings, cached briefly per instance
+const POLICY_CACHE_MS = 30 * 1000;
+let policyCache: { policies: RateLimitPolicies; loadedAt: number } | null =
+  null;
+
+export async function getRateLimitPolicies(): Promise<RateLimitPolicies> {
+  if (policyCache && Date.now() - policyCache.loadedAt < POLICY_CACHE_MS) {
+    return policyCache.policies;
   }
 
-  async isAllowed(req: NextRequest): Promise<{
-    allowed: boolean;
-    remaining: number;
-    resetTime: number;
-  }> {
-    const key = this.config.keyGenerator
-      ? this.config.keyGenerator(req)
-      : this.getDefaultKey(req);
+  let policies = DEFAULT_RATE_LIMIT_POLICIES;
+  try {
+    const { getSystemSettings } = await import("../db/queries/settings");
+    const settings = await getSystemSettings();
+    policies = resolveRateLimitPolicies(settings.toObject().rateLimitPolicies);
+  } catch (error) {
+    console.error("Failed to load rate limit policies:", error);
+  }
 
-    const now = Date.now();
-    const windowStart = now - this.config.windowMs;
+  policyCache = { policies, loadedAt: Date.now() };
+  return policies;
+}
 
-    // Initialize or get existing record
-    if (!store[key] || store[key].resetTime < now) {
-      store[key] = {
-        count: 0,
-        resetTime: now + this.config.windowMs,
-      };
-    }
+// Called after settings change so this instance picks them up at once
+export function clearRateLimitPolicyCache(): void {
+  policyCache = null;
+}
+
+/**
+ * Client IP from the proxy headers. Only the first X-Forwarded-For entry is
+ * the client; the rest are proxies.
+ */
+export function getClientIP(req: NextRequest): string {
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || req.headers.get("x-real-ip") || "unknown";
+}
 
-    const record = store[key];
+// Attempts before giving up on a contended key
+const MAX_WRITE_ATTEMPTS = 5;
+let adHocLimiterCount = 0;
 
-    // Check if within rate limit
-    if (record.count >= this.config.maxRequests) {
+export class RateLimiter {
+  private name: string;
+  private config?: RateLimitConfig;
+  private store?: RateLimitStore;
+
+  constructor(
+    policy: RateLimitPolicyName | RateLimitConfig,
+    options: { store?: RateLimitStore } = {}
+  ) {
+    if (typeof policy === "string") {
+      this.name = policy;
+    } else {
+      this.name = policy.name || `custom-${++adHocLimiterCount}`;
+      this.config = policy;
+    }
+    this.store = options.store;
+  }
+
+  async getPolicy(): Promise<RateLimitPolicy> {
+    if (this.config) {
       return {
-        allowed: false,
-        remaining: 0,
-        resetTime: record.resetTime,
+        algorithm: this.config.algorithm || "sliding-window",
+        limit: this.config.maxRequests,
+        windowSeconds: this.config.windowMs / 1000,
+        keyBy: this.config.keyBy || "ip",
       };
     }
 
-    // Increment counter
-    record.count++;
+    const policies = await getRateLimitPolicies();
+    return policies[this.name as RateLimitPolicyName];
+  }
+
+  /**
+   * Count a request against the limit. `identity` carries the caller's user
+   * ID when the route has resolved it; otherwise the authenticated user set
+   * on the request is used. Store failures let the request through.
+   */
+  async isAllowed(
+    req: NextRequest,
+    identity: { userId?: string | null } = {}
+  ): Promise<RateLimitResult> {
+    const policy = await this.getPolicy();
+    const key = `${this.name}:${this.getKey(req, policy.keyBy, identity)}`;
+    const store = this.store || getRateLimitStore();
+
+    try {
+      for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+        const stored = await store.get(key);
+        const outcome = consumeRateLimit(
+          policy,
+          stored?.state || null,
+          Date.now()
+        );
+
+        // Denied requests leave the count as it was
+        if (
+          !outcome.allowed ||
+          (await store.compareAndSet(
+            key,
+            outcome.state,
+            stored?.version ?? null,
+            new Date(outcome.expiresAt)
+          ))
+        ) {
+          return {
+            allowed: outcome.allowed,
+            limit: policy.limit,
+            remaining: outcome.remaining,
+            resetTime: outcome.resetTime,
+            retryAfterMs: outcome.retryAfterMs,
+            policy,
+          };
+        }
+      }
+      console.warn(`Rate limit key ${key} is contended; allowing request`);
+    } catch (error) {
+      console.error("Rate limit store error:", error);
+    }
 
     return {
       allowed: true,
-      remaining: this.config.maxRequests - record.count,
-      resetTime: record.resetTime,
+      limit: policy.limit,
+      remaining: policy.limit,
+      resetTime: Date.now() + policy.windowSeconds * 1000,
+      policy,
     };
   }
 
-  private getDefaultKey(req: NextRequest): string {
-    // Use IP address and user agent for rate limiting key
-    const ip = req.headers.get("x-forwarded-for") || req.headers.get("x-real-ip") || "unknown";
-    const userAgent = req.headers.get("user-agent") || "unknown";
-    return `${ip}:${userAgent}`;
+  private getKey(
+    req: NextRequest,
+    keyBy: RateLimitKey,
+    identity: { userId?: string | null }
+  ): string {
+    if (this.config?.keyGenerator) {
+      return this.config.keyGenerator(req);
+    }
+
+    if (keyBy === "api-key") {
+      const token = getBearerToken(req.headers);
+      if (token && isApiKeyFormat(token)) {
+        return `key:${hashApiKey(token)}`;
+      }
+    }
+
+    if (keyBy === "user") {
+      const userId = identity.userId || (req as any).user?.id;
+      if (userId) {
+        return `user:${userId}`;
+      }
+    }
+
+    return `ip:${getClientIP(req)}`;
   }
 }
 
 // Predefined rate limiters for different endpoints
 export const rateLimiters = {
   // Strict rate limiting for order creation
-  orderCreation: new RateLimiter({
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    maxRequests: 10, // 10 orders per 15 minutes per IP
-  }),
+  orderCreation: new RateLimiter("orderCreation"),
 
   // Moderate rate limiting for UTR submission
-  utrSubmission: new RateLimiter({
-    windowMs: 5 * 60 * 1000, // 5 minutes
-    maxRequests: 5, // 5 UTR submissions per 5 minutes
-  }),
+  utrSubmission: new RateLimiter("utrSubmission"),
 
   // General API rate limiting
-  general: new RateLimiter({
-    windowMs: 1 * 60 * 1000, // 1 minute
-    maxRequests: 60, // 60 requests per minute
-  }),
+  general: new RateLimiter("general"),
 
   // Admin operations rate limiting
-  admin: new RateLimiter({
-    windowMs: 1 * 60 * 1000, // 1 minute
-    maxRequests: 30, // 30 admin operations per minute
-  }),
+  admin: new RateLimiter("admin"),
 
   // Authentication rate limiting
-  auth: new RateLimiter({
-    windowMs: 15 * 60 * 1000, // 15 minutes
-    maxRequests: 5, // 5 auth attempts per 15 minutes
-  }),
+  auth: new RateLimiter("auth"),
 };
 
+/**
+ * IETF RateLimit-* headers describing the caller's quota
+ */
+export function getRateLimitHeaders(
+  result: RateLimitResult
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": result.limit.toString(),
+    "RateLimit-Remaining": result.remaining.toString(),
+    "RateLimit-Reset": Math.max(
+      0,
+      Math.ceil((result.resetTime - Date.now()) / 1000)
+    ).toString(),
+    "RateLimit-Policy": `${result.limit};w=${result.policy.windowSeconds}`,
+  };
+
+  if (!result.allowed) {
+    headers["Retry-After"] = Math.max(
+      1,
+      Math.ceil((result.retryAfterMs || 0) / 1000)
+    ).toString();
+  }
+
+  return headers;
+}
+
+export function rateLimitExceededResponse(
+  result: RateLimitResult,
+  message = "Too many requests. Please try again later."
+): NextResponse {
+  return NextResponse.json(
+    {
+      error: "Rate limit exceeded",
+      message,
+      resetTime: result.resetTime,
+    },
+    {
+      status: 429,
+      headers: getRateLimitHeaders(result),
+    }
+  );
+}
+
 export async function withRateLimit(
   req: NextRequest,
   rateLimiter: RateLimiter,
@@ -126,33 +493,15 @@ export async function withRateLimit(
   const result = await rateLimiter.isAllowed(req);
 
   if (!result.allowed) {
-    return NextResponse.json(
-      {
-        error: "Rate limit exceeded",
-        message: "Too many requests. Please try again later.",
-        resetTime: result.resetTime,
-      },
-      {
-        status: 429,
-        headers: {
-          "X-RateLimit-Limit": rateLimiter["config"].maxRequests.toString(),
-          "X-RateLimit-Remaining": result.remaining.toString(),
-          "X-RateLimit-Reset": result.resetTime.toString(),
-          "Retry-After": Math.ceil(
-            (result.resetTime - Date.now()) / 1000
-          ).toString(),
-        },
-      }
-    );
+    return rateLimitExceededResponse(result);
   }
 
   const response = await handler();
 
   // Add rate limit headers to successful responses
-  const maxRequests = (rateLimiter as any).config.maxRequests;
-  response.headers.set("X-RateLimit-Limit", maxRequests.toString());
-  response.headers.set("X-RateLimit-Remaining", result.remaining.toString());
-  response.headers.set("X-RateLimit-Reset", result.resetTime.toString());
+  Object.entries(getRateLimitHeaders(result)).forEach(([name, value]) => {
+    response.headers.set(name, value);
+  });
 
   return response;
 }
@@ -0,0 +1,191 @@
+/**
+ * Payment Receipt PDF Utilities
+ * Renders single page receipts without a PDF library: text uses the built-in
+ * Helvetica fonts and the QR code is drawn as filled squares.
+ */
+
+import QRCode from "qrcode";
+
+export interface ReceiptRow {
+  label: string;
+  value: string;
+}
+
+export interface ReceiptQrCode {
+  // Modules per side
+  size: number;
+  // Row-major, 1 for a dark module
+  modules: ArrayLike<number>;
+}
+
+export interface ReceiptData {
+  title: string;
+  merchantName: string;
+  amount: string;
+  rows: ReceiptRow[];
+  footer?: string;
+  qrCode?: ReceiptQrCode;
+  qrCaption?: string;
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const QR_SIZE = 140;
+
+// Built-in fonts only cover Latin-1, so anything else is replaced
+const toPdfText = (text: string): string =>
+  text
+    .replace(/[\u00a0\u202f]/g, " ")
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+
+const textLine = (
+  font: "F1" | "F2",
+  size: number,
+  x: number,
+  y: number,
+  text: string
+) => `BT /${font} ${size} Tf ${x} ${y} Td (${toPdfText(text)}) Tj ET`;
+
+/**
+ * Encode content as a QR code. It is generated here rather than by a QR
+ * service since receipt QR codes carry signed payment page URLs.
+ */
+export function createReceiptQrCode(content: string): ReceiptQrCode {
+  const { size, data } = QRCode.create(content, {
+    errorCorrectionLevel: "M",
+  }).modules;
+
+  return { size, modules: data };
+}
+
+// One filled rectangle per run of dark modules in a row, leaving a four
+// module quiet zone inside the box
+const qrCodePath = (
+  { size, modules }: ReceiptQrCode,
+  x: number,
+  y: number,
+  boxSize: number
+): string => {
+  const scale = boxSize / (size + 8);
+  const rects: string[] = [];
+
+  for (let row = 0; row < size; row += 1) {
+    let col = 0;
+    while (col < size) {
+      if (!modules[row * size + col]) {
+        col += 1;
+        continue;
+      }
+
+      const start = col;
+      while (col < size && modules[row * size + col]) {
+        col += 1;
+      }
+
+      rects.push(
+        `${(x + (start + 4) * scale).toFixed(2)} ${(y + boxSize - (row + 5) * scale).toFixed(2)} ` +
+          `${((col - start) * scale).toFixed(2)} ${scale.toFixed(2)} re`
+      );
+    }
+  }
+
+  return `0 g\n${rects.join("\n")}\nf`;
+};
+
+/**
+ * Render a receipt as a single page PDF document
+ */
+export function renderReceiptPdf(receipt: ReceiptData): Buffer {
+  const content: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN - 20;
+
+  content.push(textLine("F2", 22, MARGIN, y, receipt.title));
+  y -= 30;
+  content.push(textLine("F1", 13, MARGIN, y, receipt.merchantName));
+  y -= 40;
+  content.push(textLine("F2", 26, MARGIN, y, receipt.amount));
+  y -= 20;
+
+  // Divider
+  content.push(
+    `0.8 G 1 w ${MARGIN} ${y} m ${PAGE_WIDTH - MARGIN} ${y} l S 0 G`
+  );
+  y -= 30;
+
+  for (const row of receipt.rows) {
+    content.push(textLine("F1", 10, MARGIN, y, row.label));
+    content.push(textLine("F2", 11, MARGIN + 150, y, row.value));
+    y -= 22;
+  }
+
+  if (receipt.qrCode) {
+    const x = PAGE_WIDTH - MARGIN - QR_SIZE;
+    const qrY = PAGE_HEIGHT - MARGIN - QR_SIZE;
+    content.push(qrCodePath(receipt.qrCode, x, qrY, QR_SIZE));
+    if (receipt.qrCaption) {
+      content.push(textLine("F1", 8, x, qrY - 12, receipt.qrCaption));
+    }
+  }
+
+  if (receipt.footer) {
+    content.push(textLine("F1", 8, MARGIN, MARGIN, receipt.footer));
+  }
+
+  const stream = Buffer.from(content.join("\n"), "latin1");
+
+  const objects: Buffer[] = [
+    Buffer.from("<< /Type /Catalog /Pages 2 0 R >>"),
+    Buffer.from("<< /Type /Pages /Kids [3 0 R] /Count 1 >>"),
+    Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>`
+    ),
+    Buffer.concat([
+      Buffer.from(`<< /Length ${stream.length} >>\nstream\n`),
+      stream,
+      Buffer.from("\nendstream"),
+    ]),
+    Buffer.from(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+    ),
+    Buffer.from(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+    ),
+  ];
+
+  // Assemble the file and cross-reference table
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  const offsets: number[] = [];
+  let length = chunks[0].length;
+
+  objects.forEach((object, index) => {
+    offsets.push(length);
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`),
+      object,
+      Buffer.from("\nendobj\n"),
+    ]);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    "startxref",
+    String(length),
+    "%%EOF",
+  ].join("\n");
+
+  chunks.push(Buffer.from(xref + "\n"));
+
+  return Buffer.concat(chunks);
+}
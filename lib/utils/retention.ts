@@ -0,0 +1,150 @@
+/**
+ * Data Retention
+ * How long orders, audit logs and sessions are kept, and what happens to
+ * them afterwards. Admins manage the rules; these helpers turn a rule into
+ * the filter and update applied to the collection.
+ */
+
+export const RETENTION_ENTITIES = ["orders", "auditLogs", "sessions"] as const;
+
+// "anonymize" keeps the record (and any amounts on it) but strips personal
+// data; "delete" removes the record
+export const RETENTION_MODES = ["delete", "anonymize"] as const;
+
+export type RetentionEntity = (typeof RETENTION_ENTITIES)[number];
+export type RetentionMode = (typeof RETENTION_MODES)[number];
+
+export interface RetentionCriteria {
+  entity: RetentionEntity;
+  olderThanDays: number;
+  mode: RetentionMode;
+  // Order statuses the rule applies to; empty means every status
+  statuses?: string[];
+  // Audit actions the rule applies to; empty means every action
+  actions?: string[];
+}
+
+export const RETENTION_ENTITY_LABELS: Record<RetentionEntity, string> = {
+  orders: "Orders",
+  auditLogs: "Audit logs",
+  sessions: "Sessions",
+};
+
+// Field each entity's age is measured from
+export const RETENTION_AGE_FIELDS: Record<RetentionEntity, string> = {
+  orders: "createdAt",
+  auditLogs: "timestamp",
+  sessions: "lastActivityAt",
+};
+
+// Personal data removed when a record is anonymized
+export const ANONYMIZED_FIELDS: Record<RetentionEntity, string[]> = {
+  orders: [
+    "payerName",
+    "payerDetails.name",
+    "payerDetails.phone",
+    "payerDetails.phoneHash",
+    "payerDetails.email",
+    "payerDetails.emailHash",
+    "payerDetails.customFields",
+    "metadata.customerIP",
+    "metadata.customerIPHash",
+    "metadata.userAgent",
+    "metadata.utrSubmissionIP",
+    "metadata.utrSubmissionIPHash",
+    "metadata.utrSubmissionUserAgent",
+    "metadata.utrSubmissionDeviceId",
+  ],
+  auditLogs: ["ipAddress", "userAgent"],
+  sessions: ["ipAddress", "userAgent", "device"],
+};
+
+// Purge records are never purged, so every purge stays on record
+export const PURGE_AUDIT_ACTION = "data_purged";
+
+// Deleting a chained audit entry would break the hash chain, so "delete"
+// strips its content instead and leaves the chain fields as a stub
+export const PRUNED_AUDIT_FIELDS = [
+  "entityId",
+  "userId",
+  "details",
+  "ipAddress",
+  "userAgent",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getRetentionCutoff(
+  olderThanDays: number,
+  now: Date = new Date()
+): Date {
+  return new Date(now.getTime() - olderThanDays * DAY_MS);
+}
+
+/**
+ * Filter matching the records a rule acts on. Anonymizing only matches
+ * records that still hold personal data, so re-running a rule is a no-op.
+ */
+export function buildRetentionFilter(
+  criteria: RetentionCriteria,
+  now: Date = new Date()
+): Record<string, any> {
+  const filter: Record<string, any> = {
+    [RETENTION_AGE_FIELDS[criteria.entity]]: {
+      $lt: getRetentionCutoff(criteria.olderThanDays, now),
+    },
+  };
+
+  if (criteria.entity === "orders" && criteria.statuses?.length) {
+    filter.status = { $in: criteria.statuses };
+  }
+
+  if (criteria.entity === "auditLogs") {
+    filter.action = criteria.actions?.length
+      ? { $in: criteria.actions.filter((a) => a !== PURGE_AUDIT_ACTION) }
+      : { $ne: PURGE_AUDIT_ACTION };
+
+    if (criteria.mode === "delete") {
+      filter.prunedAt = { $exists: false };
+    }
+  }
+
+  if (criteria.mode === "anonymize") {
+    filter.$or = ANONYMIZED_FIELDS[criteria.entity].map((field) => ({
+      [field]: { $exists: true },
+    }));
+  }
+
+  return filter;
+}
+
+// Update stripping personal data from matched records
+export function buildAnonymizeUpdate(entity: RetentionEntity) {
+  return {
+    $unset: Object.fromEntries(
+      ANONYMIZED_FIELDS[entity].map((field) => [field, ""])
+    ),
+  };
+}
+
+// Update turning a chained audit entry into a stub
+export function buildAuditPruneUpdate(now: Date = new Date()) {
+  return {
+    $set: { prunedAt: now },
+    $unset: Object.fromEntries(PRUNED_AUDIT_FIELDS.map((field) => [field, ""])),
+  };
+}
+
+// Short description of a rule, e.g. "Delete expired orders after 30 days"
+export function describeRetentionRule(criteria: RetentionCriteria): string {
+  const scope =
+    criteria.entity === "orders" && criteria.statuses?.length
+      ? `${criteria.statuses.join(", ")} orders`
+      : criteria.entity === "auditLogs" && criteria.actions?.length
+        ? `${criteria.actions.join(", ")} audit logs`
+        : RETENTION_ENTITY_LABELS[criteria.entity].toLowerCase();
+  const verb = criteria.mode === "delete" ? "Delete" : "Anonymize";
+  const days = criteria.olderThanDays === 1 ? "day" : "days";
+
+  return `${verb} ${scope} after ${criteria.olderThanDays} ${days}`;
+}
@@ -17,6 +17,14 @@ export class InputSanitizer {
       return obj;
     }
 
+    if (Array.isArray(obj)) {
+      return obj.map((value) =>
+        typeof value === "string"
+          ? DOMPurify.sanitize(value)
+          : this.sanitizeObject(value)
+      );
+    }
+
     const sanitized: any = {};
     for (const [key, value] of Object.entries(obj)) {
       if (typeof value === "string") {
@@ -1,5 +1,6 @@
 import { auth } from "@clerk/nextjs/server";
 import { NextRequest, NextResponse } from "next/server";
+import type { SessionEndReason } from "@/lib/db/models/user-session";
 
 export interface SessionInfo {
   userId: string;
@@ -8,15 +9,31 @@ export interface SessionInfo {
   lastActivity: number;
   ipAddress: string;
   userAgent: string;
+  device: string;
+  // Set when the session was revoked, timed out or pushed out by newer ones
+  endReason?: SessionEndReason;
 }
 
-export class SessionManager {
-  private static readonly SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
-  private static readonly MAX_SESSIONS_PER_USER = 5;
-  private static activeSessions = new Map<string, SessionInfo>();
+export interface RevokeSessionOptions {
+  // User ID of whoever is ending the session, or "system"
+  revokedBy: string;
+  reason?: SessionEndReason;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Registry queries are loaded on first use so this module, which is also
+// bundled for the browser, stays free of database imports
+const loadSessionQueries = () => import("@/lib/db/queries/user-sessions");
 
+/**
+ * Tracks signed-in sessions in the database so idle timeouts, the
+ * per-user session limit and revocations hold across instances and
+ * restarts. Ending a session here also revokes it in Clerk.
+ */
+export class SessionManager {
   /**
-   * Create or update session information
+   * Register the request's session, refreshing its last activity
    */
   static async createSession(req: NextRequest): Promise<SessionInfo | null> {
     try {
@@ -31,22 +48,36 @@ export class SessionManager {
       const user = await client.users.getUser(userId);
       const role = (user.publicMetadata?.role as string) || "viewer";
 
-      const sessionInfo: SessionInfo = {
-        userId,
+      const { recordSessionActivity } = await loadSessionQueries();
+      const result = await recordSessionActivity({
         sessionId,
+        userId,
         role,
-        lastActivity: Date.now(),
-        ipAddress: req.headers.get("x-forwarded-for") || req.headers.get("x-real-ip") || "unknown",
+        ipAddress:
+          req.headers.get("x-forwarded-for") ||
+          req.headers.get("x-real-ip") ||
+          "unknown",
         userAgent: req.headers.get("user-agent") || "unknown",
-      };
-
-      // Store session
-      this.activeSessions.set(sessionId, sessionInfo);
+      });
 
-      // Clean up old sessions for this user
-      await this.cleanupUserSessions(userId);
+      if (result.outcome === "ended") {
+        // Idle sessions are only ended here; make sure Clerk agrees
+        await this.revokeClerkSessions([sessionId]);
+      } else {
+        await this.revokeClerkSessions(result.endedSessionIds);
+      }
 
-      return sessionInfo;
+      return {
+        userId,
+        sessionId,
+        role: result.session.role,
+        lastActivity: result.session.lastActivityAt.getTime(),
+        ipAddress: result.session.ipAddress,
+        userAgent: result.session.userAgent,
+        device: result.session.device,
+        endReason:
+          result.outcome === "ended" ? result.session.revokeReason : undefined,
+      };
     } catch (error) {
       console.error("Session creation error:", error);
       return null;
@@ -60,135 +91,96 @@ export class SessionManager {
     sessionId: string,
     req: NextRequest
   ): Promise<boolean> {
-    const session = this.activeSessions.get(sessionId);
+    const session = await this.createSession(req);
 
-    if (!session) {
-      return false;
-    }
-
-    // Check session timeout
-    if (Date.now() - session.lastActivity > this.SESSION_TIMEOUT) {
-      this.activeSessions.delete(sessionId);
-      return false;
-    }
-
-    // Validate IP address (optional security check)
-    const currentIP = req.headers.get("x-forwarded-for") || req.headers.get("x-real-ip") || "unknown";
-    if (session.ipAddress !== currentIP) {
-      console.warn(`IP address mismatch for session ${sessionId}`);
-      // Optionally invalidate session on IP change
-      // this.activeSessions.delete(sessionId)
-      // return false
-    }
-
-    // Update last activity
-    session.lastActivity = Date.now();
-    this.activeSessions.set(sessionId, session);
-
-    return true;
+    return !!session && session.sessionId === sessionId && !session.endReason;
   }
 
   /**
    * Invalidate session
    */
-  static async invalidateSession(sessionId: string): Promise<void> {
-    this.activeSessions.delete(sessionId);
+  static async invalidateSession(
+    sessionId: string,
+    options: RevokeSessionOptions & { userId?: string }
+  ): Promise<void> {
+    const { revokeUserSession } = await loadSessionQueries();
+
+    await revokeUserSession(sessionId, {
+      ...options,
+      reason: options.reason || "revoked",
+    });
+    await this.revokeClerkSessions([sessionId]);
+  }
 
+  /**
+   * End the caller's own session on logout. Clerk is told even when the
+   * registry has no record of the session.
+   */
+  static async signOut(
+    userId: string,
+    sessionId: string,
+    options: { ipAddress?: string; userAgent?: string } = {}
+  ): Promise<void> {
     try {
-      // Also revoke session in Clerk
-      const { clerkClient } = await import("@clerk/nextjs/server");
-      const client = await clerkClient();
-      await client.sessions.revokeSession(sessionId);
+      await this.invalidateSession(sessionId, {
+        ...options,
+        userId,
+        revokedBy: userId,
+        reason: "signed_out",
+      });
     } catch (error) {
-      console.error("Error revoking Clerk session:", error);
+      console.error("Error ending registered session:", error);
+      await this.revokeClerkSessions([sessionId]);
     }
   }
 
   /**
    * Invalidate all sessions for a user
    */
-  static async invalidateUserSessions(userId: string): Promise<void> {
-    // Remove from local storage
-    for (const [sessionId, session] of this.activeSessions.entries()) {
-      if (session.userId === userId) {
-        this.activeSessions.delete(sessionId);
-      }
-    }
+  static async invalidateUserSessions(
+    userId: string,
+    options: RevokeSessionOptions & { exceptSessionId?: string }
+  ): Promise<number> {
+    const { revokeUserSessions } = await loadSessionQueries();
+    const ended = await revokeUserSessions(userId, {
+      ...options,
+      reason: options.reason || "revoked",
+    });
 
     try {
-      // Revoke all Clerk sessions for user
+      // Revoke all Clerk sessions for user, including any never seen here
       const { clerkClient } = await import("@clerk/nextjs/server");
       const client = await clerkClient();
-      const sessions = await client.sessions.getSessionList({ userId });
-      for (const session of sessions.data) {
-        await client.sessions.revokeSession(session.id);
-      }
+      const sessions = await client.sessions.getSessionList({
+        userId,
+        status: "active",
+      });
+      await this.revokeClerkSessions(
+        sessions.data
+          .map((session) => session.id)
+          .filter((id) => id !== options.exceptSessionId)
+      );
     } catch (error) {
       console.error("Error revoking user sessions:", error);
     }
-  }
 
-  /**
-   * Clean up expired sessions
-   */
-  static cleanupExpiredSessions(): void {
-    const now = Date.now();
-
-    for (const [sessionId, session] of this.activeSessions.entries()) {
-      if (now - session.lastActivity > this.SESSION_TIMEOUT) {
-        this.activeSessions.delete(sessionId);
-      }
-    }
-  }
-
-  /**
-   * Clean up old sessions for a user (keep only recent ones)
-   */
-  private static async cleanupUserSessions(userId: string): Promise<void> {
-    const userSessions = Array.from(this.activeSessions.entries())
-      .filter(([_, session]) => session.userId === userId)
-      .sort(([_, a], [__, b]) => b.lastActivity - a.lastActivity);
-
-    // Keep only the most recent sessions
-    if (userSessions.length > this.MAX_SESSIONS_PER_USER) {
-      const sessionsToRemove = userSessions.slice(this.MAX_SESSIONS_PER_USER);
-
-      for (const [sessionId] of sessionsToRemove) {
-        await this.invalidateSession(sessionId);
-      }
-    }
+    return ended.length;
   }
 
   /**
    * Get active sessions for a user
    */
-  static getUserSessions(userId: string): SessionInfo[] {
-    return Array.from(this.activeSessions.values())
-      .filter((session) => session.userId === userId)
-      .sort((a, b) => b.lastActivity - a.lastActivity);
+  static async getUserSessions(userId: string) {
+    const { getActiveUserSessions } = await loadSessionQueries();
+    return getActiveUserSessions(userId);
   }
 
   /**
    * Get session statistics
    */
-  static getSessionStats(): {
-    totalSessions: number;
-    activeUsers: number;
-    sessionsByRole: Record<string, number>;
-  } {
-    const sessions = Array.from(this.activeSessions.values());
-    const uniqueUsers = new Set(sessions.map((s) => s.userId));
-    const sessionsByRole: Record<string, number> = {};
-
-    for (const session of sessions) {
-      sessionsByRole[session.role] = (sessionsByRole[session.role] || 0) + 1;
-    }
-
-    return {
-      totalSessions: sessions.length,
-      activeUsers: uniqueUsers.size,
-      sessionsByRole,
-    };
+  static async getSessionStats() {
+    const { getSessionStats } = await loadSessionQueries();
+    return getSessionStats();
   }
 
   /**
@@ -199,17 +191,23 @@ export class SessionManager {
     reason: string = "Administrative action"
   ): Promise<void> {
     console.log(`Force logout for user ${userId}: ${reason}`);
-    await this.invalidateUserSessions(userId);
+    await this.invalidateUserSessions(userId, { revokedBy: "system" });
   }
-}
 
-// Clean up expired sessions every 5 minutes
-setInterval(
-  () => {
-    SessionManager.cleanupExpiredSessions();
-  },
-  5 * 60 * 1000
-);
+  private static async revokeClerkSessions(sessionIds: string[]) {
+    if (sessionIds.length === 0) return;
+
+    try {
+      const { clerkClient } = await import("@clerk/nextjs/server");
+      const client = await clerkClient();
+      for (const sessionId of sessionIds) {
+        await client.sessions.revokeSession(sessionId);
+      }
+    } catch (error) {
+      console.error("Error revoking Clerk session:", error);
+    }
+  }
+}
 
 /**
  * Middleware wrapper for session management
@@ -221,6 +219,19 @@ export async function withSessionManagement(
   try {
     const session = await SessionManager.createSession(req);
 
+    if (session?.endReason) {
+      return NextResponse.json(
+        {
+          error:
+            session.endReason === "idle_timeout"
+              ? "Session expired"
+              : "Session has been signed out",
+          code: "SESSION_ENDED",
+        },
+        { status: 401 }
+      );
+    }
+
     if (session) {
       // Add session info to request headers for downstream use
       const response = await handler();
@@ -0,0 +1,38 @@
+/**
+ * User Agent Utilities
+ * Turns User-Agent headers into short labels like "Chrome on Windows" so
+ * people can recognise their sessions
+ */
+
+// Checked in order: Edge and Opera also claim to be Chrome, and Chrome
+// claims to be Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/SamsungBrowser\//, "Samsung Internet"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone/, "iPhone"],
+  [/iPad/, "iPad"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+export function describeDevice(userAgent?: string | null): string {
+  if (!userAgent || userAgent === "unknown") {
+    return "Unknown device";
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || "Unknown device";
+}
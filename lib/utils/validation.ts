@@ -180,6 +180,8 @@ export const OrderDetailsResponseSchema = z.object({
       "completed",
       "expired",
       "failed",
+      "refunded",
+      "partially-refunded",
     ]),
     utr: z.string().optional(),
     createdAt: z.date(),
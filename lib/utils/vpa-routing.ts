@@ -0,0 +1,82 @@
+/**
+ * UPI ID Routing Utilities
+ * Picks which of a merchant's verified UPI IDs receives a new order
+ */
+
+export type VpaRoutingStrategy = "default" | "amount" | "time" | "round-robin";
+
+export interface RoutableVpa {
+  vpa: string;
+  isDefault: boolean;
+  verified: boolean;
+}
+
+export interface VpaRoutingRules {
+  strategy: VpaRoutingStrategy;
+  amountBands: { minAmount: number; maxAmount: number; vpa: string }[];
+  timeWindows: { startHour: number; endHour: number; vpa: string }[];
+}
+
+// Routing windows are configured in Indian Standard Time (UTC+05:30)
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+export const getIstHour = (date: Date): number =>
+  new Date(date.getTime() + IST_OFFSET_MS).getUTCHours();
+
+/**
+ * Whether an hour falls in [startHour, endHour), wrapping past midnight
+ */
+export function isHourInWindow(
+  hour: number,
+  startHour: number,
+  endHour: number
+): boolean {
+  return startHour < endHour
+    ? hour >= startHour && hour < endHour
+    : hour >= startHour || hour < endHour;
+}
+
+/**
+ * Select the UPI ID for an order. Rules pointing at unverified or removed
+ * IDs are skipped, and anything unmatched falls back to the default.
+ */
+export function selectVpa(
+  vpas: RoutableVpa[],
+  rules: VpaRoutingRules,
+  context: { amount: number; now?: Date; counter?: number }
+): string | undefined {
+  const verified = vpas.filter((entry) => entry.verified);
+  if (verified.length === 0) {
+    return undefined;
+  }
+
+  const isUsable = (vpa: string) => verified.some((entry) => entry.vpa === vpa);
+  let routed: string | undefined;
+
+  switch (rules.strategy) {
+    case "amount":
+      routed = rules.amountBands.find(
+        (band) =>
+          context.amount >= band.minAmount &&
+          context.amount <= band.maxAmount &&
+          isUsable(band.vpa)
+      )?.vpa;
+      break;
+    case "time": {
+      const hour = getIstHour(context.now || new Date());
+      routed = rules.timeWindows.find(
+        (window) =>
+          isHourInWindow(hour, window.startHour, window.endHour) &&
+          isUsable(window.vpa)
+      )?.vpa;
+      break;
+    }
+    case "round-robin":
+      routed = verified[(context.counter || 0) % verified.length].vpa;
+      break;
+  }
+
+  return (
+    routed || (verified.find((entry) => entry.isDefault) || verified[0]).vpa
+  );
+}
@@ -0,0 +1,267 @@
+/**
+ * Outbound Webhook Utilities
+ * Signs webhook payloads and delivers them to merchant endpoints with retries
+ */
+
+import crypto from "crypto";
+import { promises as dns } from "dns";
+import { BlockList, isIP } from "net";
+import {
+  withRetry,
+  createNetworkError,
+  isRetryableError,
+  type RetryOptions,
+} from "./network-handler";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+export const WEBHOOK_EVENT_HEADER = "X-Webhook-Event";
+export const WEBHOOK_ID_HEADER = "X-Webhook-Id";
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+// Addresses a merchant-supplied URL must never reach: unspecified, private
+// (RFC 1918), carrier-grade NAT, loopback, link-local (where cloud metadata
+// services listen), multicast and reserved ranges. IPv4 rules also cover
+// IPv4-mapped IPv6 addresses.
+const BLOCKED_SUBNETS: Array<[string, number, "ipv4" | "ipv6"]> = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 3, "ipv4"],
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+const blockedAddresses = new BlockList();
+BLOCKED_SUBNETS.forEach(([network, prefix, type]) =>
+  blockedAddresses.addSubnet(network, prefix, type)
+);
+
+export interface WebhookAttemptResult {
+  attemptedAt: Date;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDeliveryResult {
+  success: boolean;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  attempts: WebhookAttemptResult[];
+}
+
+/**
+ * Generate a random signing secret for a new endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Sign a raw payload body. The signed content is `${timestamp}.${body}`
+ * so receivers can reject replayed requests with stale timestamps.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify a signature header produced by signWebhookPayload
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  toleranceSeconds = 300
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => part.split("=", 2) as [string, string])
+  );
+  const timestamp = Number(parts.t);
+
+  if (!timestamp || !parts.v1) {
+    return false;
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = signWebhookPayload(secret, timestamp, body).split("v1=")[1];
+  const expectedBuffer = Buffer.from(expected, "hex");
+  const actualBuffer = Buffer.from(parts.v1, "hex");
+
+  return (
+    expectedBuffer.length === actualBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, actualBuffer)
+  );
+}
+
+/**
+ * Whether an IP address is loopback, link-local, private or otherwise not
+ * publicly routable
+ */
+export function isBlockedWebhookAddress(address: string): boolean {
+  const family = isIP(address);
+  return (
+    family === 0 ||
+    blockedAddresses.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+}
+
+/**
+ * Resolve the host of a webhook URL and explain why it can't receive
+ * webhooks, or return null when every address it resolves to is public.
+ * DNS failures are thrown as-is.
+ */
+export async function checkWebhookDestination(
+  url: string
+): Promise<string | null> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await dns.lookup(hostname, { all: true, verbatim: true })).map(
+        (result) => result.address
+      );
+
+  const blocked = addresses.find(isBlockedWebhookAddress);
+  if (addresses.length === 0 || blocked) {
+    return `Webhook URL must not point to a private, loopback or link-local address (${hostname} resolves to ${blocked || "nothing"})`;
+  }
+
+  return null;
+}
+
+/**
+ * POST a signed payload to an endpoint, retrying with exponential backoff.
+ * Every attempt is recorded so it can be persisted in the delivery log.
+ * The host is checked again on each attempt since its DNS records may have
+ * changed since the endpoint was registered, and redirects are not followed.
+ */
+export async function deliverWebhook(
+  url: string,
+  secret: string,
+  payload: { id: string; event: string; [key: string]: any },
+  retryOptions: RetryOptions = {}
+): Promise<WebhookDeliveryResult> {
+  const body = JSON.stringify(payload);
+  const attempts: WebhookAttemptResult[] = [];
+  let responseStatus: number | undefined;
+  let responseBody: string | undefined;
+
+  const attemptDelivery = async () => {
+    const attemptedAt = new Date();
+    const timestamp = Math.floor(attemptedAt.getTime() / 1000);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+
+    try {
+      const blocked = await checkWebhookDestination(url);
+      if (blocked) {
+        throw createNetworkError(
+          blocked,
+          "BLOCKED_DESTINATION",
+          undefined,
+          false
+        );
+      }
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "UPI-Payment-Webhooks/1.0",
+          [WEBHOOK_ID_HEADER]: payload.id,
+          [WEBHOOK_EVENT_HEADER]: payload.event,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            secret,
+            timestamp,
+            body
+          ),
+        },
+        body,
+        redirect: "manual",
+        signal: controller.signal,
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text().catch(() => "")).slice(
+        0,
+        MAX_RESPONSE_BODY_LENGTH
+      );
+
+      attempts.push({
+        attemptedAt,
+        responseStatus: response.status,
+        durationMs: Date.now() - attemptedAt.getTime(),
+      });
+
+      if (!response.ok) {
+        throw createNetworkError(
+          `Endpoint responded with HTTP ${response.status}`,
+          "HTTP_ERROR",
+          response.status,
+          response.status >= 500 || response.status === 429
+        );
+      }
+    } catch (error: any) {
+      if (error.name === "AbortError") {
+        error = createNetworkError("Request timed out", "TIMEOUT_ERROR");
+      }
+
+      if (error.code !== "HTTP_ERROR") {
+        responseStatus = undefined;
+        attempts.push({
+          attemptedAt,
+          error: error.message,
+          durationMs: Date.now() - attemptedAt.getTime(),
+        });
+      }
+
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  };
+
+  try {
+    await withRetry(attemptDelivery, {
+      maxRetries: 4,
+      baseDelay: 2000,
+      maxDelay: 60000,
+      retryCondition: isRetryableError,
+      ...retryOptions,
+    });
+
+    return { success: true, responseStatus, responseBody, attempts };
+  } catch (error) {
+    return {
+      success: false,
+      responseStatus,
+      responseBody,
+      error: error instanceof Error ? error.message : "Delivery failed",
+      attempts,
+    };
+  }
+}
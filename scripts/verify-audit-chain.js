@@ -0,0 +1,332 @@
+/**
+ * Audit Log Chain Verifier
+ * Checks the audit log hash chain and its signed checkpoints straight from
+ * MongoDB, without going through the app.
+ *
+ * Usage: node scripts/verify-audit-chain.js [--checkpoints <export.json>]
+ *
+ * With --checkpoints the chain is checked against an exported checkpoint
+ * file and the public key inside it, so a database that was rewritten along
+ * with its checkpoints collection is still caught. Otherwise checkpoints are
+ * read from the database and verified with the key from AUDIT_SIGNING_KEY.
+ *
+ * Mirrors lib/utils/audit-chain.ts; keep the two in step.
+ */
+
+const crypto = require("crypto");
+const fs = require("fs");
+
+const AUDIT_CHAIN_GENESIS = "0".repeat(64);
+const AUDIT_REDACTION_ACTION = "audit_redacted";
+
+function normalize(value) {
+  if (value && typeof value.toJSON === "function") {
+    return normalize(value.toJSON());
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => (item === undefined ? null : normalize(item)));
+  }
+
+  if (value && typeof value === "object") {
+    const result = {};
+    for (const key of Object.keys(value).sort()) {
+      const item = normalize(value[key]);
+      const isEmptyObject =
+        item &&
+        typeof item === "object" &&
+        !Array.isArray(item) &&
+        Object.keys(item).length === 0;
+
+      if (item !== undefined && item !== null && !isEmptyObject) {
+        result[key] = item;
+      }
+    }
+    return result;
+  }
+
+  return value;
+}
+
+function canonicalJson(value) {
+  return JSON.stringify(normalize(value)) ?? "null";
+}
+
+const sha256 = (value) =>
+  crypto.createHash("sha256").update(value).digest("hex");
+
+const auditContentOf = (entry) => ({
+  entityId: entry.entityId,
+  userId: entry.userId,
+  details: entry.details,
+  ipAddress: entry.ipAddress,
+  userAgent: entry.userAgent,
+});
+
+function hashAuditContent(salt, content) {
+  return sha256(`${salt}\n${canonicalJson(auditContentOf(content))}`);
+}
+
+function redactedContentDigest(content) {
+  return sha256(canonicalJson(auditContentOf(content)));
+}
+
+// Latest authorization for each redacted sequence number
+function collectAuditRedactions(records) {
+  const redactions = new Map();
+  const ordered = [...records].sort((a, b) => a.sequence - b.sequence);
+
+  for (const record of ordered) {
+    for (const redaction of (record.details && record.details.entries) || []) {
+      redactions.set(redaction.sequence, {
+        sequence: redaction.sequence,
+        digest: redaction.digest,
+        recordSequence: record.sequence,
+      });
+    }
+  }
+
+  return redactions;
+}
+
+function computeAuditEntryHash(entry) {
+  return sha256(
+    canonicalJson({
+      sequence: entry.sequence,
+      prevHash: entry.prevHash,
+      timestamp: entry.timestamp,
+      action: entry.action,
+      entityType: entry.entityType,
+      contentDigest: entry.contentDigest,
+    })
+  );
+}
+
+function checkAuditChainLink(entry, previous, redactions = new Map()) {
+  const expected = previous ? previous.sequence + 1 : 1;
+
+  if (entry.sequence !== expected) {
+    return {
+      sequence: expected,
+      reason: "missing_entry",
+      message: `Expected entry ${expected}, found entry ${entry.sequence}`,
+    };
+  }
+
+  if (entry.prevHash !== (previous ? previous.hash : AUDIT_CHAIN_GENESIS)) {
+    return {
+      sequence: entry.sequence,
+      reason: "broken_link",
+      message: `Entry ${entry.sequence} does not follow entry ${expected - 1}`,
+    };
+  }
+
+  const contentDigest =
+    entry.redactedDigest ||
+    (entry.salt ? hashAuditContent(entry.salt, entry) : undefined);
+  if (
+    !contentDigest ||
+    computeAuditEntryHash({ ...entry, contentDigest }) !== entry.hash
+  ) {
+    return {
+      sequence: entry.sequence,
+      reason: "content_mismatch",
+      message: `Entry ${entry.sequence} was changed after it was written`,
+    };
+  }
+
+  const redaction = entry.redactedDigest && redactions.get(entry.sequence);
+  if (
+    entry.redactedDigest &&
+    (!redaction ||
+      redaction.recordSequence <= entry.sequence ||
+      redaction.digest !== redactedContentDigest(entry))
+  ) {
+    return {
+      sequence: entry.sequence,
+      reason: "unauthorized_redaction",
+      message: `Entry ${entry.sequence} was anonymized without a matching redaction record`,
+    };
+  }
+
+  return null;
+}
+
+function verifyCheckpointSignature(checkpoint, publicKey) {
+  try {
+    return crypto.verify(
+      null,
+      Buffer.from(
+        canonicalJson({
+          sequence: checkpoint.sequence,
+          hash: checkpoint.hash,
+          entryTimestamp: new Date(checkpoint.entryTimestamp),
+          createdAt: new Date(checkpoint.createdAt),
+          keyId: checkpoint.keyId,
+        })
+      ),
+      crypto.createPublicKey({
+        key: Buffer.from(publicKey, "base64"),
+        format: "der",
+        type: "spki",
+      }),
+      Buffer.from(checkpoint.signature, "base64")
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Public key (base64 SPKI) from AUDIT_SIGNING_KEY, as the app derives it
+function publicKeyFromEnv() {
+  if (!process.env.AUDIT_SIGNING_KEY) return null;
+
+  return crypto
+    .createPublicKey(
+      crypto.createPrivateKey({
+        key: Buffer.from(process.env.AUDIT_SIGNING_KEY, "base64"),
+        format: "der",
+        type: "pkcs8",
+      })
+    )
+    .export({ type: "spki", format: "der" })
+    .toString("base64");
+}
+
+async function verifyAuditChain() {
+  const mongoose = require("mongoose");
+  require("dotenv").config({ path: ".env.local" });
+
+  console.log("🔐 UPI Payment System - Audit Chain Verification\n");
+
+  if (!process.env.MONGODB_URI) {
+    console.log("❌ MONGODB_URI environment variable is not set!");
+    return false;
+  }
+
+  const fileIndex = process.argv.indexOf("--checkpoints");
+  let checkpoints;
+  let publicKey;
+
+  await mongoose.connect(process.env.MONGODB_URI);
+  const db = mongoose.connection.db;
+
+  try {
+    if (fileIndex !== -1) {
+      const file = process.argv[fileIndex + 1];
+      const exported = JSON.parse(fs.readFileSync(file, "utf8"));
+      checkpoints = exported.checkpoints;
+      publicKey = exported.publicKey;
+      console.log(`📄 Checkpoints: ${file} (${checkpoints.length})`);
+    } else {
+      checkpoints = await db
+        .collection("auditcheckpoints")
+        .find()
+        .sort({ sequence: 1 })
+        .toArray();
+      publicKey = publicKeyFromEnv();
+      console.log(`📄 Checkpoints: database (${checkpoints.length})`);
+    }
+
+    if (!publicKey && checkpoints.length > 0) {
+      console.log(
+        "⚠️  No public key available; checkpoint signatures won't be checked"
+      );
+    }
+
+    const keyId = publicKey ? sha256(publicKey).slice(0, 16) : null;
+    const pinned = new Map();
+    for (const checkpoint of checkpoints) {
+      if (keyId && checkpoint.keyId === keyId) {
+        if (!verifyCheckpointSignature(checkpoint, publicKey)) {
+          console.log(
+            `❌ Checkpoint at entry ${checkpoint.sequence} has an invalid signature`
+          );
+          return false;
+        }
+      } else if (publicKey) {
+        console.log(
+          `⚠️  Checkpoint at entry ${checkpoint.sequence} was signed with another key`
+        );
+      }
+      pinned.set(checkpoint.sequence, checkpoint);
+    }
+
+    const redactions = collectAuditRedactions(
+      await db
+        .collection("auditlogs")
+        .find({
+          action: AUDIT_REDACTION_ACTION,
+          sequence: { $exists: true },
+        })
+        .toArray()
+    );
+    const entries = db
+      .collection("auditlogs")
+      .find({ sequence: { $exists: true } })
+      .sort({ sequence: 1 });
+
+    let previous = null;
+    let checked = 0;
+    let redacted = 0;
+
+    for await (const entry of entries) {
+      const problem = checkAuditChainLink(entry, previous, redactions);
+      const checkpoint = pinned.get(entry.sequence);
+
+      if (problem) {
+        console.log(`❌ ${problem.message} (${problem.reason})`);
+        return false;
+      }
+      if (checkpoint && checkpoint.hash !== entry.hash) {
+        console.log(
+          `❌ Entry ${entry.sequence} no longer matches its checkpoint`
+        );
+        return false;
+      }
+
+      if (entry.redactedDigest) redacted += 1;
+      checked += 1;
+      previous = entry;
+    }
+
+    const lastCheckpoint = checkpoints[checkpoints.length - 1];
+    const head = previous ? previous.sequence : 0;
+    if (lastCheckpoint && lastCheckpoint.sequence > head) {
+      console.log(
+        `❌ Entries after ${head} are missing; a checkpoint pins entry ${lastCheckpoint.sequence}`
+      );
+      return false;
+    }
+
+    const unchained = await db
+      .collection("auditlogs")
+      .countDocuments({ sequence: { $exists: false } });
+
+    console.log(`✅ Chain intact: ${checked} entries checked`);
+    console.log(`   ${redacted} anonymized entries`);
+    console.log(`   ${unchained} entries written before the chain`);
+    return true;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+if (require.main === module) {
+  verifyAuditChain()
+    .then((intact) => process.exit(intact ? 0 : 1))
+    .catch((error) => {
+      console.error("❌ Verification failed:", error.message);
+      process.exit(1);
+    });
+}
+
+module.exports = {
+  canonicalJson,
+  hashAuditContent,
+  redactedContentDigest,
+  collectAuditRedactions,
+  computeAuditEntryHash,
+  checkAuditChainLink,
+  verifyCheckpointSignature,
+};
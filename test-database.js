@@ -129,6 +129,12 @@ async function testDatabaseConnection() {
   }
 }
 
+// Mirrors maskValue in lib/utils/encryption.ts
+function maskValue(value) {
+  if (!value || value.length < 4) return "****";
+  return `${value.slice(0, 2)}${"*".repeat(value.length - 4)}${value.slice(-2)}`;
+}
+
 async function setupDatabase() {
   console.log("🚀 Setting up database for UPI Payment System...\n");
 
@@ -237,6 +243,39 @@ async function setupDatabase() {
     await auditCollection.createIndex({ userId: 1 });
     console.log("  ✅ AuditLogs indexes created");
 
+    // Audit logs used to expire after a year through a TTL index. Retention
+    // rules decide now, and expired entries would break the hash chain, so
+    // drop any TTL index left on the collection.
+    const ttlIndexes = (await auditCollection.indexes()).filter(
+      (index) => index.expireAfterSeconds !== undefined
+    );
+    for (const index of ttlIndexes) {
+      await auditCollection.dropIndex(index.name);
+      console.log(`  ✅ Dropped AuditLogs TTL index ${index.name}`);
+    }
+
+    // Webhook payloads used to carry full UTRs; mask the ones already
+    // stored in the delivery log the way the app masks them now
+    console.log("\n🧹 Masking UTRs in stored webhook payloads...");
+
+    const deliveries = db
+      .collection("webhookdeliveries")
+      .find(
+        { "payload.data.utr": { $type: "string", $not: /\*/ } },
+        { projection: { "payload.data.utr": 1 } }
+      );
+    let masked = 0;
+    for await (const delivery of deliveries) {
+      await db
+        .collection("webhookdeliveries")
+        .updateOne(
+          { _id: delivery._id },
+          { $set: { "payload.data.utr": maskValue(delivery.payload.data.utr) } }
+        );
+      masked += 1;
+    }
+    console.log(`  ✅ ${masked} webhook payloads masked`);
+
     // Insert default system settings
     console.log("\n🌱 Creating default system settings...");
 
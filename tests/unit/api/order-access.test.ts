@@ -0,0 +1,176 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import middleware from "@/middleware";
+import { GET as getOrder } from "@/app/api/orders/[orderId]/route";
+import { GET as getExpirationStats } from "@/app/api/orders/expire/route";
+import Order from "@/lib/db/models/order";
+import SystemSettings from "@/lib/db/models/settings";
+import { findOrderForPaymentUrl } from "@/lib/db/queries/orders";
+import { getExpirationStats as fetchExpirationStats } from "@/lib/utils/order-expiration";
+
+// Run the middleware callback directly with a signed-out Clerk session.
+// Clerk's route patterns are path-to-regexp strings; those used here read
+// the same as regular expressions.
+jest.mock("@clerk/nextjs/server", () => {
+  const signedOut = async () => ({ userId: null, sessionClaims: null });
+  return {
+    auth: jest.fn(signedOut),
+    clerkMiddleware: (handler: any) => (req: any) => handler(signedOut, req),
+    createRouteMatcher: (patterns: string[]) => (req: any) =>
+      patterns.some((pattern) =>
+        new RegExp(`^${pattern}$`).test(req.nextUrl.pathname)
+      ),
+  };
+});
+jest.mock("@/lib/middleware/security-middleware", () => ({
+  addSecurityHeaders: (response: unknown) => response,
+}));
+jest.mock("@/lib/db/connection");
+jest.mock("@/lib/db/models/order");
+jest.mock("@/lib/db/models/settings");
+jest.mock("@/lib/db/queries/orders");
+jest.mock("@/lib/utils/order-expiration");
+jest.mock("@/lib/utils/upi-links");
+
+const mockAuth = auth as jest.MockedFunction<typeof auth>;
+const mockOrder = Order as jest.Mocked<typeof Order>;
+const mockFindOrderForPaymentUrl =
+  findOrderForPaymentUrl as jest.MockedFunction<typeof findOrderForPaymentUrl>;
+
+const dummyBearer = { authorization: "Bearer not-a-real-key" };
+
+const request = (path: string) =>
+  new NextRequest(`http://localhost:3000${path}`, { headers: dummyBearer });
+
+describe("Order routes with a bearer token", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAuth.mockResolvedValue({ userId: null } as any);
+  });
+
+  describe("middleware", () => {
+    it.each(["/api/orders/UPI123ABC", "/api/orders/expire"])(
+      "should reject %s without a session",
+      async (path) => {
+        const response = await (middleware as any)(request(path));
+        expect(response.status).toBe(401);
+      }
+    );
+
+    it.each(["/api/orders", "/api/orders/UPI123ABC/refunds"])(
+      "should leave API key checks on %s to the route",
+      async (path) => {
+        const response = await (middleware as any)(request(path));
+        expect(response.status).toBe(200);
+      }
+    );
+  });
+
+  describe("route handlers", () => {
+    it("should return 401 for GET /api/orders/[orderId]", async () => {
+      const response = await getOrder(request("/api/orders/UPI123ABC"), {
+        params: Promise.resolve({ orderId: "UPI123ABC" }),
+      });
+
+      expect(response.status).toBe(401);
+      expect(Order.findByOrderId).not.toHaveBeenCalled();
+    });
+
+    it("should return 401 for GET /api/orders/expire", async () => {
+      const response = await getExpirationStats(request("/api/orders/expire"));
+
+      expect(response.status).toBe(401);
+      expect(fetchExpirationStats).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("GET /api/orders/[orderId]", () => {
+  const order = {
+    orderId: "UPI123ABC",
+    amount: 100,
+    merchantName: "Test Merchant",
+    vpa: "shop@upi",
+    status: "pending",
+    createdBy: "merchant-1",
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + 540000),
+    paymentPageUrl: "http://localhost:3000/pay/UPI123ABC?sig=abc",
+    canSubmitUTR: () => true,
+  };
+
+  const signedIn = (userId: string, role = "merchant") =>
+    mockAuth.mockResolvedValue({
+      userId,
+      sessionClaims: { metadata: { role } },
+    } as any);
+
+  const fetchOrder = (search = "") =>
+    getOrder(
+      new NextRequest(`http://localhost:3000/api/orders/UPI123ABC${search}`),
+      {
+        params: Promise.resolve({ orderId: "UPI123ABC" }),
+      }
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockOrder.findByOrderId.mockResolvedValue(order as any);
+    (SystemSettings.getSettings as jest.Mock).mockResolvedValue({
+      getEnabledApps: () => ["gpay"],
+    });
+  });
+
+  it("should return the signed payment URL to the merchant who created it", async () => {
+    signedIn("merchant-1");
+
+    const response = await fetchOrder();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.order.paymentPageUrl).toBe(order.paymentPageUrl);
+  });
+
+  it("should hide other merchants' orders", async () => {
+    signedIn("merchant-2");
+
+    const response = await fetchOrder();
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should show admins the order without its payment URL", async () => {
+    signedIn("admin-1", "admin");
+
+    const response = await fetchOrder();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.data.order).not.toHaveProperty("paymentPageUrl");
+  });
+
+  it("should accept a valid payment URL signature without the URL", async () => {
+    signedIn("merchant-2");
+    mockFindOrderForPaymentUrl.mockResolvedValue(order as any);
+
+    const response = await fetchOrder("?sig=abc");
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(mockFindOrderForPaymentUrl).toHaveBeenCalledWith("UPI123ABC", "abc");
+    expect(data.data.order).not.toHaveProperty("paymentPageUrl");
+  });
+
+  it("should return 404 for a bad signature", async () => {
+    signedIn("merchant-2");
+    mockFindOrderForPaymentUrl.mockResolvedValue(null);
+
+    const response = await fetchOrder("?sig=forged");
+
+    expect(response.status).toBe(404);
+  });
+});
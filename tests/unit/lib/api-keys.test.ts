@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { CreateApiKeySchema } from "@/lib/db/models/api-key";
+import {
+  API_KEY_PREFIX,
+  generateApiKey,
+  getBearerToken,
+  hashApiKey,
+  isApiKeyFormat,
+} from "@/lib/utils/api-keys";
+import { withCSRFProtection } from "@/lib/utils/csrf-protection";
+
+describe("API keys", () => {
+  describe("generateApiKey", () => {
+    it("should return a prefixed key with a matching hash", () => {
+      const { key, prefix, keyHash } = generateApiKey();
+
+      expect(key.startsWith(API_KEY_PREFIX)).toBe(true);
+      expect(isApiKeyFormat(key)).toBe(true);
+      expect(key.startsWith(prefix)).toBe(true);
+      expect(prefix.length).toBeLessThan(key.length);
+      expect(keyHash).toBe(hashApiKey(key));
+      expect(keyHash).not.toContain(key);
+    });
+
+    it("should mint a different key every time", () => {
+      expect(generateApiKey().key).not.toBe(generateApiKey().key);
+    });
+  });
+
+  describe("isApiKeyFormat", () => {
+    it("should reject strings that are not API keys", () => {
+      expect(isApiKeyFormat("upk_short")).toBe(false);
+      expect(isApiKeyFormat("sk_live_" + "a".repeat(43))).toBe(false);
+    });
+  });
+
+  describe("getBearerToken", () => {
+    it("should read bearer tokens case-insensitively", () => {
+      expect(
+        getBearerToken(new Headers({ Authorization: "Bearer upk_abc" }))
+      ).toBe("upk_abc");
+      expect(
+        getBearerToken(new Headers({ authorization: "bearer upk_abc" }))
+      ).toBe("upk_abc");
+    });
+
+    it("should ignore other authorization schemes", () => {
+      expect(getBearerToken(new Headers())).toBeNull();
+      expect(
+        getBearerToken(new Headers({ Authorization: "Basic dXNlcjpwYXNz" }))
+      ).toBeNull();
+    });
+  });
+
+  describe("CreateApiKeySchema", () => {
+    it("should require at least one known scope", () => {
+      expect(
+        CreateApiKeySchema.safeParse({
+          name: "Billing",
+          scopes: [],
+          createdBy: "user_1",
+        }).success
+      ).toBe(false);
+      expect(
+        CreateApiKeySchema.safeParse({
+          name: "Billing",
+          scopes: ["manage_users"],
+          createdBy: "user_1",
+        }).success
+      ).toBe(false);
+    });
+
+    it("should reject expiry dates in the past", () => {
+      const result = CreateApiKeySchema.safeParse({
+        name: "Billing",
+        scopes: ["create_order"],
+        expiresAt: "2020-01-01T00:00:00Z",
+        createdBy: "user_1",
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("withCSRFProtection", () => {
+    const handler = jest.fn(async () => NextResponse.json({ ok: true }));
+
+    const bearerPost = () =>
+      new NextRequest("http://localhost:3000/api/orders/UPI123/utr", {
+        method: "POST",
+        headers: { Authorization: "Bearer upk_not_checked" },
+      });
+
+    beforeEach(() => {
+      handler.mockClear();
+    });
+
+    it("should not skip the check for an unauthenticated bearer header", async () => {
+      const response = await withCSRFProtection(bearerPost(), handler);
+
+      expect(response.status).toBe(403);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should skip the check once an API key was authenticated", async () => {
+      const request = bearerPost();
+      (request as any).user = { id: "user_1", apiKey: { id: "key_1" } };
+
+      const response = await withCSRFProtection(request, handler);
+
+      expect(response.status).toBe(200);
+      expect(handler).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,398 @@
+/**
+ * @jest-environment node
+ */
+
+import crypto from "crypto";
+import AuditLog from "@/lib/db/models/audit-log";
+import {
+  AUDIT_CHAIN_GENESIS,
+  AUDIT_REDACTION_ACTION,
+  AuditChainEntry,
+  canonicalJson,
+  checkAuditChainLink,
+  collectAuditRedactions,
+  hashAuditContent,
+  loadAuditSigningKey,
+  redactedContentDigest,
+  sealAuditEntry,
+  signAuditCheckpoint,
+  verifyAuditCheckpointSignature,
+} from "@/lib/utils/audit-chain";
+
+const cli = require("../../../scripts/verify-audit-chain.js");
+
+const append = (chain: AuditChainEntry[], fields: Record<string, any>) => {
+  const entry = {
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, chain.length)),
+    action: "order_created",
+    entityType: "order",
+    ...fields,
+  };
+  chain.push({
+    ...entry,
+    ...sealAuditEntry(entry, chain[chain.length - 1] || null),
+  });
+};
+
+const buildChain = (count: number): AuditChainEntry[] => {
+  const chain: AuditChainEntry[] = [];
+  for (let i = 0; i < count; i += 1) {
+    append(chain, {
+      entityId: `UPI${i}`,
+      userId: "user_1",
+      details: { amount: 100 + i, customer: { phone: "9876543210" } },
+      ipAddress: "203.0.113.7",
+    });
+  }
+  return chain;
+};
+
+// Anonymize an entry the way AuditLog.redactEntries does, appending the
+// entry that authorizes it
+const redact = (
+  chain: AuditChainEntry[],
+  index: number,
+  content: Record<string, any>
+) => {
+  const original = chain[index];
+  chain[index] = {
+    ...original,
+    ...content,
+    salt: undefined,
+    redactedDigest: hashAuditContent(original.salt, original),
+  };
+  append(chain, {
+    action: AUDIT_REDACTION_ACTION,
+    entityType: "settings",
+    userId: "system",
+    details: {
+      entries: [
+        {
+          sequence: original.sequence,
+          digest: redactedContentDigest(chain[index]),
+        },
+      ],
+    },
+  });
+};
+
+const firstBreak = (chain: AuditChainEntry[]) => {
+  const redactions = collectAuditRedactions(
+    chain.filter((entry) => entry.action === AUDIT_REDACTION_ACTION)
+  );
+  for (let i = 0; i < chain.length; i += 1) {
+    const problem = checkAuditChainLink(
+      chain[i],
+      chain[i - 1] || null,
+      redactions
+    );
+    if (problem) return problem;
+  }
+  return null;
+};
+
+describe("Audit chain", () => {
+  describe("sealAuditEntry", () => {
+    it("should start at the genesis hash and link each entry", () => {
+      const chain = buildChain(3);
+
+      expect(chain.map((entry) => entry.sequence)).toEqual([1, 2, 3]);
+      expect(chain[0].prevHash).toBe(AUDIT_CHAIN_GENESIS);
+      expect(chain[2].prevHash).toBe(chain[1].hash);
+      expect(firstBreak(chain)).toBeNull();
+    });
+  });
+
+  describe("checkAuditChainLink", () => {
+    it("should catch edited content", () => {
+      const chain = buildChain(3);
+      chain[1].details = { ...chain[1].details, amount: 1 };
+
+      expect(firstBreak(chain)).toMatchObject({
+        sequence: 2,
+        reason: "content_mismatch",
+      });
+    });
+
+    it("should catch a rewritten link", () => {
+      const chain = buildChain(3);
+      chain[2].prevHash = chain[0].hash;
+
+      expect(firstBreak(chain)).toMatchObject({
+        sequence: 3,
+        reason: "broken_link",
+      });
+    });
+
+    it("should catch a removed entry", () => {
+      const chain = buildChain(3);
+      chain.splice(1, 1);
+
+      expect(firstBreak(chain)).toMatchObject({
+        sequence: 2,
+        reason: "missing_entry",
+      });
+    });
+
+    it("should accept an entry anonymized with its digest kept", () => {
+      const chain = buildChain(3);
+      redact(chain, 1, { details: { amount: 101 }, ipAddress: undefined });
+
+      expect(firstBreak(chain)).toBeNull();
+    });
+
+    it("should reject a digest swapped in without a redaction record", () => {
+      const chain = buildChain(3);
+      const original = chain[1];
+      chain[1] = {
+        ...original,
+        details: { amount: 1 },
+        redactedDigest: hashAuditContent(original.salt, original),
+      };
+
+      expect(firstBreak(chain)).toMatchObject({
+        sequence: 2,
+        reason: "unauthorized_redaction",
+      });
+    });
+
+    it("should reject content changed after an authorized redaction", () => {
+      const chain = buildChain(3);
+      redact(chain, 1, { details: { amount: 101 }, ipAddress: undefined });
+      chain[1].details = { amount: 1 };
+
+      expect(firstBreak(chain)).toMatchObject({
+        sequence: 2,
+        reason: "unauthorized_redaction",
+      });
+    });
+
+    it("should reject an edited redaction record", () => {
+      const chain = buildChain(3);
+      redact(chain, 1, { details: { amount: 101 }, ipAddress: undefined });
+      chain[3].details.entries[0].sequence = 1;
+
+      expect(firstBreak(chain)).toMatchObject({
+        sequence: 2,
+        reason: "unauthorized_redaction",
+      });
+    });
+
+    it("should reject an entry with neither salt nor digest", () => {
+      const chain = buildChain(2);
+      chain[1].salt = undefined;
+
+      expect(firstBreak(chain)).toMatchObject({ reason: "content_mismatch" });
+    });
+  });
+
+  describe("canonicalJson", () => {
+    it("should hash the same before and after a database round trip", () => {
+      const written = {
+        b: 1,
+        a: new Date("2026-01-01T00:00:00.000Z"),
+        empty: {},
+        missing: undefined,
+        cleared: null,
+      };
+      const read = { a: "2026-01-01T00:00:00.000Z", b: 1 };
+
+      expect(canonicalJson(written)).toBe(canonicalJson(read));
+    });
+  });
+
+  describe("checkpoint signatures", () => {
+    const env = {
+      AUDIT_SIGNING_KEY: crypto
+        .generateKeyPairSync("ed25519")
+        .privateKey.export({ type: "pkcs8", format: "der" })
+        .toString("base64"),
+    };
+
+    it("should return null without a key", () => {
+      expect(loadAuditSigningKey({})).toBeNull();
+    });
+
+    it("should verify a signed checkpoint and reject an altered one", () => {
+      const key = loadAuditSigningKey(env);
+      const checkpoint = {
+        sequence: 3,
+        hash: buildChain(3)[2].hash,
+        entryTimestamp: new Date("2026-01-01T00:02:00.000Z"),
+        createdAt: new Date("2026-01-02T00:00:00.000Z"),
+        keyId: key.keyId,
+      };
+      const signature = signAuditCheckpoint(checkpoint, key.privateKey);
+
+      expect(
+        verifyAuditCheckpointSignature(checkpoint, signature, key.publicKey)
+      ).toBe(true);
+      expect(
+        verifyAuditCheckpointSignature(
+          { ...checkpoint, sequence: 4 },
+          signature,
+          key.publicKey
+        )
+      ).toBe(false);
+    });
+
+    it("should verify with the CLI from an exported checkpoint", () => {
+      const key = loadAuditSigningKey(env);
+      const checkpoint = {
+        sequence: 1,
+        hash: buildChain(1)[0].hash,
+        entryTimestamp: new Date("2026-01-01T00:00:00.000Z"),
+        createdAt: new Date("2026-01-02T00:00:00.000Z"),
+        keyId: key.keyId,
+      };
+      const exported = JSON.parse(
+        JSON.stringify({
+          ...checkpoint,
+          signature: signAuditCheckpoint(checkpoint, key.privateKey),
+        })
+      );
+
+      expect(cli.verifyCheckpointSignature(exported, key.publicKey)).toBe(true);
+    });
+  });
+
+  describe("CLI verifier", () => {
+    it("should agree with the app on hashes and links", () => {
+      const chain = buildChain(3);
+
+      expect(cli.canonicalJson(chain[0])).toBe(canonicalJson(chain[0]));
+      expect(cli.hashAuditContent(chain[0].salt, chain[0])).toBe(
+        hashAuditContent(chain[0].salt, chain[0])
+      );
+      chain.forEach((entry, i) => {
+        expect(cli.checkAuditChainLink(entry, chain[i - 1] || null)).toBeNull();
+      });
+
+      chain[2].entityId = "UPI999";
+      expect(cli.checkAuditChainLink(chain[2], chain[1])).toMatchObject({
+        reason: "content_mismatch",
+      });
+    });
+
+    it("should agree with the app on redactions", () => {
+      const chain = buildChain(3);
+      redact(chain, 1, { details: { amount: 101 }, ipAddress: undefined });
+      const redactions = cli.collectAuditRedactions(
+        chain.filter((entry) => entry.action === AUDIT_REDACTION_ACTION)
+      );
+
+      expect(cli.redactedContentDigest(chain[1])).toBe(
+        redactedContentDigest(chain[1])
+      );
+      expect(
+        cli.checkAuditChainLink(chain[1], chain[0], redactions)
+      ).toBeNull();
+
+      chain[1].details = { amount: 1 };
+      expect(
+        cli.checkAuditChainLink(chain[1], chain[0], redactions)
+      ).toMatchObject({ reason: "unauthorized_redaction" });
+    });
+  });
+
+  describe("AuditLog.logAction", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should not lose entries appended concurrently", async () => {
+      // Stands in for the auditlogs collection and its unique sequence
+      // index, yielding between reads and writes like a real round trip
+      const stored: AuditChainEntry[] = [];
+      const roundTrip = () => new Promise((resolve) => setImmediate(resolve));
+
+      jest.spyOn(AuditLog, "findOne").mockImplementation((() => {
+        const query: any = {
+          sort: () => query,
+          select: () => query,
+          lean: async () => {
+            await roundTrip();
+            return stored.reduce<AuditChainEntry | null>(
+              (head, entry) =>
+                !head || entry.sequence > head.sequence ? entry : head,
+              null
+            );
+          },
+        };
+        return query;
+      }) as any);
+      jest.spyOn(AuditLog, "create").mockImplementation((async (doc: any) => {
+        await roundTrip();
+        if (stored.some((entry) => entry.sequence === doc.sequence)) {
+          throw Object.assign(new Error("E11000 duplicate key"), {
+            code: 11000,
+          });
+        }
+        stored.push(doc);
+        return doc;
+      }) as any);
+
+      // As many as a bulk upload flushes at once
+      await Promise.all(
+        Array.from({ length: 500 }, (_, i) =>
+          AuditLog.logAction("order_created", "order", "user_1", {
+            entityId: `UPI${i}`,
+          })
+        )
+      );
+
+      expect(stored).toHaveLength(500);
+      expect(firstBreak(stored)).toBeNull();
+    });
+  });
+
+  describe("AuditLog.redactEntries", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should leave a chain that verifies, with the redaction authorized", async () => {
+      const stored: AuditChainEntry[] = buildChain(3).map((entry) => ({
+        ...entry,
+        _id: `log${entry.sequence}`,
+      }));
+
+      jest.spyOn(AuditLog, "find").mockImplementation((() => ({
+        lean: () => ({
+          cursor: () => stored.slice(0, 2).map((entry) => ({ ...entry })),
+        }),
+      })) as any);
+      jest.spyOn(AuditLog, "findOneAndUpdate").mockImplementation(((
+        filter: any,
+        update: any
+      ) => {
+        const index = stored.findIndex((entry) => entry._id === filter._id);
+        const next: Record<string, any> = { ...stored[index], ...update.$set };
+        Object.keys(update.$unset).forEach((field) => delete next[field]);
+        stored[index] = next as AuditChainEntry;
+        return { lean: async () => ({ ...next }) };
+      }) as any);
+      jest.spyOn(AuditLog, "logAction").mockImplementation((async (
+        action: string,
+        entityType: string,
+        userId: string,
+        options: Record<string, any>
+      ) => {
+        append(stored, { action, entityType, userId, ...options });
+      }) as any);
+
+      const redacted = await AuditLog.redactEntries({}, (entry) => ({
+        $set: { details: { amount: entry.details.amount } },
+        $unset: { ipAddress: "" },
+      }));
+
+      expect(redacted).toBe(2);
+      expect(stored[0]).not.toHaveProperty("ipAddress");
+      expect(stored[3]).toMatchObject({ action: AUDIT_REDACTION_ACTION });
+      expect(
+        stored[3].details.entries.map((entry: any) => entry.sequence)
+      ).toEqual([1, 2]);
+      expect(firstBreak(stored)).toBeNull();
+    });
+  });
+});
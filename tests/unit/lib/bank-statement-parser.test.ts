@@ -0,0 +1,101 @@
+import {
+  detectStatementFormat,
+  parseCsvStatement,
+  parseMt940Statement,
+} from "@/lib/utils/bank-statement-parser";
+
+describe("Bank Statement Parser", () => {
+  describe("parseCsvStatement", () => {
+    it("should parse credits with UTR and VPA columns", () => {
+      const csv = [
+        "Txn Date,Narration,UTR,VPA,Amount,Type",
+        "05/03/2025,UPI credit,412345678901,payer@okaxis,500.00,CR",
+        "05/03/2025,ATM withdrawal,,,2000.00,DR",
+      ].join("\n");
+
+      const credits = parseCsvStatement(csv);
+
+      expect(credits).toHaveLength(1);
+      expect(credits[0]).toMatchObject({
+        amount: 500,
+        utr: "412345678901",
+        vpa: "payer@okaxis",
+        line: 2,
+      });
+      expect(credits[0].timestamp?.getMonth()).toBe(2);
+    });
+
+    it("should extract UTR and VPA from UPI narration", () => {
+      const csv = [
+        "Date,Description,Withdrawal Amount,Deposit Amount",
+        '01/04/2025,"UPI/412345678902/customer@ybl/Payment",,"1,250.50"',
+      ].join("\n");
+
+      const [credit] = parseCsvStatement(csv);
+
+      expect(credit.amount).toBe(1250.5);
+      expect(credit.utr).toBe("412345678902");
+      expect(credit.vpa).toBe("customer@ybl");
+    });
+
+    it("should skip header preamble rows", () => {
+      const csv = [
+        "Account Statement",
+        "Account No: 1234",
+        "Date,Credit,RRN",
+        "01/04/2025,100,412345678903",
+      ].join("\n");
+
+      expect(parseCsvStatement(csv)).toHaveLength(1);
+    });
+
+    it("should throw when no amount column exists", () => {
+      expect(() => parseCsvStatement("foo,bar\n1,2")).toThrow(
+        "Could not find an amount column"
+      );
+    });
+  });
+
+  describe("parseMt940Statement", () => {
+    it("should parse credit statement lines and narration", () => {
+      const mt940 = [
+        ":20:STMT20250305",
+        ":25:HDFC0001234/50100012345678",
+        ":60F:C250304INR10000,00",
+        ":61:2503050305CR500,00NTRFNONREF//412345678904",
+        ":86:UPI/412345678904/payer@okicici",
+        "/Payment for order",
+        ":61:2503050305DR200,00NTRFNONREF",
+        ":86:Debit card purchase",
+        ":62F:C250305INR10300,00",
+      ].join("\n");
+
+      const credits = parseMt940Statement(mt940);
+
+      expect(credits).toHaveLength(1);
+      expect(credits[0]).toMatchObject({
+        amount: 500,
+        utr: "412345678904",
+        vpa: "payer@okicici",
+      });
+      expect(credits[0].narration).toContain("Payment for order");
+    });
+  });
+
+  describe("detectStatementFormat", () => {
+    it("should detect format from extension and content", () => {
+      expect(detectStatementFormat("statement.xlsx", Buffer.from(""))).toBe(
+        "xlsx"
+      );
+      expect(
+        detectStatementFormat(
+          "statement.txt",
+          Buffer.from(":20:REF\n:61:2503050305CR1,00NTRF")
+        )
+      ).toBe("mt940");
+      expect(detectStatementFormat("statement.csv", Buffer.from("a,b"))).toBe(
+        "csv"
+      );
+    });
+  });
+});
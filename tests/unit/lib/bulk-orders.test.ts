@@ -0,0 +1,160 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  formatBulkOrderResults,
+  parseBulkAmount,
+  parseBulkOrderCsv,
+  MAX_BULK_ORDER_ROWS,
+} from "@/lib/utils/bulk-orders";
+import { parseCsv } from "@/lib/utils/csv";
+import Order from "@/lib/db/models/order";
+import SystemSettings from "@/lib/db/models/settings";
+import { createOrdersInBulk } from "@/lib/db/queries/orders";
+
+jest.mock("@/lib/db/connection");
+jest.mock("@/lib/db/queries/webhooks");
+
+describe("Bulk order uploads", () => {
+  describe("parseBulkOrderCsv", () => {
+    it("should map header aliases and keep source line numbers", () => {
+      const rows = parseBulkOrderCsv(
+        'Amount,Payer Name,Purpose,UPI ID\n500,Asha,"Term 1, bus",asha@upi\n750,Rahul,,\n'
+      );
+
+      expect(rows).toEqual([
+        {
+          line: 2,
+          amount: "500",
+          payerName: "Asha",
+          note: "Term 1, bus",
+          vpa: "asha@upi",
+        },
+        {
+          line: 3,
+          amount: "750",
+          payerName: "Rahul",
+          note: undefined,
+          vpa: undefined,
+        },
+      ]);
+    });
+
+    it("should require an amount column and at least one row", () => {
+      expect(() => parseBulkOrderCsv("name,note\nAsha,fee\n")).toThrow(
+        /amount column/
+      );
+      expect(() => parseBulkOrderCsv("amount\n")).toThrow(/no order rows/);
+    });
+
+    it("should reject uploads above the row limit", () => {
+      const csv = "amount\n" + "100\n".repeat(MAX_BULK_ORDER_ROWS + 1);
+      expect(() => parseBulkOrderCsv(csv)).toThrow(/at most/);
+    });
+  });
+
+  describe("parseBulkAmount", () => {
+    it("should tolerate currency symbols and separators", () => {
+      expect(parseBulkAmount("₹1,250.50")).toBe(1250.5);
+      expect(parseBulkAmount("Rs. 300")).toBe(300);
+      expect(parseBulkAmount("")).toBeNaN();
+      expect(parseBulkAmount("abc")).toBeNaN();
+    });
+  });
+
+  describe("formatBulkOrderResults", () => {
+    it("should round-trip results and neutralise spreadsheet formulas", () => {
+      const csv = formatBulkOrderResults([
+        {
+          line: 2,
+          amount: "500",
+          payerName: "Asha",
+          orderId: "UPI1",
+          paymentPageUrl: "https://example.com/pay/UPI1",
+        },
+        {
+          line: 3,
+          amount: "abc",
+          payerName: "=HYPERLINK(\"x\")",
+          error: "amount: Expected number, received nan",
+        },
+      ]);
+
+      const [header, created, failed] = parseCsv(csv);
+      expect(header[1]).toBe("status");
+      expect(created.slice(0, 4)).toEqual([
+        "2",
+        "created",
+        "UPI1",
+        "https://example.com/pay/UPI1",
+      ]);
+      expect(failed[1]).toBe("failed");
+      expect(failed[5]).toBe("'=HYPERLINK(\"x\")");
+      expect(failed[6]).toBe("amount: Expected number, received nan");
+    });
+  });
+
+  describe("createOrdersInBulk", () => {
+    const row = {
+      amount: 500,
+      merchantName: "Test School",
+      vpa: "school@upi",
+      createdBy: "merchant-1",
+    };
+    const auditLogger = { add: jest.fn(), flush: jest.fn() };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.spyOn(SystemSettings, "getSettings").mockResolvedValue({
+        getTimerDurationMs: () => 540000,
+      } as any);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should give every row its own order ID within a millisecond", async () => {
+      jest.spyOn(Date, "now").mockReturnValue(1760000000000);
+      jest
+        .spyOn(Math, "random")
+        .mockReturnValueOnce(0.5)
+        .mockReturnValueOnce(0.5)
+        .mockReturnValueOnce(0.5);
+      const insertMany = jest
+        .spyOn(Order, "insertMany")
+        .mockImplementation((async (documents: any[]) => documents) as any);
+
+      await createOrdersInBulk([row, row, row], auditLogger as any);
+
+      const orderIds = (insertMany.mock.calls[0][0] as any[]).map(
+        (document) => document.orderId
+      );
+      expect(new Set(orderIds).size).toBe(3);
+      expect(insertMany.mock.calls[0][1]).toMatchObject({ ordered: false });
+    });
+
+    it("should keep and audit the rows inserted before a failure", async () => {
+      jest.spyOn(Order, "insertMany").mockImplementation((async (
+        documents: any[]
+      ) => {
+        throw Object.assign(new Error("E11000 duplicate key"), {
+          writeErrors: [{ index: 1 }],
+          insertedDocs: [documents[0], documents[2]],
+        });
+      }) as any);
+
+      const orders = await createOrdersInBulk(
+        [row, row, row],
+        auditLogger as any
+      );
+
+      expect(orders[0]).not.toBeNull();
+      expect(orders[1]).toBeNull();
+      expect(orders[2]).not.toBeNull();
+      expect(auditLogger.add).toHaveBeenCalledTimes(2);
+      expect(auditLogger.flush).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @jest-environment node
+ */
+
+import { CreateDataSubjectRequestSchema } from "@/lib/db/models/data-subject-request";
+import {
+  ERASED_VALUE,
+  identifierMatcher,
+  identifierVariants,
+  normalizeIdentifier,
+  scrubIdentifier,
+} from "@/lib/utils/data-subject";
+
+describe("Data subject requests", () => {
+  describe("normalizeIdentifier", () => {
+    it("should drop phone prefixes and separators", () => {
+      expect(normalizeIdentifier("phone", "+91 98765-43210")).toBe(
+        "9876543210"
+      );
+      expect(normalizeIdentifier("phone", "09876543210")).toBe("9876543210");
+    });
+
+    it("should lower-case emails and UPI IDs but not user IDs", () => {
+      expect(normalizeIdentifier("email", " Asha@Example.com ")).toBe(
+        "asha@example.com"
+      );
+      expect(normalizeIdentifier("vpa", "Shop@OKAXIS")).toBe("shop@okaxis");
+      expect(normalizeIdentifier("userId", "user_2AbC")).toBe("user_2AbC");
+    });
+  });
+
+  it("should list every stored form of a phone number", () => {
+    expect(identifierVariants("phone", "+919876543210")).toEqual([
+      "9876543210",
+      "09876543210",
+      "919876543210",
+      "+919876543210",
+    ]);
+    expect(identifierVariants("ip", "10.0.0.1")).toEqual(["10.0.0.1"]);
+  });
+
+  it("should match stored values regardless of formatting", () => {
+    const matches = identifierMatcher("phone", "9876543210");
+
+    expect(matches("+91 98765 43210")).toBe(true);
+    expect(matches("9876543211")).toBe(false);
+    expect(identifierMatcher("vpa", "shop@okaxis")("SHOP@okaxis")).toBe(true);
+  });
+
+  it("should scrub the identifier at any depth and leave the rest", () => {
+    const at = new Date("2026-01-01T00:00:00.000Z");
+    const details = {
+      staticUpiId: { old: "Shop@okaxis", new: "other@okhdfc" },
+      changes: ["shop@okaxis", 42],
+      at,
+    };
+
+    expect(
+      scrubIdentifier(details, identifierMatcher("vpa", "shop@okaxis"))
+    ).toEqual({
+      staticUpiId: { old: ERASED_VALUE, new: "other@okhdfc" },
+      changes: [ERASED_VALUE, 42],
+      at,
+    });
+    expect(details.staticUpiId.old).toBe("Shop@okaxis");
+  });
+
+  describe("CreateDataSubjectRequestSchema", () => {
+    it("should store identifiers in canonical form", () => {
+      const request = CreateDataSubjectRequestSchema.parse({
+        type: "erasure",
+        identifierType: "phone",
+        identifier: "+91 98765 43210",
+      });
+
+      expect(request.identifier).toBe("9876543210");
+    });
+
+    it("should reject identifiers that don't fit their type", () => {
+      const result = CreateDataSubjectRequestSchema.safeParse({
+        type: "export",
+        identifierType: "ip",
+        identifier: "not-an-ip",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.errors[0].path).toEqual(["identifier"]);
+    });
+  });
+});
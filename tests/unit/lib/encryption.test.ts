@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ */
+
+import crypto from "crypto";
+import {
+  assertEncryptionConfigured,
+  buildKeyRing,
+  decryptValue,
+  encryptValue,
+  getEncryptionKeyId,
+  isEncryptedValue,
+  LEGACY_KEY_ID,
+  needsReEncryption,
+} from "@/lib/utils/encryption";
+
+describe("Encryption key ring", () => {
+  const oldSecret = "old-secret-that-is-at-least-32-chars";
+  const newSecret = "new-secret-that-is-at-least-32-chars";
+  const hashSecret = "hash-secret-that-is-at-least-32-chars";
+
+  const oldRing = buildKeyRing({
+    ENCRYPTION_KEYS: `k1:${oldSecret}`,
+    ENCRYPTION_HASH_KEY: hashSecret,
+  });
+  const rotatedRing = buildKeyRing({
+    ENCRYPTION_KEYS: `k2:${newSecret},k1:${oldSecret}`,
+    ENCRYPTION_HASH_KEY: hashSecret,
+  });
+
+  it("should round-trip values and name the key in the ciphertext", () => {
+    const encrypted = encryptValue("ABC123456789", rotatedRing);
+
+    expect(encrypted).toMatch(/^enc:k2:/);
+    expect(getEncryptionKeyId(encrypted)).toBe("k2");
+    expect(decryptValue(encrypted, rotatedRing)).toBe("ABC123456789");
+  });
+
+  it("should use a fresh IV for every value", () => {
+    expect(encryptValue("ABC123456789", rotatedRing)).not.toBe(
+      encryptValue("ABC123456789", rotatedRing)
+    );
+  });
+
+  it("should decrypt values sealed with an older key after rotation", () => {
+    const encrypted = encryptValue("ABC123456789", oldRing);
+
+    expect(decryptValue(encrypted, rotatedRing)).toBe("ABC123456789");
+    expect(needsReEncryption(encrypted, rotatedRing)).toBe(true);
+    expect(
+      needsReEncryption(encryptValue("ABC123456789", rotatedRing), rotatedRing)
+    ).toBe(false);
+  });
+
+  it("should refuse values whose key has been removed", () => {
+    const encrypted = encryptValue("ABC123456789", rotatedRing);
+
+    expect(() => decryptValue(encrypted, oldRing)).toThrow(
+      'Encryption key "k2" is not configured'
+    );
+  });
+
+  it("should reject tampered ciphertext", () => {
+    const encrypted = encryptValue("ABC123456789", rotatedRing);
+    const parts = encrypted.split(":");
+    const data = Buffer.from(parts[4], "base64url");
+    data[0] ^= 1;
+    parts[4] = data.toString("base64url");
+
+    expect(() => decryptValue(parts.join(":"), rotatedRing)).toThrow();
+  });
+
+  it("should decrypt values written by the old CBC scheme", () => {
+    const legacyKey = "legacy-encryption-key-32-chars-long";
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv(
+      "aes-256-cbc",
+      Buffer.from(legacyKey.slice(0, 32)),
+      iv
+    );
+    const legacy = `${iv.toString("hex")}:${cipher.update("ABC123456789", "utf8", "hex")}${cipher.final("hex")}`;
+    const ring = buildKeyRing({ ENCRYPTION_KEY: legacyKey });
+
+    expect(getEncryptionKeyId(legacy)).toBe(LEGACY_KEY_ID);
+    expect(decryptValue(legacy, ring)).toBe("ABC123456789");
+    expect(needsReEncryption(legacy, ring)).toBe(true);
+  });
+
+  it("should treat plain values as not encrypted", () => {
+    expect(isEncryptedValue("ABC123456789")).toBe(false);
+    expect(needsReEncryption("ABC123456789", rotatedRing)).toBe(true);
+  });
+
+  it("should keep ENCRYPTION_KEY usable as key v1", () => {
+    const single = buildKeyRing({ ENCRYPTION_KEY: oldSecret });
+    const listed = buildKeyRing({
+      ENCRYPTION_KEYS: `v2:${newSecret},v1:${oldSecret}`,
+      ENCRYPTION_KEY: oldSecret,
+    });
+
+    const encrypted = encryptValue("ABC123456789", single);
+    expect(encrypted).toMatch(/^enc:v1:/);
+    expect(decryptValue(encrypted, listed)).toBe("ABC123456789");
+    // Hashes keep using ENCRYPTION_KEY so existing ones still match
+    expect(listed.hashKey).toBe(oldSecret);
+  });
+
+  it("should reject malformed key lists", () => {
+    expect(() => buildKeyRing({ ENCRYPTION_KEYS: "no-separator" })).toThrow();
+    expect(() =>
+      buildKeyRing({ ENCRYPTION_KEYS: `a:${oldSecret},a:${newSecret}` })
+    ).toThrow();
+  });
+
+  it("should refuse to start in production with a default key", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(() =>
+      assertEncryptionConfigured({ NODE_ENV: "production" })
+    ).toThrow(/Refusing to run in production/);
+    expect(() =>
+      assertEncryptionConfigured({
+        NODE_ENV: "production",
+        ENCRYPTION_KEYS: `k1:${oldSecret}`,
+      })
+    ).toThrow(/Refusing to run in production/);
+    expect(() =>
+      assertEncryptionConfigured({
+        NODE_ENV: "production",
+        ENCRYPTION_KEYS: `k1:${oldSecret}`,
+        ENCRYPTION_HASH_KEY: hashSecret,
+      })
+    ).not.toThrow();
+    expect(() =>
+      assertEncryptionConfigured({ NODE_ENV: "development" })
+    ).not.toThrow();
+
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @jest-environment node
+ */
+
+import Order from "@/lib/db/models/order";
+import { recordPaymentPageOpened } from "@/lib/db/queries/fraud";
+import {
+  assessUtrSubmission,
+  getRiskLevel,
+  UtrSubmissionFacts,
+} from "@/lib/utils/fraud-detection";
+
+jest.mock("@/lib/db/connection");
+
+describe("Fraud detection", () => {
+  const now = new Date("2025-01-01T10:00:00Z");
+
+  const buildFacts = (
+    overrides: Partial<UtrSubmissionFacts> = {}
+  ): UtrSubmissionFacts => ({
+    reusedUtrOrderIds: [],
+    recentSubmissionsFromIP: 0,
+    recentSubmissionsFromDevice: 0,
+    msSincePageLoad: 90 * 1000,
+    amount: 500,
+    merchantRecentAmounts: Array(20).fill(400),
+    merchantSettledCount: 20,
+    merchantFailedCount: 1,
+    ...overrides,
+  });
+
+  const signalsOf = (facts: UtrSubmissionFacts) =>
+    assessUtrSubmission(facts, now).reasons.map((reason) => reason.signal);
+
+  it("should score an ordinary submission as low risk", () => {
+    const assessment = assessUtrSubmission(buildFacts(), now);
+
+    expect(assessment).toEqual({
+      score: 0,
+      level: "low",
+      reasons: [],
+      assessedAt: now,
+    });
+  });
+
+  it("should flag UTRs reused from other orders as high risk", () => {
+    const assessment = assessUtrSubmission(
+      buildFacts({ reusedUtrOrderIds: ["ORDER1"] }),
+      now
+    );
+
+    expect(assessment.level).toBe("high");
+    expect(assessment.reasons[0]).toEqual({
+      signal: "reused_utr",
+      message: "UTR was also submitted for ORDER1",
+    });
+  });
+
+  it("should flag high submission velocity per IP and device", () => {
+    expect(
+      signalsOf(
+        buildFacts({
+          recentSubmissionsFromIP: 3,
+          recentSubmissionsFromDevice: 2,
+        })
+      )
+    ).toEqual(["ip_velocity", "device_velocity"]);
+    expect(
+      signalsOf(
+        buildFacts({
+          recentSubmissionsFromIP: 2,
+          recentSubmissionsFromDevice: 1,
+        })
+      )
+    ).toEqual([]);
+  });
+
+  it("should flag UTRs submitted implausibly fast after page load", () => {
+    expect(signalsOf(buildFacts({ msSincePageLoad: 4000 }))).toEqual([
+      "fast_submission",
+    ]);
+    expect(signalsOf(buildFacts({ msSincePageLoad: undefined }))).toEqual([]);
+  });
+
+  it("should flag amounts far above the merchant's usual orders", () => {
+    expect(signalsOf(buildFacts({ amount: 2000 }))).toEqual(["amount_anomaly"]);
+    expect(
+      signalsOf(
+        buildFacts({ amount: 2000, merchantRecentAmounts: [400, 400, 400] })
+      )
+    ).toEqual([]);
+  });
+
+  it("should flag merchants with many rejected payments", () => {
+    expect(
+      signalsOf(buildFacts({ merchantSettledCount: 6, merchantFailedCount: 3 }))
+    ).toEqual(["merchant_anomaly"]);
+    expect(
+      signalsOf(buildFacts({ merchantSettledCount: 2, merchantFailedCount: 2 }))
+    ).toEqual([]);
+  });
+
+  it("should cap the score at 100", () => {
+    const assessment = assessUtrSubmission(
+      buildFacts({
+        reusedUtrOrderIds: ["ORDER1"],
+        recentSubmissionsFromIP: 10,
+        recentSubmissionsFromDevice: 10,
+        msSincePageLoad: 1000,
+      }),
+      now
+    );
+
+    expect(assessment.score).toBe(100);
+    expect(assessment.reasons).toHaveLength(4);
+  });
+
+  it("should map scores to risk levels", () => {
+    expect(getRiskLevel(0)).toBe("low");
+    expect(getRiskLevel(29)).toBe("low");
+    expect(getRiskLevel(30)).toBe("medium");
+    expect(getRiskLevel(60)).toBe("high");
+  });
+
+  describe("recordPaymentPageOpened", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should only record the first time the page is served", async () => {
+      const updateOne = jest
+        .spyOn(Order, "updateOne")
+        .mockResolvedValue({} as any);
+
+      await recordPaymentPageOpened(
+        { orderId: "UPI123", metadata: {} } as any,
+        now
+      );
+
+      expect(updateOne).toHaveBeenCalledWith(
+        {
+          orderId: "UPI123",
+          "metadata.paymentPageOpenedAt": { $exists: false },
+        },
+        { $set: { "metadata.paymentPageOpenedAt": now } }
+      );
+    });
+
+    it("should leave the time alone on later renders", async () => {
+      const updateOne = jest.spyOn(Order, "updateOne");
+
+      await recordPaymentPageOpened(
+        {
+          orderId: "UPI123",
+          metadata: { paymentPageOpenedAt: new Date("2025-01-01T09:55:00Z") },
+        } as any,
+        now
+      );
+
+      expect(updateOne).not.toHaveBeenCalled();
+    });
+  });
+});
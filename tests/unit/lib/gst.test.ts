@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+
+import { calculateGstBreakdown, amountMatchesTotal } from "@/lib/utils/gst";
+import { CreateOrderSchema } from "@/lib/db/models/order";
+
+describe("GST breakdown", () => {
+  const items = [
+    { description: "Consulting", quantity: 2, unitPrice: 500, taxRate: 18 },
+    { description: "Printed manual", quantity: 1, unitPrice: 99.99, taxRate: 5 },
+  ];
+
+  describe("calculateGstBreakdown", () => {
+    it("should split intra-state tax equally into CGST and SGST", () => {
+      const { lineItems, taxBreakdown } = calculateGstBreakdown(items);
+
+      expect(lineItems[0].taxableValue).toBe(1000);
+      expect(lineItems[0].taxAmount).toBe(180);
+      expect(lineItems[1].taxAmount).toBe(5);
+      expect(taxBreakdown.subtotal).toBe(1099.99);
+      expect(taxBreakdown.cgst).toBe(92.5);
+      expect(taxBreakdown.sgst).toBe(92.5);
+      expect(taxBreakdown.igst).toBe(0);
+      expect(taxBreakdown.total).toBe(1284.99);
+    });
+
+    it("should charge IGST for inter-state supplies", () => {
+      const { taxBreakdown } = calculateGstBreakdown(items, "inter-state");
+
+      expect(taxBreakdown.igst).toBe(185);
+      expect(taxBreakdown.cgst).toBe(0);
+      expect(taxBreakdown.sgst).toBe(0);
+      expect(taxBreakdown.total).toBe(1284.99);
+    });
+
+    it("should keep CGST and SGST summing to the line tax on odd paise", () => {
+      const { taxBreakdown } = calculateGstBreakdown([
+        { description: "Item", quantity: 1, unitPrice: 10.5, taxRate: 1 },
+      ]);
+
+      expect(taxBreakdown.cgst + taxBreakdown.sgst).toBeCloseTo(
+        taxBreakdown.totalTax,
+        10
+      );
+    });
+
+    it("should compare amounts at paise precision", () => {
+      expect(amountMatchesTotal(1284.99, 1284.99)).toBe(true);
+      expect(amountMatchesTotal(1285, 1284.99)).toBe(false);
+    });
+  });
+
+  describe("CreateOrderSchema", () => {
+    const order = {
+      merchantName: "Test Store",
+      vpa: "store@upi",
+      createdBy: "user_1",
+      lineItems: items,
+    };
+
+    it("should accept an amount matching the line item total", () => {
+      expect(() =>
+        CreateOrderSchema.parse({ ...order, amount: 1284.99 })
+      ).not.toThrow();
+    });
+
+    it("should reject an amount that does not match the line item total", () => {
+      expect(() => CreateOrderSchema.parse({ ...order, amount: 1200 })).toThrow(
+        /does not match line item total/
+      );
+    });
+  });
+});
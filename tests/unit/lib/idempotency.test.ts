@@ -0,0 +1,51 @@
+/**
+ * @jest-environment node
+ */
+
+import IdempotencyKey, {
+  IdempotencyKeySchema,
+  IDEMPOTENCY_KEY_TTL_MS,
+} from "@/lib/db/models/idempotency-key";
+
+describe("Idempotency keys", () => {
+  describe("IdempotencyKeySchema", () => {
+    it("should accept UUIDs and other printable keys", () => {
+      expect(
+        IdempotencyKeySchema.safeParse("3f2b8c1e-6d4a-4b9e-9a7c-1e2f3a4b5c6d")
+          .success
+      ).toBe(true);
+      expect(IdempotencyKeySchema.safeParse("order:42/retry").success).toBe(
+        true
+      );
+    });
+
+    it("should reject empty, over-long and non-ASCII keys", () => {
+      expect(IdempotencyKeySchema.safeParse("").success).toBe(false);
+      expect(IdempotencyKeySchema.safeParse("a".repeat(256)).success).toBe(
+        false
+      );
+      expect(IdempotencyKeySchema.safeParse("key with spaces").success).toBe(
+        false
+      );
+      expect(IdempotencyKeySchema.safeParse("clé").success).toBe(false);
+    });
+  });
+
+  describe("isExpired", () => {
+    it("should keep keys for the replay window", () => {
+      const record = new IdempotencyKey({
+        createdAt: new Date(Date.now() - IDEMPOTENCY_KEY_TTL_MS + 60_000),
+      });
+
+      expect(record.isExpired()).toBe(false);
+    });
+
+    it("should expire keys older than the replay window", () => {
+      const record = new IdempotencyKey({
+        createdAt: new Date(Date.now() - IDEMPOTENCY_KEY_TTL_MS - 60_000),
+      });
+
+      expect(record.isExpired()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import {
+  createOrderEventStream,
+  formatServerSentEvent,
+  orderEventBus,
+} from "@/lib/utils/order-events";
+
+const publish = (orderId: string, status = "pending-verification") =>
+  orderEventBus.publish({
+    event: "order.utr_submitted",
+    orderId,
+    status,
+    createdBy: "merchant-1",
+  });
+
+// Read whatever the stream has produced so far, then disconnect
+const readOpenedStream = async (headers: Record<string, string> = {}) => {
+  const controller = new AbortController();
+  const request = new NextRequest("http://localhost/api/orders/events", {
+    headers,
+    signal: controller.signal,
+  });
+  const response = createOrderEventStream(request, {
+    filter: (event) => event.orderId.startsWith("STREAM"),
+  });
+
+  // Closing the connection ends the stream after what was already queued
+  controller.abort();
+  const text = await new Response(response.body).text();
+
+  return { response, text };
+};
+
+describe("Order events", () => {
+  describe("formatServerSentEvent", () => {
+    it("should format id, event name and JSON data", () => {
+      expect(
+        formatServerSentEvent({ id: "a-1", event: "resync", data: { ok: 1 } })
+      ).toBe('id: a-1\nevent: resync\ndata: {"ok":1}\n\n');
+    });
+
+    it("should omit missing fields", () => {
+      expect(formatServerSentEvent({ data: {} })).toBe("data: {}\n\n");
+    });
+  });
+
+  describe("orderEventBus", () => {
+    it("should notify subscribers until they unsubscribe", () => {
+      const received: string[] = [];
+      const unsubscribe = orderEventBus.subscribe((event) =>
+        received.push(event.orderId)
+      );
+
+      publish("ORDER1");
+      unsubscribe();
+      publish("ORDER2");
+
+      expect(received).toEqual(["ORDER1"]);
+    });
+
+    it("should replay events after a known ID", () => {
+      const first = publish("ORDER3");
+      publish("ORDER4");
+      publish("ORDER5");
+
+      expect(orderEventBus.since(first.id)?.map((e) => e.orderId)).toEqual([
+        "ORDER4",
+        "ORDER5",
+      ]);
+    });
+
+    it("should refuse to replay IDs from another boot", () => {
+      publish("ORDER6");
+
+      expect(orderEventBus.since("otherboot-1")).toBeNull();
+      expect(orderEventBus.since("garbage")).toBeNull();
+    });
+
+    it("should refuse to replay IDs that fell out of the buffer", () => {
+      const oldest = publish("ORDER7");
+      for (let i = 0; i <= 1000; i++) {
+        publish(`BULK${i}`);
+      }
+
+      expect(orderEventBus.since(oldest.id)).toBeNull();
+    });
+  });
+
+  describe("createOrderEventStream", () => {
+    it("should respond with an event stream", async () => {
+      const { response, text } = await readOpenedStream();
+
+      expect(response.headers.get("content-type")).toContain(
+        "text/event-stream"
+      );
+      expect(text).toContain("retry: ");
+    });
+
+    it("should replay matching events missed since Last-Event-ID", async () => {
+      const last = publish("STREAM1");
+      const missed = publish("STREAM2", "completed");
+      publish("OTHER1");
+
+      const { text } = await readOpenedStream({ "Last-Event-ID": last.id });
+
+      expect(text).toContain(`id: ${missed.id}`);
+      expect(text).toContain('"status":"completed"');
+      expect(text).not.toContain("OTHER1");
+      expect(text).not.toContain("merchant-1");
+    });
+
+    it("should ask the client to resync when events can't be replayed", async () => {
+      const { text } = await readOpenedStream({
+        "Last-Event-ID": "otherboot-5",
+      });
+
+      expect(text).toContain("event: resync");
+    });
+  });
+});
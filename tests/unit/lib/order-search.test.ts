@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+
+import { OrderSearchSchema } from "@/lib/db/models/order";
+import { buildOrderSearchQuery } from "@/lib/db/queries/orders";
+import { SensitiveDataHandler } from "@/lib/utils/encryption";
+
+describe("Order search", () => {
+  describe("OrderSearchSchema", () => {
+    it("should coerce query string values and apply sort defaults", () => {
+      const filters = OrderSearchSchema.parse({
+        minAmount: "100",
+        startDate: "2026-01-01T00:00:00.000Z",
+      });
+
+      expect(filters.minAmount).toBe(100);
+      expect(filters.startDate).toBeInstanceOf(Date);
+      expect(filters.sortBy).toBe("createdAt");
+      expect(filters.sortOrder).toBe("desc");
+    });
+
+    it("should reject sorting by a non-indexed field", () => {
+      expect(OrderSearchSchema.safeParse({ sortBy: "vpa" }).success).toBe(
+        false
+      );
+    });
+
+    it("should reject inverted amount and date ranges", () => {
+      expect(
+        OrderSearchSchema.safeParse({ minAmount: "500", maxAmount: "100" })
+          .success
+      ).toBe(false);
+      expect(
+        OrderSearchSchema.safeParse({
+          startDate: "2026-02-01",
+          endDate: "2026-01-01",
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe("buildOrderSearchQuery", () => {
+    it("should return an empty filter when nothing is set", () => {
+      expect(buildOrderSearchQuery()).toEqual({});
+    });
+
+    it("should build range and exact match conditions", () => {
+      const startDate = new Date("2026-01-01");
+      const query = buildOrderSearchQuery({
+        status: "completed",
+        createdBy: "user_1",
+        minAmount: 100,
+        maxAmount: 500,
+        startDate,
+      });
+
+      expect(query).toEqual({
+        status: "completed",
+        createdBy: "user_1",
+        amount: { $gte: 100, $lte: 500 },
+        createdAt: { $gte: startDate },
+      });
+    });
+
+    it("should match partial order IDs without interpreting regex syntax", () => {
+      const query = buildOrderSearchQuery({ orderId: "upi.1(" });
+      const pattern = query.orderId as RegExp;
+
+      expect(pattern.test("UPI.1(ABC")).toBe(true);
+      expect(pattern.test("UPIX1(ABC")).toBe(false);
+    });
+
+    it("should only match whole UTRs", () => {
+      const [byHash, byValue] = buildOrderSearchQuery({ utr: "123456789012" })
+        .$or as [{ utrHash: string }, { utr: RegExp }];
+
+      expect(byHash.utrHash).toBe(SensitiveDataHandler.hashUTR("123456789012"));
+      expect(byValue.utr.test("123456789012")).toBe(true);
+      expect(byValue.utr.test("1234567890123")).toBe(false);
+    });
+  });
+});
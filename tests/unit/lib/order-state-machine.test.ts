@@ -0,0 +1,139 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  assertOrderTransition,
+  canTransitionOrder,
+  getAllowedOrderTransitions,
+  OrderTransitionError,
+  OrderVersionConflictError,
+  TransitionableOrder,
+} from "@/lib/utils/order-state-machine";
+
+describe("Order state machine", () => {
+  const now = new Date("2025-01-01T10:00:00Z");
+
+  const buildOrder = (
+    overrides: Partial<TransitionableOrder> = {}
+  ): TransitionableOrder => ({
+    status: "pending",
+    amount: 500,
+    refundedAmount: 0,
+    expiresAt: new Date(now.getTime() + 60000),
+    ...overrides,
+  });
+
+  it("should let customers submit a UTR for an open order", () => {
+    expect(
+      canTransitionOrder(buildOrder(), "pending-verification", "customer", now)
+    ).toBe(true);
+  });
+
+  it("should not accept UTRs once the order has expired", () => {
+    const order = buildOrder({ expiresAt: new Date(now.getTime() - 1) });
+
+    expect(() =>
+      assertOrderTransition(
+        order,
+        "pending-verification",
+        { actor: "customer", utr: "ABC123456789" },
+        now
+      )
+    ).toThrow("Order has expired");
+  });
+
+  it("should never move a completed order back to pending", () => {
+    const order = buildOrder({ status: "completed" });
+
+    expect(canTransitionOrder(order, "pending", "admin", now)).toBe(false);
+    expect(() =>
+      assertOrderTransition(order, "pending", { actor: "admin" }, now)
+    ).toThrow(OrderTransitionError);
+  });
+
+  it("should only allow the listed actors", () => {
+    const order = buildOrder({ status: "pending-verification" });
+
+    expect(canTransitionOrder(order, "completed", "admin", now)).toBe(true);
+    expect(canTransitionOrder(order, "completed", "customer", now)).toBe(false);
+  });
+
+  it("should require a reason to fail an order", () => {
+    const order = buildOrder({ status: "pending-verification" });
+
+    expect(() =>
+      assertOrderTransition(order, "failed", { actor: "admin" }, now)
+    ).toThrow("requires: reason");
+    expect(() =>
+      assertOrderTransition(
+        order,
+        "failed",
+        { actor: "admin", reason: " " },
+        now
+      )
+    ).toThrow("requires: reason");
+    expect(
+      assertOrderTransition(
+        order,
+        "failed",
+        { actor: "admin", reason: "Payment not received" },
+        now
+      ).to
+    ).toBe("failed");
+  });
+
+  it("should require a UTR to move to pending-verification", () => {
+    expect(() =>
+      assertOrderTransition(
+        buildOrder(),
+        "pending-verification",
+        { actor: "customer" },
+        now
+      )
+    ).toThrow("requires: utr");
+  });
+
+  it("should only let jobs expire overdue orders", () => {
+    const open = buildOrder();
+    const overdue = buildOrder({ expiresAt: new Date(now.getTime() - 1) });
+
+    expect(canTransitionOrder(open, "expired", "system", now)).toBe(false);
+    expect(canTransitionOrder(overdue, "expired", "system", now)).toBe(true);
+    expect(canTransitionOrder(open, "expired", "admin", now)).toBe(true);
+  });
+
+  it("should pick the refund status from the refunded amount", () => {
+    const partial = buildOrder({ status: "completed", refundedAmount: 200 });
+    const full = buildOrder({ status: "completed", refundedAmount: 500 });
+
+    expect(getAllowedOrderTransitions(partial, "admin", now)).toEqual([
+      "partially-refunded",
+    ]);
+    expect(getAllowedOrderTransitions(full, "admin", now)).toEqual([
+      "refunded",
+    ]);
+  });
+
+  it("should treat failed and expired orders as final", () => {
+    for (const status of ["failed", "expired"] as const) {
+      expect(
+        getAllowedOrderTransitions(buildOrder({ status }), "admin", now)
+      ).toEqual([]);
+    }
+  });
+
+  it("should report stale versions as conflicts with the current order", () => {
+    const error = new OrderVersionConflictError({
+      orderId: "ORDER123",
+      status: "completed",
+      version: 3,
+    });
+
+    expect(error.statusCode).toBe(409);
+    expect(error.code).toBe("ORDER_VERSION_CONFLICT");
+    expect(error.details).toEqual({
+      order: { orderId: "ORDER123", status: "completed", version: 3 },
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+
+import Order from "@/lib/db/models/order";
+import {
+  PayerFieldsSchema,
+  buildPayerDetailsSchema,
+  hasPayerFields,
+} from "@/lib/utils/payer-details";
+
+describe("Payer details", () => {
+  describe("PayerFieldsSchema", () => {
+    it("should default every field to off", () => {
+      const fields = PayerFieldsSchema.parse({});
+
+      expect(fields).toEqual({
+        name: false,
+        phone: false,
+        email: false,
+        customFields: [],
+      });
+      expect(hasPayerFields(fields)).toBe(false);
+    });
+
+    it("should reject duplicate custom field labels", () => {
+      const result = PayerFieldsSchema.safeParse({
+        customFields: [{ label: "Roll number" }, { label: "roll number" }],
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("buildPayerDetailsSchema", () => {
+    const schema = buildPayerDetailsSchema({
+      name: true,
+      phone: true,
+      customFields: [
+        { label: "Roll number", required: true },
+        { label: "Section", required: false },
+      ],
+    });
+
+    it("should normalise phone numbers and drop fields not asked for", () => {
+      const details = schema.parse({
+        name: "  Asha Verma ",
+        phone: "+91 98765-43210",
+        email: "asha@example.com",
+        customFields: [{ label: "Roll number", value: "42" }],
+      });
+
+      expect(details).toEqual({
+        name: "Asha Verma",
+        phone: "+919876543210",
+        customFields: [{ label: "Roll number", value: "42" }],
+      });
+    });
+
+    it("should require every mandatory field", () => {
+      const result = schema.safeParse({
+        name: "Asha",
+        phone: "12345",
+        customFields: [{ label: "Section", value: "B" }],
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        const messages = result.error.errors.map((issue) => issue.message);
+        expect(messages).toContain("Enter a valid 10-digit mobile number");
+        expect(messages).toContain("Roll number is required");
+      }
+    });
+  });
+
+  describe("Order.needsPayerDetails", () => {
+    const buildOrder = (overrides: Record<string, any> = {}) =>
+      new Order({
+        orderId: "UPI123",
+        amount: 100,
+        merchantName: "Test",
+        vpa: "test@upi",
+        createdBy: "user_1",
+        expiresAt: new Date(Date.now() + 60000),
+        paymentPageUrl: "/pay/UPI123",
+        upiDeepLink: "upi://pay",
+        ...overrides,
+      });
+
+    it("should only require details when the merchant asked for them", () => {
+      expect(buildOrder().needsPayerDetails()).toBe(false);
+      expect(
+        buildOrder({ payerFields: { email: true } }).needsPayerDetails()
+      ).toBe(true);
+    });
+
+    it("should be satisfied once details are submitted", () => {
+      const order = buildOrder({
+        payerFields: { customFields: [{ label: "Roll number" }] },
+        payerDetails: {
+          customFields: [{ label: "Roll number", value: "42" }],
+          submittedAt: new Date(),
+        },
+      });
+
+      expect(order.needsPayerDetails()).toBe(false);
+      expect(order.payerFields?.customFields?.[0].required).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+
+import PaymentLink, {
+  CreatePaymentLinkSchema,
+} from "@/lib/db/models/payment-link";
+
+describe("Payment links", () => {
+  const buildLink = (overrides: Record<string, any> = {}) =>
+    new PaymentLink({
+      slug: "corner-shop",
+      title: "Corner Shop",
+      merchantName: "Corner Shop",
+      vpa: "shop@upi",
+      amountType: "open",
+      createdBy: "user_1",
+      ...overrides,
+    });
+
+  describe("PaymentLink.isUsable", () => {
+    it("should be usable while active, unexpired and under the cap", () => {
+      expect(buildLink().isUsable()).toBe(true);
+      expect(buildLink({ usageLimit: 3, usageCount: 2 }).isUsable()).toBe(
+        true
+      );
+    });
+
+    it("should not be usable once the usage cap is reached", () => {
+      expect(buildLink({ usageLimit: 3, usageCount: 3 }).isUsable()).toBe(
+        false
+      );
+    });
+
+    it("should not be usable when expired or disabled", () => {
+      expect(
+        buildLink({ expiresAt: new Date(Date.now() - 1000) }).isUsable()
+      ).toBe(false);
+      expect(buildLink({ active: false }).isUsable()).toBe(false);
+    });
+  });
+
+  describe("PaymentLink.isAmountAllowed", () => {
+    it("should only accept the configured amount for fixed links", () => {
+      const link = buildLink({ amountType: "fixed", amount: 250 });
+      expect(link.isAmountAllowed(250)).toBe(true);
+      expect(link.isAmountAllowed(249)).toBe(false);
+    });
+
+    it("should enforce min/max bounds for open links", () => {
+      const link = buildLink({ minAmount: 100, maxAmount: 1000 });
+      expect(link.isAmountAllowed(100)).toBe(true);
+      expect(link.isAmountAllowed(1000)).toBe(true);
+      expect(link.isAmountAllowed(99)).toBe(false);
+      expect(link.isAmountAllowed(1001)).toBe(false);
+    });
+  });
+
+  describe("CreatePaymentLinkSchema", () => {
+    const validLink = {
+      slug: "corner-shop",
+      title: "Corner Shop",
+      merchantName: "Corner Shop",
+      vpa: "shop@upi",
+      amountType: "fixed",
+      amount: 250,
+      createdBy: "user_1",
+    };
+
+    it("should accept a valid fixed amount link", () => {
+      expect(() => CreatePaymentLinkSchema.parse(validLink)).not.toThrow();
+    });
+
+    it("should require an amount for fixed links", () => {
+      expect(() =>
+        CreatePaymentLinkSchema.parse({ ...validLink, amount: undefined })
+      ).toThrow();
+    });
+
+    it("should reject inverted bounds and invalid slugs", () => {
+      expect(() =>
+        CreatePaymentLinkSchema.parse({
+          ...validLink,
+          amountType: "open",
+          minAmount: 500,
+          maxAmount: 100,
+        })
+      ).toThrow();
+      expect(() =>
+        CreatePaymentLinkSchema.parse({ ...validLink, slug: "UPI123" })
+      ).toThrow();
+    });
+  });
+});
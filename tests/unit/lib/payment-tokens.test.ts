@@ -0,0 +1,138 @@
+import {
+  buildPaymentPagePath,
+  canAccessOrderWithSignature,
+  createPaymentToken,
+  readPaymentToken,
+  verifyPaymentToken,
+  verifyPaymentUrlSignature,
+  PAYMENT_TOKEN_MAX_TTL_MS,
+} from "@/lib/utils/payment-tokens";
+
+describe("Payment tokens", () => {
+  describe("payment tokens", () => {
+    const now = Date.UTC(2025, 0, 1, 10, 0, 0);
+    const orderExpiresAt = new Date(now + 9 * 60 * 1000);
+
+    it("should verify a token for the order it was issued for", () => {
+      const token = createPaymentToken("ORDER123", orderExpiresAt, now);
+
+      expect(verifyPaymentToken(token, "ORDER123", now)).toBe(true);
+    });
+
+    it("should reject a token for another order", () => {
+      const token = createPaymentToken("ORDER123", orderExpiresAt, now);
+
+      expect(verifyPaymentToken(token, "ORDER124", now)).toBe(false);
+    });
+
+    it("should expire with the order", () => {
+      const token = createPaymentToken("ORDER123", orderExpiresAt, now);
+
+      expect(
+        verifyPaymentToken(token, "ORDER123", orderExpiresAt.getTime() + 1000)
+      ).toBe(false);
+    });
+
+    it("should cap the lifetime of long-lived orders", () => {
+      const token = createPaymentToken(
+        "ORDER123",
+        new Date(now + 24 * 60 * 60 * 1000),
+        now
+      );
+
+      expect(
+        verifyPaymentToken(
+          token,
+          "ORDER123",
+          now + PAYMENT_TOKEN_MAX_TTL_MS - 1000
+        )
+      ).toBe(true);
+      expect(
+        verifyPaymentToken(
+          token,
+          "ORDER123",
+          now + PAYMENT_TOKEN_MAX_TTL_MS + 1000
+        )
+      ).toBe(false);
+    });
+
+    it("should reject tampered expiry times", () => {
+      const token = createPaymentToken("ORDER123", orderExpiresAt, now);
+      const [issuedAt, expiresAt, signature] = token.split(".");
+
+      expect(
+        verifyPaymentToken(
+          `${issuedAt}.${Number(expiresAt) + 3600}.${signature}`,
+          "ORDER123",
+          now
+        )
+      ).toBe(false);
+    });
+
+    it("should record when the token was issued", () => {
+      const token = createPaymentToken("ORDER123", orderExpiresAt, now);
+
+      expect(readPaymentToken(token, "ORDER123", now)).toEqual({
+        issuedAt: new Date(now),
+        expiresAt: orderExpiresAt,
+      });
+      expect(readPaymentToken(token, "ORDER124", now)).toBeNull();
+    });
+
+    it("should reject missing and malformed tokens", () => {
+      expect(verifyPaymentToken(null, "ORDER123", now)).toBe(false);
+      expect(verifyPaymentToken("", "ORDER123", now)).toBe(false);
+      expect(verifyPaymentToken("not-a-token", "ORDER123", now)).toBe(false);
+      expect(verifyPaymentToken("1.2.3", "ORDER123", now)).toBe(false);
+      expect(verifyPaymentToken("1.2.3.4", "ORDER123", now)).toBe(false);
+    });
+  });
+
+  describe("signed payment URLs", () => {
+    const signatureFor = (orderId: string) =>
+      new URL(
+        buildPaymentPagePath(orderId),
+        "http://localhost"
+      ).searchParams.get("sig");
+
+    it("should build a signed payment page path", () => {
+      const path = buildPaymentPagePath("ORDER123");
+
+      expect(path).toMatch(/^\/pay\/ORDER123\?sig=[A-Za-z0-9_-]{22}$/);
+      expect(
+        verifyPaymentUrlSignature("ORDER123", signatureFor("ORDER123"))
+      ).toBe(true);
+    });
+
+    it("should not accept one order's signature for another", () => {
+      expect(
+        verifyPaymentUrlSignature("ORDER124", signatureFor("ORDER123"))
+      ).toBe(false);
+    });
+
+    it("should reject tampered and missing signatures", () => {
+      const signature = signatureFor("ORDER123")!;
+      const tampered = (signature[0] === "A" ? "B" : "A") + signature.slice(1);
+
+      expect(verifyPaymentUrlSignature("ORDER123", tampered)).toBe(false);
+      expect(verifyPaymentUrlSignature("ORDER123", signature.slice(1))).toBe(
+        false
+      );
+      expect(verifyPaymentUrlSignature("ORDER123", undefined)).toBe(false);
+    });
+
+    it("should only allow unsigned links while legacy URLs are enabled", () => {
+      expect(canAccessOrderWithSignature("ORDER123", null, false)).toBe(false);
+      expect(canAccessOrderWithSignature("ORDER123", null, true)).toBe(true);
+    });
+
+    it("should refuse bad signatures even while legacy URLs are enabled", () => {
+      expect(canAccessOrderWithSignature("ORDER123", "forged", true)).toBe(
+        false
+      );
+      expect(
+        canAccessOrderWithSignature("ORDER123", signatureFor("ORDER123"), false)
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @jest-environment node
+ */
+
+import mongoose, { Schema } from "mongoose";
+import {
+  getProtectedPaths,
+  protectedFieldsPlugin,
+  redactProtectedFields,
+} from "@/lib/db/plugins/protected-fields";
+import {
+  hashForLookup,
+  isEncryptedValue,
+  isLookupHash,
+} from "@/lib/utils/encryption";
+
+const TestSchema = new Schema({
+  reference: String,
+  phone: { type: String, encrypted: true },
+  ip: { type: String, encrypted: true, lookup: "ipHash" },
+  ipHash: String,
+  deviceId: { type: String, hashed: true },
+  fields: [
+    {
+      _id: false,
+      label: String,
+      value: { type: String, encrypted: true },
+    },
+  ],
+});
+TestSchema.plugin(protectedFieldsPlugin);
+
+const TestModel = mongoose.model("ProtectedFieldsTest", TestSchema);
+
+describe("Protected fields", () => {
+  const buildDoc = () =>
+    new TestModel({
+      reference: "ORD-1",
+      phone: "9876543210",
+      ip: "203.0.113.7",
+      deviceId: "device-123",
+      fields: [{ label: "GSTIN", value: "29ABCDE1234F1Z5" }],
+    });
+
+  it("should find protected paths, including inside arrays", () => {
+    expect(getProtectedPaths(TestSchema)).toEqual([
+      { path: "phone", kind: "encrypted", lookup: undefined },
+      { path: "ip", kind: "encrypted", lookup: "ipHash" },
+      { path: "deviceId", kind: "hashed" },
+      { path: "fields.$.value", kind: "encrypted", lookup: undefined },
+    ]);
+  });
+
+  it("should store encrypted values and read them back decrypted", () => {
+    const doc = buildDoc();
+    const stored = doc.toObject();
+
+    expect(isEncryptedValue(stored.phone!)).toBe(true);
+    expect(isEncryptedValue(stored.fields[0].value!)).toBe(true);
+    expect(stored.reference).toBe("ORD-1");
+
+    expect(doc.phone).toBe("9876543210");
+    expect(doc.fields[0].value).toBe("29ABCDE1234F1Z5");
+  });
+
+  it("should not encrypt stored values twice", () => {
+    const doc = buildDoc();
+    const stored = doc.toObject().phone;
+
+    doc.set("phone", stored);
+
+    expect(doc.toObject().phone).toBe(stored);
+    expect(doc.phone).toBe("9876543210");
+  });
+
+  it("should only store the hash of hashed fields", () => {
+    const doc = buildDoc();
+
+    expect(doc.deviceId).toBe(hashForLookup("device-123"));
+    expect(isLookupHash(doc.deviceId!)).toBe(true);
+  });
+
+  it("should hash filters on hashed fields", () => {
+    const filter = TestModel.find({ deviceId: "device-123" }).cast();
+
+    expect(filter.deviceId).toBe(hashForLookup("device-123"));
+  });
+
+  it("should keep lookup hashes in step with their field", async () => {
+    const doc = buildDoc();
+    await doc.validate();
+
+    expect(doc.get("ipHash")).toBe(hashForLookup("203.0.113.7"));
+
+    doc.ip = "198.51.100.1";
+    await doc.validate();
+
+    expect(doc.get("ipHash")).toBe(hashForLookup("198.51.100.1"));
+  });
+
+  it("should reveal or mask values and drop hashes when redacting", async () => {
+    const doc = buildDoc();
+    await doc.validate();
+
+    const revealed = redactProtectedFields(TestSchema, doc.toObject(), {
+      reveal: true,
+    });
+    expect(revealed.phone).toBe("9876543210");
+    expect(revealed.fields[0].value).toBe("29ABCDE1234F1Z5");
+    expect(revealed).not.toHaveProperty("deviceId");
+    expect(revealed).not.toHaveProperty("ipHash");
+
+    const masked = redactProtectedFields(TestSchema, doc.toObject(), {
+      reveal: false,
+    });
+    expect(masked.phone).toBe("98******10");
+    expect(masked.ip).toBe("20*******.7");
+    expect(masked.fields[0].value).toBe("29***********Z5");
+  });
+
+  it("should show values that cannot be decrypted as ****", () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const redacted = redactProtectedFields(
+      TestSchema,
+      { phone: "enc:missing:aaaa:bbbb:cccc" },
+      { reveal: true }
+    );
+
+    expect(redacted.phone).toBe("****");
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from "next/server";
+import {
+  consumeSlidingWindow,
+  consumeTokenBucket,
+  getRateLimitHeaders,
+  MemoryRateLimitStore,
+  RateLimiter,
+} from "@/lib/utils/rate-limiter";
+import { resolveRateLimitPolicies } from "@/lib/utils/rate-limit-policies";
+
+describe("Rate limiter", () => {
+  const policy = { limit: 10, windowSeconds: 60 };
+  const windowStart = 1_800_000_000_000 - (1_800_000_000_000 % 60000);
+
+  const buildRequest = (headers: Record<string, string> = {}) =>
+    new NextRequest("http://localhost/api/orders", { headers });
+
+  describe("sliding window", () => {
+    it("should count requests within the current window", () => {
+      let state = null;
+      for (let i = 0; i < 10; i++) {
+        const outcome = consumeSlidingWindow(state, policy, windowStart + i);
+        expect(outcome.allowed).toBe(true);
+        expect(outcome.remaining).toBe(9 - i);
+        state = outcome.state;
+      }
+
+      const denied = consumeSlidingWindow(state, policy, windowStart + 10);
+      expect(denied.allowed).toBe(false);
+      expect(denied.remaining).toBe(0);
+      expect(denied.retryAfterMs).toBeGreaterThan(0);
+    });
+
+    it("should weight the previous window by how much still overlaps", () => {
+      const state = { windowStart, current: 10, previous: 0 };
+
+      // A quarter into the next window, 75% of the previous 10 still count
+      const quarterIn = windowStart + 60000 + 15000;
+      const outcome = consumeSlidingWindow(state, policy, quarterIn);
+      expect(outcome.allowed).toBe(true);
+      expect(outcome.remaining).toBe(1);
+      expect(outcome.state).toEqual({
+        windowStart: windowStart + 60000,
+        current: 1,
+        previous: 10,
+      });
+    });
+
+    it("should tell denied callers when the next request fits", () => {
+      const state = { windowStart, current: 10, previous: 0 };
+      const denied = consumeSlidingWindow(state, policy, windowStart + 30000);
+
+      // The next window starts at +60s and one slot frees up 10% into it
+      expect(denied.resetTime).toBe(windowStart + 66000);
+      expect(
+        consumeSlidingWindow(state, policy, denied.resetTime).allowed
+      ).toBe(true);
+    });
+
+    it("should forget windows older than the previous one", () => {
+      const state = { windowStart, current: 10, previous: 10 };
+      const outcome = consumeSlidingWindow(
+        state,
+        policy,
+        windowStart + 2 * 60000
+      );
+
+      expect(outcome.allowed).toBe(true);
+      expect(outcome.remaining).toBe(9);
+    });
+  });
+
+  describe("token bucket", () => {
+    it("should allow bursts up to the bucket size", () => {
+      let state = null;
+      for (let i = 0; i < 10; i++) {
+        const outcome = consumeTokenBucket(state, policy, windowStart);
+        expect(outcome.allowed).toBe(true);
+        state = outcome.state;
+      }
+
+      const denied = consumeTokenBucket(state, policy, windowStart);
+      expect(denied.allowed).toBe(false);
+      // Ten tokens a minute: one every six seconds
+      expect(denied.retryAfterMs).toBe(6000);
+    });
+
+    it("should refill over time without exceeding the bucket size", () => {
+      const empty = { tokens: 0, updatedAt: windowStart };
+
+      expect(
+        consumeTokenBucket(empty, policy, windowStart + 6000).allowed
+      ).toBe(true);
+      expect(
+        consumeTokenBucket(empty, policy, windowStart + 10 * 60000).remaining
+      ).toBe(9);
+    });
+  });
+
+  describe("RateLimiter", () => {
+    it("should share counts through the store", async () => {
+      const store = new MemoryRateLimitStore();
+      const config = { windowMs: 60000, maxRequests: 2 };
+      const first = new RateLimiter(
+        { ...config, name: "shared", keyGenerator: () => "a" },
+        { store }
+      );
+      const second = new RateLimiter(
+        { ...config, name: "shared", keyGenerator: () => "a" },
+        { store }
+      );
+
+      expect((await first.isAllowed(buildRequest())).allowed).toBe(true);
+      expect((await second.isAllowed(buildRequest())).allowed).toBe(true);
+      expect((await first.isAllowed(buildRequest())).allowed).toBe(false);
+    });
+
+    it("should count callers by the first forwarded IP", async () => {
+      const limiter = new RateLimiter(
+        { windowMs: 60000, maxRequests: 1 },
+        { store: new MemoryRateLimitStore() }
+      );
+
+      const fromClient = () =>
+        buildRequest({ "x-forwarded-for": "203.0.113.7, 10.0.0.1" });
+      expect((await limiter.isAllowed(fromClient())).allowed).toBe(true);
+      expect((await limiter.isAllowed(fromClient())).allowed).toBe(false);
+      expect(
+        (
+          await limiter.isAllowed(
+            buildRequest({ "x-forwarded-for": "203.0.113.8, 10.0.0.1" })
+          )
+        ).allowed
+      ).toBe(true);
+    });
+
+    it("should count users separately and fall back to the IP", async () => {
+      const limiter = new RateLimiter(
+        { windowMs: 60000, maxRequests: 1, keyBy: "user" },
+        { store: new MemoryRateLimitStore() }
+      );
+
+      expect(
+        (await limiter.isAllowed(buildRequest(), { userId: "user_1" })).allowed
+      ).toBe(true);
+      expect(
+        (await limiter.isAllowed(buildRequest(), { userId: "user_2" })).allowed
+      ).toBe(true);
+      expect(
+        (await limiter.isAllowed(buildRequest(), { userId: "user_1" })).allowed
+      ).toBe(false);
+      expect((await limiter.isAllowed(buildRequest())).allowed).toBe(true);
+    });
+
+    it("should let requests through when the store fails", async () => {
+      const limiter = new RateLimiter(
+        { windowMs: 60000, maxRequests: 1 },
+        {
+          store: {
+            get: async () => {
+              throw new Error("store down");
+            },
+            compareAndSet: async () => true,
+          },
+        }
+      );
+      jest.spyOn(console, "error").mockImplementation(() => {});
+
+      expect((await limiter.isAllowed(buildRequest())).allowed).toBe(true);
+    });
+  });
+
+  it("should describe the quota in RateLimit headers", () => {
+    const headers = getRateLimitHeaders({
+      allowed: false,
+      limit: 5,
+      remaining: 0,
+      resetTime: Date.now() + 30000,
+      retryAfterMs: 30000,
+      policy: {
+        algorithm: "sliding-window",
+        limit: 5,
+        windowSeconds: 300,
+        keyBy: "ip",
+      },
+    });
+
+    expect(headers).toEqual({
+      "RateLimit-Limit": "5",
+      "RateLimit-Remaining": "0",
+      "RateLimit-Reset": "30",
+      "RateLimit-Policy": "5;w=300",
+      "Retry-After": "30",
+    });
+  });
+
+  it("should apply saved policy overrides on top of the defaults", () => {
+    const policies = resolveRateLimitPolicies({ admin: { limit: 100 } });
+
+    expect(policies.admin.limit).toBe(100);
+    expect(policies.admin.algorithm).toBe("token-bucket");
+    expect(policies.general.limit).toBe(60);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment node
+ */
+
+import { createReceiptQrCode, renderReceiptPdf } from "@/lib/utils/receipt-pdf";
+
+describe("Receipt PDF", () => {
+  const receipt = {
+    title: "Payment Receipt",
+    merchantName: "Test (Store)",
+    amount: "INR 500.00",
+    rows: [{ label: "UTR", value: "AB********12" }],
+  };
+
+  it("should produce a PDF whose xref offsets point at each object", () => {
+    const pdf = renderReceiptPdf(receipt).toString("latin1");
+
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe("xref");
+
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) =>
+      Number(m[1])
+    );
+    expect(offsets).toHaveLength(6);
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it("should escape PDF string delimiters in text", () => {
+    const pdf = renderReceiptPdf(receipt).toString("latin1");
+    expect(pdf).toContain("(Test \\(Store\\)) Tj");
+  });
+
+  it("should draw the QR code without fetching it", () => {
+    const originalFetch = global.fetch;
+    global.fetch = jest.fn();
+    const qrCode = createReceiptQrCode(
+      "https://pay.example.com/pay/UPI123?sig=abc"
+    );
+    const pdf = renderReceiptPdf({ ...receipt, qrCode }).toString("latin1");
+
+    expect(qrCode.size).toBeGreaterThanOrEqual(21);
+    expect(qrCode.modules).toHaveLength(qrCode.size * qrCode.size);
+    expect(pdf).toMatch(/^0 g\n[\d. ]+ re\n/m);
+    expect(pdf).not.toContain("/XObject");
+    expect(global.fetch).not.toHaveBeenCalled();
+    global.fetch = originalFetch;
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * @jest-environment node
+ */
+
+import Order from "@/lib/db/models/order";
+import AuditLog from "@/lib/db/models/audit-log";
+import Refund, {
+  CreateRefundSchema,
+  ProcessRefundSchema,
+} from "@/lib/db/models/refund";
+import {
+  createRefund,
+  processRefund,
+  rejectRefund,
+} from "@/lib/db/queries/refunds";
+import { transitionOrder } from "@/lib/db/queries/orders";
+import { OrderVersionConflictError } from "@/lib/utils/order-state-machine";
+
+jest.mock("@/lib/db/connection");
+jest.mock("@/lib/db/queries/orders");
+
+describe("Refunds", () => {
+  const buildOrder = (overrides: Record<string, any> = {}) =>
+    new Order({
+      orderId: "UPI123",
+      amount: 500,
+      merchantName: "Test Store",
+      vpa: "store@upi",
+      createdBy: "user_1",
+      expiresAt: new Date(Date.now() + 60000),
+      paymentPageUrl: "/pay/UPI123",
+      upiDeepLink: "upi://pay",
+      ...overrides,
+    });
+
+  describe("Order.canRefund", () => {
+    it("should allow refunds for completed orders", () => {
+      expect(buildOrder({ status: "completed" }).canRefund()).toBe(true);
+    });
+
+    it("should allow further refunds while a balance remains", () => {
+      expect(
+        buildOrder({
+          status: "partially-refunded",
+          refundedAmount: 200,
+        }).canRefund()
+      ).toBe(true);
+      expect(
+        buildOrder({
+          status: "partially-refunded",
+          refundedAmount: 500,
+        }).canRefund()
+      ).toBe(false);
+    });
+
+    it("should not allow refunds for unpaid orders", () => {
+      expect(buildOrder({ status: "pending" }).canRefund()).toBe(false);
+      expect(buildOrder({ status: "pending-verification" }).canRefund()).toBe(
+        false
+      );
+      expect(buildOrder({ status: "refunded" }).canRefund()).toBe(false);
+    });
+  });
+
+  describe("validation schemas", () => {
+    it("should reject non-positive refund amounts", () => {
+      expect(() =>
+        CreateRefundSchema.parse({
+          orderId: "UPI123",
+          amount: 0,
+          reason: "Customer request",
+          requestedBy: "admin_1",
+        })
+      ).toThrow();
+    });
+
+    it("should require a 12 character refund UTR", () => {
+      expect(ProcessRefundSchema.safeParse({ refundUtr: "123" }).success).toBe(
+        false
+      );
+      expect(
+        ProcessRefundSchema.safeParse({ refundUtr: "412345678901" }).success
+      ).toBe(true);
+    });
+  });
+
+  describe("requesting a refund", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should not reserve more than the order amount when requested at once", async () => {
+      // Stands in for the orders collection, applying the conditional
+      // reservation atomically like MongoDB does
+      const stored = { amount: 500, refundReservedAmount: 0 };
+      jest.spyOn(Order, "exists").mockResolvedValue(null);
+      jest
+        .spyOn(Order, "findByOrderId")
+        .mockImplementation(async () =>
+          buildOrder({ status: "completed", ...stored })
+        );
+      jest.spyOn(Order, "findOneAndUpdate").mockImplementation((async (
+        _filter: any,
+        update: any
+      ) => {
+        const amount = update.$inc.refundReservedAmount;
+        if (stored.refundReservedAmount + amount > stored.amount) {
+          return null;
+        }
+        stored.refundReservedAmount += amount;
+        return buildOrder({ status: "completed", ...stored });
+      }) as any);
+      jest
+        .spyOn(Refund, "create")
+        .mockImplementation((async (doc: any) => doc) as any);
+      jest.spyOn(AuditLog, "logAction").mockResolvedValue(undefined);
+
+      const request = {
+        orderId: "UPI123",
+        amount: 300,
+        reason: "Customer request",
+        requestedBy: "admin_1",
+      };
+      const results = await Promise.allSettled([
+        createRefund(request),
+        createRefund(request),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual([
+        "fulfilled",
+        "rejected",
+      ]);
+      expect(Refund.create).toHaveBeenCalledTimes(1);
+      expect(stored.refundReservedAmount).toBe(300);
+    });
+  });
+
+  describe("settling a refund", () => {
+    const requested = { refundId: "RFD1", orderId: "UPI123", amount: 200 };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      // Only the first settle finds the refund still requested
+      jest
+        .spyOn(Refund, "findOneAndUpdate")
+        .mockResolvedValueOnce({ ...requested, status: "processed" } as any)
+        .mockResolvedValue(null);
+      jest
+        .spyOn(Refund, "findByRefundId")
+        .mockResolvedValue({ ...requested, status: "processed" } as any);
+      jest
+        .spyOn(Order, "findOneAndUpdate")
+        .mockResolvedValue(buildOrder({ refundedAmount: 200 }) as any);
+      jest
+        .spyOn(Order, "findByOrderId")
+        .mockResolvedValue(
+          buildOrder({ status: "completed", refundedAmount: 200 }) as any
+        );
+      jest.spyOn(AuditLog, "logAction").mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should only count a refund once when processed twice at once", async () => {
+      const results = await Promise.allSettled([
+        processRefund("RFD1", "412345678901", "admin_1"),
+        processRefund("RFD1", "412345678901", "admin_1"),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual([
+        "fulfilled",
+        "rejected",
+      ]);
+      expect(Refund.findOneAndUpdate).toHaveBeenCalledWith(
+        { refundId: "RFD1", status: "requested" },
+        expect.anything(),
+        expect.anything()
+      );
+      expect(Order.findOneAndUpdate).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not reject a refund that was already settled", async () => {
+      await processRefund("RFD1", "412345678901", "admin_1");
+
+      await expect(
+        rejectRefund("RFD1", "Duplicate", "admin_1")
+      ).rejects.toThrow("Refund is already processed");
+    });
+
+    it("should retry the status update when another refund settles first", async () => {
+      (transitionOrder as jest.Mock)
+        .mockRejectedValueOnce(
+          new OrderVersionConflictError({
+            orderId: "UPI123",
+            status: "completed",
+            version: 1,
+          })
+        )
+        .mockResolvedValueOnce(undefined);
+
+      await processRefund("RFD1", "412345678901", "admin_1");
+
+      expect(transitionOrder).toHaveBeenCalledTimes(2);
+      expect(transitionOrder).toHaveBeenLastCalledWith(
+        expect.anything(),
+        "partially-refunded",
+        expect.objectContaining({ reason: "refund_processed" })
+      );
+      expect(AuditLog.logAction).toHaveBeenCalledWith(
+        "refund_processed",
+        "order",
+        "admin_1",
+        expect.anything()
+      );
+    });
+
+    it("should put the refund back when it would exceed the order amount", async () => {
+      (Order.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+      jest.spyOn(Order, "exists").mockResolvedValue({ _id: "order" } as any);
+      jest.spyOn(Refund, "updateOne").mockResolvedValue({} as any);
+
+      await expect(
+        processRefund("RFD1", "412345678901", "admin_1")
+      ).rejects.toThrow("exceeds the order's unrefunded balance");
+      expect(Refund.updateOne).toHaveBeenCalledWith(
+        { refundId: "RFD1", status: "processed" },
+        expect.objectContaining({ $set: { status: "requested" } })
+      );
+      expect(transitionOrder).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ */
+
+import {
+  RetentionCriteriaSchema,
+  RetentionRuleSchema,
+} from "@/lib/db/models/retention-rule";
+import {
+  buildAnonymizeUpdate,
+  buildAuditPruneUpdate,
+  buildRetentionFilter,
+  describeRetentionRule,
+  PURGE_AUDIT_ACTION,
+} from "@/lib/utils/retention";
+
+describe("Data retention", () => {
+  const now = new Date("2026-06-30T00:00:00.000Z");
+
+  describe("buildRetentionFilter", () => {
+    it("should match orders older than the cutoff with the given statuses", () => {
+      const filter = buildRetentionFilter(
+        {
+          entity: "orders",
+          statuses: ["expired", "failed"],
+          olderThanDays: 30,
+          mode: "delete",
+        },
+        now
+      );
+
+      expect(filter).toEqual({
+        createdAt: { $lt: new Date("2026-05-31T00:00:00.000Z") },
+        status: { $in: ["expired", "failed"] },
+      });
+    });
+
+    it("should never match purge records in audit log rules", () => {
+      expect(
+        buildRetentionFilter(
+          { entity: "auditLogs", olderThanDays: 365, mode: "delete" },
+          now
+        ).action
+      ).toEqual({ $ne: PURGE_AUDIT_ACTION });
+
+      expect(
+        buildRetentionFilter(
+          {
+            entity: "auditLogs",
+            actions: ["logout", PURGE_AUDIT_ACTION],
+            olderThanDays: 365,
+            mode: "delete",
+          },
+          now
+        ).action
+      ).toEqual({ $in: ["logout"] });
+    });
+
+    it("should only match records that still hold personal data when anonymizing", () => {
+      const filter = buildRetentionFilter(
+        { entity: "sessions", olderThanDays: 7, mode: "anonymize" },
+        now
+      );
+
+      expect(filter.lastActivityAt).toEqual({
+        $lt: new Date("2026-06-23T00:00:00.000Z"),
+      });
+      expect(filter.$or).toEqual([
+        { ipAddress: { $exists: true } },
+        { userAgent: { $exists: true } },
+        { device: { $exists: true } },
+      ]);
+    });
+  });
+
+  it("should strip IPs, user agents and payer details but keep amounts", () => {
+    const update = buildAnonymizeUpdate("orders");
+
+    expect(Object.keys(update.$unset)).toEqual(
+      expect.arrayContaining([
+        "payerName",
+        "payerDetails.phone",
+        "metadata.customerIP",
+        "metadata.utrSubmissionUserAgent",
+      ])
+    );
+    expect(update.$unset).not.toHaveProperty("amount");
+    expect(update.$unset).not.toHaveProperty("utr");
+  });
+
+  it("should prune audit logs to stubs that keep the chain fields", () => {
+    const filter = buildRetentionFilter(
+      { entity: "auditLogs", olderThanDays: 365, mode: "delete" },
+      now
+    );
+    const update = buildAuditPruneUpdate(now);
+
+    expect(filter.prunedAt).toEqual({ $exists: false });
+    expect(update.$set).toEqual({ prunedAt: now });
+    expect(Object.keys(update.$unset)).toEqual(
+      expect.arrayContaining(["details", "ipAddress", "userId"])
+    );
+    expect(update.$unset).not.toHaveProperty("hash");
+    expect(update.$unset).not.toHaveProperty("timestamp");
+  });
+
+  it("should describe rules in plain words", () => {
+    expect(
+      describeRetentionRule({
+        entity: "orders",
+        statuses: ["expired"],
+        olderThanDays: 30,
+        mode: "delete",
+      })
+    ).toBe("Delete expired orders after 30 days");
+    expect(
+      describeRetentionRule({
+        entity: "auditLogs",
+        olderThanDays: 1,
+        mode: "anonymize",
+      })
+    ).toBe("Anonymize audit logs after 1 day");
+  });
+
+  describe("RetentionRuleSchema", () => {
+    it("should apply defaults", () => {
+      const rule = RetentionRuleSchema.parse({
+        name: "Expired orders",
+        entity: "orders",
+        olderThanDays: 30,
+        mode: "delete",
+      });
+
+      expect(rule.statuses).toEqual([]);
+      expect(rule.enabled).toBe(true);
+    });
+
+    it("should reject filters that do not belong to the entity", () => {
+      expect(
+        RetentionCriteriaSchema.safeParse({
+          entity: "sessions",
+          statuses: ["expired"],
+          olderThanDays: 30,
+          mode: "delete",
+        }).success
+      ).toBe(false);
+      expect(
+        RetentionCriteriaSchema.safeParse({
+          entity: "orders",
+          actions: ["logout"],
+          olderThanDays: 30,
+          mode: "delete",
+        }).success
+      ).toBe(false);
+    });
+
+    it("should reject ages outside 1 to 3650 days", () => {
+      expect(
+        RetentionCriteriaSchema.safeParse({
+          entity: "sessions",
+          olderThanDays: 0,
+          mode: "delete",
+        }).success
+      ).toBe(false);
+    });
+  });
+});
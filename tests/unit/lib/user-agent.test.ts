@@ -0,0 +1,40 @@
+import { describeDevice } from "@/lib/utils/user-agent";
+
+describe("User agent descriptions", () => {
+  it("should name the browser and platform", () => {
+    expect(
+      describeDevice(
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36"
+      )
+    ).toBe("Chrome on Windows");
+    expect(
+      describeDevice(
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1"
+      )
+    ).toBe("Safari on iPhone");
+    expect(
+      describeDevice(
+        "Mozilla/5.0 (Macintosh; Intel Mac OS X 14.4; rv:125.0) Gecko/20100101 Firefox/125.0"
+      )
+    ).toBe("Firefox on macOS");
+  });
+
+  it("should not mistake Chromium-based browsers for Chrome", () => {
+    expect(
+      describeDevice(
+        "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0"
+      )
+    ).toBe("Edge on Windows");
+    expect(
+      describeDevice(
+        "Mozilla/5.0 (Linux; Android 14; SM-S918B) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/24.0 Chrome/117.0.0.0 Mobile Safari/537.36"
+      )
+    ).toBe("Samsung Internet on Android");
+  });
+
+  it("should fall back for missing or unrecognised agents", () => {
+    expect(describeDevice(undefined)).toBe("Unknown device");
+    expect(describeDevice("unknown")).toBe("Unknown device");
+    expect(describeDevice("curl/8.4.0")).toBe("Unknown device");
+  });
+});
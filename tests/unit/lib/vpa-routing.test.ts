@@ -0,0 +1,110 @@
+/**
+ * @jest-environment node
+ */
+
+import { UpdateVpaRoutingSchema } from "@/lib/db/models/merchant-profile";
+import {
+  isHourInWindow,
+  selectVpa,
+  RoutableVpa,
+  VpaRoutingRules,
+} from "@/lib/utils/vpa-routing";
+
+describe("UPI ID routing", () => {
+  const vpas: RoutableVpa[] = [
+    { vpa: "main@upi", isDefault: true, verified: true },
+    { vpa: "large@upi", isDefault: false, verified: true },
+    { vpa: "pending@upi", isDefault: false, verified: false },
+  ];
+
+  const rules = (overrides: Partial<VpaRoutingRules>): VpaRoutingRules => ({
+    strategy: "default",
+    amountBands: [],
+    timeWindows: [],
+    ...overrides,
+  });
+
+  describe("isHourInWindow", () => {
+    it("should treat the end hour as exclusive", () => {
+      expect(isHourInWindow(9, 9, 18)).toBe(true);
+      expect(isHourInWindow(18, 9, 18)).toBe(false);
+    });
+
+    it("should wrap windows past midnight", () => {
+      expect(isHourInWindow(23, 22, 6)).toBe(true);
+      expect(isHourInWindow(3, 22, 6)).toBe(true);
+      expect(isHourInWindow(12, 22, 6)).toBe(false);
+    });
+  });
+
+  describe("selectVpa", () => {
+    it("should return undefined without verified UPI IDs", () => {
+      expect(
+        selectVpa([vpas[2]], rules({ strategy: "round-robin" }), {
+          amount: 100,
+        })
+      ).toBeUndefined();
+    });
+
+    it("should route by amount band and fall back to the default", () => {
+      const amountRules = rules({
+        strategy: "amount",
+        amountBands: [{ minAmount: 5000, maxAmount: 100000, vpa: "large@upi" }],
+      });
+
+      expect(selectVpa(vpas, amountRules, { amount: 7500 })).toBe("large@upi");
+      expect(selectVpa(vpas, amountRules, { amount: 100 })).toBe("main@upi");
+    });
+
+    it("should skip rules that point at unverified UPI IDs", () => {
+      const amountRules = rules({
+        strategy: "amount",
+        amountBands: [{ minAmount: 0, maxAmount: 100000, vpa: "pending@upi" }],
+      });
+
+      expect(selectVpa(vpas, amountRules, { amount: 100 })).toBe("main@upi");
+    });
+
+    it("should route by time of day in IST", () => {
+      const timeRules = rules({
+        strategy: "time",
+        timeWindows: [{ startHour: 22, endHour: 6, vpa: "large@upi" }],
+      });
+
+      // 17:30 UTC is 23:00 IST
+      expect(
+        selectVpa(vpas, timeRules, {
+          amount: 100,
+          now: new Date("2024-01-15T17:30:00Z"),
+        })
+      ).toBe("large@upi");
+      expect(
+        selectVpa(vpas, timeRules, {
+          amount: 100,
+          now: new Date("2024-01-15T06:30:00Z"),
+        })
+      ).toBe("main@upi");
+    });
+
+    it("should rotate through verified UPI IDs round-robin", () => {
+      const roundRobin = rules({ strategy: "round-robin" });
+
+      expect(
+        [0, 1, 2, 3].map((counter) =>
+          selectVpa(vpas, roundRobin, { amount: 100, counter })
+        )
+      ).toEqual(["main@upi", "large@upi", "main@upi", "large@upi"]);
+    });
+  });
+
+  describe("UpdateVpaRoutingSchema", () => {
+    it("should reject inverted amount bands", () => {
+      const result = UpdateVpaRoutingSchema.safeParse({
+        strategy: "amount",
+        amountBands: [{ minAmount: 500, maxAmount: 100, vpa: "main@upi" }],
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * @jest-environment node
+ */
+
+import { promises as dns } from "dns";
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  deliverWebhook,
+  checkWebhookDestination,
+  isBlockedWebhookAddress,
+} from "@/lib/utils/webhooks";
+import WebhookEndpoint from "@/lib/db/models/webhook-endpoint";
+import WebhookDelivery from "@/lib/db/models/webhook-delivery";
+import {
+  createWebhookEndpoint,
+  emitOrderEvent,
+  updateWebhookEndpoint,
+} from "@/lib/db/queries/webhooks";
+
+jest.mock("dns", () => ({ promises: { lookup: jest.fn() } }));
+jest.mock("@/lib/db/connection");
+
+const mockLookup = dns.lookup as unknown as jest.Mock;
+
+const resolvesTo = (...addresses: string[]) =>
+  mockLookup.mockResolvedValue(
+    addresses.map((address) => ({
+      address,
+      family: address.includes(":") ? 6 : 4,
+    }))
+  );
+
+describe("Webhook Utilities", () => {
+  const secret = "whsec_test_secret_value";
+  const body = JSON.stringify({ id: "evt_1", event: "order.completed" });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resolvesTo("93.184.215.14");
+  });
+
+  describe("signWebhookPayload", () => {
+    it("should produce a timestamped sha256 signature", () => {
+      const signature = signWebhookPayload(secret, 1700000000, body);
+
+      expect(signature).toMatch(/^t=1700000000,v1=[a-f0-9]{64}$/);
+      expect(signWebhookPayload(secret, 1700000000, body)).toBe(signature);
+    });
+
+    it("should change when the body or secret changes", () => {
+      const signature = signWebhookPayload(secret, 1700000000, body);
+
+      expect(signWebhookPayload(secret, 1700000000, body + " ")).not.toBe(
+        signature
+      );
+      expect(signWebhookPayload("other", 1700000000, body)).not.toBe(signature);
+    });
+  });
+
+  describe("verifyWebhookSignature", () => {
+    it("should accept a fresh valid signature", () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const header = signWebhookPayload(secret, timestamp, body);
+
+      expect(verifyWebhookSignature(secret, header, body)).toBe(true);
+    });
+
+    it("should reject tampered bodies and stale timestamps", () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const header = signWebhookPayload(secret, timestamp, body);
+      const staleHeader = signWebhookPayload(secret, timestamp - 3600, body);
+
+      expect(verifyWebhookSignature(secret, header, "{}")).toBe(false);
+      expect(verifyWebhookSignature(secret, staleHeader, body)).toBe(false);
+      expect(verifyWebhookSignature(secret, "garbage", body)).toBe(false);
+    });
+  });
+
+  describe("generateWebhookSecret", () => {
+    it("should generate unique prefixed secrets", () => {
+      const first = generateWebhookSecret();
+
+      expect(first).toMatch(/^whsec_[a-f0-9]{48}$/);
+      expect(generateWebhookSecret()).not.toBe(first);
+    });
+  });
+
+  describe("isBlockedWebhookAddress", () => {
+    it.each([
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "::",
+      "fe80::1",
+      "fd00::1",
+      "::ffff:7f00:1",
+    ])("should block %s", (address) => {
+      expect(isBlockedWebhookAddress(address)).toBe(true);
+    });
+
+    it.each(["93.184.215.14", "8.8.8.8", "2606:4700::1111"])(
+      "should allow %s",
+      (address) => {
+        expect(isBlockedWebhookAddress(address)).toBe(false);
+      }
+    );
+  });
+
+  describe("checkWebhookDestination", () => {
+    it("should reject hosts that resolve to a private address", async () => {
+      resolvesTo("93.184.215.14", "169.254.169.254");
+
+      await expect(
+        checkWebhookDestination("https://metadata.example.com/hook")
+      ).resolves.toMatch(/169\.254\.169\.254/);
+    });
+
+    it("should check IP literals without a lookup", async () => {
+      await expect(
+        checkWebhookDestination("http://[::1]:8080/hook")
+      ).resolves.toMatch(/must not point/);
+      await expect(
+        checkWebhookDestination("http://0x7f.1/hook")
+      ).resolves.toMatch(/127\.0\.0\.1/);
+      expect(mockLookup).not.toHaveBeenCalled();
+    });
+
+    it("should accept hosts that resolve to public addresses", async () => {
+      await expect(
+        checkWebhookDestination("https://example.com/hook")
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe("deliverWebhook", () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it("should retry server errors and record each attempt", async () => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValueOnce({ ok: false, status: 503, text: async () => "" })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          text: async () => "ok",
+        });
+
+      const result = await deliverWebhook(
+        "https://example.com/hook",
+        secret,
+        { id: "evt_1", event: "order.completed" },
+        { baseDelay: 1 }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.attempts).toHaveLength(2);
+      expect(result.attempts[0].responseStatus).toBe(503);
+      expect(result.responseBody).toBe("ok");
+    });
+
+    it("should not retry client errors", async () => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValue({ ok: false, status: 400, text: async () => "bad" });
+
+      const result = await deliverWebhook(
+        "https://example.com/hook",
+        secret,
+        { id: "evt_1", event: "order.completed" },
+        { baseDelay: 1 }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.attempts).toHaveLength(1);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not POST to a host that now resolves to a private address", async () => {
+      global.fetch = jest.fn();
+      resolvesTo("127.0.0.1");
+
+      const result = await deliverWebhook(
+        "https://example.com/hook",
+        secret,
+        { id: "evt_1", event: "order.completed" },
+        { baseDelay: 1 }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.attempts).toHaveLength(1);
+      expect(result.attempts[0].error).toMatch(/must not point/);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("endpoint registration", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should refuse to register a private webhook URL", async () => {
+      const create = jest.spyOn(WebhookEndpoint, "create");
+      resolvesTo("192.168.1.10");
+
+      await expect(
+        createWebhookEndpoint({
+          url: "https://router.example.com/hook",
+          createdBy: "merchant-1",
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to move an endpoint to a local URL", async () => {
+      const update = jest.spyOn(WebhookEndpoint, "findOneAndUpdate");
+      resolvesTo("127.0.0.1", "::1");
+
+      await expect(
+        updateWebhookEndpoint("64b7f0c2a1b2c3d4e5f60718", "merchant-1", {
+          url: "http://localhost:3000/hook",
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      expect(update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("emitOrderEvent", () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+      jest.restoreAllMocks();
+    });
+
+    it("should store and send the UTR masked", async () => {
+      global.fetch = jest
+        .fn()
+        .mockResolvedValue({ ok: true, status: 200, text: async () => "" });
+      jest
+        .spyOn(WebhookEndpoint, "findActiveForEvent")
+        .mockResolvedValue([
+          { _id: "ep1", url: "https://example.com/hook", secret },
+        ] as any);
+      const create = jest
+        .spyOn(WebhookDelivery, "create")
+        .mockImplementation((async (doc: any) => ({
+          ...doc,
+          attempts: [],
+          save: jest.fn(),
+        })) as any);
+
+      await emitOrderEvent("order.utr_submitted", {
+        orderId: "UPI123",
+        status: "pending-verification",
+        createdBy: "merchant-1",
+        utr: "412345678901",
+      } as any);
+
+      const { payload } = create.mock.calls[0][0] as any;
+      expect(payload.data.utr).toBe("41********01");
+    });
+  });
+});